@@ -0,0 +1,95 @@
+/**
+ * Bake a poster still for every preset in src/lib/data/gradientPresets.ts
+ * into public/posters, using the CPU renderer, and list their keys in
+ * src/lib/engine/posterManifest.ts so only baked posters are requested.
+ *
+ * Runs before `next dev` and `next build` (npm run posters). GradientPlane
+ * shows the still while WebGL is off, inactive in the pool, or still loading.
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { deflateSync } from 'node:zlib'
+import { createJiti } from 'jiti'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const jiti = createJiti(import.meta.url, { alias: { '@': join(root, 'src') } })
+
+const presets = await jiti.import(join(root, 'src/lib/data/gradientPresets.ts'))
+const { renderGradientToPixels } = await jiti.import(join(root, 'src/lib/engine/cpuRenderer.ts'))
+const { posterKey, POSTER_DIR, POSTER_WIDTH, POSTER_HEIGHT } = await jiti.import(join(root, 'src/lib/engine/posters.ts'))
+
+// === PNG encoding (RGBA8, no filtering) ===
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes) {
+  let c = 0xffffffff
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function chunk(type, data) {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const out = Buffer.alloc(body.length + 8)
+  out.writeUInt32BE(data.length, 0)
+  body.copy(out, 4)
+  out.writeUInt32BE(crc32(body), body.length + 4)
+  return out
+}
+
+function encodePng(pixels, width, height) {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 6 // RGBA
+
+  const rowBytes = width * 4
+  const raw = Buffer.alloc((rowBytes + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw[y * (rowBytes + 1)] = 0 // filter: none
+    Buffer.from(pixels.buffer, y * rowBytes, rowBytes).copy(raw, y * (rowBytes + 1) + 1)
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+// === Bake ===
+
+const outDir = join(root, 'public', POSTER_DIR)
+rmSync(outDir, { recursive: true, force: true })
+mkdirSync(outDir, { recursive: true })
+
+const keys = new Set()
+for (const [name, preset] of Object.entries(presets)) {
+  if (typeof preset !== 'object' || preset === null) continue
+
+  // Grain is left out — at poster size it would be stretched into blotches
+  const pixels = renderGradientToPixels(preset, POSTER_WIDTH, POSTER_HEIGHT, { grain: false })
+  writeFileSync(join(outDir, `${posterKey(preset)}.png`), encodePng(pixels, POSTER_WIDTH, POSTER_HEIGHT))
+  console.log(`[bake-posters] ${name} → ${POSTER_DIR}/${posterKey(preset)}.png`)
+  keys.add(posterKey(preset))
+}
+
+const manifest = `/**
+ * Keys of the posters in public/posters — written by scripts/bake-posters.mjs,
+ * don't edit. posterUrl() only points at these.
+ */
+
+export const BAKED_POSTER_KEYS: ReadonlySet<string> = new Set([
+${[...keys].sort().map((key) => `  '${key}',`).join('\n')}
+])
+`
+writeFileSync(join(root, 'src/lib/engine/posterManifest.ts'), manifest)
+console.log(`[bake-posters] Baked ${keys.size} posters`)
@@ -24,6 +24,21 @@ import {
   HERO_GRADIENT,
   HERO_STAGE_MID,
   HERO_STAGE_FG,
+  FOUNDATIONS_GRADIENT,
+  TELL_CLAUDE_GRADIENT,
+  HOW_CODE_LIVES_GRADIENT,
+  SETUP_GRADIENT,
+  TOOLS_GRADIENT,
+  BEFORE_YOU_START_GRADIENT,
+  PHASE1_IDEA_GRADIENT,
+  PHASE2_RESEARCH_GRADIENT,
+  PHASE3_SPEC_GRADIENT,
+  PHASE4_PLAN_GRADIENT,
+  BUILDING_GRADIENT,
+  PHASE6_DEPLOY_GRADIENT,
+  PHASE7_MAINTENANCE_GRADIENT,
+  COMFORT_GRADIENT,
+  GLOSSARY_GRADIENT,
 } from '@/lib/data/gradientPresets'
 
 export default function Home() {
@@ -97,6 +112,8 @@ export default function Home() {
         bridgeColor="#680300"
         incomingDeep="#150B49"
         fallbackColor="#592D11"
+        fromPreset={HERO_GRADIENT}
+        toPreset={FOUNDATIONS_GRADIENT}
       />
 
       {/* ================================================================
@@ -112,6 +129,8 @@ export default function Home() {
         bridgeColor="#006653"
         incomingDeep="#091410"
         fallbackColor="#150B49"
+        fromPreset={FOUNDATIONS_GRADIENT}
+        toPreset={TELL_CLAUDE_GRADIENT}
       />
 
       {/* ================================================================
@@ -127,6 +146,8 @@ export default function Home() {
         bridgeColor="#480C79"
         incomingDeep="#150B49"
         fallbackColor="#091410"
+        fromPreset={TELL_CLAUDE_GRADIENT}
+        toPreset={HOW_CODE_LIVES_GRADIENT}
       />
 
       {/* ================================================================
@@ -142,6 +163,8 @@ export default function Home() {
         bridgeColor="#680300"
         incomingDeep="#592D11"
         fallbackColor="#150B49"
+        fromPreset={HOW_CODE_LIVES_GRADIENT}
+        toPreset={SETUP_GRADIENT}
       />
 
       {/* ================================================================
@@ -157,6 +180,8 @@ export default function Home() {
         bridgeColor="#1C3C3D"
         incomingDeep="#122526"
         fallbackColor="#592D11"
+        fromPreset={SETUP_GRADIENT}
+        toPreset={TOOLS_GRADIENT}
       />
 
       {/* ================================================================
@@ -172,6 +197,8 @@ export default function Home() {
         bridgeColor="#8F0300"
         incomingDeep="#680300"
         fallbackColor="#122526"
+        fromPreset={TOOLS_GRADIENT}
+        toPreset={BEFORE_YOU_START_GRADIENT}
       />
 
       {/* ================================================================
@@ -187,6 +214,8 @@ export default function Home() {
         bridgeColor="#F5241F"
         incomingDeep="#680300"
         fallbackColor="#680300"
+        fromPreset={BEFORE_YOU_START_GRADIENT}
+        toPreset={PHASE1_IDEA_GRADIENT}
       />
 
       {/* ================================================================
@@ -202,6 +231,8 @@ export default function Home() {
         bridgeColor="#006653"
         incomingDeep="#122526"
         fallbackColor="#680300"
+        fromPreset={PHASE1_IDEA_GRADIENT}
+        toPreset={PHASE2_RESEARCH_GRADIENT}
       />
 
       {/* ================================================================
@@ -217,6 +248,8 @@ export default function Home() {
         bridgeColor="#480C79"
         incomingDeep="#150B49"
         fallbackColor="#122526"
+        fromPreset={PHASE2_RESEARCH_GRADIENT}
+        toPreset={PHASE3_SPEC_GRADIENT}
       />
 
       {/* ================================================================
@@ -232,6 +265,8 @@ export default function Home() {
         bridgeColor="#680300"
         incomingDeep="#592D11"
         fallbackColor="#150B49"
+        fromPreset={PHASE3_SPEC_GRADIENT}
+        toPreset={PHASE4_PLAN_GRADIENT}
       />
 
       {/* ================================================================
@@ -247,6 +282,8 @@ export default function Home() {
         bridgeColor="#1B0C6F"
         incomingDeep="#150B49"
         fallbackColor="#592D11"
+        fromPreset={PHASE4_PLAN_GRADIENT}
+        toPreset={BUILDING_GRADIENT}
       />
 
       {/* ================================================================
@@ -262,6 +299,8 @@ export default function Home() {
         bridgeColor="#006653"
         incomingDeep="#091410"
         fallbackColor="#150B49"
+        fromPreset={BUILDING_GRADIENT}
+        toPreset={PHASE6_DEPLOY_GRADIENT}
       />
 
       {/* ================================================================
@@ -277,6 +316,8 @@ export default function Home() {
         bridgeColor="#41AAAE"
         incomingDeep="#122526"
         fallbackColor="#091410"
+        fromPreset={PHASE6_DEPLOY_GRADIENT}
+        toPreset={PHASE7_MAINTENANCE_GRADIENT}
       />
 
       {/* ================================================================
@@ -292,6 +333,8 @@ export default function Home() {
         bridgeColor="#DCA14C"
         incomingDeep="#592D11"
         fallbackColor="#122526"
+        fromPreset={PHASE7_MAINTENANCE_GRADIENT}
+        toPreset={COMFORT_GRADIENT}
       />
 
       {/* ================================================================
@@ -307,6 +350,8 @@ export default function Home() {
         bridgeColor="#969696"
         incomingDeep="#F9F9F9"
         fallbackColor="#592D11"
+        fromPreset={COMFORT_GRADIENT}
+        toPreset={GLOSSARY_GRADIENT}
       />
 
       {/* ================================================================
@@ -1,40 +1,34 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState, type CSSProperties } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties, type RefObject } from 'react'
 import { GradientEngine } from '@/lib/engine/GradientEngine'
-import { applyFullStateToEngine } from '@/lib/engine/standaloneRenderer'
+import { posterUrl } from '@/lib/engine/posters'
+import { WorkerPlane, canTransferCanvas, supportsWorkerRendering } from '@/lib/engine/worker/WorkerPlane'
+import { isBuiltinGradientType } from '@/lib/engine/gradientTypes'
+import type { QualitySettings, QualityTier } from '@/lib/engine/QualityGovernor'
+import type { MaskGlowSettings, MaskSource } from '@/lib/engine/masks'
+import type { LayerSettings } from '@/lib/engine/GradientLayer'
 import { useGradientPool } from '@/lib/hooks/useGradientPool'
 import { useReducedMotion } from '@/lib/hooks/useReducedMotion'
+import { DEFAULT_LOOP_DURATION, type GradientAnimationConfig } from '@/lib/animation/ambient'
+import type { ScrollBinding } from '@/lib/animation/scrollBindings'
+import { animationClock, type ClockFrame } from '@/lib/animation/clock'
+import { PlaneAnimator, type PlaneAnimationOptions } from '@/lib/animation/planeAnimator'
+import type { GradientPresetData } from '@/types/gradient'
 
-/**
- * Animation configuration for ambient gradient movement.
- * Subset of GradientLab's full AnimationConfig — only what we need.
- */
-export interface GradientAnimationConfig {
-  rotationAmount?: number       // Degrees of rotation oscillation
-  rotationSpeed?: number        // Speed multiplier (0-2)
-  rotationMode?: 'oscillate' | 'continuous'
-  scaleAmount?: number          // Percent of scale breathing
-  scaleSpeed?: number           // Speed multiplier (0-2)
-  movementAmount?: number       // Percent of position drift
-  movementSpeed?: number        // Speed multiplier (0-2)
-  movementPattern?: 'drift' | 'orbit' | 'pendulum'
-  loopDuration?: number         // Base cycle duration in seconds
-  intensity?: number            // Overall intensity multiplier (0-200)
-}
+export type { GradientAnimationConfig } from '@/lib/animation/ambient'
 
 /**
  * Gradient state — the data that defines what the gradient looks like.
- * This is a loose type that matches the shape applyFullStateToEngine expects.
- * See src/types/gradient.ts for the full typed version.
+ * Any preset version is accepted; applyFullStateToEngine migrates and
+ * normalizes it. See src/types/gradient.ts for the preset shapes.
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type GradientPreset = Record<string, any>
+export type GradientPreset = GradientPresetData
 
 interface GradientPlaneProps {
   /** Gradient state data — passed directly to applyFullStateToEngine */
   preset: GradientPreset
-  /** Optional animation config for ambient movement */
+  /** Optional animation config for ambient movement. A preset's own timeline plays alongside it. */
   animation?: GradientAnimationConfig
   /** Whether this gradient should animate. Default: true if animation config provided */
   animate?: boolean
@@ -44,8 +38,54 @@ interface GradientPlaneProps {
   style?: CSSProperties
   /** Whether to show a fallback background color if WebGL fails */
   fallbackColor?: string
+  /**
+   * Still shown (over fallbackColor) until WebGL renders, or instead of it.
+   * Default: the preset's baked poster; null for none.
+   */
+  poster?: string | null
   /** Whether to participate in engine pooling. Default: true */
   pooled?: boolean
+  /** Override paths scrubbed by `scrollProgress` */
+  scrollBindings?: ScrollBinding[]
+  /** Current scroll progress (0-1), usually written by the parent section's ScrollTrigger */
+  scrollProgress?: RefObject<number>
+  /** Second preset to morph `preset` into, driven by `morphProgress` */
+  morphTo?: GradientPreset
+  /** Morph progress (0 = preset, 1 = morphTo) */
+  morphProgress?: RefObject<number>
+  /** Quality tier, or 'auto' to adapt to frame times. Default: 'auto' */
+  quality?: QualityTier | 'auto'
+  /** Called when the rendered quality tier changes */
+  onQualityChange?: (tier: QualityTier, settings: QualitySettings) => void
+  /**
+   * Render in a Web Worker through OffscreenCanvas, off the main thread.
+   * Falls back to main-thread rendering where that's unsupported, and for
+   * registered gradient types, which the worker doesn't know. Default: false
+   */
+  worker?: boolean
+  /**
+   * Show the gradient only inside a mask — display type or an SVG shape,
+   * see lib/engine/masks — with the page showing through elsewhere. Called
+   * with the container on init, on every resize and through `maskRefresh`;
+   * resolve to undefined when the mask hasn't changed since the last call
+   * (see TextMask) to skip the re-upload. No fallback or poster is drawn,
+   * and masked planes always render on the main thread.
+   */
+  mask?: (container: HTMLElement) => MaskSource | null | undefined | Promise<MaskSource | null | undefined>
+  /** Soft halo around the mask */
+  maskGlow?: MaskGlowSettings
+  /**
+   * Set by the plane to a function that re-rasterizes the mask on the next
+   * frame — for masks whose content moves without resizing, like tweened
+   * headline lines. Null while the plane has no engine.
+   */
+  maskRefresh?: RefObject<(() => void) | null>
+  /**
+   * Gradients stacked over `preset` in this plane's own engine and canvas,
+   * instead of more planes stacked with CSS — see GradientEngine.setLayers().
+   * Main thread only: `worker` is ignored while layers are set.
+   */
+  layers?: LayerSettings[]
 }
 
 /** Default subtle ambient animation */
@@ -90,12 +130,20 @@ export const EDITORIAL_DRIFT: GradientAnimationConfig = {
   intensity: 60,
 }
 
+/** Current scroll and morph progress for a frame */
+function sampleProgress(scrollProgress?: RefObject<number>, morphProgress?: RefObject<number>) {
+  return { scrollProgress: scrollProgress?.current, morphProgress: morphProgress?.current }
+}
+
 /**
  * GradientPlane — renders a live WebGL gradient using the GradientLab engine.
  *
  * Canvas is rendered directly in JSX (matching GradientLab's LiveGradient pattern)
  * so the browser computes layout dimensions before the engine initializes.
  *
+ * With `worker`, the canvas is transferred to the gradient worker and this
+ * component only sends it presets, sizes and per-frame scroll/morph progress.
+ *
  * Usage:
  * ```tsx
  * <GradientPlane
@@ -112,21 +160,37 @@ export function GradientPlane({
   className = '',
   style,
   fallbackColor = '#090D10',
+  poster,
   pooled = true,
+  scrollBindings,
+  scrollProgress,
+  morphTo,
+  morphProgress,
+  quality = 'auto',
+  onQualityChange,
+  worker = false,
+  mask,
+  maskGlow,
+  maskRefresh,
+  layers,
 }: GradientPlaneProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const engineRef = useRef<GradientEngine | null>(null)
-  const animationFrameRef = useRef<number | null>(null)
+  const workerPlaneRef = useRef<WorkerPlane | null>(null)
   const mountedRef = useRef(true)
-  const timeRef = useRef(0)
-  const baselineAngle = useRef(0)
-  const baselineScale = useRef(1)
-  const baselineCenterX = useRef(50)
-  const baselineCenterY = useRef(50)
+  // Latest mask callback, read on init and resize, and the last mask it gave
+  const maskRef = useRef(mask)
+  const maskSourceRef = useRef<MaskSource | null>(null)
 
   const [isLoaded, setIsLoaded] = useState(false)
+  // Canvas fully faded in — the fallback behind it is dropped so transparent
+  // gradients show the page instead of the poster
+  const [isRevealed, setIsRevealed] = useState(false)
   const [webglFailed, setWebglFailed] = useState(false)
+  const [workerFailed, setWorkerFailed] = useState(false)
+  // Bumped to mount a fresh canvas — one handed to the worker can't be used again
+  const [canvasKey, setCanvasKey] = useState(0)
   const prefersReduced = useReducedMotion()
 
   // Engine pooling — only active instances get WebGL rendering
@@ -136,21 +200,50 @@ export function GradientPlane({
   // Disable animation loop when user prefers reduced motion
   const shouldAnimate = animate && !prefersReduced
 
+  // Worker mode falls back to the main thread when it fails
+  const usesRegisteredType = [preset, morphTo].some(
+    (p) => p?.gradientType !== undefined && !isBuiltinGradientType(p.gradientType)
+  )
+  const useWorker = worker && !workerFailed && !mask && !layers && !usesRegisteredType
+  const isMasked = !!mask
+
   const config = animation ?? SUBTLE_BREATHE
+  const animationOptions = useMemo<PlaneAnimationOptions>(
+    () => ({ animation: config, scrollBindings, morphTo }),
+    [config, scrollBindings, morphTo]
+  )
+  const [animator] = useState(() => new PlaneAnimator(animationOptions))
+
+  const posterImage = useMemo(() => {
+    const url = poster === undefined ? posterUrl(preset) : poster
+    return url ? `url(${url})` : undefined
+  }, [poster, preset])
+  // A rectangle of fallback would show around masked shapes
+  const fallbackStyle: CSSProperties = isMasked ? {} : {
+    backgroundColor: fallbackColor,
+    backgroundImage: posterImage,
+    backgroundSize: 'cover',
+    backgroundPosition: 'center',
+  }
+
+  useEffect(() => {
+    maskRef.current = mask
+  }, [mask])
 
   // Initialize / teardown engine based on pool activation
   useEffect(() => {
     if (!shouldRender) {
       // Pool says we're inactive — dispose engine if it exists
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current)
-        animationFrameRef.current = null
+      if (workerPlaneRef.current) {
+        workerPlaneRef.current.dispose()
+        workerPlaneRef.current = null
       }
       if (engineRef.current) {
         try { engineRef.current.dispose() } catch { /* ignore */ }
         engineRef.current = null
       }
       setIsLoaded(false)
+      setIsRevealed(false)
       return
     }
 
@@ -159,18 +252,65 @@ export function GradientPlane({
     const container = containerRef.current
     if (!canvas || !container) return
 
+    const offscreen = useWorker && supportsWorkerRendering()
+    if (offscreen && !canTransferCanvas(canvas)) {
+      setCanvasKey((key) => key + 1)
+      return
+    }
+
     mountedRef.current = true
     let isCleanedUp = false
     let initTimeoutId: ReturnType<typeof setTimeout> | null = null
     let resizeObserver: ResizeObserver | undefined
+    let maskRequest = 0
+    let maskRefreshId: number | null = null
+    let maskedEngine: GradientEngine | null = null
+
+    // Masks may rasterize asynchronously (fonts loading); only the latest request lands
+    const updateMask = async (engine: GradientEngine) => {
+      const createMask = maskRef.current
+      if (!createMask) return
+      const request = ++maskRequest
+      const source = await createMask(container)
+      if (isCleanedUp || request !== maskRequest || engineRef.current !== engine) return
+      // Unchanged: only an engine that doesn't have it yet needs an upload
+      if (source === undefined && maskedEngine === engine) return
+      if (source !== undefined) maskSourceRef.current = source
+      engine.setMask(maskSourceRef.current)
+      maskedEngine = engine
+      engine.render()
+    }
+
+    // Refreshes coalesce to one rasterization per frame
+    if (maskRefresh) {
+      maskRefresh.current = () => {
+        if (maskRefreshId !== null || isCleanedUp) return
+        maskRefreshId = requestAnimationFrame(() => {
+          maskRefreshId = null
+          if (!engineRef.current) return
+          updateMask(engineRef.current).catch((error) => {
+            console.warn('[GradientPlane] Mask update failed:', error)
+          })
+        })
+      }
+    }
 
     const updateSize = () => {
-      if (!container || !engineRef.current || isCleanedUp) return
+      if (!container || isCleanedUp) return
       try {
         const rect = container.getBoundingClientRect()
         if (rect.width > 0 && rect.height > 0) {
-          engineRef.current.handleResize(Math.floor(rect.width), Math.floor(rect.height))
-          engineRef.current.render()
+          const width = Math.floor(rect.width)
+          const height = Math.floor(rect.height)
+          if (workerPlaneRef.current) {
+            workerPlaneRef.current.handleResize(width, height)
+          } else if (engineRef.current) {
+            engineRef.current.handleResize(width, height)
+            engineRef.current.render()
+            updateMask(engineRef.current).catch((error) => {
+              console.warn('[GradientPlane] Mask update failed:', error)
+            })
+          }
         }
       } catch (error) {
         console.warn('[GradientPlane] Resize error:', error)
@@ -188,41 +328,49 @@ export function GradientPlane({
         return
       }
 
+      const width = Math.floor(rect.width)
+      const height = Math.floor(rect.height)
+
+      if (offscreen) {
+        // The worker sizes and draws the transferred canvas itself
+        const plane = new WorkerPlane(canvas, width, height, preset, animationOptions)
+        plane.setStatusCallbacks(
+          () => {
+            if (mountedRef.current && !isCleanedUp) setIsLoaded(true)
+          },
+          (message) => {
+            console.warn('[GradientPlane] Worker rendering failed, using the main thread:', message)
+            if (!mountedRef.current || isCleanedUp) return
+            setWorkerFailed(true)
+            setCanvasKey((key) => key + 1)
+          }
+        )
+        workerPlaneRef.current = plane
+        return
+      }
+
       try {
-        // Create engine from the JSX canvas ref
+        // Create engine from the JSX canvas ref — all planes share one WebGL context
         if (!engineRef.current) {
-          engineRef.current = new GradientEngine(canvas)
+          engineRef.current = new GradientEngine(canvas, { shared: true })
         }
 
-        const width = Math.floor(rect.width)
-        const height = Math.floor(rect.height)
-
-        // Set canvas pixel dimensions
-        canvas.width = width
-        canvas.height = height
-
-        // Set size and apply state
-        engineRef.current.handleResize(width, height)
-        applyFullStateToEngine(engineRef.current, preset)
-        baselineAngle.current = preset.angle ?? 0
-        baselineScale.current = 1.0
-        baselineCenterX.current = 50
-        baselineCenterY.current = 50
-        engineRef.current.render()
-
-        if (mountedRef.current && !isCleanedUp) {
-          setIsLoaded(true)
-        }
-
-        // Multiple ensure-renders for reliability (matches GradientLab pattern)
-        const ensureRender = () => {
-          if (isCleanedUp || !engineRef.current) return
-          updateSize()
-          engineRef.current.render()
-        }
-        setTimeout(ensureRender, 50)
-        setTimeout(ensureRender, 100)
-        setTimeout(ensureRender, 200)
+        // Set size and apply state; the engine sizes the canvas in device pixels
+        const engine = engineRef.current
+        engine.handleResize(width, height)
+        animator.applyPreset(engine, preset)
+        engine.render()
+
+        // Masked planes stay hidden until the mask is in, or they'd flash a full rectangle
+        updateMask(engine)
+          .then(() => {
+            if (mountedRef.current && !isCleanedUp) setIsLoaded(true)
+          })
+          .catch((error) => {
+            console.warn('[GradientPlane] Mask failed:', error)
+            if (mountedRef.current && !isCleanedUp) setWebglFailed(true)
+          })
+        // Later layout changes arrive through the ResizeObserver; render() skips unchanged frames
       } catch (error) {
         console.warn('[GradientPlane] WebGL init failed:', error)
         if (mountedRef.current) setWebglFailed(true)
@@ -243,31 +391,30 @@ export function GradientPlane({
       isCleanedUp = true
       mountedRef.current = false
       if (initTimeoutId !== null) clearTimeout(initTimeoutId)
+      if (maskRefreshId !== null) cancelAnimationFrame(maskRefreshId)
+      if (maskRefresh) maskRefresh.current = null
       window.removeEventListener('resize', updateSize)
       resizeObserver?.disconnect()
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current)
-
+      if (workerPlaneRef.current) {
+        workerPlaneRef.current.dispose()
+        workerPlaneRef.current = null
+      }
       if (engineRef.current) {
         try { engineRef.current.dispose() } catch { /* ignore */ }
         engineRef.current = null
       }
     }
-  }, [shouldRender]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [shouldRender, useWorker, canvasKey]) // eslint-disable-line react-hooks/exhaustive-deps
 
   // Apply preset changes
   useEffect(() => {
-    if (!engineRef.current || !preset) return
+    if (!preset) return
+    if (workerPlaneRef.current) {
+      workerPlaneRef.current.applyPreset(preset)
+      return
+    }
+    if (!engineRef.current) return
     try {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current)
-        animationFrameRef.current = null
-      }
-
-      const uniforms = engineRef.current.getUniforms()
-      if (uniforms.u_gradientScale) uniforms.u_gradientScale.value = 1.0
-      if (uniforms.centerX) uniforms.centerX.value = 0.5
-      if (uniforms.centerY) uniforms.centerY.value = 0.5
-
       if (containerRef.current) {
         const rect = containerRef.current.getBoundingClientRect()
         if (rect.width > 0 && rect.height > 0) {
@@ -275,105 +422,87 @@ export function GradientPlane({
         }
       }
 
-      applyFullStateToEngine(engineRef.current, preset)
-      baselineAngle.current = preset.angle ?? 0
-      baselineScale.current = 1.0
-      baselineCenterX.current = 50
-      baselineCenterY.current = 50
-      timeRef.current = performance.now() / 1000
+      animator.applyPreset(engineRef.current, preset)
       engineRef.current.render()
     } catch (error) {
       console.warn('[GradientPlane] Failed to apply preset:', error)
     }
-  }, [preset])
+  }, [animator, preset])
 
-  // Animation loop
-  const animateFrame = useCallback(() => {
-    if (!engineRef.current || !shouldAnimate) return
+  // Ambient config, scroll bindings and morph target
+  useEffect(() => {
+    animator.setOptions(animationOptions)
+    workerPlaneRef.current?.setOptions(animationOptions)
+  }, [animator, animationOptions])
 
+  // Per-tick uniform updates on the shared clock; rendering happens after every plane has updated
+  const updateFrame = useCallback(({ time, timestamp }: ClockFrame): boolean => {
     const engine = engineRef.current
-    const uniforms = engine.getUniforms()
-    const now = performance.now() / 1000
-
-    const intensityMult = (config.intensity ?? 100) / 100
-    const baseDuration = config.loopDuration ?? 6
-
-    const oscillate = (t: number, period: number, amplitude: number) =>
-      Math.sin(t * (Math.PI * 2) / period) * amplitude
-
-    // Rotation
-    const rotationAmount = config.rotationAmount ?? 0
-    if (rotationAmount > 0) {
-      const rotationSpeed = config.rotationSpeed ?? 1
-      const duration = baseDuration / rotationSpeed
-      const amplitude = rotationAmount * intensityMult
-
-      if (config.rotationMode === 'continuous') {
-        engine.setAngle(baselineAngle.current + (now * rotationSpeed * 30) % 360)
-      } else {
-        engine.setAngle(baselineAngle.current + oscillate(now, duration, amplitude))
-      }
-    }
+    if (!engine || !shouldAnimate) return false
 
-    // Scale
-    const scaleAmount = config.scaleAmount ?? 0
-    if (scaleAmount > 0 && uniforms.u_gradientScale) {
-      const scaleSpeed = config.scaleSpeed ?? 1
-      const duration = baseDuration / scaleSpeed
-      const scaleRange = baselineScale.current * (scaleAmount / 100) * intensityMult
-      uniforms.u_gradientScale.value = baselineScale.current + oscillate(now, duration, scaleRange)
-    }
+    // Lower quality tiers cap the frame rate
+    if (!engine.sampleFrame(timestamp)) return false
 
-    // Movement
-    const movementAmount = config.movementAmount ?? 0
-    if (movementAmount > 0) {
-      const moveSpeed = config.movementSpeed ?? 1
-      const duration = baseDuration / moveSpeed
-      const moveRange = (movementAmount / 100) * 20 * intensityMult
-
-      let offsetX = 0
-      let offsetY = 0
-      const pattern = config.movementPattern ?? 'drift'
-
-      switch (pattern) {
-        case 'drift':
-          offsetX = oscillate(now, duration, moveRange)
-          offsetY = oscillate(now, duration * 1.3, moveRange * 0.7)
-          break
-        case 'orbit':
-          offsetX = Math.cos(now * (Math.PI * 2) / duration) * moveRange
-          offsetY = Math.sin(now * (Math.PI * 2) / duration) * moveRange
-          break
-        case 'pendulum':
-          offsetX = oscillate(now, duration, moveRange)
-          offsetY = 0
-          break
-      }
+    animator.update(engine, { time, ...sampleProgress(scrollProgress, morphProgress) })
+    return true
+  }, [shouldAnimate, animator, scrollProgress, morphProgress])
 
-      if (uniforms.centerX) {
-        uniforms.centerX.value = (baselineCenterX.current + offsetX) / 100
-      }
-      if (uniforms.centerY) {
-        uniforms.centerY.value = (baselineCenterY.current + offsetY) / 100
-      }
-    }
+  // Loop-locked configs also make the shader clocks repeat every loopDuration
+  useEffect(() => {
+    const target = workerPlaneRef.current ?? engineRef.current
+    if (!isLoaded || !target) return
+    target.setLoopDuration(
+      config.loopLocked ? config.loopDuration ?? DEFAULT_LOOP_DURATION : null
+    )
+  }, [isLoaded, config])
+
+  useEffect(() => {
+    if (!isLoaded || !engineRef.current) return
+    engineRef.current.setMaskGlow(maskGlow ?? null)
+    engineRef.current.render()
+  }, [isLoaded, maskGlow])
+
+  useEffect(() => {
+    if (!isLoaded || !engineRef.current) return
+    engineRef.current.setLayers(layers ?? [])
+    engineRef.current.render()
+  }, [isLoaded, layers])
+
+  // Quality tier and its listener
+  useEffect(() => {
+    const target = workerPlaneRef.current ?? engineRef.current
+    if (!isLoaded || !target) return
+    target.setQuality(quality)
+    target.setQualityCallback(onQualityChange ?? null)
+    return () => target.setQualityCallback(null)
+  }, [isLoaded, quality, onQualityChange])
+
+  // Without the animation loop (reduced motion, `animate` off) the morph still
+  // follows its progress: the clock only re-blends and renders when it moves
+  useEffect(() => {
+    if (!isLoaded || shouldAnimate || !morphTo || !morphProgress || workerPlaneRef.current) return
 
-    engine.render()
-    animationFrameRef.current = requestAnimationFrame(animateFrame)
-  }, [shouldAnimate, config])
+    return animationClock.subscribe({
+      update: () => !!engineRef.current && animator.applyMorph(engineRef.current, morphProgress.current),
+      render: () => engineRef.current?.render(),
+    })
+  }, [isLoaded, shouldAnimate, animator, morphTo, morphProgress])
 
   // Start/stop animation
   useEffect(() => {
     if (!isLoaded || !shouldAnimate) return
 
-    animationFrameRef.current = requestAnimationFrame(animateFrame)
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current)
-        animationFrameRef.current = null
-      }
+    const plane = workerPlaneRef.current
+    if (plane) {
+      plane.startAnimation(() => sampleProgress(scrollProgress, morphProgress))
+      return () => plane.stopAnimation()
     }
-  }, [isLoaded, shouldAnimate, animateFrame])
+
+    return animationClock.subscribe({
+      update: updateFrame,
+      render: () => engineRef.current?.render(),
+    })
+  }, [isLoaded, shouldAnimate, updateFrame, scrollProgress, morphProgress])
 
   if (webglFailed) {
     return (
@@ -381,7 +510,7 @@ export function GradientPlane({
         ref={containerRef}
         data-gradient-pool-id
         className={`overflow-hidden ${className}`}
-        style={{ backgroundColor: fallbackColor, ...style }}
+        style={{ ...fallbackStyle, ...style }}
       />
     )
   }
@@ -392,7 +521,7 @@ export function GradientPlane({
         ref={containerRef}
         data-gradient-pool-id
         className={`overflow-hidden ${className}`}
-        style={{ backgroundColor: fallbackColor, ...style }}
+        style={{ ...fallbackStyle, ...style }}
       />
     )
   }
@@ -404,10 +533,11 @@ export function GradientPlane({
       className={`overflow-hidden ${className}`}
       style={{
         ...style,
-        backgroundColor: fallbackColor,
+        ...(isLoaded && isRevealed ? null : fallbackStyle),
       }}
     >
       <canvas
+        key={canvasKey}
         ref={canvasRef}
         style={{
           position: 'absolute',
@@ -418,6 +548,7 @@ export function GradientPlane({
           opacity: isLoaded ? 1 : 0,
           transition: 'opacity 0.5s ease',
         }}
+        onTransitionEnd={() => setIsRevealed(isLoaded)}
       />
     </div>
   )
@@ -6,6 +6,7 @@ import { useReducedMotion } from '@/lib/hooks/useReducedMotion'
 import { GradientPlane, EDITORIAL_DRIFT, SUBTLE_BREATHE } from '@/components/gradient/GradientPlane'
 import type { GradientPreset } from '@/components/gradient/GradientPlane'
 import { createBreathGradient } from '@/lib/data/gradientPresets'
+import type { ScrollBinding } from '@/lib/animation/scrollBindings'
 
 interface BreathProps {
   /** Deepest color of the outgoing section */
@@ -20,6 +21,12 @@ interface BreathProps {
   id: string
   /** Custom gradient preset (overrides auto-generated) */
   preset?: GradientPreset
+  /** Outgoing and incoming sections' presets — when both are set, the Breath
+   *  morphs from one to the other as it scrolls through instead */
+  fromPreset?: GradientPreset
+  toPreset?: GradientPreset
+  /** Gradient parameters scrubbed across the section, e.g. 'effects.color.hueShift' */
+  scrollBindings?: ScrollBinding[]
 }
 
 /**
@@ -37,6 +44,10 @@ interface BreathProps {
  * - Parallax: Most pronounced — 2-3 gradient shapes at different depths
  * - Easing: Slowest (power1.out or sine.inOut)
  * - Layout: Full-bleed, no grid, no content
+ *
+ * With `fromPreset` and `toPreset` the palette change is a real morph: stop
+ * colors blend in OKLab, settings and effect amounts interpolate, and
+ * different gradient types crossfade, all scrubbed by scroll progress.
  */
 export function Breath({
   outgoingDeep,
@@ -45,17 +56,37 @@ export function Breath({
   fallbackColor,
   id,
   preset,
+  fromPreset,
+  toPreset,
+  scrollBindings,
 }: BreathProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const scrollProgress = useRef(0)
 
-  const breathPreset = preset ?? createBreathGradient(outgoingDeep, bridgeColor, incomingDeep)
+  const morphing = !!fromPreset && !!toPreset
+  const breathPreset = (morphing ? fromPreset : preset) ?? createBreathGradient(outgoingDeep, bridgeColor, incomingDeep)
+  const morphTo = morphing ? toPreset : undefined
   const fb = fallbackColor ?? bridgeColor
   const prefersReduced = useReducedMotion()
 
   // Parallax effect — gradient planes at different depths move at different speeds
   useEffect(() => {
     const el = containerRef.current
-    if (!el || prefersReduced) return
+    if (!el) return
+
+    // Reduced motion: no parallax, but the morph still follows the scroll position
+    if (prefersReduced) {
+      const trigger = ScrollTrigger.create({
+        trigger: el,
+        start: 'top bottom',
+        end: 'bottom top',
+        onUpdate: (self) => {
+          scrollProgress.current = self.progress
+        },
+      })
+      scrollProgress.current = trigger.progress
+      return () => { trigger.kill() }
+    }
 
     const bgPlane = el.querySelector('[data-breath-plane-bg]') as HTMLElement | null
     const fgPlane = el.querySelector('[data-breath-plane-fg]') as HTMLElement | null
@@ -63,6 +94,9 @@ export function Breath({
 
     // Background plane — moves slowest (~85% of scroll speed)
     const bgTl = gsap.timeline({
+      onUpdate: () => {
+        scrollProgress.current = bgTl.progress()
+      },
       scrollTrigger: {
         trigger: el,
         start: 'top bottom',
@@ -90,7 +124,7 @@ export function Breath({
       bgTl.kill()
       fgTl?.kill()
     }
-  }, [])
+  }, [prefersReduced])
 
   return (
     <section
@@ -111,6 +145,10 @@ export function Breath({
           animation={EDITORIAL_DRIFT}
           className="absolute inset-0"
           fallbackColor={fb}
+          scrollBindings={scrollBindings}
+          scrollProgress={scrollProgress}
+          morphTo={morphTo}
+          morphProgress={scrollProgress}
         />
       </div>
 
@@ -133,6 +171,10 @@ export function Breath({
           animation={SUBTLE_BREATHE}
           className="absolute inset-0"
           fallbackColor={fb}
+          scrollBindings={scrollBindings}
+          scrollProgress={scrollProgress}
+          morphTo={morphTo}
+          morphProgress={scrollProgress}
         />
       </div>
     </section>
@@ -1,7 +1,12 @@
 'use client'
 
-import { forwardRef } from 'react'
+import { forwardRef, useRef, type CSSProperties, type RefObject } from 'react'
+import { GradientPlane, type GradientAnimationConfig, type GradientPreset } from '@/components/gradient/GradientPlane'
+import { FONT_STYLES } from '@/lib/data/typography'
 import type { DisplayFont } from '@/lib/data/sections'
+import { posterUrl } from '@/lib/engine/posters'
+import type { MaskGlowSettings } from '@/lib/engine/masks'
+import { useTextMask } from '@/lib/hooks/useTextMask'
 
 interface DisplayTypeProps {
   /** The text to display */
@@ -14,27 +19,25 @@ interface DisplayTypeProps {
   gradientMask?: boolean
   /** Split text into lines — each line becomes a separate element for parallax */
   lines?: string[]
+  /**
+   * Fill the letterforms with this live WebGL gradient: a plane over the
+   * type's box, masked to the (wrapped) lines. Overrides `gradientMask`.
+   */
+  gradient?: GradientPreset
+  /** Ambient motion for `gradient` */
+  gradientAnimation?: GradientAnimationConfig
+  /** Type color behind the gradient's poster, and without WebGL. Default: white */
+  fallbackColor?: string
+  /** Soft halo around gradient-filled type */
+  typeGlow?: MaskGlowSettings
+  /** Set to a function that redraws the mask — call it while the lines move */
+  maskRefresh?: RefObject<(() => void) | null>
 }
 
-/**
- * Font family CSS values for each display font.
- */
-const FONT_STYLES: Record<DisplayFont, { fontFamily: string; letterSpacing: string; lineHeight: string }> = {
-  tusker: {
-    fontFamily: 'var(--font-tusker)',
-    letterSpacing: '-0.03em',
-    lineHeight: '0.88',
-  },
-  'bt-super': {
-    fontFamily: 'var(--font-bt-super)',
-    letterSpacing: '0',
-    lineHeight: '0.92',
-  },
-  bulevar: {
-    fontFamily: 'var(--font-bulevar-poster)',
-    letterSpacing: '0',
-    lineHeight: '0.95',
-  },
+const CLIP_TO_TEXT: CSSProperties = {
+  WebkitBackgroundClip: 'text',
+  WebkitTextFillColor: 'transparent',
+  backgroundClip: 'text',
 }
 
 /**
@@ -46,64 +49,85 @@ const FONT_STYLES: Record<DisplayFont, { fontFamily: string; letterSpacing: stri
  *
  * When `lines` is provided, each line is rendered as a separate div
  * that can be individually targeted for parallax and assembly animation.
+ *
+ * With `gradient` the type shows a live gradient plane through its
+ * letterforms, as Takeover's `gradientType` does; the text itself stays
+ * real (transparent, selectable) and carries the preset's poster until
+ * the plane is in.
  */
 export const DisplayType = forwardRef<HTMLDivElement, DisplayTypeProps>(function DisplayType(
-  { text, font, className = '', gradientMask = false, lines },
+  {
+    text, font, className = '', gradientMask = false, lines,
+    gradient, gradientAnimation, fallbackColor = '#ffffff', typeGlow, maskRefresh,
+  },
   ref,
 ) {
+  const typeRef = useRef<HTMLDivElement>(null)
   const fontStyle = FONT_STYLES[font]
   const textCase = font === 'bulevar' ? '' : 'uppercase'
+  const poster = gradient ? posterUrl(gradient) : null
+
+  const createTypeMask = useTextMask(typeRef, font)
 
-  if (lines && lines.length > 0) {
-    return (
-      <div ref={ref} className={`${textCase} text-center ${className}`}>
+  const fill: CSSProperties = gradient
+    ? {
+        ...CLIP_TO_TEXT,
+        backgroundColor: fallbackColor,
+        backgroundImage: poster ? `url(${poster})` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }
+    : gradientMask
+      ? { ...CLIP_TO_TEXT, backgroundSize: '100% 100%' }
+      : {}
+  const typeStyle: CSSProperties = {
+    fontFamily: fontStyle.fontFamily,
+    fontSize: 'clamp(48px, 15vw, 200px)',
+    letterSpacing: fontStyle.letterSpacing,
+    lineHeight: fontStyle.lineHeight,
+    ...fill,
+  }
+
+  const type = lines && lines.length > 0
+    ? (
+      <div ref={gradient ? typeRef : ref} className={`${textCase} text-center ${className}`}>
         {lines.map((line, i) => (
           <div
             key={i}
             data-takeover-line={i}
             className="takeover-line"
-            style={{
-              fontFamily: fontStyle.fontFamily,
-              fontSize: 'clamp(48px, 15vw, 200px)',
-              letterSpacing: fontStyle.letterSpacing,
-              lineHeight: fontStyle.lineHeight,
-              ...(gradientMask
-                ? {
-                    WebkitBackgroundClip: 'text',
-                    WebkitTextFillColor: 'transparent',
-                    backgroundClip: 'text',
-                    backgroundSize: '100% 100%',
-                  }
-                : {}),
-            }}
+            style={typeStyle}
           >
             {line}
           </div>
         ))}
       </div>
     )
-  }
+    : (
+      <div
+        ref={gradient ? typeRef : ref}
+        className={`${textCase} text-center ${className}`}
+        style={typeStyle}
+      >
+        {text}
+      </div>
+    )
+
+  if (!gradient) return type
 
   return (
-    <div
-      ref={ref}
-      className={`${textCase} text-center ${className}`}
-      style={{
-        fontFamily: fontStyle.fontFamily,
-        fontSize: 'clamp(48px, 15vw, 200px)',
-        letterSpacing: fontStyle.letterSpacing,
-        lineHeight: fontStyle.lineHeight,
-        ...(gradientMask
-          ? {
-              WebkitBackgroundClip: 'text',
-              WebkitTextFillColor: 'transparent',
-              backgroundClip: 'text',
-              backgroundSize: '100% 100%',
-            }
-          : {}),
-      }}
-    >
-      {text}
+    <div ref={ref} className="relative">
+      {type}
+      <div data-display-type-fill className="absolute inset-0 pointer-events-none">
+        <GradientPlane
+          preset={gradient}
+          animation={gradientAnimation}
+          className="absolute inset-0"
+          mask={createTypeMask}
+          maskGlow={typeGlow}
+          maskRefresh={maskRefresh}
+        />
+      </div>
     </div>
   )
 })
@@ -7,6 +7,17 @@ import { StandardColumn, BodyText } from '@/components/editorial'
 import { PromptCard } from '@/components/interactive'
 import { PHASE1_IDEA_GRADIENT } from '@/lib/data/gradientPresets'
 import { DRAMATIC_BREATHE } from '@/components/gradient/GradientPlane'
+import type { ScrollBinding } from '@/lib/animation/scrollBindings'
+
+/**
+ * The aurora's wave settles as the headline assembles, the palette warms
+ * through the hold, and the wave stirs again on the way out
+ */
+const REPEAT_THE_PLAN_BINDINGS: ScrollBinding[] = [
+  { path: 'warp.wave.amplitude', from: 45, to: 15, range: 'assembly', easing: 'easeOut' },
+  { path: 'warp.wave.amplitude', from: 15, to: 35, range: 'release' },
+  { path: 'effects.color.hueShift', from: 0, to: 18, range: 'hold', easing: 'easeInOut' },
+]
 
 /**
  * Section 8: Phase 1 — Your Idea
@@ -53,6 +64,7 @@ export function Phase1IdeaSection() {
         lines={['Do Nothing', 'But Repeat', 'The Plan', 'Back To Me']}
         preset={PHASE1_IDEA_GRADIENT}
         animation={DRAMATIC_BREATHE}
+        scrollBindings={REPEAT_THE_PLAN_BINDINGS}
         fallbackColor="#680300"
       />
 
@@ -3,9 +3,15 @@
 import { useEffect, useRef } from 'react'
 import { gsap, ScrollTrigger } from '@/lib/animation/gsap'
 import { useReducedMotion } from '@/lib/hooks/useReducedMotion'
+import { useTextMask } from '@/lib/hooks/useTextMask'
 import type { GradientPreset, GradientAnimationConfig } from '@/components/gradient/GradientPlane'
 import { GradientPlane } from '@/components/gradient/GradientPlane'
+import { TAKEOVER_RELEASE_START, takeoverProgress, type ScrollBinding } from '@/lib/animation/scrollBindings'
+import { FONT_STYLES } from '@/lib/data/typography'
 import type { DisplayFont } from '@/lib/data/sections'
+import type { QualitySettings, QualityTier } from '@/lib/engine/QualityGovernor'
+import { posterUrl } from '@/lib/engine/posters'
+import type { MaskGlowSettings } from '@/lib/engine/masks'
 
 interface TakeoverProps {
   /** Unique section ID */
@@ -20,6 +26,8 @@ interface TakeoverProps {
   preset: GradientPreset
   /** Animation config for the gradient */
   animation: GradientAnimationConfig
+  /** Gradient parameters driven through the section's phases, e.g. twist across 'assembly' */
+  scrollBindings?: ScrollBinding[]
   /** Fallback color for WebGL */
   fallbackColor: string
   /** Additional gradient planes for Stage Mode composition */
@@ -28,33 +36,27 @@ interface TakeoverProps {
     animation?: GradientAnimationConfig
     className?: string
     fallbackColor?: string
+    scrollBindings?: ScrollBinding[]
   }>
   /** If true, content starts visible (hero sections at top of page).
    *  Only the release phase animates on scroll. */
   startAssembled?: boolean
   /** Semantic heading level for accessibility. Hero should be h1, others h2. */
   headingLevel?: 'h1' | 'h2' | 'h3'
-}
-
-/**
- * Font family CSS values.
- */
-const FONT_STYLES: Record<DisplayFont, { fontFamily: string; letterSpacing: string; lineHeight: string }> = {
-  tusker: {
-    fontFamily: 'var(--font-tusker)',
-    letterSpacing: '-0.03em',
-    lineHeight: '0.88',
-  },
-  'bt-super': {
-    fontFamily: 'var(--font-bt-super)',
-    letterSpacing: '0',
-    lineHeight: '0.92',
-  },
-  bulevar: {
-    fontFamily: 'var(--font-bulevar-poster)',
-    letterSpacing: '0',
-    lineHeight: '0.95',
-  },
+  /** Quality tier for every plane in the section. Default: 'auto' */
+  quality?: QualityTier | 'auto'
+  /** Called when a plane's quality tier changes */
+  onQualityChange?: (tier: QualityTier, settings: QualitySettings) => void
+  /** Render the planes in a Web Worker, keeping WebGL off the scrubbing thread */
+  worker?: boolean
+  /**
+   * Fill the headline with the background's live gradient instead of white:
+   * a plane over the whole section, masked to the letterforms, so the type
+   * shows the background through any Stage Mode planes in front of it
+   */
+  gradientType?: boolean
+  /** Soft halo around gradient-filled type */
+  typeGlow?: MaskGlowSettings
 }
 
 /**
@@ -72,6 +74,11 @@ const FONT_STYLES: Record<DisplayFont, { fontFamily: string; letterSpacing: stri
  *
  * Motion is scrub-driven with power2.inOut easing. Multi-speed parallax
  * at three depths: background (85%), midground (100%), foreground (115%).
+ *
+ * APPROACH and ASSEMBLY play once as the section enters; HOLD and RELEASE
+ * are scrubbed by the pin. `scrollBindings` choreograph gradient parameters
+ * with all four, by phase name (see TAKEOVER_PHASES): the entrance drives
+ * them while it plays, the pin after that.
  */
 export function Takeover({
   id,
@@ -80,16 +87,29 @@ export function Takeover({
   subtitle,
   preset,
   animation,
+  scrollBindings,
   fallbackColor,
   additionalPlanes = [],
   startAssembled = false,
   headingLevel,
+  quality,
+  onQualityChange,
+  worker,
+  gradientType = false,
+  typeGlow,
 }: TakeoverProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const pinRef = useRef<HTMLDivElement>(null)
+  const headingRef = useRef<HTMLHeadingElement>(null)
+  const scrollProgress = useRef(0)
+  // Set by the gradient-type plane; its mask follows the lines' tweens
+  const refreshTypeMask = useRef<(() => void) | null>(null)
   const prefersReduced = useReducedMotion()
 
   const fontStyle = FONT_STYLES[displayFont]
+  const typePoster = gradientType ? posterUrl(preset) : null
+
+  const createTypeMask = useTextMask(headingRef, displayFont)
 
   useEffect(() => {
     const container = containerRef.current
@@ -101,8 +121,10 @@ export function Takeover({
     const fgPlanes = pin.querySelectorAll('[data-takeover-fg]')
     const typeLines = pin.querySelectorAll('[data-takeover-line]')
     const subtitleEl = pin.querySelector('[data-takeover-subtitle]') as HTMLElement | null
+    const onLineUpdate = () => refreshTypeMask.current?.()
 
-    // Reduced motion: still pin for scroll structure, but show everything immediately
+    // Reduced motion: still pin for scroll structure, but show everything immediately.
+    // Planes don't animate either, so scroll bindings keep their progress-0 values.
     if (prefersReduced) {
       if (bgPlane) gsap.set(bgPlane, { scale: 1, opacity: 1 })
       fgPlanes.forEach((p) => gsap.set(p, { opacity: 1, scale: 1, xPercent: 0, yPercent: 0 }))
@@ -125,10 +147,22 @@ export function Takeover({
       return () => { trigger.kill() }
     }
 
+    // Scroll bindings follow the entrance, then the smoothed (scrubbed) pin
+    let entranceProgress = startAssembled ? 1 : 0
+    let scrubProgress = 0
+    const updateProgress = () => {
+      scrollProgress.current = takeoverProgress(entranceProgress, scrubProgress)
+    }
+    updateProgress()
+
     // === MASTER TIMELINE ===
     // Total scroll budget: 250vh (pinned distance)
-    // Approach: 0-20% | Assembly: 20-50% | Hold: 50-75% | Release: 75-100%
+    // Hold: 0-60% | Release: 60-100%
     const tl = gsap.timeline({
+      onUpdate: () => {
+        scrubProgress = tl.progress()
+        updateProgress()
+      },
       scrollTrigger: {
         trigger: container,
         start: 'top top',
@@ -158,6 +192,13 @@ export function Takeover({
 
     // === TRIGGERED ENTRANCE (non-hero only) ===
     // Fast, non-scrub animation when section enters viewport — gives approach/assembly feel.
+    const entrance = gsap.timeline({
+      paused: true,
+      onUpdate: () => {
+        entranceProgress = entrance.progress()
+        updateProgress()
+      },
+    })
     if (!startAssembled) {
       // Set subtle starting offsets (NOT invisible — just slightly offset)
       if (bgPlane) gsap.set(bgPlane, { scale: 0.97 })
@@ -172,28 +213,26 @@ export function Takeover({
         trigger: container,
         start: 'top 80%',
         once: true,
-        onEnter: () => {
-          // Fast entrance — 0.6-0.8s
-          if (bgPlane) {
-            gsap.to(bgPlane, { scale: 1, ease: 'power2.out', duration: 0.8 })
-          }
-          typeLines.forEach((l, i) => {
-            gsap.to(l, {
-              yPercent: 0, opacity: 1, ease: 'power2.out',
-              duration: 0.6, delay: 0.05 * i,
-            })
-          })
-          fgPlanes.forEach((p, i) => {
-            gsap.to(p, {
-              xPercent: 0, scale: 1, ease: 'power2.out',
-              duration: 0.7, delay: 0.03 * i,
-            })
-          })
-          if (subtitleEl) {
-            gsap.to(subtitleEl, { opacity: 0.8, yPercent: 0, ease: 'power2.out', duration: 0.5, delay: 0.2 })
-          }
-        },
+        onEnter: () => { entrance.play() },
+      })
+
+      // Fast entrance — 0.6-0.8s
+      if (bgPlane) {
+        entrance.to(bgPlane, { scale: 1, ease: 'power2.out', duration: 0.8 }, 0)
+      }
+      typeLines.forEach((l, i) => {
+        entrance.to(l, {
+          yPercent: 0, opacity: 1, ease: 'power2.out',
+          duration: 0.6,
+          onUpdate: onLineUpdate,
+        }, 0.05 * i)
+      })
+      fgPlanes.forEach((p, i) => {
+        entrance.to(p, { xPercent: 0, scale: 1, ease: 'power2.out', duration: 0.7 }, 0.03 * i)
       })
+      if (subtitleEl) {
+        entrance.to(subtitleEl, { opacity: 0.8, yPercent: 0, ease: 'power2.out', duration: 0.5 }, 0.2)
+      }
     }
 
     // === HOLD (0% → 60%) ===
@@ -201,7 +240,7 @@ export function Takeover({
     if (bgPlane) {
       tl.to(
         bgPlane,
-        { scale: 1.03, ease: 'sine.inOut', duration: 0.6 },
+        { scale: 1.03, ease: 'sine.inOut', duration: TAKEOVER_RELEASE_START },
         0,
       )
     }
@@ -216,8 +255,9 @@ export function Takeover({
           opacity: 0,
           ease: 'power2.inOut',
           duration: 0.25,
+          onUpdate: onLineUpdate,
         },
-        0.6 + i * 0.03,
+        TAKEOVER_RELEASE_START + i * 0.03,
       )
     })
 
@@ -225,7 +265,7 @@ export function Takeover({
       tl.to(
         subtitleEl,
         { yPercent: -20, opacity: 0, ease: 'power2.in', duration: 0.2 },
-        0.65,
+        TAKEOVER_RELEASE_START + 0.05,
       )
     }
 
@@ -240,7 +280,7 @@ export function Takeover({
           ease: 'power2.inOut',
           duration: 0.25,
         },
-        0.7 + i * 0.03,
+        TAKEOVER_RELEASE_START + 0.1 + i * 0.03,
       )
     })
 
@@ -248,7 +288,7 @@ export function Takeover({
       tl.to(
         bgPlane,
         { scale: 1.1, opacity: 0, ease: 'power2.inOut', duration: 0.2 },
-        0.8,
+        TAKEOVER_RELEASE_START + 0.2,
       )
     }
 
@@ -283,6 +323,7 @@ export function Takeover({
 
     return () => {
       tl.kill()
+      entrance.kill()
       // Kill all ScrollTriggers associated with this container
       ScrollTrigger.getAll()
         .filter((st) => st.trigger === container || st.vars.trigger === container)
@@ -308,6 +349,11 @@ export function Takeover({
             animation={animation}
             className="absolute inset-0"
             fallbackColor={fallbackColor}
+            scrollBindings={scrollBindings}
+            scrollProgress={scrollProgress}
+            quality={quality}
+            onQualityChange={onQualityChange}
+            worker={worker}
           />
         </div>
 
@@ -332,16 +378,40 @@ export function Takeover({
               animation={plane.animation}
               className="absolute inset-0"
               fallbackColor={plane.fallbackColor ?? fallbackColor}
+              scrollBindings={plane.scrollBindings}
+              scrollProgress={scrollProgress}
+              quality={quality}
+              onQualityChange={onQualityChange}
+              worker={worker}
             />
           </div>
         ))}
 
+        {/* Gradient-filled type — stays put; its mask follows the headline lines */}
+        {gradientType && (
+          <div data-takeover-type-fill className="absolute inset-0 z-[11] pointer-events-none">
+            <GradientPlane
+              preset={preset}
+              animation={animation}
+              className="absolute inset-0"
+              scrollBindings={scrollBindings}
+              scrollProgress={scrollProgress}
+              quality={quality}
+              onQualityChange={onQualityChange}
+              mask={createTypeMask}
+              maskGlow={typeGlow}
+              maskRefresh={refreshTypeMask}
+            />
+          </div>
+        )}
+
         {/* Display type — foreground layer, 115% parallax speed */}
         <div className="relative z-10 text-center px-4">
           {(() => {
             const HeadingTag = headingLevel ?? 'div'
             return (
               <HeadingTag
+                ref={headingRef}
                 style={{
                   fontFamily: fontStyle.fontFamily,
                   fontSize: 'clamp(48px, 15vw, 200px)',
@@ -349,6 +419,18 @@ export function Takeover({
                   lineHeight: fontStyle.lineHeight,
                   color: 'var(--white)',
                   fontWeight: 'inherit',
+                  // Poster-filled (or fallback-colored) under the live plane, and in its place without WebGL
+                  ...(gradientType
+                    ? {
+                        backgroundColor: fallbackColor,
+                        backgroundImage: typePoster ? `url(${typePoster})` : undefined,
+                        backgroundSize: 'cover',
+                        backgroundPosition: 'center',
+                        WebkitBackgroundClip: 'text',
+                        WebkitTextFillColor: 'transparent',
+                        backgroundClip: 'text',
+                      }
+                    : {}),
                 }}
                 className={displayFont === 'bulevar' ? '' : 'uppercase'}
               >
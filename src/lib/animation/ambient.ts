@@ -0,0 +1,173 @@
+/**
+ * Ambient animation — the slow rotation / scale / drift applied to gradients.
+ *
+ * Pure function of time, so the live GradientPlane loop and the frame
+ * exporter produce identical motion for the same timestamp.
+ *
+ * Loop-locked mode (`loopLocked: true`) nudges every oscillator to a whole
+ * number of cycles per `loopDuration`, so time 0 and time loopDuration give
+ * the same frame. Pair it with GradientEngine.setLoopDuration() to make the
+ * shader-side clocks (grain, lava lamp, dot matrix) periodic as well.
+ */
+
+import type { GradientEngine } from '@/lib/engine/GradientEngine'
+
+/**
+ * Animation configuration for ambient gradient movement.
+ * Subset of GradientLab's full AnimationConfig — only what we need.
+ */
+export interface GradientAnimationConfig {
+  rotationAmount?: number       // Degrees of rotation oscillation
+  rotationSpeed?: number        // Speed multiplier (0-2)
+  rotationMode?: 'oscillate' | 'continuous'
+  scaleAmount?: number          // Percent of scale breathing
+  scaleSpeed?: number           // Speed multiplier (0-2)
+  movementAmount?: number       // Percent of position drift
+  movementSpeed?: number        // Speed multiplier (0-2)
+  movementPattern?: 'drift' | 'orbit' | 'pendulum'
+  loopDuration?: number         // Base cycle duration in seconds
+  intensity?: number            // Overall intensity multiplier (0-200)
+  colorCycleSpeed?: number      // Color stop shift, in full cycles per loopDuration
+  loopLocked?: boolean          // Quantize all motion so it repeats exactly every loopDuration
+}
+
+/** Resting values the animation oscillates around */
+export interface AmbientBaseline {
+  angle: number     // Degrees
+  scale: number     // Gradient scale multiplier
+  centerX: number   // 0-100
+  centerY: number   // 0-100
+  colorCycle?: number  // -1 to 1, default 0
+}
+
+/** Values for one frame — fields are omitted when that motion is off */
+export interface AmbientFrame {
+  angle?: number
+  scale?: number
+  centerX?: number
+  centerY?: number
+  colorCycle?: number
+}
+
+/** Loop duration used when a config doesn't set one */
+export const DEFAULT_LOOP_DURATION = 6
+
+const oscillate = (t: number, period: number, amplitude: number) =>
+  Math.sin(t * (Math.PI * 2) / period) * amplitude
+
+/** Stretch or shrink `period` so a whole number of cycles (at least one) fits in `loop` */
+function lockPeriod(period: number, loop: number): number {
+  return loop / Math.max(1, Math.round(loop / period))
+}
+
+/**
+ * Compute the ambient animation values at `time` seconds
+ */
+export function computeAmbientFrame(
+  config: GradientAnimationConfig,
+  time: number,
+  baseline: AmbientBaseline
+): AmbientFrame {
+  const frame: AmbientFrame = {}
+  const intensityMult = (config.intensity ?? 100) / 100
+  const baseDuration = config.loopDuration ?? DEFAULT_LOOP_DURATION
+  const locked = config.loopLocked ?? false
+  const period = (duration: number) => locked ? lockPeriod(duration, baseDuration) : duration
+
+  // Wrapping is exact once periods are locked, and keeps sin() precise on long sessions
+  const t = locked ? time % baseDuration : time
+
+  // Rotation
+  const rotationAmount = config.rotationAmount ?? 0
+  if (rotationAmount > 0) {
+    const rotationSpeed = config.rotationSpeed ?? 1
+    const duration = period(baseDuration / rotationSpeed)
+    const amplitude = rotationAmount * intensityMult
+
+    if (config.rotationMode === 'continuous') {
+      let degreesPerSecond = rotationSpeed * 30
+      if (locked) {
+        // Whole turns per loop
+        const turns = Math.max(1, Math.round((degreesPerSecond * baseDuration) / 360))
+        degreesPerSecond = (turns * 360) / baseDuration
+      }
+      frame.angle = baseline.angle + (t * degreesPerSecond) % 360
+    } else {
+      frame.angle = baseline.angle + oscillate(t, duration, amplitude)
+    }
+  }
+
+  // Scale
+  const scaleAmount = config.scaleAmount ?? 0
+  if (scaleAmount > 0) {
+    const scaleSpeed = config.scaleSpeed ?? 1
+    const duration = period(baseDuration / scaleSpeed)
+    const scaleRange = baseline.scale * (scaleAmount / 100) * intensityMult
+    frame.scale = baseline.scale + oscillate(t, duration, scaleRange)
+  }
+
+  // Movement
+  const movementAmount = config.movementAmount ?? 0
+  if (movementAmount > 0) {
+    const moveSpeed = config.movementSpeed ?? 1
+    const duration = period(baseDuration / moveSpeed)
+    const moveRange = (movementAmount / 100) * 20 * intensityMult
+
+    let offsetX = 0
+    let offsetY = 0
+
+    switch (config.movementPattern ?? 'drift') {
+      case 'drift':
+        offsetX = oscillate(t, duration, moveRange)
+        offsetY = oscillate(t, period(baseDuration / moveSpeed * 1.3), moveRange * 0.7)
+        break
+      case 'orbit':
+        offsetX = Math.cos(t * (Math.PI * 2) / duration) * moveRange
+        offsetY = Math.sin(t * (Math.PI * 2) / duration) * moveRange
+        break
+      case 'pendulum':
+        offsetX = oscillate(t, duration, moveRange)
+        offsetY = 0
+        break
+    }
+
+    frame.centerX = baseline.centerX + offsetX
+    frame.centerY = baseline.centerY + offsetY
+  }
+
+  // Color cycle
+  const colorCycleSpeed = config.colorCycleSpeed ?? 0
+  if (colorCycleSpeed !== 0) {
+    const cycles = locked ? Math.round(colorCycleSpeed) : colorCycleSpeed
+    const shift = (baseline.colorCycle ?? 0) + (t / baseDuration) * cycles
+    // The shader only wraps for |cycle| > 0.001, so keep the value in (0, 1] —
+    // 1 wraps exactly like 0 would, without the unwrapped special case
+    const wrapped = shift - Math.floor(shift)
+    frame.colorCycle = wrapped < 0.001 ? wrapped + 1 : wrapped
+  }
+
+  return frame
+}
+
+/**
+ * Push a computed frame into the engine's uniforms (does not render)
+ */
+export function applyAmbientFrame(engine: GradientEngine, frame: AmbientFrame): void {
+  const uniforms = engine.getUniforms()
+
+  if (frame.angle !== undefined) {
+    engine.setAngle(frame.angle)
+  }
+  if (frame.scale !== undefined && uniforms.u_gradientScale) {
+    uniforms.u_gradientScale.value = frame.scale
+  }
+  if (frame.centerX !== undefined && uniforms.centerX) {
+    uniforms.centerX.value = frame.centerX / 100
+  }
+  if (frame.centerY !== undefined && uniforms.centerY) {
+    uniforms.centerY.value = frame.centerY / 100
+  }
+  if (frame.colorCycle !== undefined) {
+    engine.setColorCycle(frame.colorCycle)
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Animation clock — the one scheduler every gradient animates on.
+ *
+ * Built on gsap.ticker so gradient frames land on the same requestAnimationFrame
+ * as ScrollTrigger and every GSAP tween. Each tick runs in two phases: all
+ * subscribers push their uniforms first, then all of them render, so layered
+ * planes (Takeover, Breath) draw the same instant back to back and nothing
+ * renders twice in a frame.
+ *
+ * Clock time only advances while playing and is scaled by the time scale.
+ * Paused, the clock keeps ticking with a zero delta so scroll-driven values
+ * still update. seek() renders the new time synchronously, which makes
+ * screenshots deterministic — outside production builds the clock is
+ * exposed as `window.__gradientClock` for Playwright.
+ */
+
+import { gsap } from './gsap'
+
+export interface ClockFrame {
+  /** Clock time in seconds */
+  time: number
+  /** Clock seconds since the previous tick (0 while paused or seeking) */
+  delta: number
+  /** Wall time of the tick in ms, for frame timing */
+  timestamp: number
+}
+
+export interface ClockSubscriber {
+  /** Push this tick's uniforms. Return false to skip this subscriber's render. */
+  update?: (frame: ClockFrame) => boolean | void
+  /** Draw. Runs after every subscriber's update. */
+  render?: (frame: ClockFrame) => void
+}
+
+export class AnimationClock {
+  private subscribers = new Set<ClockSubscriber>()
+  private time: number = 0
+  private timeScale: number = 1
+  private paused: boolean = false
+  private lastTimestamp: number = 0
+
+  // gsap.ticker passes seconds since it started and the frame delta in ms
+  private readonly tick = (tickerTime: number, deltaMs: number): void => {
+    const delta = this.paused ? 0 : (deltaMs / 1000) * this.timeScale
+    this.time += delta
+    this.lastTimestamp = tickerTime * 1000
+    this.flush(delta)
+  }
+
+  private flush(delta: number): void {
+    const frame: ClockFrame = { time: this.time, delta, timestamp: this.lastTimestamp }
+    const rendering: ClockSubscriber[] = []
+    // Snapshot — subscribers may unsubscribe themselves mid-tick
+    for (const subscriber of [...this.subscribers]) {
+      if (subscriber.update?.(frame) !== false) rendering.push(subscriber)
+    }
+    for (const subscriber of rendering) {
+      if (this.subscribers.has(subscriber)) subscriber.render?.(frame)
+    }
+  }
+
+  /**
+   * Run `subscriber` on every tick. Returns the unsubscribe function.
+   */
+  subscribe(subscriber: ClockSubscriber): () => void {
+    this.subscribers.add(subscriber)
+    if (this.subscribers.size === 1) gsap.ticker.add(this.tick)
+    return () => {
+      if (!this.subscribers.delete(subscriber)) return
+      if (this.subscribers.size === 0) gsap.ticker.remove(this.tick)
+    }
+  }
+
+  /** Clock time in seconds */
+  getTime(): number { return this.time }
+
+  pause(): void { this.paused = true }
+  resume(): void { this.paused = false }
+  isPaused(): boolean { return this.paused }
+
+  /**
+   * Speed multiplier for clock time, e.g. 0.5 for half speed
+   */
+  setTimeScale(scale: number): void {
+    this.timeScale = Math.max(0, scale)
+  }
+
+  getTimeScale(): number { return this.timeScale }
+
+  /**
+   * Jump to `time` seconds and update and render every subscriber now
+   */
+  seek(time: number): void {
+    this.time = Math.max(0, time)
+    this.flush(0)
+  }
+}
+
+/** The shared clock */
+export const animationClock = new AnimationClock()
+
+declare global {
+  interface Window {
+    __gradientClock?: AnimationClock
+  }
+}
+
+if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production') {
+  window.__gradientClock = animationClock
+}
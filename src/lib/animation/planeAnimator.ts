@@ -0,0 +1,100 @@
+/**
+ * PlaneAnimator — everything a GradientPlane does to its engine per frame.
+ *
+ * Applies presets (resetting the ambient baseline), then on each tick blends
+ * the preset morph, applies ambient motion and evaluates the preset timeline
+ * and scroll bindings into one override call. GradientPlane runs it against
+ * its own engine on the main thread, and the gradient worker runs the same
+ * code against worker-side engines, so both rendering modes move identically.
+ */
+
+import { applyAmbientFrame, computeAmbientFrame, type AmbientBaseline, type GradientAnimationConfig } from './ambient'
+import { evaluateTimeline } from './timeline'
+import { evaluateScrollBindings, type ScrollBinding } from './scrollBindings'
+import { applyFullStateToEngine, applyPresetMorph } from '@/lib/engine/standaloneRenderer'
+import { normalizePreset } from '@/lib/engine/presetSchema'
+import type { GradientEngine } from '@/lib/engine/GradientEngine'
+import type { GradientPresetData, GradientTimeline } from '@/types/gradient'
+
+export interface PlaneAnimationOptions {
+  animation: GradientAnimationConfig
+  /** Override paths scrubbed by the frame's scrollProgress */
+  scrollBindings?: ScrollBinding[]
+  /** Second preset the frame's morphProgress blends towards */
+  morphTo?: GradientPresetData
+}
+
+/** Per-frame inputs the plane's owner samples */
+export interface PlaneFrameInput {
+  /** Clock time in seconds */
+  time: number
+  scrollProgress?: number
+  morphProgress?: number
+}
+
+export class PlaneAnimator {
+  private preset: GradientPresetData | null = null
+  private options: PlaneAnimationOptions
+  private timeline: GradientTimeline | null = null
+  private baseline: AmbientBaseline = { angle: 0, scale: 1, centerX: 50, centerY: 50 }
+  private appliedMorphProgress: number = NaN
+
+  constructor(options: PlaneAnimationOptions) {
+    this.options = options
+  }
+
+  setOptions(options: PlaneAnimationOptions): void {
+    if (options.morphTo !== this.options.morphTo) this.appliedMorphProgress = NaN
+    this.options = options
+  }
+
+  /**
+   * Apply `preset` in full and make it the ambient baseline
+   */
+  applyPreset(engine: GradientEngine, preset: GradientPresetData): void {
+    const uniforms = engine.getUniforms()
+    if (uniforms.u_gradientScale) uniforms.u_gradientScale.value = 1.0
+    if (uniforms.centerX) uniforms.centerX.value = 0.5
+    if (uniforms.centerY) uniforms.centerY.value = 0.5
+
+    applyFullStateToEngine(engine, preset)
+    this.preset = preset
+    this.timeline = normalizePreset(preset).timeline
+    this.appliedMorphProgress = NaN
+    this.baseline = { angle: preset.angle ?? 0, scale: 1.0, centerX: 50, centerY: 50 }
+  }
+
+  /**
+   * Blend the preset morph to `progress` (does not render). Returns false
+   * when there's no morph or it hasn't moved since the last blend.
+   */
+  applyMorph(engine: GradientEngine, progress: number | undefined): boolean {
+    const { morphTo } = this.options
+    // Re-blend only when the morph has moved — it runs every setter
+    if (!this.preset || !morphTo || progress === undefined || progress === this.appliedMorphProgress) return false
+    this.appliedMorphProgress = progress
+    this.baseline.angle = applyPresetMorph(engine, this.preset, morphTo, progress).angle
+    return true
+  }
+
+  /**
+   * Push one frame's uniforms into the engine (does not render)
+   */
+  update(engine: GradientEngine, input: PlaneFrameInput): void {
+    const { animation, scrollBindings } = this.options
+
+    this.applyMorph(engine, input.morphProgress)
+
+    applyAmbientFrame(engine, computeAmbientFrame(animation, input.time, this.baseline))
+
+    // One call for both sources — each call starts over from the preset's values
+    const timeline = this.timeline
+    const scrollProgress = scrollBindings ? input.scrollProgress : undefined
+    if (timeline || scrollProgress !== undefined) {
+      engine.applyAnimationOverrides({
+        ...(timeline ? evaluateTimeline(timeline, input.time) : {}),
+        ...(scrollBindings && scrollProgress !== undefined ? evaluateScrollBindings(scrollBindings, scrollProgress) : {}),
+      })
+    }
+  }
+}
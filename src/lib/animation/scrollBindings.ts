@@ -0,0 +1,89 @@
+/**
+ * Scroll bindings — gradient override paths scrubbed by section scroll progress.
+ *
+ * A binding maps a stretch of a section's progress onto one
+ * GradientEngine.applyAnimationOverrides path, e.g. twist amount 0 → 40
+ * across a Takeover's ASSEMBLY phase:
+ *
+ *   { path: 'warp.twist.amount', from: 0, to: 40, range: 'assembly' }
+ *
+ * A Takeover's progress runs through all four of its phases: APPROACH and
+ * ASSEMBLY follow its one-shot entrance as it plays, HOLD and RELEASE
+ * follow the pinned, scrubbed timeline (takeoverProgress).
+ *
+ * Bindings on the same path chain like tweens on a GSAP timeline: the last
+ * one whose range has started owns the value, so 0 → 40 over [0, 0.3]
+ * followed by 40 → 0 in 'release' holds 40 until the release.
+ *
+ * Under reduced motion planes don't animate, so bindings stay at their
+ * values for progress 0.
+ */
+
+import { applyEasing } from './timeline'
+import type { BlendEasing } from '@/types/gradient'
+
+/**
+ * Where the release tweens start on Takeover's scrubbed timeline, which
+ * opens on HOLD
+ */
+export const TAKEOVER_RELEASE_START = 0.6
+
+/** Share of a Takeover's progress taken by its entrance (APPROACH + ASSEMBLY) */
+const ENTRANCE_SHARE = 0.3
+
+/** Where ASSEMBLY starts in the entrance — the spec's 0.5vh : 1vh split */
+const ASSEMBLY_START = 1 / 3
+
+export type TakeoverPhase = 'approach' | 'assembly' | 'hold' | 'release'
+
+/**
+ * A Takeover's progress (0-1) from its entrance's and its scrubbed
+ * timeline's (each 0-1). The entrance finishes before the pin starts, so
+ * this only moves forward as the reader scrolls down.
+ */
+export function takeoverProgress(entrance: number, scrubbed: number): number {
+  return ENTRANCE_SHARE * entrance + (1 - ENTRANCE_SHARE) * scrubbed
+}
+
+/** Progress ranges of the phases of a Takeover */
+export const TAKEOVER_PHASES: Record<TakeoverPhase, readonly [number, number]> = {
+  approach: [0, takeoverProgress(ASSEMBLY_START, 0)],
+  assembly: [takeoverProgress(ASSEMBLY_START, 0), takeoverProgress(1, 0)],
+  hold: [takeoverProgress(1, 0), takeoverProgress(1, TAKEOVER_RELEASE_START)],
+  release: [takeoverProgress(1, TAKEOVER_RELEASE_START), 1],
+}
+
+export interface ScrollBinding {
+  /** Override path, e.g. 'warp.twist.amount' or 'effects.color.hueShift' */
+  path: string
+  from: number
+  to: number
+  /** Takeover phase or explicit [start, end] progress (0-1). Default: the whole section */
+  range?: TakeoverPhase | readonly [number, number]
+  /** Default: 'linear' — scrubbing already smooths the motion */
+  easing?: BlendEasing
+}
+
+function resolveRange(range: ScrollBinding['range']): readonly [number, number] {
+  if (range === undefined) return [0, 1]
+  return typeof range === 'string' ? TAKEOVER_PHASES[range] : range
+}
+
+/**
+ * Override values for scroll `progress` (0-1), keyed by path
+ */
+export function evaluateScrollBindings(bindings: readonly ScrollBinding[], progress: number): Record<string, number> {
+  const overrides: Record<string, number> = {}
+
+  for (const binding of bindings) {
+    const [start, end] = resolveRange(binding.range)
+    // Before its range, a binding only sets the value if nothing earlier did
+    if (progress < start && binding.path in overrides) continue
+
+    const span = end - start
+    const local = span > 0 ? Math.min(Math.max((progress - start) / span, 0), 1) : progress >= end ? 1 : 0
+    overrides[binding.path] = binding.from + (binding.to - binding.from) * applyEasing(local, binding.easing)
+  }
+
+  return overrides
+}
@@ -0,0 +1,216 @@
+/**
+ * Keyframe timelines — authored motion for GradientEngine.applyAnimationOverrides.
+ *
+ * A timeline holds one track per override path ('warp.twist.amount',
+ * 'effects.glow.amount', ...). Each track interpolates between keyframes
+ * with the same easing curves the shader uses for color blending, and the
+ * whole timeline plays once, loops, or ping-pongs over its duration.
+ *
+ * evaluateTimeline() is a pure function of time; TimelinePlayer wraps it
+ * with a clock for standalone playback.
+ */
+
+import type { GradientEngine } from '@/lib/engine/GradientEngine'
+import { animationClock } from './clock'
+import type {
+  BlendEasing,
+  GradientTimeline,
+  TimelineKeyframe,
+  TimelineMode,
+  TimelineTrack,
+} from '@/types/gradient'
+
+const EASINGS: readonly BlendEasing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'bounce']
+const MODES: readonly TimelineMode[] = ['once', 'loop', 'pingpong']
+
+/**
+ * CPU copy of applyEasing() in easing.glsl.ts
+ */
+export function applyEasing(t: number, easing: BlendEasing = 'linear'): number {
+  switch (easing) {
+    case 'easeIn':
+      return t * t
+    case 'easeOut':
+      return 1 - (1 - t) * (1 - t)
+    case 'easeInOut':
+      return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+    case 'bounce': {
+      const n1 = 7.5625
+      const d1 = 2.75
+      if (t < 1 / d1) return n1 * t * t
+      if (t < 2 / d1) { t -= 1.5 / d1; return n1 * t * t + 0.75 }
+      if (t < 2.5 / d1) { t -= 2.25 / d1; return n1 * t * t + 0.9375 }
+      t -= 2.625 / d1
+      return n1 * t * t + 0.984375
+    }
+    default:
+      return t
+  }
+}
+
+/**
+ * Map wall time onto the timeline's own 0..duration range
+ */
+export function resolveTimelineTime(timeline: GradientTimeline, time: number): number {
+  const { duration } = timeline
+  if (duration <= 0) return 0
+
+  switch (timeline.mode) {
+    case 'loop':
+      return ((time % duration) + duration) % duration
+    case 'pingpong': {
+      const phase = ((time % (duration * 2)) + duration * 2) % (duration * 2)
+      return phase > duration ? duration * 2 - phase : phase
+    }
+    default:
+      return Math.min(Math.max(time, 0), duration)
+  }
+}
+
+/**
+ * Value of one track at `time` (already resolved to timeline time).
+ * Holds the first/last value outside the keyframe range.
+ */
+export function evaluateTrack(track: TimelineTrack, time: number): number | undefined {
+  const { keyframes } = track
+  if (keyframes.length === 0) return undefined
+
+  const first = keyframes[0]
+  const last = keyframes[keyframes.length - 1]
+  if (time <= first.time) return first.value
+  if (time >= last.time) return last.value
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i]
+    const to = keyframes[i + 1]
+    if (time > to.time) continue
+    const span = to.time - from.time
+    const progress = span > 0 ? (time - from.time) / span : 1
+    return from.value + (to.value - from.value) * applyEasing(progress, from.easing)
+  }
+  return last.value
+}
+
+/**
+ * Every track's value at `time`, keyed by override path
+ */
+export function evaluateTimeline(timeline: GradientTimeline, time: number): Record<string, number> {
+  const localTime = resolveTimelineTime(timeline, time)
+  const overrides: Record<string, number> = {}
+  for (const track of timeline.tracks) {
+    const value = evaluateTrack(track, localTime)
+    if (value !== undefined) overrides[track.path] = value
+  }
+  return overrides
+}
+
+/**
+ * Coerce untrusted timeline data (e.g. from a stored preset) into a playable
+ * timeline: invalid keyframes and empty tracks are dropped, keyframes are
+ * sorted by time, and the duration covers the last keyframe.
+ * Returns null when nothing playable is left.
+ */
+export function normalizeTimeline(value: unknown): GradientTimeline | null {
+  if (typeof value !== 'object' || value === null) return null
+  const source = value as Partial<Record<keyof GradientTimeline, unknown>>
+
+  const tracks: TimelineTrack[] = []
+  for (const rawTrack of Array.isArray(source.tracks) ? source.tracks : []) {
+    if (typeof rawTrack !== 'object' || rawTrack === null) continue
+    const { path, keyframes } = rawTrack as Partial<Record<keyof TimelineTrack, unknown>>
+    if (typeof path !== 'string' || !path || !Array.isArray(keyframes)) continue
+
+    const cleaned: TimelineKeyframe[] = []
+    for (const rawKey of keyframes) {
+      if (typeof rawKey !== 'object' || rawKey === null) continue
+      const { time, value: keyValue, easing } = rawKey as Partial<Record<keyof TimelineKeyframe, unknown>>
+      if (typeof time !== 'number' || !Number.isFinite(time) || time < 0) continue
+      if (typeof keyValue !== 'number' || !Number.isFinite(keyValue)) continue
+      const keyframe: TimelineKeyframe = { time, value: keyValue }
+      if (EASINGS.includes(easing as BlendEasing)) keyframe.easing = easing as BlendEasing
+      cleaned.push(keyframe)
+    }
+    if (cleaned.length === 0) continue
+
+    cleaned.sort((a, b) => a.time - b.time)
+    tracks.push({ path, keyframes: cleaned })
+  }
+  if (tracks.length === 0) return null
+
+  const lastKeyTime = Math.max(...tracks.map((track) => track.keyframes[track.keyframes.length - 1].time))
+  const duration = typeof source.duration === 'number' && Number.isFinite(source.duration)
+    ? Math.max(source.duration, lastKeyTime)
+    : lastKeyTime
+  const mode = MODES.includes(source.mode as TimelineMode) ? source.mode as TimelineMode : 'loop'
+
+  return { duration, mode, tracks }
+}
+
+/**
+ * Plays a timeline on an engine. Either drive it from an existing render
+ * loop with applyAt(), or let play() advance it on the shared animation clock.
+ */
+export class TimelinePlayer {
+  private engine: GradientEngine
+  private timeline: GradientTimeline
+  private unsubscribeClock: (() => void) | null = null
+  private currentTime: number = 0
+
+  constructor(engine: GradientEngine, timeline: GradientTimeline) {
+    this.engine = engine
+    this.timeline = timeline
+  }
+
+  setTimeline(timeline: GradientTimeline): void {
+    this.timeline = timeline
+    this.applyAt(this.currentTime)
+  }
+
+  getTimeline(): GradientTimeline { return this.timeline }
+  getCurrentTime(): number { return this.currentTime }
+  isPlaying(): boolean { return this.unsubscribeClock !== null }
+
+  /**
+   * Push the timeline's values at `time` seconds into the engine (does not render)
+   */
+  applyAt(time: number): void {
+    this.currentTime = time
+    this.engine.applyAnimationOverrides(evaluateTimeline(this.timeline, time))
+  }
+
+  /**
+   * Jump to `time` seconds and render that frame
+   */
+  seek(time: number): void {
+    this.applyAt(time)
+    this.engine.renderAtTime(time)
+  }
+
+  /**
+   * Play from the current time. 'once' timelines stop on their last frame.
+   */
+  play(): void {
+    if (this.unsubscribeClock !== null) return
+    if (this.timeline.mode === 'once' && this.currentTime >= this.timeline.duration) {
+      this.currentTime = 0
+    }
+
+    // Advance by the clock's delta so global pause and time scale apply
+    this.unsubscribeClock = animationClock.subscribe({
+      update: ({ delta }) => this.applyAt(this.currentTime + delta),
+      render: () => {
+        this.engine.renderAtTime(this.currentTime)
+        if (this.timeline.mode === 'once' && this.currentTime >= this.timeline.duration) this.pause()
+      },
+    })
+  }
+
+  pause(): void {
+    this.unsubscribeClock?.()
+    this.unsubscribeClock = null
+  }
+
+  dispose(): void {
+    this.pause()
+  }
+}
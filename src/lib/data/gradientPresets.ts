@@ -12,18 +12,19 @@
  */
 
 import type { GradientPreset } from '@/components/gradient/GradientPlane'
+import type { LegacyGeometryState, LegacyWarpState, MaterialState, DeepPartial } from '@/types/gradient'
 
 /** Disabled effect shorthand */
 const off = { enabled: false }
 
 /** Disabled geometry */
-const noGeometry = {
+const noGeometry: LegacyGeometryState = {
   type: 'none',
   effects: { grid: off, columns: off, depth: off },
 }
 
 /** Disabled warps */
-const noWarps = {
+const noWarps: LegacyWarpState = {
   bend: { enabled: false, amount: 0 },
   wave: { enabled: false, amount: 0 },
   ripple: { enabled: false, amount: 0 },
@@ -35,7 +36,7 @@ const noWarps = {
 }
 
 /** Disabled materials */
-const noMaterials = {
+const noMaterials: DeepPartial<MaterialState> = {
   iridescent: { enabled: false, intensity: 0 },
   metallic: { enabled: false, intensity: 0 },
   holographic: { enabled: false, intensity: 0 },
@@ -0,0 +1,33 @@
+/**
+ * Display type styles — one per rotating display face. Shared by the
+ * TAKEOVER headline, DisplayType and the engine's text masks, which need the
+ * same metrics to rasterize letterforms that line up with the DOM text.
+ */
+
+import type { DisplayFont } from './sections'
+
+export interface DisplayFontStyle {
+  /** CSS font-family, usually a var() from globals.css */
+  fontFamily: string
+  letterSpacing: string
+  /** Unitless line-height multiplier */
+  lineHeight: string
+}
+
+export const FONT_STYLES: Record<DisplayFont, DisplayFontStyle> = {
+  tusker: {
+    fontFamily: 'var(--font-tusker)',
+    letterSpacing: '-0.03em',
+    lineHeight: '0.88',
+  },
+  'bt-super': {
+    fontFamily: 'var(--font-bt-super)',
+    letterSpacing: '0',
+    lineHeight: '0.92',
+  },
+  bulevar: {
+    fontFamily: 'var(--font-bulevar-poster)',
+    letterSpacing: '0',
+    lineHeight: '0.95',
+  },
+}
@@ -4,6 +4,10 @@
  * Generates texture atlases in the browser using Canvas API.
  * Supports custom font uploads via FontFace API.
  * No node-canvas dependency required.
+ *
+ * Also runs inside the gradient worker: atlases are drawn on an
+ * OffscreenCanvas and fonts go into the worker's own font set, so page
+ * web fonts aren't available there and the system monospace stack is used.
  */
 
 import * as THREE from 'three'
@@ -29,6 +33,20 @@ const textureCache = new Map<string, THREE.Texture>()
 // Cache for loaded custom fonts
 const fontCache = new Map<string, FontFace>()
 
+/** The document's font set, or the worker's */
+function getFontSet(): FontFaceSet {
+  if (typeof document !== 'undefined') return document.fonts
+  return (self as unknown as { fonts: FontFaceSet }).fonts
+}
+
+function createAtlasCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
 /**
  * Load a custom font from a File object (uploaded by user)
  * Returns the font family name to use in ctx.font
@@ -46,7 +64,7 @@ export async function loadCustomFont(file: File): Promise<string> {
   await fontFace.load()
 
   // Add to document fonts
-  document.fonts.add(fontFace)
+  getFontSet().add(fontFace)
 
   // Cache the font
   fontCache.set(fontName, fontFace)
@@ -80,7 +98,7 @@ export async function loadCustomFontFromBase64(base64Data: string, fontName?: st
   await fontFace.load()
 
   // Add to document fonts
-  document.fonts.add(fontFace)
+  getFontSet().add(fontFace)
 
   // Cache the font
   fontCache.set(name, fontFace)
@@ -106,7 +124,7 @@ export function fileToBase64(file: File): Promise<string> {
 export function unloadCustomFont(fontName: string): void {
   const fontFace = fontCache.get(fontName)
   if (fontFace) {
-    document.fonts.delete(fontFace)
+    getFontSet().delete(fontFace)
     fontCache.delete(fontName)
   }
 
@@ -138,10 +156,7 @@ export function generateAsciiAtlas(characters: string, customFontName?: string):
 
   if (numChars === 0) {
     // Return a placeholder texture for empty character sets
-    const canvas = document.createElement('canvas')
-    canvas.width = CELL_SIZE
-    canvas.height = CELL_SIZE
-    const texture = new THREE.CanvasTexture(canvas)
+    const texture = new THREE.CanvasTexture(createAtlasCanvas(CELL_SIZE, CELL_SIZE))
     return texture
   }
 
@@ -149,11 +164,8 @@ export function generateAsciiAtlas(characters: string, customFontName?: string):
   const width = CELL_SIZE * numChars
   const height = CELL_SIZE
 
-  const canvas = document.createElement('canvas')
-  canvas.width = width
-  canvas.height = height
-
-  const ctx = canvas.getContext('2d')!
+  const canvas = createAtlasCanvas(width, height)
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
 
   // Fill with transparent background
   ctx.clearRect(0, 0, width, height)
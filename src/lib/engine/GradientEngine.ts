@@ -2,61 +2,68 @@
  * GradientEngine - WebGL gradient rendering with UV-based warping
  * 
  * Uses a simple plane geometry with UV distortion in fragment shaders.
- * Blur, ASCII, and Dot Matrix are implemented as post-processing passes.
+ * Bloom (the glow effect), ASCII, Dot Matrix and Blur are post-processing
+ * passes run by a PostPipeline, in a configurable order (default: Bloom →
+ * ASCII → Dot Matrix → Blur). A type crossfade pass ahead of them blends
+ * gradient types during preset morphs, then the layer stack composites any
+ * extra gradients (setLayers()) over it, and an output pass after them applies
+ * exposure and tone mapping — over half-float targets when `output.hdr` is
+ * set and the GPU supports it.
+ *
+ * Frames are premultiplied-alpha: stop alpha and the alpha mask fade the
+ * gradient over `backgroundColor` (transparent by default), so the canvas
+ * composites over page content and PNG/WebP exports keep transparency.
+ *
+ * With `{ shared: true }` the engine borrows the page-wide SharedRenderer
+ * instead of creating its own WebGL context, and copies each frame onto its
+ * canvas through a 2D context.
+ *
+ * The canvas may be an OffscreenCanvas, for rendering inside a worker. Pass
+ * `pixelRatio` there (workers have no devicePixelRatio) and always give
+ * handleResize() explicit sizes — there's no layout to measure.
+ *
+ * setLoopDuration() makes every time-driven uniform periodic, so
+ * renderAtTime(0) and renderAtTime(loopDuration) produce the same frame and
+ * the last frame of a loop leads smoothly back into the first. Outside
+ * production builds `window.__gradientEngine()` loads the engine module, so
+ * Playwright can render and read back frames.
+ *
+ * A QualityGovernor fed by sampleFrame() trades render scale, blur quality,
+ * grain, chromatic aberration and frame rate for smoothness on slow devices.
+ *
+ * render() and startAnimation() run on the shared animationClock, so every
+ * engine on the page sees the same time and pauses, scales and seeks with it.
+ *
+ * render() only draws when something visible changed: a uniform, a post pass
+ * setting, the size, or — for time-dependent presets (animated grain, lava
+ * lamp, evolving noise) — the time. renderAtTime() always draws.
  */
 
 import * as THREE from 'three'
 import { ShaderManager, GradientType } from './ShaderManager'
-import { generateAsciiAtlas, loadCustomFontFromBase64 } from './AsciiAtlasLoader'
-import { dotMatrixVertexShader, dotMatrixFragmentShader } from '../shaders/postprocess/dotMatrix.glsl'
-import { asciiVertexShader, asciiFragmentShader } from '../shaders/postprocess/ascii.glsl'
+import { PostPipeline, type PostPass, type RenderRegion } from './PostPipeline'
+import {
+  AsciiPass, BloomPass, BlurPass, DotMatrixPass, LayerStackPass, MaskPass, OutputPass, TypeCrossfadePass,
+} from './passes'
+import type { GradientLayer, LayerSettings } from './GradientLayer'
+import type { MaskGlowSettings, MaskSource } from './masks'
+import { acquireSharedRenderer, releaseSharedRenderer, prepareSharedViewport } from './SharedRenderer'
+import { DEFAULT_GRADIENT_STATE } from './presetSchema'
+import { getTypeSettings, isGradientType, type CustomSettings } from './gradientTypes'
+import { resolveOverrides, reportOverridePath, type AnimationOverrides } from './overridePaths'
+import { QualityGovernor, type QualitySettings, type QualityTier } from './QualityGovernor'
+import { animationClock } from '@/lib/animation/clock'
 import type {
   ColorStop,
   LinearSettings, RadialSettings, ConicSettings, DiamondSettings,
-  SpiralSettings, AuroraSettings, StripesSettings, FoldedSettings, ReverbSettings,
-  BlendOptions, MaterialState, WarpState, GeometryEffectsState, EffectsState
+  SpiralSettings, AuroraSettings, StripesSettings, FoldedSettings, ReverbSettings, MeshSettings, NoiseSettings,
+  BlendOptions, MaterialState, WarpState, GeometryEffectsState, EffectsState,
+  OutputSettings, AlphaMaskSettings, GradientState
 } from '@/types/gradient'
 
-// Blur fragment shader for post-processing
-const blurFragmentShader = /* glsl */ `
-uniform sampler2D tDiffuse;
-uniform float u_blurAmount;
-uniform vec2 u_resolution;
-varying vec2 vUv;
-
-void main() {
-    if (u_blurAmount < 0.5) {
-        gl_FragColor = texture2D(tDiffuse, vUv);
-        return;
-    }
-    
-    vec2 texelSize = 1.0 / u_resolution;
-    float blur = u_blurAmount * 0.12;
-    
-    vec3 result = vec3(0.0);
-    float total = 0.0;
-    
-    // Gaussian blur kernel - 13x13 samples for smooth result
-    for (int x = -6; x <= 6; x++) {
-        for (int y = -6; y <= 6; y++) {
-            vec2 offset = vec2(float(x), float(y)) * texelSize * blur;
-            float weight = exp(-float(x*x + y*y) / (blur * blur * 2.0 + 0.1));
-            result += texture2D(tDiffuse, vUv + offset).rgb * weight;
-            total += weight;
-        }
-    }
-    
-    gl_FragColor = vec4(result / total, 1.0);
-}
-`
-
-const blurVertexShader = /* glsl */ `
-varying vec2 vUv;
-void main() {
-    vUv = uv;
-    gl_Position = vec4(position.xy, 0.0, 1.0);
+function isHtmlCanvas(canvas: HTMLCanvasElement | OffscreenCanvas): canvas is HTMLCanvasElement {
+  return typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement
 }
-`
 
 export class GradientEngine {
   private renderer: THREE.WebGLRenderer
@@ -64,87 +71,53 @@ export class GradientEngine {
   private camera: THREE.OrthographicCamera
   private quad: THREE.Mesh
   private shaderManager: ShaderManager
-  private canvas: HTMLCanvasElement
-  private animationFrameId: number | null = null
-  private startTime: number = 0
+  private canvas: HTMLCanvasElement | OffscreenCanvas
+  private unsubscribeClock: (() => void) | null = null
+  
+  // Render on demand: forced redraw flag and the time of the last drawn frame
+  private needsRender: boolean = true
+  private renderedTime: number | null = null
+  private renderWidth: number = 0
+  private renderHeight: number = 0
+  // Tiled export: the canvas is a window of a larger image
+  private renderRegion: RenderRegion | null = null
   private isAnimating: boolean = false
   private currentType: GradientType = 'linear'
   
-  // Post-processing render targets
-  private renderTarget1: THREE.WebGLRenderTarget | null = null
-  private renderTarget2: THREE.WebGLRenderTarget | null = null
-  
-  // Blur post-processing
-  private blurScene: THREE.Scene
-  private blurCamera: THREE.OrthographicCamera
-  private blurQuad: THREE.Mesh
-  private blurMaterial: THREE.ShaderMaterial
-  private blurAmount: number = 0
-  private blurEnabled: boolean = false
-  
-  // Dot Matrix post-processing
-  private dotMatrixScene: THREE.Scene
-  private dotMatrixQuad: THREE.Mesh
-  private dotMatrixMaterial: THREE.ShaderMaterial
-  private dotMatrixEnabled: boolean = false
-  private dotMatrixSettings: {
-    density: number
-    shape: number
-    sizeMin: number
-    sizeMax: number
-    colorMode: number
-    monoColor: THREE.Color
-    duoDark: THREE.Color
-    duoLight: THREE.Color
-    background: THREE.Color
-    softness: number
-    invert: boolean
-    gap: number
-  } = {
-    density: 50,
-    shape: 0,
-    sizeMin: 0.1,
-    sizeMax: 0.9,
-    colorMode: 0,
-    monoColor: new THREE.Color(1, 1, 1),
-    duoDark: new THREE.Color(0, 0, 0),
-    duoLight: new THREE.Color(1, 1, 1),
-    background: new THREE.Color(0, 0, 0),
-    softness: 0.1,
-    invert: false,
-    gap: 0.1
-  }
-  
-  // ASCII post-processing
-  private asciiScene: THREE.Scene
-  private asciiQuad: THREE.Mesh
-  private asciiMaterial: THREE.ShaderMaterial
-  private asciiEnabled: boolean = false
-  private asciiSettings: {
-    density: number
-    charCount: number
-    colored: boolean
-    monoColor: THREE.Color
-    background: THREE.Color
-    invert: boolean
-  } = {
-    density: 80,
-    charCount: 10,
-    colored: true,
-    monoColor: new THREE.Color(1, 1, 1),
-    background: new THREE.Color(0, 0, 0),
-    invert: false
-  }
+  // Shared-context mode: the WebGL renderer belongs to SharedRenderer and
+  // frames are copied onto this.canvas through a 2D context
+  private shared: boolean = false
+  private context2d: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null
+  private basePixelRatio: number = 1
+  
+  // State last applied by applyFullStateToEngine — the base for animation overrides
+  private baseState: GradientState | null = null
+  
+  // Seamless loops: seconds after which every time-driven uniform repeats
+  private loopDuration: number | null = null
+  
+  // Adaptive quality: the tier scales the render size and masks costly effects
+  private governor: QualityGovernor
+  private renderScale: number = 1
+  private effects: EffectsState | null = null
+  private onQualityChange: ((tier: QualityTier, settings: QualitySettings) => void) | null = null
+  
+  // Post-processing
+  private postPipeline: PostPipeline
+  private blurPass: BlurPass
+  private bloomPass: BloomPass
+  private outputPass: OutputPass
+  private asciiPass: AsciiPass
+  private dotMatrixPass: DotMatrixPass
+  private typeCrossfadePass: TypeCrossfadePass
+  private layerStackPass: LayerStackPass
+  private maskPass: MaskPass
   
   // Dimension retry tracking for containers that aren't ready yet
   private dimensionRetryId: number | null = null
   private lastValidWidth: number = 0
   private lastValidHeight: number = 0
 
-  // ASCII atlas tracking
-  private currentAsciiCharacters: string = ''
-  private asciiAtlas: THREE.Texture | null = null
-
   // WebGL context loss recovery
   private contextLost: boolean = false
   private onContextRestored: (() => void) | null = null
@@ -152,7 +125,10 @@ export class GradientEngine {
   private boundHandleContextLost: (e: Event) => void
   private boundHandleContextRestored: (e: Event) => void
 
-  constructor(canvas: HTMLCanvasElement, options?: { forExport?: boolean }) {
+  constructor(
+    canvas: HTMLCanvasElement | OffscreenCanvas,
+    options?: { forExport?: boolean; shared?: boolean; pixelRatio?: number }
+  ) {
     this.canvas = canvas
     this.shaderManager = new ShaderManager()
 
@@ -160,23 +136,32 @@ export class GradientEngine {
     this.boundHandleContextLost = this.handleContextLost.bind(this)
     this.boundHandleContextRestored = this.handleContextRestored.bind(this)
 
-    // For export, disable antialiasing to prevent edge softening at high res
-    const useAntialias = !options?.forExport
-
-    this.renderer = new THREE.WebGLRenderer({
-      canvas: this.canvas,
-      antialias: useAntialias,
-      alpha: false,
-      preserveDrawingBuffer: true,
-      powerPreference: options?.forExport ? 'high-performance' : 'default',
-    })
-    
-    const pixelRatio = options?.forExport ? 1 : Math.min(window.devicePixelRatio, 2)
-    this.renderer.setPixelRatio(pixelRatio)
-    this.renderer.outputColorSpace = THREE.SRGBColorSpace
-    
-    if (options?.forExport) {
-      console.log(`[GradientEngine] Export mode: pixelRatio=${pixelRatio}, antialias=${useAntialias}`)
+    if (options?.shared && !options.forExport) {
+      this.shared = true
+      this.renderer = acquireSharedRenderer()
+      this.context2d = this.canvas.getContext('2d') as
+        CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+      this.basePixelRatio = options.pixelRatio ?? Math.min(window.devicePixelRatio, 2)
+    } else {
+      // For export, disable antialiasing to prevent edge softening at high res
+      const useAntialias = !options?.forExport
+
+      this.renderer = new THREE.WebGLRenderer({
+        canvas: this.canvas,
+        antialias: useAntialias,
+        alpha: true,
+        preserveDrawingBuffer: true,
+        powerPreference: options?.forExport ? 'high-performance' : 'default',
+      })
+      
+      const pixelRatio = options?.forExport ? 1 : options?.pixelRatio ?? Math.min(window.devicePixelRatio, 2)
+      this.basePixelRatio = pixelRatio
+      this.renderer.setPixelRatio(pixelRatio)
+      this.renderer.outputColorSpace = THREE.SRGBColorSpace
+      
+      if (options?.forExport) {
+        console.log(`[GradientEngine] Export mode: pixelRatio=${pixelRatio}, antialias=${useAntialias}`)
+      }
     }
     
     this.scene = new THREE.Scene()
@@ -191,103 +176,35 @@ export class GradientEngine {
     this.quad = new THREE.Mesh(geometry, material)
     this.scene.add(this.quad)
     
-    // Shared post-process camera
-    const postCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
-    const postGeometry = new THREE.PlaneGeometry(2, 2)
-    
-    // Setup blur post-processing
-    this.blurScene = new THREE.Scene()
-    this.blurCamera = postCamera.clone()
-    this.blurMaterial = new THREE.ShaderMaterial({
-      uniforms: {
-        tDiffuse: { value: null },
-        u_blurAmount: { value: 0 },
-        u_resolution: { value: new THREE.Vector2(1, 1) }
-      },
-      vertexShader: blurVertexShader,
-      fragmentShader: blurFragmentShader
-    })
-    this.blurQuad = new THREE.Mesh(postGeometry.clone(), this.blurMaterial)
-    this.blurScene.add(this.blurQuad)
-    
-    // Setup Dot Matrix post-processing
-    this.dotMatrixScene = new THREE.Scene()
-    this.dotMatrixMaterial = new THREE.ShaderMaterial({
-      uniforms: {
-        tDiffuse: { value: null },
-        u_resolution: { value: new THREE.Vector2(1, 1) },
-        u_density: { value: 50 },
-        u_shape: { value: 0 },
-        u_sizeMin: { value: 0.1 },
-        u_sizeMax: { value: 0.9 },
-        u_colorMode: { value: 0 },
-        u_monoColor: { value: new THREE.Color(1, 1, 1) },
-        u_duoDark: { value: new THREE.Color(0, 0, 0) },
-        u_duoLight: { value: new THREE.Color(1, 1, 1) },
-        u_background: { value: new THREE.Color(0, 0, 0) },
-        u_softness: { value: 0.1 },
-        u_invert: { value: false },
-        u_gap: { value: 0.1 },
-        u_time: { value: 0 },
-        // Perspective uniforms
-        u_perspectiveEnabled: { value: false },
-        u_perspectiveTiltX: { value: 0 },
-        u_perspectiveTiltY: { value: 0 }
-      },
-      vertexShader: dotMatrixVertexShader,
-      fragmentShader: dotMatrixFragmentShader
-    })
-    this.dotMatrixQuad = new THREE.Mesh(postGeometry.clone(), this.dotMatrixMaterial)
-    this.dotMatrixScene.add(this.dotMatrixQuad)
-    
-    // Setup ASCII post-processing
-    this.asciiScene = new THREE.Scene()
-    this.asciiMaterial = new THREE.ShaderMaterial({
-      uniforms: {
-        // Core uniforms
-        tDiffuse: { value: null },
-        u_asciiAtlas: { value: null },
-        u_resolution: { value: new THREE.Vector2(1, 1) },
-        u_density: { value: 80 },
-        u_charCount: { value: 10 },
-        u_colored: { value: true },
-        u_monoColor: { value: new THREE.Color(1, 1, 1) },
-        u_background: { value: new THREE.Color(0, 0, 0) },
-        u_invert: { value: false },
-        // Typography uniforms
-        u_rotation: { value: 0 },
-        u_lineHeight: { value: 1.0 },
-        u_letterSpacing: { value: 1.0 },
-        // Shadow uniforms
-        u_shadowEnabled: { value: false },
-        u_shadowColor: { value: new THREE.Color(0, 0, 0) },
-        u_shadowOffsetX: { value: 2 },
-        u_shadowOffsetY: { value: 2 },
-        u_shadowBlur: { value: 0 },
-        // Glow uniforms
-        u_glowEnabled: { value: false },
-        u_glowAmount: { value: 50 },
-        u_glowRadius: { value: 0.3 },
-        // Perspective uniforms
-        u_perspectiveEnabled: { value: false },
-        u_perspectiveTiltX: { value: 0 },
-        u_perspectiveTiltY: { value: 0 },
-        // Edge detection uniforms
-        u_edgeEnabled: { value: false },
-        u_edgeThreshold: { value: 0.5 }
-      },
-      vertexShader: asciiVertexShader,
-      fragmentShader: asciiFragmentShader
-    })
-    this.asciiQuad = new THREE.Mesh(postGeometry.clone(), this.asciiMaterial)
-    this.asciiScene.add(this.asciiQuad)
-
-    // Add WebGL context loss/restore event listeners
-    this.canvas.addEventListener('webglcontextlost', this.boundHandleContextLost, false)
-    this.canvas.addEventListener('webglcontextrestored', this.boundHandleContextRestored, false)
+    // Post-processing passes, in default order
+    this.postPipeline = new PostPipeline(this.renderer)
+    this.typeCrossfadePass = new TypeCrossfadePass(this.shaderManager, this.camera)
+    this.asciiPass = new AsciiPass()
+    this.dotMatrixPass = new DotMatrixPass()
+    this.blurPass = new BlurPass()
+    this.bloomPass = new BloomPass()
+    this.layerStackPass = new LayerStackPass()
+    this.postPipeline.addPass(this.typeCrossfadePass)
+    this.postPipeline.addPass(this.layerStackPass)
+    this.postPipeline.addPass(this.bloomPass)
+    this.postPipeline.addPass(this.asciiPass)
+    this.postPipeline.addPass(this.dotMatrixPass)
+    this.postPipeline.addPass(this.blurPass)
+    this.maskPass = new MaskPass()
+    this.postPipeline.addPass(this.maskPass)
+    this.outputPass = new OutputPass()
+    this.postPipeline.setOutputPass(this.outputPass)
+
+    // Exports always render at full quality
+    this.governor = new QualityGovernor()
+    this.governor.setChangeCallback((tier, settings) => this.applyQualitySettings(tier, settings))
+    if (options?.forExport) this.governor.setForcedTier('high')
+
+    // Add WebGL context loss/restore event listeners (on the shared canvas in shared mode)
+    this.renderer.domElement.addEventListener('webglcontextlost', this.boundHandleContextLost, false)
+    this.renderer.domElement.addEventListener('webglcontextrestored', this.boundHandleContextRestored, false)
 
     this.handleResize()
-    this.startTime = performance.now()
   }
 
   /**
@@ -312,30 +229,16 @@ export class GradientEngine {
     this.contextLost = false
 
     // Recreate render targets
-    const pixelRatio = this.renderer.getPixelRatio()
+    const pixelRatio = this.getPixelRatio()
     const renderW = Math.floor(this.lastValidWidth * pixelRatio)
     const renderH = Math.floor(this.lastValidHeight * pixelRatio)
 
     if (renderW > 0 && renderH > 0) {
-      const rtOptions = {
-        minFilter: THREE.LinearFilter,
-        magFilter: THREE.LinearFilter,
-        format: THREE.RGBAFormat
-      }
-
-      if (this.renderTarget1) this.renderTarget1.dispose()
-      if (this.renderTarget2) this.renderTarget2.dispose()
-      this.renderTarget1 = new THREE.WebGLRenderTarget(renderW, renderH, rtOptions)
-      this.renderTarget2 = new THREE.WebGLRenderTarget(renderW, renderH, rtOptions)
+      this.postPipeline.setSize(renderW, renderH)
     }
 
     // Regenerate ASCII atlas if needed
-    if (this.asciiEnabled && this.currentAsciiCharacters) {
-      const characters = this.currentAsciiCharacters.split(':')[0] || 'GradientLab'
-      if (this.asciiAtlas) this.asciiAtlas.dispose()
-      this.asciiAtlas = generateAsciiAtlas(characters)
-      this.asciiMaterial.uniforms.u_asciiAtlas.value = this.asciiAtlas
-    }
+    this.asciiPass.restore()
 
     // Notify external listeners
     if (this.onContextRestored) {
@@ -343,6 +246,7 @@ export class GradientEngine {
     }
 
     // Force a render to show current state
+    this.invalidate()
     this.render()
   }
 
@@ -367,8 +271,9 @@ export class GradientEngine {
       this.dimensionRetryId = null
     }
     
-    const w = width ?? this.canvas.clientWidth
-    const h = height ?? this.canvas.clientHeight
+    const layout = this.getLayoutSize()
+    const w = width ?? layout.width
+    const h = height ?? layout.height
     
     if (w === 0 || h === 0) {
       this.scheduleResizeRetry()
@@ -378,30 +283,35 @@ export class GradientEngine {
     this.lastValidWidth = w
     this.lastValidHeight = h
     
-    this.renderer.setSize(w, h, false)
-    this.shaderManager.setAspectRatio(w, h)
+    const region = this.renderRegion
+    this.shaderManager.setAspectRatio(region?.fullWidth ?? w, region?.fullHeight ?? h)
     
-    const pixelRatio = this.renderer.getPixelRatio()
+    const pixelRatio = this.getPixelRatio()
     const renderW = Math.floor(w * pixelRatio)
     const renderH = Math.floor(h * pixelRatio)
     
-    // Create/resize render targets
-    if (this.renderTarget1) this.renderTarget1.dispose()
-    if (this.renderTarget2) this.renderTarget2.dispose()
+    // Resizing clears the canvas, so only touch it when the size changed
+    if (renderW === this.renderWidth && renderH === this.renderHeight) return
+    this.renderWidth = renderW
+    this.renderHeight = renderH
     
-    const rtOptions = {
-      minFilter: THREE.LinearFilter,
-      magFilter: THREE.LinearFilter,
-      format: THREE.RGBAFormat
+    if (this.shared) {
+      // The 2D canvas holds device pixels; the shared renderer sizes itself per frame
+      this.canvas.width = renderW
+      this.canvas.height = renderH
+    } else {
+      this.renderer.setPixelRatio(pixelRatio)
+      this.renderer.setSize(w, h, false)
     }
-    this.renderTarget1 = new THREE.WebGLRenderTarget(renderW, renderH, rtOptions)
-    this.renderTarget2 = new THREE.WebGLRenderTarget(renderW, renderH, rtOptions)
     
-    // Update all post-process shader resolutions
-    const resolution = new THREE.Vector2(renderW, renderH)
-    this.blurMaterial.uniforms.u_resolution.value.copy(resolution)
-    this.dotMatrixMaterial.uniforms.u_resolution.value.copy(resolution)
-    this.asciiMaterial.uniforms.u_resolution.value.copy(resolution)
+    // Resize post-process targets and shader resolutions
+    this.postPipeline.setSize(renderW, renderH)
+    if (region) this.shaderManager.setRenderRegion(region, renderW, renderH)
+    this.invalidate()
+  }
+  
+  private getPixelRatio(): number {
+    return this.basePixelRatio * this.renderScale
   }
   
   private scheduleResizeRetry(attempts: number = 0): void {
@@ -412,8 +322,7 @@ export class GradientEngine {
     
     this.dimensionRetryId = requestAnimationFrame(() => {
       this.dimensionRetryId = null
-      const w = this.canvas.clientWidth
-      const h = this.canvas.clientHeight
+      const { width: w, height: h } = this.getLayoutSize()
       
       if (w > 0 && h > 0) {
         this.handleResize(w, h)
@@ -424,7 +333,14 @@ export class GradientEngine {
     })
   }
   
+  /** CSS size of the canvas; offscreen canvases only know what they were last given */
+  private getLayoutSize(): { width: number; height: number } {
+    if (!isHtmlCanvas(this.canvas)) return { width: this.lastValidWidth, height: this.lastValidHeight }
+    return { width: this.canvas.clientWidth, height: this.canvas.clientHeight }
+  }
+  
   forceContainerFit(): void {
+    if (!isHtmlCanvas(this.canvas)) return
     const parent = this.canvas.parentElement
     if (!parent) return
     
@@ -432,6 +348,9 @@ export class GradientEngine {
     if (rect.width > 0 && rect.height > 0) {
       this.canvas.width = rect.width
       this.canvas.height = rect.height
+      // Setting the canvas size by hand cleared it; size everything again
+      this.renderWidth = 0
+      this.renderHeight = 0
       this.handleResize(rect.width, rect.height)
       this.render()
     } else {
@@ -443,19 +362,19 @@ export class GradientEngine {
     return this.lastValidWidth > 0 && this.lastValidHeight > 0
   }
   
+  /** Built-in or registered (see gradientTypes.ts); unknown types are ignored */
   setGradientType(type: string): void {
-    const validTypes: GradientType[] = ['linear', 'radial', 'conic', 'diamond', 'spiral', 'aurora', 'stripes', 'folded', 'reverb']
-    if (!validTypes.includes(type as GradientType)) return
-    const gradientType = type as GradientType
-    if (gradientType !== this.currentType) {
-      this.currentType = gradientType
-      const material = this.shaderManager.setGradientType(gradientType)
+    if (!isGradientType(type)) return
+    if (type !== this.currentType) {
+      this.currentType = type
+      const material = this.shaderManager.setGradientType(type)
       if (material) this.quad.material = material
     }
   }
   
   setColorStops(stops: ColorStop[]): void { this.shaderManager.setColorStops(stops) }
   setAngle(angle: number): void { this.shaderManager.setAngle(angle) }
+  setColorCycle(cycle: number): void { this.shaderManager.setColorCycle(cycle) }
   setCenter(x: number, y: number): void { this.shaderManager.setCenter(x, y) }
   setBlendOptions(options: BlendOptions): void { this.shaderManager.setBlendOptions(options) }
   
@@ -468,235 +387,243 @@ export class GradientEngine {
   setStripesSettings(settings: StripesSettings): void { this.shaderManager.setStripesSettings(settings) }
   setFoldedSettings(settings: FoldedSettings): void { this.shaderManager.setFoldedSettings(settings) }
   setReverbSettings(settings: ReverbSettings): void { this.shaderManager.setReverbSettings(settings) }
+  setMeshSettings(settings: MeshSettings): void { this.shaderManager.setMeshSettings(settings) }
+  setNoiseSettings(settings: NoiseSettings): void { this.shaderManager.setNoiseSettings(settings) }
+  setTypeSettings(type: GradientType, settings?: Partial<CustomSettings>): void { this.shaderManager.setTypeSettings(type, settings) }
   setMaterialSettings(materials: MaterialState): void { this.shaderManager.setMaterialSettings(materials) }
   setGeometryEffectsSettings(effects: GeometryEffectsState): void { this.shaderManager.setGeometryEffectsSettings(effects) }
   
   setEffectsSettings(effects: EffectsState): void { 
-    // Handle ASCII settings
-    if (effects.ascii) {
-      this.asciiEnabled = effects.ascii.enabled ?? false
-      
-      if (this.asciiEnabled) {
-        const characters = effects.ascii.characters || 'GradientLab'
-        const customFont = effects.ascii.customFont || null
-        const customFontName = effects.ascii.customFontName || null
-
-        // Create a cache key that includes both characters and font
-        const cacheKey = `${characters}:${customFontName || 'default'}`
-
-        // Regenerate atlas if characters or font changed, or if atlas doesn't exist
-        if (cacheKey !== this.currentAsciiCharacters || !this.asciiAtlas) {
-          this.currentAsciiCharacters = cacheKey
-
-          if (this.asciiAtlas) {
-            this.asciiAtlas.dispose()
-          }
-
-          // Load custom font if provided, then generate atlas
-          if (customFont && customFontName) {
-            // Generate atlas with default font first (so we have something to render)
-            this.asciiAtlas = generateAsciiAtlas(characters)
-            this.asciiMaterial.uniforms.u_asciiAtlas.value = this.asciiAtlas
-            this.asciiMaterial.uniforms.u_charCount.value = Array.from(characters).length
-
-            // Then try to load custom font and regenerate
-            loadCustomFontFromBase64(customFont, customFontName)
-              .then((fontName) => {
-                if (this.asciiAtlas) this.asciiAtlas.dispose()
-                this.asciiAtlas = generateAsciiAtlas(characters, fontName)
-                this.asciiMaterial.uniforms.u_asciiAtlas.value = this.asciiAtlas
-              })
-              .catch((err) => {
-                console.warn('[GradientEngine] Failed to load custom font:', err)
-              })
-          } else {
-            this.asciiAtlas = generateAsciiAtlas(characters)
-            this.asciiMaterial.uniforms.u_asciiAtlas.value = this.asciiAtlas
-            this.asciiMaterial.uniforms.u_charCount.value = Array.from(characters).length
-          }
-        }
-        
-        // Update ASCII uniforms - Core
-        this.asciiMaterial.uniforms.u_density.value = effects.ascii.density ?? 80
-        this.asciiMaterial.uniforms.u_colored.value = effects.ascii.colorMode === 'colored'
-        this.asciiMaterial.uniforms.u_invert.value = effects.ascii.invert ?? false
-
-        if (effects.ascii.monoColor) {
-          this.asciiMaterial.uniforms.u_monoColor.value.set(effects.ascii.monoColor)
-        }
-        if (effects.ascii.backgroundColor) {
-          this.asciiMaterial.uniforms.u_background.value.set(effects.ascii.backgroundColor)
-        }
-
-        // Update ASCII uniforms - Typography
-        this.asciiMaterial.uniforms.u_rotation.value = effects.ascii.rotation ?? 0
-        this.asciiMaterial.uniforms.u_lineHeight.value = (effects.ascii.lineHeight ?? 100) / 100
-        this.asciiMaterial.uniforms.u_letterSpacing.value = (effects.ascii.letterSpacing ?? 100) / 100
-
-        // Update ASCII uniforms - Shadow
-        const shadow = effects.ascii.shadow
-        this.asciiMaterial.uniforms.u_shadowEnabled.value = shadow?.enabled ?? false
-        if (shadow?.color) {
-          this.asciiMaterial.uniforms.u_shadowColor.value.set(shadow.color)
-        }
-        this.asciiMaterial.uniforms.u_shadowOffsetX.value = shadow?.offsetX ?? 2
-        this.asciiMaterial.uniforms.u_shadowOffsetY.value = shadow?.offsetY ?? 2
-        this.asciiMaterial.uniforms.u_shadowBlur.value = (shadow?.blur ?? 0) / 100
-
-        // Update ASCII uniforms - Glow
-        const glow = effects.ascii.glow
-        this.asciiMaterial.uniforms.u_glowEnabled.value = glow?.enabled ?? false
-        this.asciiMaterial.uniforms.u_glowAmount.value = glow?.amount ?? 50
-        this.asciiMaterial.uniforms.u_glowRadius.value = (glow?.radius ?? 30) / 100
-
-        // Update ASCII uniforms - Perspective
-        const perspective = effects.ascii.perspective
-        this.asciiMaterial.uniforms.u_perspectiveEnabled.value = perspective?.enabled ?? false
-        this.asciiMaterial.uniforms.u_perspectiveTiltX.value = perspective?.tiltX ?? 0
-        this.asciiMaterial.uniforms.u_perspectiveTiltY.value = perspective?.tiltY ?? 0
-
-        // Update ASCII uniforms - Edge Detection
-        const edge = effects.ascii.edge
-        this.asciiMaterial.uniforms.u_edgeEnabled.value = edge?.enabled ?? false
-        this.asciiMaterial.uniforms.u_edgeThreshold.value = (edge?.threshold ?? 50) / 100
-      }
-    } else {
-      this.asciiEnabled = false
-    }
-    
-    // Handle Dot Matrix settings
-    if (effects.dotMatrix) {
-      this.dotMatrixEnabled = effects.dotMatrix.enabled ?? false
-      
-      if (this.dotMatrixEnabled) {
-        const dm = this.dotMatrixMaterial.uniforms
-        dm.u_density.value = effects.dotMatrix.density ?? 60
-        
-        // Map shape string to int: circle=0, square=1, diamond=2
-        const shapeMap: Record<string, number> = { circle: 0, square: 1, diamond: 2 }
-        dm.u_shape.value = shapeMap[effects.dotMatrix.shape] ?? 0
-        
-        // Convert 0-100 to 0-1
-        dm.u_sizeMin.value = (effects.dotMatrix.sizeMin ?? 10) / 100
-        dm.u_sizeMax.value = (effects.dotMatrix.sizeMax ?? 100) / 100
-        
-        // Map colorMode string to int: colored=0, mono=1, duotone=2
-        const colorModeMap: Record<string, number> = { colored: 0, mono: 1, duotone: 2 }
-        dm.u_colorMode.value = colorModeMap[effects.dotMatrix.colorMode] ?? 0
-        
-        dm.u_softness.value = (effects.dotMatrix.softness ?? 0) / 100
-        dm.u_invert.value = effects.dotMatrix.invert ?? false
-        dm.u_gap.value = (effects.dotMatrix.gap ?? 0) / 100
-        
-        if (effects.dotMatrix.monoColor) {
-          dm.u_monoColor.value.set(effects.dotMatrix.monoColor)
-        }
-        if (effects.dotMatrix.duotoneDark) {
-          dm.u_duoDark.value.set(effects.dotMatrix.duotoneDark)
-        }
-        if (effects.dotMatrix.duotoneLight) {
-          dm.u_duoLight.value.set(effects.dotMatrix.duotoneLight)
-        }
-        if (effects.dotMatrix.backgroundColor) {
-          dm.u_background.value.set(effects.dotMatrix.backgroundColor)
-        }
-
-        // Perspective
-        dm.u_perspectiveEnabled.value = effects.dotMatrix.perspective?.enabled ?? false
-        dm.u_perspectiveTiltX.value = effects.dotMatrix.perspective?.tiltX ?? 0
-        dm.u_perspectiveTiltY.value = effects.dotMatrix.perspective?.tiltY ?? 0
-      }
-    } else {
-      this.dotMatrixEnabled = false
-    }
-    
-    // Pass other effects to shader manager
-    this.shaderManager.setEffectsSettings(effects) 
+    this.effects = effects
+    this.asciiPass.setSettings(effects.ascii)
+    this.dotMatrixPass.setSettings(effects.dotMatrix)
+    this.bloomPass.setSettings(effects.glow)
+    
+    // Pass other effects to shader manager, minus what the quality tier drops
+    const quality = this.governor.getSettings()
+    this.shaderManager.setEffectsSettings({
+      ...effects,
+      grain: { ...effects.grain, enabled: effects.grain.enabled && quality.grain },
+      chromatic: { ...effects.chromatic, enabled: effects.chromatic.enabled && quality.chromatic },
+    })
   }
   
   setWarpSettings(warp: WarpState): void { 
     this.shaderManager.setWarpSettings(warp)
-    this.blurEnabled = warp.blur?.enabled ?? false
-    this.blurAmount = warp.blur?.amount ?? 0
+    this.blurPass.setSettings(warp.blur)
+  }
+  
+  /**
+   * Exposure, tone mapping and render-target precision. `hdr` falls back to
+   * 8-bit targets where the GPU can't render to half-float.
+   */
+  setOutputSettings(output: OutputSettings): void {
+    const hdr = this.postPipeline.setHdr(output.hdr)
+    this.shaderManager.setHdr(hdr)
+    this.outputPass.setSettings(output)
+  }
+  
+  setAlphaMask(mask: AlphaMaskSettings): void {
+    this.shaderManager.setAlphaMask(mask)
+  }
+  
+  /** Color composited under the gradient; #RRGGBBAA for translucent */
+  setBackgroundColor(color: string): void {
+    this.shaderManager.setBackgroundColor(color)
+  }
+  
+  /**
+   * Keep the gradient only inside `source`'s alpha — display type or an SVG
+   * shape, see masks.ts — with transparency elsewhere. The mask stretches
+   * over the whole canvas; null removes it. Call again with the same canvas
+   * after redrawing it.
+   */
+  setMask(source: MaskSource | null): void {
+    this.maskPass.setSource(source)
+    this.invalidate()
+  }
+  
+  /** Soft halo around the mask, null for none */
+  setMaskGlow(glow: MaskGlowSettings | null): void {
+    this.maskPass.setGlow(glow)
+  }
+  
+  /**
+   * Render only a window of a larger image: after this the canvas holds the
+   * window at `region.x, region.y` (render pixels from the bottom-left) of a
+   * fullWidth × fullHeight image. Used by the tiled exporter; null renders
+   * the whole image again.
+   */
+  setRenderRegion(region: RenderRegion | null): void {
+    this.renderRegion = region
+    if (region) {
+      this.shaderManager.setAspectRatio(region.fullWidth, region.fullHeight)
+    } else if (this.lastValidWidth > 0 && this.lastValidHeight > 0) {
+      this.shaderManager.setAspectRatio(this.lastValidWidth, this.lastValidHeight)
+    }
+    this.shaderManager.setRenderRegion(region, this.renderWidth, this.renderHeight)
+    this.postPipeline.setRegion(region)
+    this.invalidate()
+  }
+  
+  /**
+   * Overlap a tile needs around it for the enabled post passes to see real
+   * neighbours; Infinity when one of them reads across the whole image
+   */
+  getTileMargin(): number { return this.postPipeline.getTileMargin() }
+  
+  /** Whether half-float targets are in use */
+  isHdr(): boolean { return this.postPipeline.isHdr() }
+  
+  /**
+   * Post-processing pipeline access — add custom passes or reorder the
+   * built-in ones ('typeCrossfade', 'layers', 'bloom', 'ascii', 'dotMatrix',
+   * 'blur', 'mask').
+   * The output pass isn't part of the order; it always runs last.
+   */
+  getPostPipeline(): PostPipeline { return this.postPipeline }
+  addPostPass(pass: PostPass, index?: number): void { this.postPipeline.addPass(pass, index) }
+  setPostPassOrder(names: string[]): void { this.postPipeline.setOrder(names) }
+  
+  /**
+   * Mix a second gradient type over the current one by `amount` (0-1) —
+   * how preset morphs cross between types. Null turns it off.
+   */
+  setTypeCrossfade(type: GradientType | null, amount: number = 0): void {
+    this.typeCrossfadePass.setCrossfade(type, amount)
+  }
+  
+  /**
+   * Gradients stacked over this one, bottom first, each with its own state,
+   * placement, opacity and blend mode. They composite in linear light before
+   * the post passes, which this engine's state still sets for the whole stack.
+   * Layers are kept and updated in place across calls; an empty list removes them.
+   */
+  setLayers(layers: LayerSettings[]): void {
+    this.layerStackPass.setLayers(layers)
+    this.invalidate()
+  }
+  
+  /** The layer stack, bottom first — move or fade a layer without rebuilding the stack */
+  getLayers(): readonly GradientLayer[] { return this.layerStackPass.getLayers() }
+  
+  /**
+   * Feed the quality governor one requestAnimationFrame timestamp (ms).
+   * Returns false when the tier's frame-rate cap says to skip this frame.
+   */
+  sampleFrame(timestamp: number): boolean { return this.governor.sampleFrame(timestamp) }
+  
+  /**
+   * Pin a quality tier for this engine, or 'auto' to follow frame times
+   */
+  setQuality(quality: QualityTier | 'auto'): void {
+    this.governor.setForcedTier(quality === 'auto' ? null : quality)
+  }
+  
+  getQualityTier(): QualityTier { return this.governor.getTier() }
+  
+  /**
+   * Called whenever the quality tier changes
+   */
+  setQualityCallback(callback: ((tier: QualityTier, settings: QualitySettings) => void) | null): void {
+    this.onQualityChange = callback
+  }
+  
+  private applyQualitySettings(tier: QualityTier, settings: QualitySettings): void {
+    this.blurPass.setQuality(settings.blur)
+    this.bloomPass.setQuality(settings.blur)
+    if (this.effects) this.setEffectsSettings(this.effects)
+    
+    if (settings.renderScale !== this.renderScale) {
+      this.renderScale = settings.renderScale
+      if (this.hasValidDimensions()) this.handleResize(this.lastValidWidth, this.lastValidHeight)
+    }
+    this.onQualityChange?.(tier, settings)
   }
   
   // Lava Lamp settings
   setLavaLampEnabled(enabled: boolean): void { this.shaderManager.setLavaLampEnabled(enabled) }
   setLavaLampIntensity(intensity: number): void { this.shaderManager.setLavaLampIntensity(intensity) }
   setLavaLampBlobCount(count: number): void { this.shaderManager.setLavaLampBlobCount(count) }
-  setLavaLampTime(time: number): void { this.shaderManager.setLavaLampTime(time) }
   
-  render(): void {
+  /**
+   * Lock time-driven uniforms (grain, lava lamp, evolving noise, domain
+   * warp) to a loop of `seconds`. Pass null to let time run freely again.
+   * Registered types that read u_time themselves just wrap at the seam.
+   */
+  setLoopDuration(seconds: number | null): void {
+    this.loopDuration = seconds !== null && seconds > 0 ? seconds : null
+    this.layerStackPass.setLoopDuration(this.loopDuration)
+    this.invalidate()
+  }
+  
+  getLoopDuration(): number | null { return this.loopDuration }
+  
+  /**
+   * Draw `time` (default: the animation clock's) — skipped when the frame
+   * would look the same as the last one
+   */
+  render(time: number = animationClock.getTime()): void {
     // Skip rendering if context is lost
     if (this.contextLost) return
-    const elapsed = (performance.now() - this.startTime) / 1000
-    this.renderAtTime(elapsed)
+    if (!this.consumeChanges(time)) return
+    this.renderAtTime(time)
+  }
+  
+  /**
+   * Make the next render() draw even if no tracked state changed
+   */
+  invalidate(): void {
+    this.needsRender = true
+  }
+  
+  /**
+   * Whether the current settings change over time on their own (animated
+   * grain, lava lamp, evolving noise), i.e. a static plane needs more than one frame
+   */
+  isTimeDependent(): boolean {
+    return this.shaderManager.isTimeDependent() || this.postPipeline.isTimeDependent()
+  }
+  
+  private consumeChanges(time: number): boolean {
+    // Both record their current state, so neither may be short-circuited
+    const uniformsChanged = this.shaderManager.consumeChanges()
+    const passesChanged = this.postPipeline.consumeChanges()
+    const timeChanged = time !== this.renderedTime && this.isTimeDependent()
+    return this.needsRender || uniformsChanged || passesChanged || timeChanged
   }
   
   /**
    * Render at a specific time - useful for exports where we control the animation time
    * 
    * Rendering pipeline:
-   * 1. Render gradient to texture (if post-processing needed)
-   * 2. Apply ASCII or Dot Matrix (mutually exclusive)
-   * 3. Apply blur (if enabled)
-   * 4. Render to screen
+   * 1. Render gradient (to texture if any post pass is enabled)
+   * 2. Run each enabled post pass in pipeline order
+   * 3. The last pass draws to screen
    */
   renderAtTime(time: number): void {
-    this.shaderManager.setTime(time)
-    
-    const needsPostProcess = this.asciiEnabled || this.dotMatrixEnabled || (this.blurEnabled && this.blurAmount > 0)
-    
-    if (!needsPostProcess || !this.renderTarget1 || !this.renderTarget2) {
-      // Direct render - no post-processing
-      this.renderer.setRenderTarget(null)
-      this.renderer.render(this.scene, this.camera)
-      return
+    this.needsRender = false
+    this.renderedTime = time
+    if (this.loopDuration !== null) {
+      time %= this.loopDuration
     }
+    this.shaderManager.setTime(time, this.loopDuration)
     
-    // Pass 1: Render gradient to texture
-    this.renderer.setRenderTarget(this.renderTarget1)
-    this.renderer.render(this.scene, this.camera)
-    
-    let currentSource = this.renderTarget1
-    let currentTarget = this.renderTarget2
-    
-    // Pass 2: ASCII or Dot Matrix (mutually exclusive - ASCII takes priority)
-    if (this.asciiEnabled && this.asciiAtlas) {
-      this.asciiMaterial.uniforms.tDiffuse.value = currentSource.texture
-      this.renderer.setRenderTarget(currentTarget)
-      this.renderer.render(this.asciiScene, this.blurCamera)
-      
-      // Swap buffers
-      ;[currentSource, currentTarget] = [currentTarget, currentSource]
-    } else if (this.dotMatrixEnabled) {
-      this.dotMatrixMaterial.uniforms.tDiffuse.value = currentSource.texture
-      this.dotMatrixMaterial.uniforms.u_time.value = time
-      this.renderer.setRenderTarget(currentTarget)
-      this.renderer.render(this.dotMatrixScene, this.blurCamera)
-      
-      // Swap buffers
-      ;[currentSource, currentTarget] = [currentTarget, currentSource]
+    if (!this.shared) {
+      this.postPipeline.render(this.scene, this.camera, time)
+      return
     }
     
-    // Pass 3: Blur (if enabled)
-    if (this.blurEnabled && this.blurAmount > 0) {
-      this.blurMaterial.uniforms.tDiffuse.value = currentSource.texture
-      this.blurMaterial.uniforms.u_blurAmount.value = this.blurAmount
-      this.renderer.setRenderTarget(currentTarget)
-      this.renderer.render(this.blurScene, this.blurCamera)
-      
-      // Swap for final output
-      ;[currentSource, currentTarget] = [currentTarget, currentSource]
-    }
+    // Shared mode: draw into the bottom-left region of the shared canvas,
+    // then copy it across before any other engine touches the context
+    const width = this.canvas.width
+    const height = this.canvas.height
+    if (!this.context2d || width === 0 || height === 0) return
     
-    // Final pass: Render to screen
-    // We need to copy from currentSource to screen
-    // Use blur material as a passthrough (amount=0 just copies)
-    this.blurMaterial.uniforms.tDiffuse.value = currentSource.texture
-    this.blurMaterial.uniforms.u_blurAmount.value = 0
-    this.renderer.setRenderTarget(null)
-    this.renderer.render(this.blurScene, this.blurCamera)
+    const source = prepareSharedViewport(width, height)
+    this.postPipeline.render(this.scene, this.camera, time)
+    this.context2d.clearRect(0, 0, width, height)
+    this.context2d.drawImage(source, 0, source.height - height, width, height, 0, 0, width, height)
   }
   
   renderAtTimeSync(time: number): void {
@@ -708,134 +635,117 @@ export class GradientEngine {
   startAnimation(): void {
     if (this.isAnimating) return
     this.isAnimating = true
-    this.startTime = performance.now()
-    const animate = () => {
-      if (!this.isAnimating) return
-      this.render()
-      this.animationFrameId = requestAnimationFrame(animate)
-    }
-    animate()
+    this.governor.reset()
+    this.unsubscribeClock = animationClock.subscribe({
+      update: (frame) => this.sampleFrame(frame.timestamp),
+      render: () => this.render(),
+    })
   }
   
   stopAnimation(): void {
     this.isAnimating = false
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId)
-      this.animationFrameId = null
-    }
+    this.unsubscribeClock?.()
+    this.unsubscribeClock = null
   }
   
-  getCanvas(): HTMLCanvasElement { return this.canvas }
+  getCanvas(): HTMLCanvasElement | OffscreenCanvas { return this.canvas }
   getRenderer(): THREE.WebGLRenderer { return this.renderer }
   
-  exportAsDataURL(format: 'png' | 'jpeg' = 'png', quality?: number): string {
+  /** PNG and WebP keep transparency; JPEG flattens it onto black */
+  exportAsDataURL(format: 'png' | 'jpeg' | 'webp' = 'png', quality?: number): string {
+    if (!isHtmlCanvas(this.canvas)) {
+      throw new Error('[GradientEngine] exportAsDataURL needs an HTMLCanvasElement — use exportAsBlob')
+    }
     this.render()
     return this.canvas.toDataURL(`image/${format}`, quality)
   }
   
-  exportAsBlob(format: 'png' | 'jpeg' = 'png', quality?: number): Promise<Blob | null> {
+  exportAsBlob(format: 'png' | 'jpeg' | 'webp' = 'png', quality?: number): Promise<Blob | null> {
+    this.render()
+    const canvas = this.canvas
+    if (!isHtmlCanvas(canvas)) {
+      return canvas.convertToBlob({ type: `image/${format}`, quality })
+    }
     return new Promise((resolve) => {
-      this.render()
-      this.canvas.toBlob((blob) => resolve(blob), `image/${format}`, quality)
+      canvas.toBlob((blob) => resolve(blob), `image/${format}`, quality)
     })
   }
   
-  applyAnimationOverrides(overrides: Record<string, number>): void {
-    const uniforms = this.shaderManager.getUniforms()
+  /**
+   * Remember the state applyFullStateToEngine just applied. Animation
+   * overrides are resolved against it.
+   */
+  setBaseState(state: GradientState): void { this.baseState = state }
+  getBaseState(): GradientState | null { return this.baseState }
+  
+  /**
+   * Override any numeric or color field of the base state by dotted path
+   * ('angle', 'colorStops.2.color', 'radialSettings.zoom', 'warp.twist.amount',
+   * 'meshSettings.points.4.color', 'effects.halftone.scale', ...). Values are
+   * in GradientState units; boolean fields switch on at >= 0.5. Keyframe
+   * timelines feed this every frame.
+   *
+   * Each call starts from the base state, so a group's fields that aren't
+   * overridden this time go back to their preset values.
+   */
+  applyAnimationOverrides(overrides: AnimationOverrides): void {
+    const { state, groups, rejected } = resolveOverrides(this.baseState ?? DEFAULT_GRADIENT_STATE, overrides)
     
-    for (const [path, value] of Object.entries(overrides)) {
-      const parts = path.split('.')
-      
-      if (parts.length === 1) {
-        if (parts[0] === 'angle') {
-          uniforms.angle.value = value
-        }
-      }
-      else if (parts[0] === 'warp' && parts.length === 3) {
-        const [, warpName, prop] = parts
-        
-        const warpMap: Record<string, Record<string, string>> = {
-          bend: { enabled: 'u_bendAmount', amount: 'u_bendAmount', axis: 'u_bendAxis', pinch: 'u_bendPinch' },
-          twist: { enabled: 'u_twistAmount', amount: 'u_twistAmount', radius: 'u_twistRadius', centerX: 'u_twistCenter', centerY: 'u_twistCenter' },
-          wave: { enabled: 'u_waveAmplitude', amplitude: 'u_waveAmplitude', frequency: 'u_waveFrequency', rotation: 'u_waveRotation' },
-          ripple: { enabled: 'u_rippleAmplitude', amplitude: 'u_rippleAmplitude', frequency: 'u_rippleFrequency', decay: 'u_rippleDecay', centerX: 'u_rippleCenter', centerY: 'u_rippleCenter', rotation: 'u_rippleRotation' },
-          sphere: { enabled: 'u_sphereAmount', amount: 'u_sphereAmount', radius: 'u_sphereRadius', centerX: 'u_sphereCenter', centerY: 'u_sphereCenter' },
-          bulge: { enabled: 'u_bulgeAmount', amount: 'u_bulgeAmount', radius: 'u_bulgeRadius', centerX: 'u_bulgeCenter', centerY: 'u_bulgeCenter' },
-          blur: { enabled: 'blur_enabled', amount: 'blur_amount' },
-        }
-        
-        if (warpName === 'blur') {
-          if (prop === 'enabled') {
-            this.blurEnabled = value >= 0.5
-          } else if (prop === 'amount') {
-            this.blurAmount = value
-          }
-        } else if (warpMap[warpName]) {
-          const uniformBase = warpMap[warpName][prop]
-          if (uniformBase && uniforms[uniformBase]) {
-            if (prop === 'enabled') {
-              // handled by warp state
-            } else if (prop === 'centerX' || prop === 'centerY') {
-              const centerUniform = uniforms[uniformBase] as THREE.Uniform<THREE.Vector2> | undefined
-              if (centerUniform && centerUniform.value) {
-                if (prop === 'centerX') {
-                  centerUniform.value.x = value * 0.01
-                } else {
-                  centerUniform.value.y = value * 0.01
-                }
-              }
-            } else {
-              uniforms[uniformBase].value = value
-            }
-          }
-        }
-      }
-      else if (parts[0] === 'materials' && parts.length === 3) {
-        const [, matName, prop] = parts
-        
-        const matMap: Record<string, Record<string, string>> = {
-          iridescent: { enabled: 'matIridescentEnabled', intensity: 'matIridescentIntensity', scale: 'matIridescentScale', shift: 'matIridescentShift' },
-          metallic: { enabled: 'matMetallicEnabled', intensity: 'matMetallicIntensity', highlight: 'matMetallicHighlight', contrast: 'matMetallicContrast' },
-          holographic: { enabled: 'matHolographicEnabled', intensity: 'matHolographicIntensity', density: 'matHolographicDensity', angle: 'matHolographicAngle' },
-          velvet: { enabled: 'matVelvetEnabled', intensity: 'matVelvetIntensity', depth: 'matVelvetDepth', glow: 'matVelvetGlow' },
-        }
-        
-        if (matMap[matName] && matMap[matName][prop]) {
-          const uniformName = matMap[matName][prop]
-          if (uniforms[uniformName]) {
-            if (prop === 'enabled') {
-              uniforms[uniformName].value = value >= 0.5 ? 1 : 0
-            } else {
-              uniforms[uniformName].value = value
-            }
-          }
-        }
-      }
-      else if (parts[0] === 'effects' && parts.length === 3) {
-        const [, effectName, prop] = parts
-        
-        const effectMap: Record<string, Record<string, string>> = {
-          chromatic: { enabled: 'u_chromaticEnabled', amount: 'u_chromaticAmount', angle: 'u_chromaticAngle' },
-          glow: { enabled: 'u_glowEnabled', amount: 'u_glowAmount', threshold: 'u_glowThreshold' },
-          vignette: { enabled: 'u_vignetteEnabled', amount: 'u_vignetteAmount', softness: 'u_vignetteSoftness' },
-          grain: { enabled: 'u_grainEnabled', amount: 'u_grainAmount', size: 'u_grainSize' },
-          posterize: { enabled: 'u_posterizeEnabled', levels: 'u_posterizeLevels' },
-        }
-        
-        if (effectMap[effectName] && effectMap[effectName][prop]) {
-          const uniformName = effectMap[effectName][prop]
-          if (uniforms[uniformName]) {
-            if (prop === 'enabled') {
-              uniforms[uniformName].value = value >= 0.5
-            } else {
-              uniforms[uniformName].value = value
-            }
-          }
-        }
+    for (const path of rejected) {
+      reportOverridePath(path, 'not a numeric or color field of GradientState')
+    }
+    for (const [group, paths] of groups) {
+      if (!this.applyStateGroup(state, group)) {
+        for (const path of paths) reportOverridePath(path, 'the engine does not render this field')
       }
     }
   }
   
+  /**
+   * Push one top-level GradientState field through its setter.
+   * Returns false for fields the engine has no uniforms for.
+   */
+  private applyStateGroup(state: GradientState, group: keyof GradientState): boolean {
+    const sm = this.shaderManager
+    switch (group) {
+      case 'colorStops': sm.setColorStops(state.colorStops); break
+      case 'angle': sm.setAngle(state.angle); break
+      case 'centerX':
+      case 'centerY': sm.setCenter(state.centerX, state.centerY); break
+      case 'gradientOffset': sm.setGradientOffset(state.gradientOffset); break
+      case 'gradientScale': sm.setGradientScale(state.gradientScale); break
+      case 'animColorSpread': sm.setColorSpread(state.animColorSpread); break
+      case 'colorCycle': sm.setColorCycle(state.colorCycle); break
+      case 'gradientCenterX':
+      case 'gradientCenterY': sm.setGradientCenter(state.gradientCenterX, state.gradientCenterY); break
+      case 'innerRadius': sm.setInnerRadius(state.innerRadius); break
+      case 'outerRadius': sm.setOuterRadius(state.outerRadius); break
+      case 'conicOffset': sm.setConicOffset(state.conicOffset); break
+      case 'blendOptions': this.setBlendOptions(state.blendOptions); break
+      case 'linearSettings': this.setLinearSettings(state.linearSettings); break
+      case 'radialSettings': this.setRadialSettings(state.radialSettings); break
+      case 'conicSettings': this.setConicSettings(state.conicSettings); break
+      case 'diamondSettings': this.setDiamondSettings(state.diamondSettings); break
+      case 'spiralSettings': this.setSpiralSettings(state.spiralSettings); break
+      case 'auroraSettings': this.setAuroraSettings(state.auroraSettings); break
+      case 'stripesSettings': this.setStripesSettings(state.stripesSettings); break
+      case 'foldedSettings': this.setFoldedSettings(state.foldedSettings); break
+      case 'reverbSettings': this.setReverbSettings(state.reverbSettings); break
+      case 'meshSettings': this.setMeshSettings(state.meshSettings); break
+      case 'noiseSettings': this.setNoiseSettings(state.noiseSettings); break
+      case 'typeSettings': this.setTypeSettings(this.currentType, getTypeSettings(state, this.currentType)); break
+      case 'geometryEffects': this.setGeometryEffectsSettings(state.geometryEffects); break
+      case 'warp': this.setWarpSettings(state.warp); break
+      case 'materials': this.setMaterialSettings(state.materials); break
+      case 'effects': this.setEffectsSettings(state.effects); break
+      case 'output': this.setOutputSettings(state.output); break
+      case 'alphaMask': this.setAlphaMask(state.alphaMask); break
+      case 'backgroundColor': this.setBackgroundColor(state.backgroundColor); break
+      default: return false
+    }
+    return true
+  }
+  
   getUniforms(): Record<string, { value: number }> {
     return this.shaderManager.getUniforms() as unknown as Record<string, { value: number }>
   }
@@ -844,53 +754,55 @@ export class GradientEngine {
     this.stopAnimation()
 
     // Remove context loss event listeners
-    this.canvas.removeEventListener('webglcontextlost', this.boundHandleContextLost)
-    this.canvas.removeEventListener('webglcontextrestored', this.boundHandleContextRestored)
+    this.renderer.domElement.removeEventListener('webglcontextlost', this.boundHandleContextLost)
+    this.renderer.domElement.removeEventListener('webglcontextrestored', this.boundHandleContextRestored)
     this.onContextLost = null
     this.onContextRestored = null
+    this.onQualityChange = null
+    this.governor.setChangeCallback(null)
 
     if (this.dimensionRetryId !== null) {
       cancelAnimationFrame(this.dimensionRetryId)
       this.dimensionRetryId = null
     }
 
-    // Dispose geometries
+    // Dispose geometry
     if (this.quad.geometry) this.quad.geometry.dispose()
-    if (this.blurQuad.geometry) this.blurQuad.geometry.dispose()
-    if (this.dotMatrixQuad.geometry) this.dotMatrixQuad.geometry.dispose()
-    if (this.asciiQuad.geometry) this.asciiQuad.geometry.dispose()
-    
-    // Dispose materials
-    if (this.blurMaterial) this.blurMaterial.dispose()
-    if (this.dotMatrixMaterial) this.dotMatrixMaterial.dispose()
-    if (this.asciiMaterial) this.asciiMaterial.dispose()
-    
-    // Dispose render targets
-    if (this.renderTarget1) this.renderTarget1.dispose()
-    if (this.renderTarget2) this.renderTarget2.dispose()
     
-    // Dispose textures
-    if (this.asciiAtlas) this.asciiAtlas.dispose()
+    // Dispose post passes and their render targets
+    this.postPipeline.dispose()
     
     this.shaderManager.dispose()
     
-    if (forceContextLoss) {
-      try {
-        const gl = this.renderer.getContext()
-        const loseContext = gl.getExtension('WEBGL_lose_context')
-        if (loseContext) {
-          loseContext.loseContext()
+    if (this.shared) {
+      // The context belongs to every shared engine - just give up our reference
+      releaseSharedRenderer()
+    } else {
+      if (forceContextLoss) {
+        try {
+          const gl = this.renderer.getContext()
+          const loseContext = gl.getExtension('WEBGL_lose_context')
+          if (loseContext) {
+            loseContext.loseContext()
+          }
+        } catch {
+          // Ignore
         }
-      } catch {
-        // Ignore
+        this.renderer.forceContextLoss()
       }
-      this.renderer.forceContextLoss()
+      
+      this.renderer.dispose()
     }
-    
-    this.renderer.dispose()
     this.scene.clear()
-    this.blurScene.clear()
-    this.dotMatrixScene.clear()
-    this.asciiScene.clear()
   }
 }
+
+declare global {
+  interface Window {
+    __gradientEngine?: () => Promise<typeof import('./index')>
+  }
+}
+
+if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production') {
+  window.__gradientEngine = () => import('./index')
+}
@@ -0,0 +1,228 @@
+/**
+ * GradientLayer - one extra gradient in an engine's layer stack
+ *
+ * Each layer has its own GradientState (its own ShaderManager and quad),
+ * a placement on the canvas and a blend mode; LayerStackPass composites the
+ * stack over the engine's own gradient before the shared post passes. So a
+ * layer's shader-side settings (type, colors, warps, materials, grain,
+ * alpha mask...) all apply, while its post effects (glow, ASCII, dot matrix,
+ * blur, output) don't — the engine's own state sets those for the whole
+ * composition.
+ *
+ * The quad is placed with its model matrix in full-image clip space, so a
+ * layer renders at the composition's resolution and lines up across tiles.
+ */
+
+import * as THREE from 'three'
+import { ShaderManager } from './ShaderManager'
+import { muteWarps, normalizePreset } from './presetSchema'
+import { getTypeSettings } from './gradientTypes'
+import type { GradientPresetData, GradientState, MaterialBlendMode } from '@/types/gradient'
+
+/** Where a layer sits, in the CSS sense: percentages of the canvas, y down */
+export interface LayerTransform {
+  /** Center, 0-100 from the left */
+  x: number
+  /** Center, 0-100 from the top */
+  y: number
+  /** 0-100+ of the canvas width */
+  width: number
+  /** 0-100+ of the canvas height */
+  height: number
+  /** Degrees clockwise around the center */
+  rotation: number
+  /** 0-50, percent of each side like CSS border-radius; 50 makes an ellipse */
+  cornerRadius: number
+}
+
+export interface LayerSettings {
+  /** Any preset version, or a complete GradientState */
+  preset: GradientPresetData | GradientState
+  /** Default: the whole canvas */
+  transform?: Partial<LayerTransform>
+  /** 0-1. Default: 1 */
+  opacity?: number
+  /** How the layer mixes with what's below it. Default: 'normal' */
+  blendMode?: MaterialBlendMode
+}
+
+export const DEFAULT_LAYER_TRANSFORM: LayerTransform = {
+  x: 50,
+  y: 50,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  cornerRadius: 0,
+}
+
+export class GradientLayer {
+  private shaderManager = new ShaderManager()
+  private scene = new THREE.Scene()
+  private quad: THREE.Mesh
+  private preset: GradientPresetData | GradientState | null = null
+  private transform: LayerTransform = { ...DEFAULT_LAYER_TRANSFORM }
+  private opacity: number = 1
+  private blendMode: MaterialBlendMode = 'normal'
+  private changed: boolean = true
+
+  constructor(settings: LayerSettings) {
+    const material = this.shaderManager.createMaterial('linear')
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material)
+    this.quad.matrixAutoUpdate = false
+    this.scene.add(this.quad)
+    this.setSettings(settings)
+  }
+
+  /** Apply settings; the preset is only re-applied when it's a different object */
+  setSettings(settings: LayerSettings): void {
+    if (settings.preset !== this.preset) this.setPreset(settings.preset)
+    this.setTransform({ ...DEFAULT_LAYER_TRANSFORM, ...settings.transform })
+    this.setOpacity(settings.opacity ?? 1)
+    this.setBlendMode(settings.blendMode ?? 'normal')
+  }
+
+  setPreset(preset: GradientPresetData | GradientState): void {
+    this.preset = preset
+    const state = normalizePreset(preset)
+    const sm = this.shaderManager
+
+    const material = sm.setGradientType(state.gradientType)
+    if (material) this.quad.material = material
+    sm.setColorStops(state.colorStops)
+    sm.setAngle(state.angle)
+    switch (state.gradientType) {
+      case 'linear': sm.setLinearSettings(state.linearSettings); break
+      case 'radial': sm.setRadialSettings(state.radialSettings); break
+      case 'conic': sm.setConicSettings(state.conicSettings); break
+      case 'diamond': sm.setDiamondSettings(state.diamondSettings); break
+      case 'spiral': sm.setSpiralSettings(state.spiralSettings); break
+      case 'aurora': sm.setAuroraSettings(state.auroraSettings); break
+      case 'stripes': sm.setStripesSettings(state.stripesSettings); break
+      case 'folded': sm.setFoldedSettings(state.foldedSettings); break
+      case 'reverb': sm.setReverbSettings(state.reverbSettings); break
+      case 'mesh': sm.setMeshSettings(state.meshSettings); break
+      case 'noise': sm.setNoiseSettings(state.noiseSettings); break
+      default: sm.setTypeSettings(state.gradientType, getTypeSettings(state, state.gradientType))
+    }
+    sm.setWarpSettings(state.warpMuted ? muteWarps(state.warp) : state.warp)
+    sm.setMaterialSettings(state.materials)
+    sm.setEffectsSettings(state.effects)
+    sm.setGeometryEffectsSettings(state.geometryEffects)
+    sm.setBlendOptions(state.blendOptions)
+    sm.setAlphaMask(state.alphaMask)
+    sm.setBackgroundColor(state.backgroundColor)
+  }
+
+  setTransform(transform: Partial<LayerTransform>): void {
+    const next = { ...this.transform, ...transform }
+    next.cornerRadius = Math.min(Math.max(next.cornerRadius, 0), 50)
+    if ((Object.keys(next) as (keyof LayerTransform)[]).some((key) => next[key] !== this.transform[key])) {
+      this.transform = next
+      this.changed = true
+    }
+  }
+
+  setOpacity(opacity: number): void {
+    const clamped = Math.min(Math.max(opacity, 0), 1)
+    if (clamped !== this.opacity) {
+      this.opacity = clamped
+      this.changed = true
+    }
+  }
+
+  setBlendMode(mode: MaterialBlendMode): void {
+    if (mode !== this.blendMode) {
+      this.blendMode = mode
+      this.changed = true
+    }
+  }
+
+  getTransform(): LayerTransform { return { ...this.transform } }
+  getOpacity(): number { return this.opacity }
+  getBlendMode(): MaterialBlendMode { return this.blendMode }
+
+  /** Skipped by the stack when it would draw nothing */
+  isVisible(): boolean {
+    return this.opacity > 0 && this.transform.width > 0 && this.transform.height > 0
+  }
+
+  /** Half-size in pixels of a `width` × `height` image */
+  getHalfSize(width: number, height: number): THREE.Vector2 {
+    return new THREE.Vector2(width * this.transform.width / 200, height * this.transform.height / 200)
+  }
+
+  /** Center in pixels from the bottom-left of a `width` × `height` image */
+  getCenter(width: number, height: number): THREE.Vector2 {
+    return new THREE.Vector2(width * this.transform.x / 100, height * (1 - this.transform.y / 100))
+  }
+
+  /** Rotation in the image's y-up pixel space, in radians (counter-clockwise) */
+  getAngle(): number {
+    return -this.transform.rotation * Math.PI / 180
+  }
+
+  setHdr(hdr: boolean): void {
+    this.shaderManager.setHdr(hdr)
+  }
+
+  setTime(time: number, loopDuration: number | null = null): void {
+    this.shaderManager.setTime(time, loopDuration)
+  }
+
+  /**
+   * Draw the layer into `target` (cleared to transparent) through `camera`,
+   * which frames the render size's window of a `width` × `height` image
+   */
+  render(
+    renderer: THREE.WebGLRenderer,
+    camera: THREE.Camera,
+    target: THREE.WebGLRenderTarget,
+    width: number,
+    height: number
+  ): void {
+    const half = this.getHalfSize(width, height)
+    const center = this.getCenter(width, height)
+    const angle = this.getAngle()
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+
+    // The gradient's own aspect is the layer's, not the canvas's
+    this.shaderManager.setAspectRatio(half.x, half.y)
+
+    // Unit quad → layer rectangle in pixels → full-image clip space
+    this.quad.matrix.set(
+      cos * half.x * 2 / width, -sin * half.y * 2 / width, 0, center.x * 2 / width - 1,
+      sin * half.x * 2 / height, cos * half.y * 2 / height, 0, center.y * 2 / height - 1,
+      0, 0, 1, 0,
+      0, 0, 0, 1
+    )
+    this.quad.matrixWorldNeedsUpdate = true
+
+    // The renderer may be shared; put its clear color back afterwards
+    const clearColor = renderer.getClearColor(new THREE.Color())
+    const clearAlpha = renderer.getClearAlpha()
+    renderer.setRenderTarget(target)
+    renderer.setClearColor(0x000000, 0)
+    renderer.clear()
+    renderer.render(this.scene, camera)
+    renderer.setClearColor(clearColor, clearAlpha)
+  }
+
+  /** True when settings or uniforms changed since the last call */
+  consumeChanges(): boolean {
+    const uniformsChanged = this.shaderManager.consumeChanges()
+    const changed = this.changed || uniformsChanged
+    this.changed = false
+    return changed
+  }
+
+  isTimeDependent(): boolean {
+    return this.shaderManager.isTimeDependent()
+  }
+
+  dispose(): void {
+    this.quad.geometry.dispose()
+    this.shaderManager.dispose()
+    this.scene.clear()
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * PostPipeline - ordered chain of post-processing passes
+ *
+ * The gradient scene renders into the pipeline's scene target, then each
+ * enabled pass reads the previous pass's output and writes into its own
+ * render target. The last enabled pass draws straight to the screen, so no
+ * copy pass is needed. With every pass disabled the scene renders directly.
+ *
+ * Passes are identified by name; order is list order and can be changed at
+ * any time with setOrder(). Third-party passes only need to implement PostPass.
+ * The output pass (exposure and tone mapping) sits outside the order and
+ * always runs last.
+ *
+ * With setHdr(true) every target is half-float where the GPU can render to
+ * it, so brights above 1 survive until the output pass maps them.
+ *
+ * setRegion() renders a window of a larger image, for tiled export. Passes
+ * that read neighbouring pixels report how far with getTileMargin(), so the
+ * exporter can render each tile with enough overlap to crop a seamless core.
+ *
+ * consumeChanges() lets the engine skip frames: it reports pass settings,
+ * enabled state and order changes since the last call.
+ */
+
+import * as THREE from 'three'
+
+/**
+ * A window of a larger image: the render size is the window's size, placed
+ * at (x, y) — render pixels from the image's bottom-left, like gl_FragCoord —
+ * in a fullWidth × fullHeight image
+ */
+export interface RenderRegion {
+  fullWidth: number
+  fullHeight: number
+  x: number
+  y: number
+}
+
+export interface PostPass {
+  /** Unique name used for ordering and lookup */
+  readonly name: string
+  /** Disabled passes are skipped entirely */
+  isEnabled(): boolean
+  /** Render-target size in pixels, called on every resize */
+  setSize(width: number, height: number): void
+  /** Draw `input` into `target` (null = screen) */
+  render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    target: THREE.WebGLRenderTarget | null,
+    time: number
+  ): void
+  /**
+   * True when settings changed since the last call. Passes without it are
+   * treated as changed every frame.
+   */
+  consumeChanges?(): boolean
+  /** Whether output changes with time alone */
+  isTimeDependent?(): boolean
+  /**
+   * Target precision changed. Passes with targets of their own should
+   * recreate them with createPassTarget().
+   */
+  setHdr?(hdr: boolean): void
+  /**
+   * The render size is now a window of a larger image (null: the whole
+   * image). Passes whose output depends on where a pixel sits in the image
+   * map their coordinates through it.
+   */
+  setRegion?(region: RenderRegion | null): void
+  /**
+   * Pixels beyond its own output this pass reads from its input, Infinity
+   * when its reads aren't local. Passes without it read only their own pixel.
+   */
+  getTileMargin?(): number
+  dispose(): void
+}
+
+/**
+ * Render target for pipeline and pass use: linear filtering, RGBA, and
+ * half-float when `hdr` is set
+ */
+export function createPassTarget(width: number, height: number, hdr: boolean): THREE.WebGLRenderTarget {
+  return new THREE.WebGLRenderTarget(width, height, {
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    format: THREE.RGBAFormat,
+    type: hdr ? THREE.HalfFloatType : THREE.UnsignedByteType,
+  })
+}
+
+export class PostPipeline {
+  private renderer: THREE.WebGLRenderer
+  private passes: PostPass[] = []
+  private outputPass: PostPass | null = null
+  private sceneTarget: THREE.WebGLRenderTarget | null = null
+  private passTargets = new Map<PostPass, THREE.WebGLRenderTarget>()
+  private width: number = 0
+  private height: number = 0
+  private renderedChain: string = ''
+  private hdr: boolean = false
+  private region: RenderRegion | null = null
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    this.renderer = renderer
+  }
+
+  /**
+   * Insert a pass at `index` (default: end of the chain)
+   */
+  addPass(pass: PostPass, index: number = this.passes.length): void {
+    if (this.getPass(pass.name)) {
+      console.warn(`[PostPipeline] A pass named "${pass.name}" already exists`)
+      return
+    }
+    if (this.width > 0 && this.height > 0) {
+      pass.setSize(this.width, this.height)
+    }
+    if (this.hdr) pass.setHdr?.(true)
+    if (this.region) pass.setRegion?.(this.region)
+    this.passes.splice(index, 0, pass)
+  }
+
+  /**
+   * Set the pass that always runs last, after the ordered chain. Like
+   * removePass(), replacing it doesn't dispose the old one.
+   */
+  setOutputPass(pass: PostPass | null): void {
+    if (pass) {
+      if (this.width > 0 && this.height > 0) pass.setSize(this.width, this.height)
+      if (this.hdr) pass.setHdr?.(true)
+      if (this.region) pass.setRegion?.(this.region)
+    }
+    if (this.outputPass) {
+      this.passTargets.get(this.outputPass)?.dispose()
+      this.passTargets.delete(this.outputPass)
+    }
+    this.outputPass = pass
+  }
+
+  /** Whether half-float targets can be rendered to on this renderer */
+  supportsHdr(): boolean {
+    const extensions = this.renderer.extensions
+    return extensions.has('EXT_color_buffer_float') || extensions.has('EXT_color_buffer_half_float')
+  }
+
+  /**
+   * Switch every target to half-float (when supported) or back to 8-bit.
+   * Returns whether half-float targets are now in use.
+   */
+  setHdr(hdr: boolean): boolean {
+    const enabled = hdr && this.supportsHdr()
+    if (enabled === this.hdr) return enabled
+    this.hdr = enabled
+    for (const pass of this.getAllPasses()) {
+      pass.setHdr?.(enabled)
+    }
+    // Recreate the scene target at the new precision; pass targets follow lazily
+    this.disposeTargets()
+    if (this.width > 0 && this.height > 0) {
+      this.sceneTarget = createPassTarget(this.width, this.height, enabled)
+    }
+    return enabled
+  }
+
+  isHdr(): boolean {
+    return this.hdr
+  }
+
+  /** Render a window of a larger image (null: the whole image) */
+  setRegion(region: RenderRegion | null): void {
+    this.region = region
+    for (const pass of this.getAllPasses()) {
+      pass.setRegion?.(region)
+    }
+  }
+
+  /**
+   * Overlap a tile needs for the enabled chain to read only real neighbours.
+   * Each pass reads the previous one's output, so their margins add up.
+   */
+  getTileMargin(): number {
+    return this.getAllPasses()
+      .filter((p) => p.isEnabled())
+      .reduce((margin, pass) => margin + (pass.getTileMargin?.() ?? 0), 0)
+  }
+
+  /**
+   * Remove a pass from the chain. The pass itself is not disposed —
+   * whoever added it still owns it.
+   */
+  removePass(name: string): PostPass | undefined {
+    const pass = this.getPass(name)
+    if (!pass) return undefined
+    this.passes = this.passes.filter((p) => p !== pass)
+    this.passTargets.get(pass)?.dispose()
+    this.passTargets.delete(pass)
+    return pass
+  }
+
+  getPass<T extends PostPass = PostPass>(name: string): T | undefined {
+    return this.passes.find((p) => p.name === name) as T | undefined
+  }
+
+  getOrder(): string[] {
+    return this.passes.map((p) => p.name)
+  }
+
+  /**
+   * Reorder the chain. Named passes run first, in the given order;
+   * passes left out keep their relative order after them.
+   */
+  setOrder(names: string[]): void {
+    const ordered: PostPass[] = []
+    for (const name of names) {
+      const pass = this.getPass(name)
+      if (!pass) {
+        console.warn(`[PostPipeline] Unknown pass "${name}" in order`)
+        continue
+      }
+      if (!ordered.includes(pass)) ordered.push(pass)
+    }
+    this.passes = [...ordered, ...this.passes.filter((p) => !ordered.includes(p))]
+  }
+
+  hasActivePasses(): boolean {
+    return this.getAllPasses().some((p) => p.isEnabled())
+  }
+
+  /**
+   * True when the enabled chain or any pass's settings changed since the last call
+   */
+  consumeChanges(): boolean {
+    const passes = this.getAllPasses()
+    const chain = passes.filter((p) => p.isEnabled()).map((p) => p.name).join(',')
+    let changed = chain !== this.renderedChain
+    this.renderedChain = chain
+    for (const pass of passes) {
+      // Every pass records its state, even once a change is already known
+      const passChanged = pass.consumeChanges ? pass.consumeChanges() : true
+      changed = (passChanged && pass.isEnabled()) || changed
+    }
+    return changed
+  }
+
+  isTimeDependent(): boolean {
+    return this.getAllPasses().some((p) => p.isEnabled() && p.isTimeDependent?.())
+  }
+
+  /**
+   * Resize every pass and recreate the render targets.
+   * Also used after WebGL context restoration, when old targets are invalid.
+   */
+  setSize(width: number, height: number): void {
+    this.width = width
+    this.height = height
+    this.disposeTargets()
+    if (width > 0 && height > 0) {
+      this.sceneTarget = createPassTarget(width, height, this.hdr)
+    }
+    for (const pass of this.getAllPasses()) {
+      pass.setSize(width, height)
+    }
+  }
+
+  /**
+   * Render the scene through every enabled pass to the screen
+   */
+  render(scene: THREE.Scene, camera: THREE.Camera, time: number): void {
+    const active = this.getAllPasses().filter((p) => p.isEnabled())
+
+    if (active.length === 0 || !this.sceneTarget) {
+      // Direct render - no post-processing
+      this.renderer.setRenderTarget(null)
+      this.renderer.render(scene, camera)
+      return
+    }
+
+    this.renderer.setRenderTarget(this.sceneTarget)
+    this.renderer.render(scene, camera)
+
+    let input = this.sceneTarget.texture
+    active.forEach((pass, i) => {
+      const target = i === active.length - 1 ? null : this.getTarget(pass)
+      pass.render(this.renderer, input, target, time)
+      if (target) input = target.texture
+    })
+  }
+
+  dispose(): void {
+    this.disposeTargets()
+    for (const pass of this.getAllPasses()) {
+      pass.dispose()
+    }
+    this.passes = []
+    this.outputPass = null
+  }
+
+  private getAllPasses(): PostPass[] {
+    return this.outputPass ? [...this.passes, this.outputPass] : this.passes
+  }
+
+  /** Targets are created on first use, so disabled passes cost no memory */
+  private getTarget(pass: PostPass): THREE.WebGLRenderTarget {
+    let target = this.passTargets.get(pass)
+    if (!target) {
+      target = createPassTarget(this.width, this.height, this.hdr)
+      this.passTargets.set(pass, target)
+    }
+    return target
+  }
+
+  private disposeTargets(): void {
+    if (this.sceneTarget) this.sceneTarget.dispose()
+    this.sceneTarget = null
+    for (const target of this.passTargets.values()) {
+      target.dispose()
+    }
+    this.passTargets.clear()
+  }
+}
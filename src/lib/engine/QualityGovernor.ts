@@ -0,0 +1,149 @@
+/**
+ * QualityGovernor - adaptive quality tiers driven by frame times
+ *
+ * The owner's animation loop feeds it every requestAnimationFrame timestamp.
+ * When the average frame over a sample window runs past budget the governor
+ * steps one tier down (lower render scale, cheaper blur, no grain or
+ * chromatic aberration, then a frame-rate cap); after several windows with
+ * clear headroom it steps back up. A fixed tier can be forced per engine.
+ *
+ * Frame times are page-wide, so every governed plane reacts to the total
+ * load — which is what keeps a heavy Takeover section smooth.
+ */
+
+export type QualityTier = 'high' | 'medium' | 'low' | 'minimal'
+
+export interface QualitySettings {
+  /** Multiplier on the device pixel ratio */
+  renderScale: number
+  /** Blur and bloom depth: 'reduced' blurs a level lower and sums fewer bloom levels */
+  blur: 'full' | 'reduced'
+  grain: boolean
+  chromatic: boolean
+  /** Animation frame-rate cap, null for every display frame */
+  maxFps: number | null
+}
+
+/** Best first */
+export const QUALITY_TIERS: readonly QualityTier[] = ['high', 'medium', 'low', 'minimal']
+
+export const QUALITY_TIER_SETTINGS: Record<QualityTier, QualitySettings> = {
+  high: { renderScale: 1, blur: 'full', grain: true, chromatic: true, maxFps: null },
+  medium: { renderScale: 0.75, blur: 'reduced', grain: true, chromatic: true, maxFps: null },
+  low: { renderScale: 0.5, blur: 'reduced', grain: false, chromatic: false, maxFps: 30 },
+  minimal: { renderScale: 0.35, blur: 'reduced', grain: false, chromatic: false, maxFps: 20 },
+}
+
+export interface QualityGovernorOptions {
+  /** Target frame time in ms. Default: 60fps */
+  budgetMs?: number
+  /** Frames averaged per decision. Default 30 */
+  windowSize?: number
+  /** Consecutive windows under budget needed to step back up. Default 4 */
+  recoveryWindows?: number
+}
+
+/** Average over budget × this steps down */
+const STEP_DOWN_RATIO = 1.25
+/** Average under budget × this counts towards stepping up */
+const HEADROOM_RATIO = 0.8
+/** Gaps longer than this (hidden tab, paused loop) aren't frame times */
+const MAX_FRAME_MS = 250
+
+export class QualityGovernor {
+  private budgetMs: number
+  private windowSize: number
+  private recoveryWindows: number
+
+  private tierIndex: number = 0
+  private forcedTier: QualityTier | null = null
+  private lastTimestamp: number | null = null
+  private lastRenderAt: number = -Infinity
+  private windowTotal: number = 0
+  private windowFrames: number = 0
+  private headroomWindows: number = 0
+  private onChange: ((tier: QualityTier, settings: QualitySettings) => void) | null = null
+
+  constructor(options: QualityGovernorOptions = {}) {
+    this.budgetMs = options.budgetMs ?? 1000 / 60
+    this.windowSize = options.windowSize ?? 30
+    this.recoveryWindows = options.recoveryWindows ?? 4
+  }
+
+  /**
+   * Record one animation frame. Returns false when the tier's frame-rate
+   * cap says this frame should be skipped.
+   */
+  sampleFrame(timestamp: number): boolean {
+    if (this.lastTimestamp !== null) {
+      const delta = timestamp - this.lastTimestamp
+      if (delta > 0 && delta < MAX_FRAME_MS) this.addSample(delta)
+    }
+    this.lastTimestamp = timestamp
+
+    const { maxFps } = this.getSettings()
+    if (maxFps === null) return true
+    // Small tolerance so a 60Hz display lands on every second frame at 30fps
+    if (timestamp - this.lastRenderAt < 1000 / maxFps - 2) return false
+    this.lastRenderAt = timestamp
+    return true
+  }
+
+  private addSample(delta: number): void {
+    this.windowTotal += delta
+    this.windowFrames++
+    if (this.windowFrames < this.windowSize) return
+
+    const average = this.windowTotal / this.windowFrames
+    this.windowTotal = 0
+    this.windowFrames = 0
+    if (this.forcedTier !== null) return
+
+    if (average > this.budgetMs * STEP_DOWN_RATIO) {
+      this.headroomWindows = 0
+      this.setTierIndex(this.tierIndex + 1)
+    } else if (average < this.budgetMs * HEADROOM_RATIO) {
+      if (++this.headroomWindows >= this.recoveryWindows) {
+        this.headroomWindows = 0
+        this.setTierIndex(this.tierIndex - 1)
+      }
+    } else {
+      this.headroomWindows = 0
+    }
+  }
+
+  private setTierIndex(index: number): void {
+    const clamped = Math.min(Math.max(index, 0), QUALITY_TIERS.length - 1)
+    if (clamped === this.tierIndex) return
+    this.tierIndex = clamped
+    this.onChange?.(this.getTier(), this.getSettings())
+  }
+
+  /**
+   * Pin a tier, or pass null to let frame times decide again
+   */
+  setForcedTier(tier: QualityTier | null): void {
+    this.forcedTier = tier
+    this.headroomWindows = 0
+    if (tier !== null) this.setTierIndex(QUALITY_TIERS.indexOf(tier))
+  }
+
+  getForcedTier(): QualityTier | null { return this.forcedTier }
+
+  getTier(): QualityTier { return QUALITY_TIERS[this.tierIndex] }
+
+  getSettings(): QualitySettings { return QUALITY_TIER_SETTINGS[this.getTier()] }
+
+  /** Called with the new tier whenever it changes */
+  setChangeCallback(callback: ((tier: QualityTier, settings: QualitySettings) => void) | null): void {
+    this.onChange = callback
+  }
+
+  /** Forget frame history, e.g. after the animation loop was paused */
+  reset(): void {
+    this.lastTimestamp = null
+    this.windowTotal = 0
+    this.windowFrames = 0
+    this.headroomWindows = 0
+  }
+}
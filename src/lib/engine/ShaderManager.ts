@@ -2,15 +2,20 @@
  * ShaderManager
  * 
  * Manages GLSL shaders for gradient rendering.
- * Types: Linear, Radial, Conic, Diamond, Spiral, Aurora, Stripes, Folded, Reverb
+ * Types: Linear, Radial, Conic, Diamond, Spiral, Aurora, Stripes, Folded, Reverb, Mesh, Noise,
+ * plus any registered with registerGradientType() (see gradientTypes.ts)
+ *
+ * consumeChanges() reports whether any uniform or the gradient type changed
+ * since the last call, so the engine can skip frames that would look the same.
  */
 
 import * as THREE from 'three'
 import type {
-  ColorStop,
+  ColorStop, GradientType, BuiltinGradientType,
   LinearSettings, RadialSettings, ConicSettings, DiamondSettings,
-  SpiralSettings, AuroraSettings, StripesSettings, FoldedSettings, ReverbSettings,
-  BlendOptions, MaterialState, WarpState, GeometryEffectsState, EffectsState
+  SpiralSettings, AuroraSettings, StripesSettings, FoldedSettings, ReverbSettings, MeshSettings, NoiseSettings,
+  BlendOptions, MaterialState, WarpState, GeometryEffectsState, EffectsState,
+  AlphaMaskSettings
 } from '@/types/gradient'
 
 // Import modular shaders
@@ -25,19 +30,46 @@ import {
   stripesGradientShader,
   foldedGradientShader,
   reverbGradientShader,
+  meshGradientShader,
+  noiseGradientShader,
+  GRADIENT_LUT_SIZE,
+  MESH_MAX_SIZE,
 } from '@/lib/shaders'
+import { bakeGradientLut } from './gradientLut'
+import { UniformSnapshot } from './uniformSnapshot'
+import { DEFAULT_GRADIENT_STATE } from './presetSchema'
+import { hexToRgb, hexToAlpha } from './colorSpace'
+import { resolveMeshGrid } from './meshGradient'
+import { noiseDrift, resolveNoise } from './noiseField'
+import {
+  getDefaultTypeSettings, getGradientTypePlugin, getGradientTypeShader, isBuiltinGradientType,
+  type CustomSettings,
+} from './gradientTypes'
+import type { RenderRegion } from './PostPipeline'
 
 // === TYPES ===
 
 export interface GradientUniforms {
-  colorStops: THREE.Uniform<THREE.Vector3[]>
-  colorPositions: THREE.Uniform<number[]>
-  numStops: THREE.Uniform<number>
+  u_gradientLut: THREE.Uniform<THREE.DataTexture>
   angle: THREE.Uniform<number>
   centerX: THREE.Uniform<number>
   centerY: THREE.Uniform<number>
   aspectRatio: THREE.Uniform<number>
   time: THREE.Uniform<number>
+  u_hdr: THREE.Uniform<boolean>
+  u_regionOffset: THREE.Uniform<THREE.Vector2>
+  u_regionScale: THREE.Uniform<THREE.Vector2>
+  
+  // Transparency
+  u_alphaMaskEnabled: THREE.Uniform<boolean>
+  u_alphaMaskShape: THREE.Uniform<number>
+  u_alphaMaskAngle: THREE.Uniform<number>
+  u_alphaMaskCenter: THREE.Uniform<THREE.Vector2>
+  u_alphaMaskStart: THREE.Uniform<number>
+  u_alphaMaskEnd: THREE.Uniform<number>
+  u_alphaMaskInvert: THREE.Uniform<boolean>
+  u_alphaMaskAspect: THREE.Uniform<number>
+  u_backgroundColor: THREE.Uniform<THREE.Vector4>
   
   // Gradient animation uniforms
   u_gradientOffset: THREE.Uniform<number>
@@ -49,10 +81,7 @@ export interface GradientUniforms {
   u_innerRadius: THREE.Uniform<number>
   u_outerRadius: THREE.Uniform<number>
   u_conicOffset: THREE.Uniform<number>
-  blendHardStops: THREE.Uniform<number>
   blendSteps: THREE.Uniform<number>
-  blendEasing: THREE.Uniform<number>
-  blendColorMode: THREE.Uniform<number>
   linearRepeatMode: THREE.Uniform<number>
   u_linearOffsetX: THREE.Uniform<number>
   u_linearOffsetY: THREE.Uniform<number>
@@ -164,6 +193,16 @@ export interface GradientUniforms {
   u_rippleDecay: THREE.Uniform<number>
   u_rippleRotation: THREE.Uniform<number>
   
+  // Domain Warp - "The Marble" - layered noise pushes UVs around
+  u_domainWarpAmount: THREE.Uniform<number>
+  u_domainWarpScale: THREE.Uniform<number>
+  u_domainWarpOctaves: THREE.Uniform<number>
+  u_domainWarpLacunarity: THREE.Uniform<number>
+  u_domainWarpGain: THREE.Uniform<number>
+  u_domainWarpSeed: THREE.Uniform<THREE.Vector3>
+  u_domainWarpSpeed: THREE.Uniform<number>
+  u_domainWarpDrift: THREE.Uniform<THREE.Vector3>
+  
   // Blur - "The Softener" - post-processing
   u_blurAmount: THREE.Uniform<number>
   
@@ -225,12 +264,6 @@ export interface GradientUniforms {
   u_saturation: THREE.Uniform<number>
   u_hueShift: THREE.Uniform<number>
   
-  // Glow
-  u_glowEnabled: THREE.Uniform<boolean>
-  u_glowAmount: THREE.Uniform<number>
-  u_glowThreshold: THREE.Uniform<number>
-  u_glowRadius: THREE.Uniform<number>
-  
   // Chromatic Aberration
   u_chromaticEnabled: THREE.Uniform<boolean>
   u_chromaticAmount: THREE.Uniform<number>
@@ -335,7 +368,7 @@ export interface GradientUniforms {
   [key: string]: THREE.IUniform<unknown>
 }
 
-export type GradientType = 'linear' | 'radial' | 'conic' | 'diamond' | 'spiral' | 'aurora' | 'stripes' | 'folded' | 'reverb'
+export type { GradientType }
 
 // === UTILITY FUNCTIONS ===
 
@@ -348,13 +381,22 @@ export function hexToVec3(hex: string): THREE.Vector3 {
   )
 }
 
+/**
+ * Shortest period of u_lavaLampTime: the shader's sin(t * 0.5) and
+ * sin(t * 0.3) both complete whole cycles (5 and 3) over 20π
+ */
+const LAVA_LAMP_PERIOD = 20 * Math.PI
+
+/** Driven by render time; isTimeDependent() decides whether they matter */
+const TIME_UNIFORMS = ['time', 'u_time', 'u_lavaLampTime', 'noiseDrift', 'u_domainWarpDrift']
+
 export function degreesToRadians(degrees: number): number {
   return degrees * (Math.PI / 180)
 }
 
 // === SHADER MAP ===
 
-const SHADER_MAP: Record<GradientType, string> = {
+const SHADER_MAP: Record<BuiltinGradientType, string> = {
   linear: linearGradientShader,
   radial: radialGradientShader,
   conic: conicGradientShader,
@@ -364,11 +406,23 @@ const SHADER_MAP: Record<GradientType, string> = {
   stripes: stripesGradientShader,
   folded: foldedGradientShader,
   reverb: reverbGradientShader,
+  mesh: meshGradientShader,
+  noise: noiseGradientShader,
 }
 
 // === SHADER MANAGER CLASS ===
 
 // Create a 1x1 white placeholder texture for uninitialized samplers
+function createGradientLutTexture(): THREE.DataTexture {
+  const data = new Uint8Array(GRADIENT_LUT_SIZE * 4)
+  const texture = new THREE.DataTexture(data, GRADIENT_LUT_SIZE, 1, THREE.RGBAFormat)
+  texture.minFilter = THREE.LinearFilter
+  texture.magFilter = THREE.LinearFilter
+  texture.wrapS = THREE.ClampToEdgeWrapping
+  texture.wrapT = THREE.ClampToEdgeWrapping
+  return texture
+}
+
 function createPlaceholderTexture(): THREE.DataTexture {
   const data = new Uint8Array([255, 255, 255, 255]) // White pixel
   const texture = new THREE.DataTexture(data, 1, 1, THREE.RGBAFormat)
@@ -381,29 +435,43 @@ export class ShaderManager {
   private uniforms: GradientUniforms
   private currentType: GradientType = 'linear'
   private placeholderTexture: THREE.DataTexture
+  private gradientLut: THREE.DataTexture
+  private colorStops: ColorStop[] = DEFAULT_GRADIENT_STATE.colorStops
+  private blendOptions: BlendOptions = DEFAULT_GRADIENT_STATE.blendOptions
+  // Complete settings of each registered type, for its timeDependent test
+  private typeSettings = new Map<string, CustomSettings>()
+  private snapshot = new UniformSnapshot(TIME_UNIFORMS)
+  private renderedType: GradientType | null = null
   
   constructor() {
     this.placeholderTexture = createPlaceholderTexture()
+    this.gradientLut = createGradientLutTexture()
     this.uniforms = this.createDefaultUniforms()
+    this.bakeGradientLut()
   }
   
   private createDefaultUniforms(): GradientUniforms {
-    const defaultColors = Array(10).fill(null).map((_, i) => {
-      if (i === 0) return new THREE.Vector3(0.39, 0.4, 0.95)
-      if (i === 1) return new THREE.Vector3(0.55, 0.36, 0.96)
-      if (i === 2) return new THREE.Vector3(0.85, 0.27, 0.94)
-      return new THREE.Vector3(0, 0, 0)
-    })
-    
     return {
-      colorStops: new THREE.Uniform(defaultColors),
-      colorPositions: new THREE.Uniform([0, 0.5, 1, 0, 0, 0, 0, 0, 0, 0]),
-      numStops: new THREE.Uniform(3),
+      u_gradientLut: new THREE.Uniform(this.gradientLut),
       angle: new THREE.Uniform(0.785398), // 45 degrees
       centerX: new THREE.Uniform(0.5),
       centerY: new THREE.Uniform(0.5),
       aspectRatio: new THREE.Uniform(1.0),
       time: new THREE.Uniform(0),
+      u_hdr: new THREE.Uniform(false),
+      u_regionOffset: new THREE.Uniform(new THREE.Vector2(0, 0)),
+      u_regionScale: new THREE.Uniform(new THREE.Vector2(1, 1)),
+      
+      // Transparency
+      u_alphaMaskEnabled: new THREE.Uniform(false),
+      u_alphaMaskShape: new THREE.Uniform(1),
+      u_alphaMaskAngle: new THREE.Uniform(0),
+      u_alphaMaskCenter: new THREE.Uniform(new THREE.Vector2(0.5, 0.5)),
+      u_alphaMaskStart: new THREE.Uniform(0.5),
+      u_alphaMaskEnd: new THREE.Uniform(1),
+      u_alphaMaskInvert: new THREE.Uniform(false),
+      u_alphaMaskAspect: new THREE.Uniform(1),
+      u_backgroundColor: new THREE.Uniform(new THREE.Vector4(0, 0, 0, 0)),
       
       // Gradient animation uniforms
       u_gradientOffset: new THREE.Uniform(0),
@@ -417,10 +485,7 @@ export class ShaderManager {
       u_conicOffset: new THREE.Uniform(0),
       
       // Blend options
-      blendHardStops: new THREE.Uniform(0),
       blendSteps: new THREE.Uniform(0),
-      blendEasing: new THREE.Uniform(0),
-      blendColorMode: new THREE.Uniform(0), // 0=linear RGB, 1=HSV short, 2=HSV long
       
       // Linear
       linearRepeatMode: new THREE.Uniform(0),
@@ -498,6 +563,24 @@ export class ShaderManager {
       reverbBlend: new THREE.Uniform(0.2),
       reverbPosX: new THREE.Uniform(0.5),
       reverbPosY: new THREE.Uniform(0.5),
+
+      // Mesh
+      meshColumns: new THREE.Uniform(2),
+      meshRows: new THREE.Uniform(2),
+      meshInterpolation: new THREE.Uniform(0), // bicubic
+      meshPositions: new THREE.Uniform(Array.from({ length: MESH_MAX_SIZE ** 2 }, () => new THREE.Vector2())),
+      meshTangents: new THREE.Uniform(Array.from({ length: MESH_MAX_SIZE ** 2 }, () => new THREE.Vector4())),
+      meshColors: new THREE.Uniform(Array.from({ length: MESH_MAX_SIZE ** 2 }, () => new THREE.Vector4())),
+
+      // Noise
+      noiseField: new THREE.Uniform(0), // fbm
+      noiseScale: new THREE.Uniform(3),
+      noiseOctaves: new THREE.Uniform(5),
+      noiseLacunarity: new THREE.Uniform(2),
+      noiseGain: new THREE.Uniform(0.5),
+      noiseSeed: new THREE.Uniform(new THREE.Vector3()),
+      noiseSpeed: new THREE.Uniform(0),
+      noiseDrift: new THREE.Uniform(new THREE.Vector3()),
       
       // Materials
       matIridescentEnabled: new THREE.Uniform(0),
@@ -551,6 +634,16 @@ export class ShaderManager {
       u_rippleDecay: new THREE.Uniform(50),
       u_rippleRotation: new THREE.Uniform(0),
       
+      // Domain Warp - "The Marble"
+      u_domainWarpAmount: new THREE.Uniform(0),
+      u_domainWarpScale: new THREE.Uniform(2),
+      u_domainWarpOctaves: new THREE.Uniform(4),
+      u_domainWarpLacunarity: new THREE.Uniform(2),
+      u_domainWarpGain: new THREE.Uniform(0.5),
+      u_domainWarpSeed: new THREE.Uniform(new THREE.Vector3()),
+      u_domainWarpSpeed: new THREE.Uniform(0),
+      u_domainWarpDrift: new THREE.Uniform(new THREE.Vector3()),
+      
       // Blur - "The Softener"
       u_blurAmount: new THREE.Uniform(0),
       
@@ -612,12 +705,6 @@ export class ShaderManager {
       u_saturation: new THREE.Uniform(0),
       u_hueShift: new THREE.Uniform(0),
       
-      // Glow
-      u_glowEnabled: new THREE.Uniform(false),
-      u_glowAmount: new THREE.Uniform(30),
-      u_glowThreshold: new THREE.Uniform(50),
-      u_glowRadius: new THREE.Uniform(30),
-      
       // Chromatic Aberration
       u_chromaticEnabled: new THREE.Uniform(false),
       u_chromaticAmount: new THREE.Uniform(20),
@@ -729,7 +816,18 @@ export class ShaderManager {
   }
   
   private getFragmentShader(type: GradientType): string {
-    return SHADER_MAP[type] || SHADER_MAP.linear
+    if (isBuiltinGradientType(type)) return SHADER_MAP[type]
+    this.addTypeUniforms(type)
+    return getGradientTypeShader(type) ?? SHADER_MAP.linear
+  }
+
+  /** Create a registered type's uniforms, at its defaults, before its shader first compiles */
+  private addTypeUniforms(type: GradientType): void {
+    const plugin = getGradientTypePlugin(type)
+    if (!plugin) return
+    for (const [name, value] of Object.entries(plugin.mapUniforms(getDefaultTypeSettings(plugin)))) {
+      this.uniforms[name] ??= new THREE.Uniform(value)
+    }
   }
   
   createMaterial(type: GradientType): THREE.ShaderMaterial {
@@ -742,6 +840,19 @@ export class ShaderManager {
     return this.material
   }
   
+  /**
+   * Extra material for `type` sharing this manager's uniforms — every setter
+   * reaches it too. Used to render a second gradient type while crossfading.
+   * The caller owns (and disposes) it.
+   */
+  createTypeMaterial(type: GradientType): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+      vertexShader: baseVertexShader,
+      fragmentShader: this.getFragmentShader(type),
+      uniforms: this.uniforms,
+    })
+  }
+  
   setGradientType(type: GradientType): THREE.ShaderMaterial | null {
     if (type !== this.currentType && this.material) {
       this.currentType = type
@@ -754,14 +865,14 @@ export class ShaderManager {
   // === UNIFORM SETTERS ===
   
   setColorStops(stops: ColorStop[]): void {
-    const sortedStops = [...stops].sort((a, b) => a.position - b.position)
-    sortedStops.forEach((stop, i) => {
-      if (i < 10) {
-        this.uniforms.colorStops.value[i] = hexToVec3(stop.color)
-        this.uniforms.colorPositions.value[i] = stop.position / 100
-      }
-    })
-    this.uniforms.numStops.value = Math.min(sortedStops.length, 10)
+    this.colorStops = stops
+    this.bakeGradientLut()
+  }
+
+  /** Re-bake the stop ramp into u_gradientLut from the current stops and blend options */
+  private bakeGradientLut(): void {
+    bakeGradientLut(this.colorStops, this.blendOptions, GRADIENT_LUT_SIZE, this.gradientLut.image.data as Uint8Array)
+    this.gradientLut.needsUpdate = true
   }
   
   setAngle(degrees: number): void {
@@ -774,27 +885,71 @@ export class ShaderManager {
   }
   
   setBlendOptions(options: BlendOptions): void {
-    this.uniforms.blendHardStops.value = options.hardStops ? 1 : 0
+    // Hard stops, easing and color interpolation are baked into the LUT;
+    // steps quantize the lookup position in the shader
     this.uniforms.blendSteps.value = options.steps ?? 0
-    const easingMap: Record<BlendOptions['easing'], number> = {
-      linear: 0, easeIn: 1, easeOut: 2, easeInOut: 3, bounce: 4,
-    }
-    this.uniforms.blendEasing.value = easingMap[options.easing] ?? 0
-    // Color interpolation mode: 0=linear RGB (default), 1=HSV short path, 2=HSV long path
-    const colorModeMap: Record<string, number> = {
-      'linear': 0,  // Linear RGB interpolation (new default)
-      'short': 1,   // HSV short path (classic behavior)
-      'long': 2,    // HSV long path (around the color wheel)
-    }
-    this.uniforms.blendColorMode.value = colorModeMap[options.huePath] ?? 0
+    this.blendOptions = options
+    this.bakeGradientLut()
   }
 
   setAspectRatio(width: number, height: number): void {
     this.uniforms.aspectRatio.value = width / height
+    this.uniforms.u_alphaMaskAspect.value = width / height
+  }
+  
+  setAlphaMask(mask: AlphaMaskSettings): void {
+    this.uniforms.u_alphaMaskEnabled.value = mask.enabled
+    this.uniforms.u_alphaMaskShape.value = mask.shape === 'linear' ? 0 : 1
+    this.uniforms.u_alphaMaskAngle.value = mask.angle
+    this.uniforms.u_alphaMaskCenter.value.set(mask.centerX / 100, 1 - mask.centerY / 100)
+    this.uniforms.u_alphaMaskStart.value = mask.start / 100
+    this.uniforms.u_alphaMaskEnd.value = mask.end / 100
+    this.uniforms.u_alphaMaskInvert.value = mask.invert
+  }
+  
+  /** Color under the gradient; #RRGGBBAA alpha is kept, stored premultiplied */
+  setBackgroundColor(hex: string): void {
+    const [r, g, b] = hexToRgb(hex)
+    const a = hexToAlpha(hex)
+    this.uniforms.u_backgroundColor.value.set(r * a, g * a, b * a, a)
+  }
+  
+  /**
+   * Map the quad onto a `width` × `height` window of a larger image (tiled
+   * export), or back onto the whole image with null. Set the aspect ratio
+   * from the full image size alongside.
+   */
+  setRenderRegion(region: RenderRegion | null, width: number, height: number): void {
+    if (!region) {
+      this.uniforms.u_regionOffset.value.set(0, 0)
+      this.uniforms.u_regionScale.value.set(1, 1)
+      return
+    }
+    this.uniforms.u_regionOffset.value.set(region.x / region.fullWidth, region.y / region.fullHeight)
+    this.uniforms.u_regionScale.value.set(width / region.fullWidth, height / region.fullHeight)
+  }
+  
+  /** Let colors exceed 1 (render targets are half-float) instead of clamping */
+  setHdr(hdr: boolean): void {
+    this.uniforms.u_hdr.value = hdr
   }
   
-  setTime(time: number): void {
+  /**
+   * Drive the time uniforms. With a `loopDuration`, `time` is already
+   * wrapped into [0, loopDuration), the lava lamp's period is squeezed
+   * into the loop a whole number of times (as lockPeriod does for the
+   * ambient oscillators) and the noise fields drift round a closed path, so
+   * the last frame leads back into the first
+   */
+  setTime(time: number, loopDuration: number | null = null): void {
+    const drift = this.uniforms.noiseDrift.value as THREE.Vector3
     this.uniforms.time.value = time
+    this.uniforms.u_time.value = time
+    drift.set(...noiseDrift(time, this.uniforms.noiseSpeed.value as number, loopDuration))
+    this.uniforms.u_domainWarpDrift.value.set(...noiseDrift(time, this.uniforms.u_domainWarpSpeed.value, loopDuration))
+    this.uniforms.u_lavaLampTime.value = loopDuration === null
+      ? time
+      : (time / loopDuration) * LAVA_LAMP_PERIOD * Math.max(1, Math.round(loopDuration / LAVA_LAMP_PERIOD))
   }
 
   // Gradient animation setters
@@ -928,6 +1083,50 @@ export class ShaderManager {
     this.uniforms.reverbPosY.value = 1 - (settings.positionY / 100)
   }
   
+  setMeshSettings(settings: MeshSettings): void {
+    const grid = resolveMeshGrid(settings)
+    const positions = this.uniforms.meshPositions.value as THREE.Vector2[]
+    const tangents = this.uniforms.meshTangents.value as THREE.Vector4[]
+    const colors = this.uniforms.meshColors.value as THREE.Vector4[]
+    this.uniforms.meshColumns.value = grid.columns
+    this.uniforms.meshRows.value = grid.rows
+    this.uniforms.meshInterpolation.value = settings.interpolation === 'coons' ? 1 : 0
+    grid.positions.forEach((position, i) => {
+      positions[i].set(...position)
+      tangents[i].set(...grid.tangentsS[i], ...grid.tangentsT[i])
+      colors[i].set(...grid.colors[i])
+    })
+  }
+  
+  setNoiseSettings(settings: NoiseSettings): void {
+    const fieldMap: Record<string, number> = { fbm: 0, simplex: 1, curl: 2 }
+    const noise = resolveNoise(settings)
+    const seed = this.uniforms.noiseSeed.value as THREE.Vector3
+    this.uniforms.noiseField.value = fieldMap[settings.field] ?? 0
+    this.uniforms.noiseScale.value = noise.scale
+    this.uniforms.noiseOctaves.value = noise.octaves
+    this.uniforms.noiseLacunarity.value = noise.lacunarity
+    this.uniforms.noiseGain.value = noise.gain
+    seed.set(...noise.seed)
+    this.uniforms.noiseSpeed.value = noise.speed
+  }
+  
+  /**
+   * Settings of a registered gradient type, through its plugin's uniform
+   * mapper. Missing fields take the schema's defaults.
+   */
+  setTypeSettings(type: GradientType, settings?: Partial<CustomSettings>): void {
+    const plugin = getGradientTypePlugin(type)
+    if (!plugin) return
+    const complete = { ...getDefaultTypeSettings(plugin), ...settings } as CustomSettings
+    this.typeSettings.set(type, complete)
+    const values = plugin.mapUniforms(complete)
+    for (const [name, value] of Object.entries(values)) {
+      if (this.uniforms[name]) this.uniforms[name].value = value
+      else this.uniforms[name] = new THREE.Uniform(value)
+    }
+  }
+  
   setMaterialSettings(materials: MaterialState): void {
     // Iridescent
     this.uniforms.matIridescentEnabled.value = materials.iridescent?.enabled ? 1 : 0
@@ -990,6 +1189,16 @@ export class ShaderManager {
     this.uniforms.u_rippleDecay.value = warp.ripple.decay
     this.uniforms.u_rippleRotation.value = warp.ripple.rotation
     
+    // Domain Warp - "The Marble" - layered noise pushes UVs around
+    const domainWarp = resolveNoise(warp.domainWarp)
+    this.uniforms.u_domainWarpAmount.value = warp.domainWarp.enabled ? warp.domainWarp.amount : 0
+    this.uniforms.u_domainWarpScale.value = domainWarp.scale
+    this.uniforms.u_domainWarpOctaves.value = domainWarp.octaves
+    this.uniforms.u_domainWarpLacunarity.value = domainWarp.lacunarity
+    this.uniforms.u_domainWarpGain.value = domainWarp.gain
+    this.uniforms.u_domainWarpSeed.value.set(...domainWarp.seed)
+    this.uniforms.u_domainWarpSpeed.value = domainWarp.speed
+    
     // Blur - "The Softener" - post-processing (only when enabled)
     this.uniforms.u_blurAmount.value = warp.blur.enabled ? warp.blur.amount : 0
   }
@@ -1056,12 +1265,6 @@ export class ShaderManager {
     this.uniforms.u_saturation.value = effects.color.saturation
     this.uniforms.u_hueShift.value = effects.color.hueShift
     
-    // Glow
-    this.uniforms.u_glowEnabled.value = effects.glow.enabled
-    this.uniforms.u_glowAmount.value = effects.glow.amount
-    this.uniforms.u_glowThreshold.value = effects.glow.threshold
-    this.uniforms.u_glowRadius.value = effects.glow.radius
-    
     // Chromatic Aberration
     this.uniforms.u_chromaticEnabled.value = effects.chromatic.enabled
     this.uniforms.u_chromaticAmount.value = effects.chromatic.amount
@@ -1188,10 +1391,6 @@ export class ShaderManager {
     this.uniforms.u_lavaLampBlobCount.value = Math.min(Math.max(count, 2), 6)
   }
   
-  setLavaLampTime(time: number): void {
-    this.uniforms.u_lavaLampTime.value = time
-  }
-  
   setLavaLampBlobPosition(index: number, x: number, y: number): void {
     if (index >= 0 && index < 6) {
       this.uniforms.u_lavaLampPositions.value[index].set(x, y)
@@ -1204,6 +1403,41 @@ export class ShaderManager {
     }
   }
   
+  // === CHANGE TRACKING ===
+  
+  /**
+   * True when a uniform (other than time) or the gradient type changed since
+   * the last call. Always true on the first call.
+   */
+  consumeChanges(): boolean {
+    const typeChanged = this.renderedType !== this.currentType
+    this.renderedType = this.currentType
+    return this.snapshot.update(this.uniforms) || typeChanged
+  }
+  
+  /**
+   * Whether frames differ over time with nothing else changing:
+   * animated grain, the lava lamp's pulsing, or a type that animates
+   */
+  isTimeDependent(): boolean {
+    const u = this.uniforms
+    return (u.u_grainEnabled.value && u.u_grainAmount.value > 0) ||
+      (u.u_lavaLampEnabled.value && u.u_lavaLampIntensity.value > 0) ||
+      this.isTypeTimeDependent(this.currentType) ||
+      (u.u_domainWarpAmount.value > 0 && u.u_domainWarpSpeed.value !== 0)
+  }
+
+  /**
+   * Whether `type`'s own shader animates: an evolving noise field, or a
+   * registered type whose plugin says so for its current settings
+   */
+  isTypeTimeDependent(type: GradientType): boolean {
+    if (type === 'noise') return this.uniforms.noiseSpeed.value !== 0
+    const plugin = getGradientTypePlugin(type)
+    if (typeof plugin?.timeDependent !== 'function') return plugin?.timeDependent ?? false
+    return plugin.timeDependent(this.typeSettings.get(type) ?? getDefaultTypeSettings(plugin))
+  }
+  
   // === GETTERS ===
   
   getMaterial(): THREE.ShaderMaterial | null { 
@@ -1228,5 +1462,6 @@ export class ShaderManager {
     if (this.placeholderTexture) {
       this.placeholderTexture.dispose()
     }
+    this.gradientLut.dispose()
   }
 }
@@ -0,0 +1,68 @@
+/**
+ * SharedRenderer — one WebGL context for every on-page GradientEngine.
+ *
+ * Browsers cap live WebGL contexts (~8-16) and drop the oldest past that, so
+ * engines created with `{ shared: true }` don't get their own. They all draw
+ * into this offscreen renderer, each using a viewport anchored at the
+ * bottom-left, then copy that region onto their visible canvas with a 2D
+ * drawImage. Rendering is synchronous, so planes never see each other's pixels.
+ *
+ * The renderer is reference-counted: created on first acquire, disposed when
+ * the last engine releases it. Its canvas only ever grows, to the largest
+ * plane drawn so far. Inside a worker it draws into an OffscreenCanvas.
+ */
+
+import * as THREE from 'three'
+
+let renderer: THREE.WebGLRenderer | null = null
+let refCount = 0
+
+export function acquireSharedRenderer(): THREE.WebGLRenderer {
+  if (!renderer) {
+    renderer = new THREE.WebGLRenderer({
+      canvas: typeof document !== 'undefined' ? document.createElement('canvas') : new OffscreenCanvas(1, 1),
+      antialias: true,
+      alpha: true,
+      powerPreference: 'default',
+    })
+    // Engines size their regions in device pixels themselves
+    renderer.setPixelRatio(1)
+    renderer.outputColorSpace = THREE.SRGBColorSpace
+  }
+  refCount++
+  return renderer
+}
+
+export function releaseSharedRenderer(): void {
+  if (refCount === 0) return
+  refCount--
+  if (refCount === 0 && renderer) {
+    renderer.dispose()
+    renderer = null
+  }
+}
+
+/**
+ * Make room for a width × height region and point the viewport at it.
+ * Returns the shared canvas — the region is its bottom-left corner, i.e.
+ * source rect (0, canvas.height - height, width, height) for drawImage.
+ */
+export function prepareSharedViewport(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (!renderer) {
+    throw new Error('[SharedRenderer] prepareSharedViewport called without an acquired renderer')
+  }
+  // three types domElement as HTMLCanvasElement even when it was given an OffscreenCanvas
+  const canvas = renderer.domElement as HTMLCanvasElement | OffscreenCanvas
+  if (canvas.width < width || canvas.height < height) {
+    renderer.setSize(Math.max(canvas.width, width), Math.max(canvas.height, height), false)
+  }
+  renderer.setViewport(0, 0, width, height)
+  return canvas
+}
+
+/**
+ * Number of engines currently sharing the context. Useful for debugging.
+ */
+export function getSharedRendererUsers(): number {
+  return refCount
+}
@@ -0,0 +1,254 @@
+/**
+ * Color Space — sRGB hex ↔ OKLab conversions.
+ *
+ * OKLab is perceptually uniform: a straight line between two colors passes
+ * through evenly spaced, evenly bright hues instead of the muddy greys an
+ * sRGB lerp gives between complementary colors. Used by preset morphs.
+ *
+ * interpolateColor() blends color stops in the preset's
+ * blendOptions.interpolationSpace when the gradient LUT is baked.
+ *
+ * Matrices from Björn Ottosson, "A perceptual color space for image processing".
+ */
+
+import type { HuePath, InterpolationSpace } from '@/types/gradient'
+
+export type Oklab = [number, number, number]
+type Rgb = [number, number, number]
+
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055
+}
+
+/**
+ * Parse #rgb, #rrggbb or #rrggbbaa (alpha ignored) into 0-1 sRGB channels
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  let digits = hex.replace('#', '')
+  if (digits.length === 3) {
+    digits = digits.split('').map((d) => d + d).join('')
+  }
+  const value = parseInt(digits.slice(0, 6), 16)
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255]
+}
+
+/** Alpha of an #RRGGBBAA color, 1 for 3- and 6-digit colors */
+export function hexToAlpha(hex: string): number {
+  const digits = hex.replace('#', '')
+  return digits.length === 8 ? parseInt(digits.slice(6), 16) / 255 : 1
+}
+
+export function rgbToHex([r, g, b]: readonly [number, number, number]): string {
+  const toByte = (c: number) => Math.round(Math.min(Math.max(c, 0), 1) * 255).toString(16).padStart(2, '0')
+  return `#${toByte(r)}${toByte(g)}${toByte(b)}`
+}
+
+export function rgbToOklab([r, g, b]: readonly [number, number, number]): Oklab {
+  const lr = srgbToLinear(r)
+  const lg = srgbToLinear(g)
+  const lb = srgbToLinear(b)
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ]
+}
+
+export function oklabToRgb([L, a, b]: readonly [number, number, number]): [number, number, number] {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3)
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3)
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3)
+
+  return [
+    linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+  ]
+}
+
+/**
+ * Mix two hex colors in OKLab. t = 0 gives `from`, 1 gives `to`.
+ */
+export function mixOklab(from: string, to: string, t: number): string {
+  const a = rgbToOklab(hexToRgb(from))
+  const b = rgbToOklab(hexToRgb(to))
+  return rgbToHex(oklabToRgb([
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+  ]))
+}
+
+/** Below this chroma/saturation a color's hue is meaningless — borrow the other's */
+const ACHROMATIC = 0.0001
+
+/** Hue interpolation in turns (0-1): shortest way, or the long way round */
+function mixHue(h1: number, h2: number, t: number, longPath: boolean): number {
+  let dh = h2 - h1
+  if (dh > 0.5) dh -= 1
+  if (dh < -0.5) dh += 1
+  if (longPath && dh !== 0) dh = dh > 0 ? dh - 1 : dh + 1
+  const h = h1 + dh * t
+  return h - Math.floor(h)
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+const clamp01 = (c: number) => Math.min(Math.max(c, 0), 1)
+
+function oklabToRgbClamped([L, a, b]: Oklab): Rgb {
+  const lms = [
+    L + 0.3963377774 * a + 0.2158037573 * b,
+    L - 0.1055613458 * a - 0.0638541728 * b,
+    L - 0.0894841775 * a - 1.2914855480 * b,
+  ].map((c) => c * c * c)
+  return [
+    linearToSrgb(clamp01(4.0767416621 * lms[0] - 3.3077115913 * lms[1] + 0.2309699292 * lms[2])),
+    linearToSrgb(clamp01(-1.2684380046 * lms[0] + 2.6097574011 * lms[1] - 0.3413193965 * lms[2])),
+    linearToSrgb(clamp01(-0.0041960863 * lms[0] - 0.7034186147 * lms[1] + 1.7076147010 * lms[2])),
+  ]
+}
+
+function mixOklch(from: Rgb, to: Rgb, t: number, longPath: boolean): Rgb {
+  const a = rgbToOklab(from)
+  const b = rgbToOklab(to)
+  const ch1 = Math.hypot(a[1], a[2])
+  const ch2 = Math.hypot(b[1], b[2])
+  const turn = (lab: Oklab) => {
+    const h = Math.atan2(lab[2], lab[1]) / (Math.PI * 2)
+    return h - Math.floor(h)
+  }
+  let h1 = ch1 > ACHROMATIC ? turn(a) : 0
+  const h2 = ch2 > ACHROMATIC ? turn(b) : h1
+  if (ch1 <= ACHROMATIC) h1 = h2
+
+  const h = mixHue(h1, h2, t, longPath) * Math.PI * 2
+  const ch = lerp(ch1, ch2, t)
+  return oklabToRgbClamped([lerp(a[0], b[0], t), ch * Math.cos(h), ch * Math.sin(h)])
+}
+
+export function rgbToHsl([r, g, b]: readonly [number, number, number]): [number, number, number] {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  const d = max - min
+  if (d < 1e-6) return [0, 0, l]
+
+  const s = d / (1 - Math.abs(2 * l - 1))
+  let h: number
+  if (max === r) h = ((((g - b) / d) % 6) + 6) % 6
+  else if (max === g) h = (b - r) / d + 2
+  else h = (r - g) / d + 4
+  return [h / 6, s, l]
+}
+
+export function hslToRgb([h, s, l]: readonly [number, number, number]): [number, number, number] {
+  const channel = (offset: number) => {
+    const k = (((h * 6 + offset) % 6) + 6) % 6
+    const c = clamp01(Math.abs(k - 3) - 1)
+    return l + s * (c - 0.5) * (1 - Math.abs(2 * l - 1))
+  }
+  return [channel(0), channel(4), channel(2)]
+}
+
+function mixHsl(from: Rgb, to: Rgb, t: number, longPath: boolean): Rgb {
+  const a = rgbToHsl(from)
+  const b = rgbToHsl(to)
+  if (a[1] <= ACHROMATIC) a[0] = b[0]
+  if (b[1] <= ACHROMATIC) b[0] = a[0]
+  return hslToRgb([mixHue(a[0], b[0], t, longPath), lerp(a[1], b[1], t), lerp(a[2], b[2], t)])
+}
+
+function rgbToHsv([r, g, b]: Rgb): [number, number, number] {
+  const max = Math.max(r, g, b)
+  const d = max - Math.min(r, g, b)
+  if (d === 0) return [0, 0, max]
+
+  let h: number
+  if (max === r) h = ((((g - b) / d) % 6) + 6) % 6
+  else if (max === g) h = (b - r) / d + 2
+  else h = (r - g) / d + 4
+  return [h / 6, max === 0 ? 0 : d / max, max]
+}
+
+function hsvToRgb([h, s, v]: [number, number, number]): Rgb {
+  const channel = (offset: number) => {
+    const k = h + offset
+    const p = Math.abs((k - Math.floor(k)) * 6 - 3)
+    return v * lerp(1, clamp01(p - 1), s)
+  }
+  return [channel(0), channel(2 / 3), channel(1 / 3)]
+}
+
+/** Hues from yellow-green to cyan-green (72°-162°) */
+const GREEN_MIN = 0.2
+const GREEN_MAX = 0.45
+
+/**
+ * Classic HSV hue blend (blendOptions.huePath 'short'/'long'). The short
+ * path detours the other way round rather than crossing green when neither
+ * end is green.
+ */
+export function mixHsv(
+  from: readonly [number, number, number],
+  to: readonly [number, number, number],
+  t: number,
+  longPath: boolean
+): [number, number, number] {
+  const a = rgbToHsv([from[0], from[1], from[2]])
+  const b = rgbToHsv([to[0], to[1], to[2]])
+  let dh = b[0] - a[0]
+  if (dh > 0.5) dh -= 1
+  if (dh < -0.5) dh += 1
+
+  const isGreen = (h: number) => h >= GREEN_MIN && h <= GREEN_MAX
+  if (!isGreen(a[0]) && !isGreen(b[0])) {
+    const lo = Math.min(a[0], a[0] + dh)
+    const hi = Math.max(a[0], a[0] + dh)
+    if (lo < GREEN_MAX && hi > GREEN_MIN) dh = dh > 0 ? dh - 1 : dh + 1
+  }
+  if (longPath) dh = dh > 0 ? dh - 1 : dh + 1
+
+  const h = a[0] + dh * t
+  return hsvToRgb([h - Math.floor(h), lerp(a[1], b[1], t), lerp(a[2], b[2], t)])
+}
+
+/**
+ * Mix two 0-1 sRGB colors in `space`. `huePath: 'long'` takes OKLCH/HSL
+ * hues the long way round.
+ */
+export function interpolateColor(
+  from: readonly [number, number, number],
+  to: readonly [number, number, number],
+  t: number,
+  space: InterpolationSpace,
+  huePath: HuePath = 'short'
+): [number, number, number] {
+  const a: Rgb = [from[0], from[1], from[2]]
+  const b: Rgb = [to[0], to[1], to[2]]
+  const longPath = huePath === 'long'
+
+  switch (space) {
+    case 'srgb':
+      return [lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)]
+    case 'oklab': {
+      const la = rgbToOklab(a)
+      const lb = rgbToOklab(b)
+      return oklabToRgbClamped([lerp(la[0], lb[0], t), lerp(la[1], lb[1], t), lerp(la[2], lb[2], t)])
+    }
+    case 'oklch':
+      return mixOklch(a, b, t, longPath)
+    case 'hsl':
+      return mixHsl(a, b, t, longPath)
+    default:
+      return [0, 1, 2].map((i) => linearToSrgb(lerp(srgbToLinear(a[i]), srgbToLinear(b[i]), t))) as Rgb
+  }
+}
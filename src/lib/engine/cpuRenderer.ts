@@ -0,0 +1,808 @@
+/**
+ * CPU Renderer — pure-TypeScript reference for the gradient shaders.
+ *
+ * Evaluates the eleven built-in gradient types, the baked color-stop LUT, the cheap
+ * per-pixel effects (color adjustments, vignette, grain), the alpha mask and
+ * the background color without WebGL.
+ * Used at build time to bake poster stills (scripts/bake-posters.mjs) and as
+ * the expected output for pixel tests of the GLSL.
+ *
+ * Each function mirrors its shader counterpart line for line, so keep them in
+ * step. Warps, geometry, materials, glow, chromatic aberration, the post
+ * passes and output tone mapping aren't reproduced — a preset using them
+ * renders as if they were off.
+ */
+
+import { bakeGradientLut } from './gradientLut'
+import { hexToAlpha, hexToRgb, hslToRgb, rgbToHsl } from './colorSpace'
+import { normalizePreset } from './presetSchema'
+import { resolveMeshGrid } from './meshGradient'
+import { noiseDrift, resolveNoise } from './noiseField'
+import { GRADIENT_LUT_SIZE } from '@/lib/shaders'
+import type { AlphaMaskSettings, EffectsState, GradientPresetData, GradientState } from '@/types/gradient'
+
+type Vec3 = [number, number, number]
+
+/** Color + straight alpha, 0-1 */
+type Sample = [number, number, number, number]
+
+/** Gradient sample at a 0-1 UV (y up, like vUv) */
+type TypeSampler = (u: number, v: number) => Sample
+
+export interface CpuRenderOptions {
+  /** Shader time in seconds, read by grain and the noise type's evolution. Default 0 */
+  time?: number
+  /** Seconds; like GradientEngine.setLoopDuration, walks the noise round a closed path */
+  loopDuration?: number
+  /** Apply film grain. Default true — turn off for stills that get upscaled. */
+  grain?: boolean
+}
+
+// === GLSL built-ins ===
+
+const fract = (x: number) => x - Math.floor(x)
+const mod = (x: number, y: number) => x - y * Math.floor(x / y)
+const clamp = (x: number, lo: number, hi: number) => Math.min(Math.max(x, lo), hi)
+const mix = (a: number, b: number, t: number) => a + (b - a) * t
+const radians = (degrees: number) => degrees * (Math.PI / 180)
+const step = (edge: number, x: number) => (x < edge ? 0 : 1)
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1)
+  return t * t * (3 - 2 * t)
+}
+
+const luminance = (c: Vec3) => c[0] * 0.299 + c[1] * 0.587 + c[2] * 0.114
+
+// easing.glsl
+const quintic = (t: number) => t * t * t * (t * (t * 6 - 15) + 10)
+
+function applyRepeat(t: number, mode: number): number {
+  if (mode === 0) return clamp(t, 0, 1)
+  const ft = fract(t * 0.5) * 2
+  return ft > 1 ? 2 - ft : ft
+}
+
+// === Color stops (gradient.glsl) ===
+
+function createGradientSampler(state: GradientState): (t: number) => Sample {
+  const lut = bakeGradientLut(state.colorStops, state.blendOptions)
+  const size = GRADIENT_LUT_SIZE
+  const { gradientOffset, gradientScale, animColorSpread, blendOptions } = state
+
+  return (t) => {
+    // applyColorTransforms()
+    if (Math.abs(gradientScale - 1) > 0.001) t = (t - 0.5) * gradientScale + 0.5
+    if (Math.abs(gradientOffset) > 0.001) t += gradientOffset
+    if (Math.abs(animColorSpread - 1) > 0.001) t = (t - 0.5) * animColorSpread + 0.5
+
+    t = clamp(t, 0, 1)
+    const steps = Math.max(blendOptions.steps, 0)
+    if (steps >= 2) t = Math.floor(t * steps) / steps
+
+    // Linear filtering between the two nearest texels, like texture2D()
+    const x = t * (size - 1)
+    const i0 = Math.floor(x)
+    const i1 = Math.min(i0 + 1, size - 1)
+    const f = x - i0
+    const texel = (c: number) => mix(lut[i0 * 4 + c], lut[i1 * 4 + c], f) / 255
+    return [texel(0), texel(1), texel(2), texel(3)]
+  }
+}
+
+// === SDFs (sdf.glsl) ===
+
+function sdTriangle(x: number, y: number): number {
+  y -= 0.15
+  const k = Math.sqrt(3)
+  x = Math.abs(x) - 0.5
+  y = y + 0.5 / k
+  if (x + k * y > 0) [x, y] = [(x - k * y) / 2, (-k * x - y) / 2]
+  x -= clamp(x, -1, 0)
+  return Math.hypot(x, y) * Math.sign(y) * 0.8 + 0.3
+}
+
+function sdHexagon(x: number, y: number): number {
+  const kx = -0.866025404
+  const ky = 0.5
+  const kz = 0.577350269
+  x = Math.abs(x)
+  y = Math.abs(y)
+  const d = 2 * Math.min(kx * x + ky * y, 0)
+  x -= d * kx
+  y -= d * ky
+  return Math.hypot(x - clamp(x, -kz * 0.5, kz * 0.5), y - 0.5) * 1.2 + 0.15
+}
+
+function sdStar(x: number, y: number): number {
+  const an = 0.628318530
+  const en = 1.047197551
+  const acs = [Math.cos(an), Math.sin(an)]
+  const ecs = [Math.cos(en), Math.sin(en)]
+  const bn = mod(Math.atan2(x, y), 2 * an) - an
+  const len = Math.hypot(x, y)
+  let px = len * Math.cos(bn) - 0.4 * acs[0]
+  let py = len * Math.abs(Math.sin(bn)) - 0.4 * acs[1]
+  const h = clamp(-(px * ecs[0] + py * ecs[1]), 0, (0.4 * acs[1]) / ecs[1])
+  px += ecs[0] * h
+  py += ecs[1] * h
+  return Math.hypot(px, py) * Math.sign(px) + 0.4
+}
+
+function sdHeart(x: number, y: number): number {
+  x = Math.abs(x * 2)
+  y = y * 2 + 0.6
+
+  let d: number
+  if (y + x > 1) {
+    d = Math.hypot(x - 0.25, y - 0.75) - Math.sqrt(2) / 4
+  } else {
+    const m = 0.5 * Math.max(x + y, 0)
+    d = Math.sqrt(Math.min(x * x + (y - 1) * (y - 1), (x - m) * (x - m) + (y - m) * (y - m))) * Math.sign(x - y)
+  }
+  return d * 0.8 + 0.35
+}
+
+function getShapeDistance(x: number, y: number, shape: number): number {
+  switch (shape) {
+    case 1: return Math.max(Math.abs(x), Math.abs(y))
+    case 2: return sdTriangle(x, y)
+    case 3: return sdHexagon(x, y)
+    case 4: return sdStar(x, y)
+    case 5: return (Math.abs(x) + Math.abs(y)) * 0.707106781
+    case 6: return sdHeart(x, y)
+    default: return Math.hypot(x, y)
+  }
+}
+
+function getShapeRingDistance(x: number, y: number, shape: number): number {
+  if (shape === 0 || shape === 1 || shape === 5) return getShapeDistance(x, y, shape)
+
+  const r = Math.hypot(x, y)
+  if (r < 0.001) return 0
+
+  let lo = 0.001
+  let hi = 2
+  for (let i = 0; i < 12; i++) {
+    const mid = (lo + hi) * 0.5
+    if (getShapeDistance((x / r) * mid, (y / r) * mid, shape) < 0.5) lo = mid
+    else hi = mid
+  }
+  return (r / Math.max((lo + hi) * 0.5, 0.001)) * 0.5
+}
+
+// === Gradient types (types/*.frag) ===
+
+const REPEAT_MIRROR = (mode: string) => (mode === 'mirror' ? 1 : 0)
+
+function linearSampler(state: GradientState, sample: (t: number) => Sample): TypeSampler {
+  const angle = radians(state.angle - 90)
+  const dx = Math.cos(angle)
+  const dy = Math.sin(angle)
+  const settings = state.linearSettings
+  const offsetX = (settings.offsetX ?? 0) / 100
+  const offsetY = (settings.offsetY ?? 0) / 100
+  const scale = Math.max(0.1, (settings.scale ?? 100) / 100)
+  const repeat = REPEAT_MIRROR(settings.repeatMode)
+
+  return (u, v) => {
+    const t = ((u + offsetX - 0.5) * dx + (v + offsetY - 0.5) * dy) * 0.707106781 / scale + 0.5
+    return sample(applyRepeat(t, repeat))
+  }
+}
+
+function roundedRectDistance(px: number, py: number, sx: number, sy: number, cornerPct: number): number {
+  const qx = Math.abs(px) / sx
+  const qy = Math.abs(py) / sy
+  const cornerSize = cornerPct * 0.5
+  const innerCorner = 1 - cornerSize
+  if (qx > innerCorner && qy > innerCorner && cornerSize > 0.001) {
+    return innerCorner + Math.hypot(qx - innerCorner, qy - innerCorner)
+  }
+  return Math.max(qx, qy)
+}
+
+function pillDistance(px: number, py: number, sx: number, sy: number): number {
+  const qx = Math.abs(px)
+  const qy = Math.abs(py)
+  if (sx > sy) {
+    const straight = sx - sy
+    return qx <= straight ? qy / sy : Math.hypot(qx - straight, qy) / sy
+  }
+  const straight = sy - sx
+  return qy <= straight ? qx / sx : Math.hypot(qx, qy - straight) / sx
+}
+
+function radialSampler(state: GradientState, sample: (t: number) => Sample, aspect: number): TypeSampler {
+  const s = state.radialSettings
+  const centerX = state.gradientCenterX !== 50 ? state.gradientCenterX / 100 : s.positionX / 100
+  const centerY = state.gradientCenterY !== 50 ? state.gradientCenterY / 100 : 1 - s.positionY / 100
+  const baseSize = 0.5 * ((s.zoom ?? 100) / 100)
+  const shape = ({ circle: 0, roundedRect: 1, squircle: 2, pill: 3 } as Record<string, number>)[s.shape] ?? 0
+  const corner = (s.cornerRadius ?? 30) / 100
+  const shapeAspect = s.shapeAspect ?? 1
+  const inner = state.innerRadius / 100
+  const outer = state.outerRadius / 100
+  const repeat = REPEAT_MIRROR(s.repeatMode)
+
+  // Non-circle shapes follow the canvas proportions, then the user's scale/aspect
+  let sx = aspect >= 1 ? baseSize * aspect : baseSize
+  let sy = aspect >= 1 ? baseSize : baseSize / aspect
+  sx *= s.scaleX
+  sy *= s.scaleY
+  if (shapeAspect >= 1) sx *= shapeAspect
+  else sy /= shapeAspect
+  sx = Math.max(sx, 0.001)
+  sy = Math.max(sy, 0.001)
+
+  return (u, v) => {
+    const dx = (u - centerX) * aspect
+    const dy = v - centerY
+    let t: number
+    if (shape === 0) {
+      t = Math.hypot(dx, dy) / Math.max(baseSize * Math.max(s.scaleX, s.scaleY), 0.001)
+    } else if (shape === 1) {
+      t = roundedRectDistance(dx, dy, sx, sy, corner)
+    } else if (shape === 2) {
+      const n = mix(2, 4, corner)
+      t = Math.pow(Math.pow(Math.abs(dx) / sx, n) + Math.pow(Math.abs(dy) / sy, n), 1 / n)
+    } else {
+      t = pillDistance(dx, dy, sx, sy)
+    }
+    if (outer > inner) t = (t - inner) / (outer - inner)
+    return sample(applyRepeat(t, repeat))
+  }
+}
+
+function conicSampler(state: GradientState, sample: (t: number) => Sample): TypeSampler {
+  const s = state.conicSettings
+  const centerX = state.gradientCenterX !== 50 ? state.gradientCenterX / 100 : s.positionX / 100
+  const centerY = state.gradientCenterY !== 50 ? state.gradientCenterY / 100 : 1 - s.positionY / 100
+  const start = radians(s.startAngle)
+  const offset = state.conicOffset * 0.01745329
+
+  return (u, v) => {
+    const a = Math.atan2(v - centerY, u - centerX)
+    return sample(fract(((a + 3.14159265 - start - offset) / 6.28318530) * s.repeatCount))
+  }
+}
+
+function diamondSampler(state: GradientState, sample: (t: number) => Sample, aspect: number): TypeSampler {
+  const s = state.diamondSettings
+  const c = Math.cos(radians(s.rotation))
+  const sn = Math.sin(radians(s.rotation))
+  const repeat = REPEAT_MIRROR(s.repeatMode)
+
+  return (u, v) => {
+    const dx = (u - s.positionX / 100) * aspect
+    const dy = v - (1 - s.positionY / 100)
+    const rx = (dx * c - dy * sn) / Math.max(s.scaleX, 0.01)
+    const ry = (dx * sn + dy * c) / Math.max(s.scaleY, 0.01)
+    const color = sample(applyRepeat((Math.abs(rx) + Math.abs(ry)) * 1.41421356, repeat))
+
+    if (s.blendStyle === 'soft') {
+      return [Math.pow(color[0], 0.9), Math.pow(color[1], 0.9), Math.pow(color[2], 0.9), color[3]]
+    }
+    if (s.blendStyle === 'vivid') {
+      const lum = luminance([color[0], color[1], color[2]])
+      return [
+        clamp(mix(lum, color[0], 1.4), 0, 1),
+        clamp(mix(lum, color[1], 1.4), 0, 1),
+        clamp(mix(lum, color[2], 1.4), 0, 1),
+        color[3],
+      ]
+    }
+    return color
+  }
+}
+
+function spiralSampler(state: GradientState, sample: (t: number) => Sample, aspect: number): TypeSampler {
+  const s = state.spiralSettings
+  const direction = s.direction === 'cw' ? 1 : -1
+
+  return (u, v) => {
+    const dx = (u - s.positionX / 100) * aspect
+    const dy = v - (1 - s.positionY / 100)
+    const dist = Math.hypot(dx, dy)
+    const a = Math.atan2(dy, dx) * direction
+    const t = fract(a / 6.28318530 + dist * s.tightness * s.colorSpread)
+    const decay = Math.max(1 - dist * 1.5 * s.decay, 0)
+    return sample(mix(0.5, t, decay))
+  }
+}
+
+function auroraSampler(state: GradientState, sample: (t: number) => Sample): TypeSampler {
+  const s = state.auroraSettings
+  const c = Math.cos(radians(s.rotation))
+  const sn = Math.sin(radians(s.rotation))
+  const flow = s.flow * 0.01
+  const softness = s.softness * 0.01
+  const spread = s.spread * 0.01
+  const blend = (s.blend ?? 50) / 100
+  const intensity = s.intensity * 0.01
+  const waves = Math.min(s.waveCount, 8)
+
+  return (u, v) => {
+    const x = (u - 0.5) * c - (v - 0.5) * sn + 0.5
+    const y = (u - 0.5) * sn + (v - 0.5) * c + 0.5
+
+    let result = 0
+    for (let i = 0; i < waves; i++) {
+      const waveOffset = i / Math.max(s.waveCount, 1)
+      const freq = 1 + i * 0.4 + flow * 2
+      const phase = i * 1.5
+      const wave = Math.sin(x * freq * 3.14159 + phase) * flow * 0.25
+        + Math.sin(x * freq * 1.7 + phase * 1.4) * flow * 0.15
+        + Math.sin(x * freq * 0.6 + phase * 0.8) * flow * 0.1
+
+      const ribbonY = s.verticalPosition / 100 + (waveOffset - 0.5) * spread * 0.8 + wave
+      const dist = Math.abs(y - ribbonY)
+      const width = 0.04 + softness * 0.2
+      result += Math.exp(-(dist * dist) / (width * width)) * (1 - waveOffset * 0.2)
+    }
+    result = smoothstep(0, 1.2, clamp(result, 0, 1.5))
+
+    const t = clamp(mix(y, result, blend * 0.7) + y * (1 - blend) * 0.3, 0, 1)
+    const color = sample(t)
+
+    const shade = mix(0.85, 1, result) * intensity + (1 - intensity) * 0.5
+    const rgb: Vec3 = [color[0] * shade, color[1] * shade, color[2] * shade]
+    const lum = luminance(rgb)
+    const sat = 1 + intensity * 0.2
+    return [mix(lum, rgb[0], sat), mix(lum, rgb[1], sat), mix(lum, rgb[2], sat), color[3]]
+  }
+}
+
+function stripesSampler(state: GradientState, sample: (t: number) => Sample): TypeSampler {
+  const s = state.stripesSettings
+  const c = Math.cos(radians(s.angle))
+  const sn = Math.sin(radians(s.angle))
+  const offset = (s.offset ?? 0) / 100
+  const edge = mix(mix(0.4, 0.01, s.sharpness), 0.5, (s.fade ?? 0) / 100)
+
+  return (u, v) => {
+    const x = (u - 0.5) * c - (v - 0.5) * sn + 0.5
+    const y = (u - 0.5) * sn + (v - 0.5) * c + 0.5
+    let stripe = fract(x * s.stripeCount + offset * s.stripeCount)
+    stripe = smoothstep(0, edge, stripe) * (1 - smoothstep(1 - edge, 1, stripe))
+    return sample(clamp(mix(y, stripe, 0.7), 0, 1))
+  }
+}
+
+function foldedSampler(state: GradientState, sample: (t: number) => Sample): TypeSampler {
+  const s = state.foldedSettings
+  const c = Math.cos(radians(s.foldAngle))
+  const sn = Math.sin(radians(s.foldAngle))
+  const lightX = Math.cos(radians(s.lightDirection))
+  const edgeSoft = mix(0.3, 0.05, 1 - s.softness)
+  const lightIntensity = mix(0.15, 0.35, 1 - s.softness) * ((s.depth ?? 50) / 100)
+
+  return (u, v) => {
+    const x = ((u - 0.5) * c - (v - 0.5) * sn + 0.5) * s.foldCount
+    const y = (u - 0.5) * sn + (v - 0.5) * c + 0.5
+    const foldIndex = Math.floor(x)
+    const foldPhase = fract(x)
+
+    const lighting = (foldPhase < 0.5 ? 1 : -1) * lightX * 0.5 + 0.5
+    const t = smoothstep(0.5 - edgeSoft, 0.5 + edgeSoft, foldPhase)
+    const color = sample(mix(y, mod(foldIndex, 2) === 0 ? t : 1 - t, 0.6))
+
+    const shade = 1 - lightIntensity + lighting * lightIntensity * 2
+    return [color[0] * shade, color[1] * shade, color[2] * shade, color[3]]
+  }
+}
+
+function reverbSampler(state: GradientState, sample: (t: number) => Sample, aspect: number): TypeSampler {
+  const s = state.reverbSettings
+  const shape = ({ circle: 0, square: 1, triangle: 2, hexagon: 3, star: 4, diamond: 5, heart: 6 } as Record<string, number>)[s.shape] ?? 0
+  const spacing = ({ equal: 0, expand: 1, contract: 2 } as Record<string, number>)[s.spacing] ?? 0
+  const zoom = Math.max(s.zoom, 0.1)
+  const halfThick = s.thickness * 0.5
+  const edge = 0.02 + s.blend * 0.75 * 3
+
+  return (u, v) => {
+    const px = (u - s.positionX / 100) * aspect
+    const py = v - (1 - s.positionY / 100)
+    const unzoomed = Math.hypot(px, py)
+
+    const scaled = getShapeRingDistance(px / zoom, py / zoom, shape) * s.rings
+    let spaced = scaled
+    if (spacing === 1) spaced = Math.pow(scaled / s.rings, 1.4) * s.rings
+    else if (spacing === 2) spaced = Math.pow(scaled / s.rings, 0.7) * s.rings
+
+    const ring = fract(spaced)
+    const ringValue = smoothstep(0.5 - halfThick - edge, 0.5 - halfThick + edge * 0.5, ring)
+      * (1 - smoothstep(0.5 + halfThick - edge * 0.5, 0.5 + halfThick + edge, ring))
+    const decay = 1 - smoothstep(0, 0.7, unzoomed) * s.decay
+    return sample(quintic(mix(0.5, ring, ringValue * decay)))
+  }
+}
+
+// mesh.frag — grid coordinates (s along a row, t down a column) are found by
+// Newton's method on the patch surface, then colored from the corner points
+
+function hermite(x: number): Sample {
+  const x2 = x * x
+  const x3 = x2 * x
+  return [2 * x3 - 3 * x2 + 1, -2 * x3 + 3 * x2, x3 - 2 * x2 + x, x3 - x2]
+}
+
+function hermiteDerivative(x: number): Sample {
+  const x2 = x * x
+  return [6 * x2 - 6 * x, -6 * x2 + 6 * x, 3 * x2 - 4 * x + 1, 3 * x2 - 2 * x]
+}
+
+type Vec2 = [number, number]
+
+/** Sum of `vectors` weighted by `weights` */
+function weigh<V extends number[]>(vectors: V[], weights: number[]): V {
+  return vectors[0].map((_, c) => vectors.reduce((sum, vector, i) => sum + vector[c] * weights[i], 0)) as V
+}
+
+function meshSampler(state: GradientState): TypeSampler {
+  const grid = resolveMeshGrid(state.meshSettings)
+  const { columns, rows, positions, tangentsS: ts, tangentsT: tt } = grid
+  const coons = state.meshSettings.interpolation === 'coons'
+  const colors = grid.colors.map(([r, g, b, a]): Sample => [r * a, g * a, b * a, a])
+
+  const patchAt = (s: number, t: number) => {
+    const column = clamp(Math.floor(s), 0, columns - 2)
+    const row = clamp(Math.floor(t), 0, rows - 2)
+    const i00 = row * columns + column
+    return { column, row, i00, i10: i00 + 1, i01: i00 + columns, i11: i00 + columns + 1, u: s - column, v: t - row }
+  }
+
+  // meshSurface(): hs/ls weigh along the row, ht/lt down the column
+  const surface = (p: ReturnType<typeof patchAt>, hs: Sample, ls: Vec2, ht: Sample, lt: Vec2): Vec2 => {
+    const P = positions
+    if (coons) {
+      const top = weigh([P[p.i00], P[p.i10], ts[p.i00], ts[p.i10]], hs)
+      const bottom = weigh([P[p.i01], P[p.i11], ts[p.i01], ts[p.i11]], hs)
+      const left = weigh([P[p.i00], P[p.i01], tt[p.i00], tt[p.i01]], ht)
+      const right = weigh([P[p.i10], P[p.i11], tt[p.i10], tt[p.i11]], ht)
+      const corners = weigh([P[p.i00], P[p.i10], P[p.i01], P[p.i11]], [lt[0] * ls[0], lt[0] * ls[1], lt[1] * ls[0], lt[1] * ls[1]])
+      const sum = weigh([top, bottom, left, right], [lt[0], lt[1], ls[0], ls[1]])
+      return [sum[0] - corners[0], sum[1] - corners[1]]
+    }
+    const left = weigh([P[p.i00], P[p.i01], tt[p.i00], tt[p.i01]], ht)
+    const right = weigh([P[p.i10], P[p.i11], tt[p.i10], tt[p.i11]], ht)
+    const leftTangent = weigh([ts[p.i00], ts[p.i01]], [ht[0], ht[1]])
+    const rightTangent = weigh([ts[p.i10], ts[p.i11]], [ht[0], ht[1]])
+    return weigh([left, right, leftTangent, rightTangent], hs)
+  }
+
+  const initialGuess = (u: number, v: number): Vec2 => {
+    let best: Vec2 = [0, 0]
+    let bestDistance = 1e9
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const index = row * columns + column
+        let d = Math.hypot(u - positions[index][0], v - positions[index][1])
+        if (d < bestDistance) {
+          bestDistance = d
+          best = [column, row]
+        }
+        if (column + 1 < columns && row + 1 < rows) {
+          const center = weigh(
+            [positions[index], positions[index + 1], positions[index + columns], positions[index + columns + 1]],
+            [0.25, 0.25, 0.25, 0.25]
+          )
+          d = Math.hypot(u - center[0], v - center[1])
+          if (d < bestDistance) {
+            bestDistance = d
+            best = [column + 0.5, row + 0.5]
+          }
+        }
+      }
+    }
+    return best
+  }
+
+  const invert = (u: number, v: number): Vec2 => {
+    let [s, t] = initialGuess(u, v)
+    for (let i = 0; i < 8; i++) {
+      const p = patchAt(s, t)
+      const hs = hermite(p.u)
+      const ht = hermite(p.v)
+      const ls: Vec2 = [1 - p.u, p.u]
+      const lt: Vec2 = [1 - p.v, p.v]
+
+      const point = surface(p, hs, ls, ht, lt)
+      const ex = point[0] - u
+      const ey = point[1] - v
+      const ds = surface(p, hermiteDerivative(p.u), [-1, 1], ht, lt)
+      const dt = surface(p, hs, ls, hermiteDerivative(p.v), [-1, 1])
+
+      const det = ds[0] * dt[1] - ds[1] * dt[0]
+      if (Math.abs(det) < 1e-8) break
+      let dx = (dt[1] * ex - dt[0] * ey) / det
+      let dy = (ds[0] * ey - ds[1] * ex) / det
+      const damp = Math.min(1, 0.5 / Math.max(Math.hypot(dx, dy), 1e-6))
+      dx *= damp
+      dy *= damp
+      s = clamp(s - dx, 0, columns - 1)
+      t = clamp(t - dy, 0, rows - 1)
+    }
+    return [s, t]
+  }
+
+  // Catmull-Rom color tangents, one-sided at the edges
+  const colorTangent = (index: number, along: number, size: number, stride: number): Sample => {
+    const next = colors[along < size - 1 ? index + stride : index]
+    const prev = colors[along > 0 ? index - stride : index]
+    const span = along > 0 && along < size - 1 ? 0.5 : 1
+    return next.map((c, i) => (c - prev[i]) * span) as Sample
+  }
+
+  return (u, v) => {
+    const p = patchAt(...invert(u, v))
+    const c = [p.i00, p.i10, p.i01, p.i11].map((i) => colors[i])
+
+    let color: Sample
+    if (coons) {
+      color = weigh(c, [(1 - p.u) * (1 - p.v), p.u * (1 - p.v), (1 - p.u) * p.v, p.u * p.v])
+    } else {
+      const hs = hermite(p.u)
+      const ht = hermite(p.v)
+      const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([dc, dr]) => [p.column + dc, p.row + dr])
+      const cs = corners.map(([column, row]) => colorTangent(row * columns + column, column, columns, 1))
+      const ct = corners.map(([column, row]) => colorTangent(row * columns + column, row, rows, columns))
+      const left = weigh([c[0], c[2], ct[0], ct[2]], ht)
+      const right = weigh([c[1], c[3], ct[1], ct[3]], ht)
+      const leftTangent = weigh([cs[0], cs[2]], [ht[0], ht[1]])
+      const rightTangent = weigh([cs[1], cs[3]], [ht[0], ht[1]])
+      color = weigh([left, right, leftTangent, rightTangent], hs)
+    }
+
+    // clampColor(): the CPU path is never HDR
+    const alpha = clamp(color[3], 0, 1)
+    const straight = (ch: number) => (alpha > 0 ? clamp(ch / alpha, 0, 1) : 0)
+    return [straight(color[0]), straight(color[1]), straight(color[2]), alpha]
+  }
+}
+
+// noise.glsl — 3D simplex noise (after Ashima Arts / Stefan Gustavson) and its fBm
+
+const mod289 = (x: number) => x - Math.floor(x * (1 / 289)) * 289
+const permute = (x: number) => mod289((x * 34 + 1) * x)
+const taylorInvSqrt = (r: number) => 1.79284291400159 - 0.85373472095314 * r
+
+function simplexNoise(vx: number, vy: number, vz: number): number {
+  // First corner
+  const skew = (vx + vy + vz) / 3
+  const ix = Math.floor(vx + skew)
+  const iy = Math.floor(vy + skew)
+  const iz = Math.floor(vz + skew)
+  const unskew = (ix + iy + iz) / 6
+  const x0: Vec3 = [vx - ix + unskew, vy - iy + unskew, vz - iz + unskew]
+
+  // Other corners
+  const g: Vec3 = [step(x0[1], x0[0]), step(x0[2], x0[1]), step(x0[0], x0[2])]
+  const l: Vec3 = [1 - g[2], 1 - g[0], 1 - g[1]]
+  const i1: Vec3 = [Math.min(g[0], l[0]), Math.min(g[1], l[1]), Math.min(g[2], l[2])]
+  const i2: Vec3 = [Math.max(g[0], l[0]), Math.max(g[1], l[1]), Math.max(g[2], l[2])]
+  const corners: [Vec3, Vec3][] = [
+    [[0, 0, 0], x0],
+    [i1, [x0[0] - i1[0] + 1 / 6, x0[1] - i1[1] + 1 / 6, x0[2] - i1[2] + 1 / 6]],
+    [i2, [x0[0] - i2[0] + 1 / 3, x0[1] - i2[1] + 1 / 3, x0[2] - i2[2] + 1 / 3]],
+    [[1, 1, 1], [x0[0] - 0.5, x0[1] - 0.5, x0[2] - 0.5]],
+  ]
+
+  // The shader's 0.142857142857 as a 32-bit float, a hair over 1/7, so j * 1/7 floors to whole rows
+  const n_ = Math.fround(0.142857142857)
+  const ns: Vec3 = [n_ * 2, n_ * 0.5 - 1, n_]
+  const [mx, my, mz] = [mod289(ix), mod289(iy), mod289(iz)]
+
+  let sum = 0
+  for (const [offset, x] of corners) {
+    // Permutation, then a gradient from 7x7 points over a square mapped onto an octahedron
+    const p = permute(permute(permute(mz + offset[2]) + my + offset[1]) + mx + offset[0])
+    const j = p - 49 * Math.floor(p * ns[2] * ns[2])
+    const xs = Math.floor(j * ns[2])
+    const ys = Math.floor(j - 7 * xs)
+    let gx = xs * ns[0] + ns[1]
+    let gy = ys * ns[0] + ns[1]
+    const h = 1 - Math.abs(gx) - Math.abs(gy)
+    const sh = -step(h, 0)
+    gx += (Math.floor(gx) * 2 + 1) * sh
+    gy += (Math.floor(gy) * 2 + 1) * sh
+    const norm = taylorInvSqrt(gx * gx + gy * gy + h * h)
+
+    let m = Math.max(0.6 - (x[0] * x[0] + x[1] * x[1] + x[2] * x[2]), 0)
+    m *= m
+    sum += m * m * (gx * x[0] + gy * x[1] + h * x[2]) * norm
+  }
+  return 42 * sum
+}
+
+function fbmNoise(p: Vec3, seed: Vec3, octaves: number, lacunarity: number, gain: number): number {
+  let sum = 0
+  let total = 0
+  let amplitude = 1
+  let frequency = 1
+  for (let i = 0; i < octaves; i++) {
+    sum += simplexNoise(
+      p[0] * frequency + seed[0] + i * 19.19,
+      p[1] * frequency + seed[1] + i * 7.31,
+      p[2] * frequency + seed[2] + i * 3.73
+    ) * amplitude
+    total += amplitude
+    frequency *= lacunarity
+    amplitude *= gain
+  }
+  return total > 0 ? sum / total : 0
+}
+
+function curlNoise(p: Vec3, seed: Vec3, octaves: number, lacunarity: number, gain: number): [number, number] {
+  const e = 0.001
+  const fbm = (dx: number, dy: number) => fbmNoise([p[0] + dx, p[1] + dy, p[2]], seed, octaves, lacunarity, gain)
+  const gradX = fbm(e, 0) - fbm(-e, 0)
+  const gradY = fbm(0, e) - fbm(0, -e)
+  return [gradY / (2 * e), -gradX / (2 * e)]
+}
+
+function noiseSampler(
+  state: GradientState, sample: (t: number) => Sample, aspect: number, time: number, loopDuration: number | null
+): TypeSampler {
+  const field = state.noiseSettings.field
+  const { scale, octaves, lacunarity, gain, seed, speed } = resolveNoise(state.noiseSettings)
+  const drift = noiseDrift(time, speed, loopDuration)
+
+  return (u, v) => {
+    const p: Vec3 = [(u - 0.5) * aspect * scale + drift[0], (v - 0.5) * scale + drift[1], drift[2]]
+
+    let n: number
+    if (field === 'simplex') {
+      n = simplexNoise(p[0] + seed[0], p[1] + seed[1], p[2] + seed[2])
+    } else if (field === 'curl') {
+      const flow = curlNoise(p, seed, octaves, lacunarity, gain)
+      n = fbmNoise([p[0] + flow[0] * 0.25, p[1] + flow[1] * 0.25, p[2]], seed, octaves, lacunarity, gain)
+    } else {
+      n = fbmNoise(p, seed, octaves, lacunarity, gain)
+    }
+
+    return sample(n * 0.5 + 0.5)
+  }
+}
+
+function createTypeSampler(state: GradientState, aspect: number, time: number, loopDuration: number | null): TypeSampler {
+  const sample = createGradientSampler(state)
+  switch (state.gradientType) {
+    case 'radial': return radialSampler(state, sample, aspect)
+    case 'conic': return conicSampler(state, sample)
+    case 'diamond': return diamondSampler(state, sample, aspect)
+    case 'spiral': return spiralSampler(state, sample, aspect)
+    case 'aurora': return auroraSampler(state, sample)
+    case 'stripes': return stripesSampler(state, sample)
+    case 'folded': return foldedSampler(state, sample)
+    case 'reverb': return reverbSampler(state, sample, aspect)
+    case 'mesh': return meshSampler(state)
+    case 'noise': return noiseSampler(state, sample, aspect, time, loopDuration)
+    default: return linearSampler(state, sample)
+  }
+}
+
+// === Effects (effects.glsl) ===
+
+function applyColorAdjustments(color: Vec3, { brightness, contrast, saturation, hueShift }: EffectsState['color']): Vec3 {
+  const b = brightness * 0.01
+  const c = Math.max(contrast * 0.01 + 1, 0.01)
+  let out = color.map((ch) => (ch + b - 0.5) * c + 0.5) as Vec3
+
+  const lum = luminance(out)
+  const s = saturation * 0.01 + 1
+  out = out.map((ch) => mix(lum, ch, s)) as Vec3
+
+  if (hueShift > 0) {
+    const hsl = rgbToHsl(out)
+    out = hslToRgb([fract(hsl[0] + hueShift / 360), hsl[1], hsl[2]])
+  }
+  return out.map((ch) => clamp(ch, 0, 1)) as Vec3
+}
+
+function applyVignette(color: Vec3, u: number, v: number, vignette: EffectsState['vignette']): Vec3 {
+  const round = vignette.roundness * 0.01
+  const dist = Math.hypot((u - 0.5) * mix(1, 1.7, 1 - round), v - 0.5) * 2
+  const soft = vignette.softness * 0.01
+  const edge = mix(0.3, 1.5, soft)
+  const mask = smoothstep(edge, edge - soft * 0.8, dist)
+  const amount = vignette.amount * 0.01
+
+  return color.map((ch) => clamp(
+    vignette.invert ? mix(ch, ch + (1 - mask) * 0.5, amount) : mix(ch, ch * mask, amount),
+    0, 1
+  )) as Vec3
+}
+
+const hash = (x: number, y: number) => fract(Math.sin(x * 12.9898 + y * 78.233) * 43758.5453)
+
+function applyGrain(color: Vec3, u: number, v: number, grain: EffectsState['grain'], time: number): Vec3 {
+  const scale = 100 / Math.max(grain.size, 0.1)
+  const gx = u * scale
+  const gy = v * scale
+  const t = time * 60
+  const amount = grain.amount * 0.003
+
+  if (grain.mono) {
+    const noise = (hash(gx + t, gy + t) * 2 - 1) * amount
+    return color.map((ch) => clamp(ch + noise, 0, 1)) as Vec3
+  }
+  return color.map((ch, i) => clamp(ch + (hash(gx + t + i, gy + t + i) * 2 - 1) * amount, 0, 1)) as Vec3
+}
+
+// === Transparency (gradient.glsl) ===
+
+function getAlphaMask(u: number, v: number, mask: AlphaMaskSettings, aspect: number): number {
+  if (!mask.enabled) return 1
+
+  let t: number
+  if (mask.shape === 'linear') {
+    const angle = radians(mask.angle)
+    const dx = Math.sin(angle)
+    const dy = Math.cos(angle)
+    t = ((u - 0.5) * dx + (v - 0.5) * dy) / (Math.abs(dx) + Math.abs(dy)) + 0.5
+  } else {
+    const ox = (u - mask.centerX / 100) * aspect
+    const oy = v - (1 - mask.centerY / 100)
+    t = Math.hypot(ox, oy) / (0.5 * Math.min(aspect, 1))
+  }
+
+  const start = mask.start / 100
+  let fade = clamp((t - start) / Math.max(mask.end / 100 - start, 0.0001), 0, 1)
+  fade = fade * fade * (3 - 2 * fade)
+  return mask.invert ? fade : 1 - fade
+}
+
+/** composeOutput() in straight alpha: the gradient over the background */
+function composeOutput(color: Vec3, alpha: number, background: Sample): Sample {
+  const backgroundCover = background[3] * (1 - alpha)
+  const outAlpha = alpha + backgroundCover
+  if (outAlpha <= 0) return [0, 0, 0, 0]
+  const blend = (ch: number, i: number) => (ch * alpha + background[i] * backgroundCover) / outAlpha
+  return [blend(color[0], 0), blend(color[1], 1), blend(color[2], 2), outAlpha]
+}
+
+// === Entry point ===
+
+/**
+ * Render `preset` into straight-alpha RGBA8 pixels, top row first (the
+ * layout of ImageData)
+ */
+export function renderGradientToPixels(
+  preset: GradientPresetData | GradientState,
+  width: number,
+  height: number,
+  options: CpuRenderOptions = {}
+): Uint8ClampedArray {
+  const state = normalizePreset(preset)
+  const { effects } = state
+  const aspect = width / height
+  const loopDuration = options.loopDuration && options.loopDuration > 0 ? options.loopDuration : null
+  const time = loopDuration === null ? options.time ?? 0 : (options.time ?? 0) % loopDuration
+  const sampleAt = createTypeSampler(state, aspect, time, loopDuration)
+  const background: Sample = [...hexToRgb(state.backgroundColor), hexToAlpha(state.backgroundColor)]
+  const grain = (options.grain ?? true) && effects.grain.enabled
+  const pixels = new Uint8ClampedArray(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    // vUv has y up; rows are stored top down
+    const v = 1 - (y + 0.5) / height
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width
+      const sample = sampleAt(u, v)
+      let color: Vec3 = [sample[0], sample[1], sample[2]]
+
+      if (effects.color.enabled) color = applyColorAdjustments(color, effects.color)
+      if (effects.vignette.enabled) color = applyVignette(color, u, v, effects.vignette)
+      if (grain) color = applyGrain(color, u, v, effects.grain, time)
+
+      const out = composeOutput(color, sample[3] * getAlphaMask(u, v, state.alphaMask, aspect), background)
+      const i = (y * width + x) * 4
+      pixels[i] = Math.round(out[0] * 255)
+      pixels[i + 1] = Math.round(out[1] * 255)
+      pixels[i + 2] = Math.round(out[2] * 255)
+      pixels[i + 3] = Math.round(out[3] * 255)
+    }
+  }
+  return pixels
+}
@@ -0,0 +1,334 @@
+/**
+ * Animation Exporter
+ *
+ * Renders a preset plus its ambient animation (and keyframe timeline, if the
+ * preset has one) as a fixed-FPS frame sequence and encodes it. Frame i is
+ * rendered at exactly i / fps seconds on a private export engine, so output
+ * is deterministic and independent of display speed.
+ *
+ * Formats:
+ * - webm: WebCodecs VP9 (or VP8) muxed by webmMuxer. Browsers without WebCodecs
+ *         fall back to MediaRecorder, which has to play frames back in real time.
+ * - apng: ApngEncoder, lossless and loops everywhere images do
+ *
+ * Set `loopLocked` on the animation config for a seamless loop: the frame
+ * after the last one is then identical to frame 0.
+ */
+
+import { GradientEngine } from '../GradientEngine'
+import { applyFullStateToEngine, readEnginePixels, EXPORT_SIZES, type ExportSize } from '../standaloneRenderer'
+import { normalizePreset } from '../presetSchema'
+import { applyAmbientFrame, computeAmbientFrame, DEFAULT_LOOP_DURATION, type GradientAnimationConfig } from '@/lib/animation/ambient'
+import { evaluateTimeline } from '@/lib/animation/timeline'
+import { ApngEncoder } from './apngEncoder'
+import { muxWebM, type EncodedVideoChunkData, type WebMTrackInfo } from './webmMuxer'
+import type { GradientPresetData, GradientState } from '@/types/gradient'
+
+export type AnimationExportFormat = 'webm' | 'apng'
+
+export interface AnimationExportProgress {
+  /** Frames rendered so far */
+  frame: number
+  totalFrames: number
+  /** 0-1 */
+  fraction: number
+}
+
+export interface AnimationExportOptions {
+  /** Named export size or explicit pixels. Default: 'hd' */
+  size?: ExportSize | { width: number; height: number }
+  /** Default: 30 */
+  fps?: number
+  /** Seconds. Default: the animation's loopDuration */
+  duration?: number
+  /** Default: 'webm' */
+  format?: AnimationExportFormat
+  /** WebM target bitrate in bits per second. Default: 8 Mbps */
+  bitrate?: number
+  onProgress?: (progress: AnimationExportProgress) => void
+  /** Abort to cancel — the export promise rejects with an AbortError */
+  signal?: AbortSignal
+}
+
+export interface RenderedFrame {
+  index: number
+  /** Seconds */
+  time: number
+  /** The export engine's WebGL canvas, holding this frame */
+  canvas: HTMLCanvasElement
+  /** Top-down RGBA pixels of this frame */
+  readPixels(): Uint8ClampedArray<ArrayBuffer>
+}
+
+type PresetInput = GradientPresetData | GradientState
+
+const DEFAULT_FPS = 30
+const DEFAULT_BITRATE = 8_000_000
+/** Keyframe every two seconds keeps seeking cheap without bloating the file */
+const KEYFRAME_INTERVAL_SECONDS = 2
+/** Frames allowed in the WebCodecs queue before rendering waits */
+const MAX_ENCODE_QUEUE = 4
+
+function resolveSize(size: AnimationExportOptions['size'] = 'hd'): { width: number; height: number } {
+  if (typeof size === 'string') {
+    const { width, height } = EXPORT_SIZES[size]
+    return { width, height }
+  }
+  return size
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Animation export cancelled', 'AbortError')
+  }
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Render every frame of the animation and hand it to `onFrame`.
+ * Yields to the event loop between frames so progress UI and cancellation stay live.
+ */
+export async function renderFrameSequence(
+  preset: PresetInput,
+  animation: GradientAnimationConfig,
+  options: AnimationExportOptions,
+  onFrame: (frame: RenderedFrame) => void | Promise<void>
+): Promise<void> {
+  const { width, height } = resolveSize(options.size)
+  const fps = options.fps ?? DEFAULT_FPS
+  const duration = options.duration ?? animation.loopDuration ?? DEFAULT_LOOP_DURATION
+  const totalFrames = Math.max(1, Math.round(duration * fps))
+
+  throwIfAborted(options.signal)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  let engine: GradientEngine
+  try {
+    engine = new GradientEngine(canvas, { forExport: true })
+  } catch (initError) {
+    console.error('[AnimationExporter] Failed to create GradientEngine:', initError)
+    throw new Error('Failed to initialize WebGL renderer')
+  }
+
+  try {
+    applyFullStateToEngine(engine, preset)
+    engine.handleResize(width, height)
+    if (animation.loopLocked) {
+      engine.setLoopDuration(animation.loopDuration ?? DEFAULT_LOOP_DURATION)
+    }
+
+    // Same resting values GradientPlane animates around
+    const { angle, timeline } = normalizePreset(preset)
+    const baseline = { angle, scale: 1, centerX: 50, centerY: 50 }
+
+    for (let index = 0; index < totalFrames; index++) {
+      throwIfAborted(options.signal)
+
+      const time = index / fps
+      applyAmbientFrame(engine, computeAmbientFrame(animation, time, baseline))
+      if (timeline) engine.applyAnimationOverrides(evaluateTimeline(timeline, time))
+      engine.renderAtTimeSync(time)
+
+      await onFrame({
+        index,
+        time,
+        canvas,
+        readPixels: () => readEnginePixels(engine, width, height),
+      })
+
+      options.onProgress?.({ frame: index + 1, totalFrames, fraction: (index + 1) / totalFrames })
+      await delay(0)
+    }
+  } finally {
+    // Force context loss to release GPU memory, as createRenderCallback does
+    engine.dispose(true)
+  }
+}
+
+/**
+ * Render and encode an animation loop
+ */
+export async function exportGradientAnimation(
+  preset: PresetInput,
+  animation: GradientAnimationConfig,
+  options: AnimationExportOptions = {}
+): Promise<Blob> {
+  if ((options.format ?? 'webm') === 'apng') {
+    return encodeApng(preset, animation, options)
+  }
+  if (typeof VideoEncoder !== 'undefined') {
+    const blob = await encodeWebCodecs(preset, animation, options)
+    if (blob) return blob
+  }
+  return recordMediaRecorder(preset, animation, options)
+}
+
+/**
+ * Render, encode and trigger a download
+ */
+export async function exportAndDownloadGradientAnimation(
+  preset: PresetInput,
+  animation: GradientAnimationConfig,
+  options: AnimationExportOptions & { filename: string }
+): Promise<void> {
+  const { filename, ...exportOptions } = options
+  const blob = await exportGradientAnimation(preset, animation, exportOptions)
+  const extension = (exportOptions.format ?? 'webm') === 'apng' ? 'png' : 'webm'
+
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${filename}.${extension}`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+async function encodeApng(
+  preset: PresetInput,
+  animation: GradientAnimationConfig,
+  options: AnimationExportOptions
+): Promise<Blob> {
+  const { width, height } = resolveSize(options.size)
+  const fps = options.fps ?? DEFAULT_FPS
+  const duration = options.duration ?? animation.loopDuration ?? DEFAULT_LOOP_DURATION
+  const encoder = new ApngEncoder(width, height, fps, Math.max(1, Math.round(duration * fps)))
+
+  await renderFrameSequence(preset, animation, options, async (frame) => {
+    await encoder.addFrame(frame.readPixels())
+  })
+  return encoder.finish()
+}
+
+/**
+ * WebCodecs path. Returns null when no WebM codec is supported at this size.
+ */
+async function encodeWebCodecs(
+  preset: PresetInput,
+  animation: GradientAnimationConfig,
+  options: AnimationExportOptions
+): Promise<Blob | null> {
+  const { width, height } = resolveSize(options.size)
+  const fps = options.fps ?? DEFAULT_FPS
+  const bitrate = options.bitrate ?? DEFAULT_BITRATE
+
+  const candidates: { codec: string; codecId: WebMTrackInfo['codecId'] }[] = [
+    { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+    { codec: 'vp8', codecId: 'V_VP8' },
+  ]
+  let chosen: { config: VideoEncoderConfig; codecId: WebMTrackInfo['codecId'] } | null = null
+  for (const candidate of candidates) {
+    const config: VideoEncoderConfig = { codec: candidate.codec, width, height, bitrate, framerate: fps }
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null)
+    if (support?.supported) {
+      chosen = { config, codecId: candidate.codecId }
+      break
+    }
+  }
+  if (!chosen) return null
+
+  const chunks: EncodedVideoChunkData[] = []
+  const failure: { error: Error | null } = { error: null }
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      chunks.push({ data, timestamp: chunk.timestamp, keyFrame: chunk.type === 'key' })
+    },
+    error: (error) => {
+      failure.error = error
+    },
+  })
+  encoder.configure(chosen.config)
+
+  const frameDuration = 1_000_000 / fps
+  const keyInterval = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS))
+  let totalFrames = 0
+
+  try {
+    await renderFrameSequence(preset, animation, options, async (frame) => {
+      if (failure.error) throw failure.error
+
+      const videoFrame = new VideoFrame(frame.canvas, {
+        timestamp: Math.round(frame.index * frameDuration),
+        duration: Math.round(frameDuration),
+      })
+      encoder.encode(videoFrame, { keyFrame: frame.index % keyInterval === 0 })
+      videoFrame.close()
+      totalFrames = frame.index + 1
+
+      // Keep the queue short so 4K exports don't pile frames up in memory
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await delay(5)
+      }
+    })
+    await encoder.flush()
+    if (failure.error) throw failure.error
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  return muxWebM(chunks, {
+    width,
+    height,
+    codecId: chosen.codecId,
+    duration: (totalFrames * 1000) / fps,
+  })
+}
+
+/**
+ * MediaRecorder fallback. Recording follows wall-clock time, so frames are
+ * paced at 1 / fps and the export takes as long as the loop itself.
+ */
+async function recordMediaRecorder(
+  preset: PresetInput,
+  animation: GradientAnimationConfig,
+  options: AnimationExportOptions
+): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('WebM export needs WebCodecs or MediaRecorder support')
+  }
+
+  const fps = options.fps ?? DEFAULT_FPS
+  const data: Blob[] = []
+  const capture: { recorder: MediaRecorder | null; track: CanvasCaptureMediaStreamTrack | null } = {
+    recorder: null,
+    track: null,
+  }
+
+  try {
+    await renderFrameSequence(preset, animation, options, async (frame) => {
+      if (!capture.recorder) {
+        const stream = frame.canvas.captureStream(0)
+        capture.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+        capture.recorder = new MediaRecorder(stream, {
+          mimeType: 'video/webm',
+          videoBitsPerSecond: options.bitrate ?? DEFAULT_BITRATE,
+        })
+        capture.recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) data.push(event.data)
+        }
+        capture.recorder.start()
+      }
+      capture.track?.requestFrame()
+      await delay(1000 / fps)
+    })
+  } catch (error) {
+    if (capture.recorder && capture.recorder.state !== 'inactive') capture.recorder.stop()
+    throw error
+  }
+
+  const recorder = capture.recorder
+  if (!recorder) throw new Error('No frames were rendered')
+
+  await new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve()
+    recorder.stop()
+  })
+  return new Blob(data, { type: 'video/webm' })
+}
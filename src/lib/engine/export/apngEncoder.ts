@@ -0,0 +1,87 @@
+/**
+ * APNG Encoder — animated PNG from raw RGBA frames.
+ *
+ * Every frame is stored whole (no inter-frame diffing). Rows use the Sub
+ * filter, which suits smooth gradients, and are deflated with the browser's
+ * CompressionStream('deflate') — that is the zlib format PNG expects.
+ *
+ * Frame count must be known up front because acTL precedes the frames.
+ */
+
+import { PNG_SIGNATURE, pngChunk, rgbaHeaderChunk, filterRows } from './png'
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export class ApngEncoder {
+  private width: number
+  private height: number
+  private fps: number
+  private totalFrames: number
+  private parts: Uint8Array<ArrayBuffer>[] = []
+  private sequence: number = 0
+  private framesAdded: number = 0
+
+  /**
+   * @param loops - Number of plays, 0 = loop forever
+   */
+  constructor(width: number, height: number, fps: number, totalFrames: number, loops: number = 0) {
+    this.width = width
+    this.height = height
+    this.fps = Math.round(fps)
+    this.totalFrames = totalFrames
+
+    const actl = new Uint8Array(8)
+    const actlView = new DataView(actl.buffer)
+    actlView.setUint32(0, totalFrames)
+    actlView.setUint32(4, loops)
+
+    this.parts.push(new Uint8Array(PNG_SIGNATURE), rgbaHeaderChunk(width, height), pngChunk('acTL', actl))
+  }
+
+  /**
+   * Append one top-down RGBA frame of the encoder's size
+   */
+  async addFrame(rgba: Uint8Array | Uint8ClampedArray): Promise<void> {
+    if (this.framesAdded >= this.totalFrames) {
+      throw new Error(`[ApngEncoder] Expected ${this.totalFrames} frames, got more`)
+    }
+    if (rgba.length !== this.width * this.height * 4) {
+      throw new Error('[ApngEncoder] Frame size does not match encoder size')
+    }
+
+    const fctl = new Uint8Array(26)
+    const fctlView = new DataView(fctl.buffer)
+    fctlView.setUint32(0, this.sequence++)
+    fctlView.setUint32(4, this.width)
+    fctlView.setUint32(8, this.height)
+    // x/y offset stay 0
+    fctlView.setUint16(20, 1)          // Delay numerator
+    fctlView.setUint16(22, this.fps)   // Delay denominator → 1/fps seconds
+    // dispose_op 0 (none), blend_op 0 (source)
+    this.parts.push(pngChunk('fcTL', fctl))
+
+    const compressed = await deflate(filterRows(rgba, this.width, this.height))
+
+    if (this.framesAdded === 0) {
+      // The first frame doubles as the default image for non-APNG viewers
+      this.parts.push(pngChunk('IDAT', compressed))
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length)
+      new DataView(fdat.buffer).setUint32(0, this.sequence++)
+      fdat.set(compressed, 4)
+      this.parts.push(pngChunk('fdAT', fdat))
+    }
+    this.framesAdded++
+  }
+
+  finish(): Blob {
+    if (this.framesAdded !== this.totalFrames) {
+      throw new Error(`[ApngEncoder] Expected ${this.totalFrames} frames, got ${this.framesAdded}`)
+    }
+    this.parts.push(pngChunk('IEND', new Uint8Array(0)))
+    return new Blob(this.parts, { type: 'image/apng' })
+  }
+}
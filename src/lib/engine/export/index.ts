@@ -0,0 +1,26 @@
+/**
+ * Export — animation frame sequences, WebM and APNG, and tiled print-size stills
+ */
+
+export {
+  renderFrameSequence,
+  exportGradientAnimation,
+  exportAndDownloadGradientAnimation,
+} from './animationExporter'
+export type {
+  AnimationExportFormat,
+  AnimationExportOptions,
+  AnimationExportProgress,
+  RenderedFrame,
+} from './animationExporter'
+export {
+  renderTiled,
+  exportTiledImage,
+  exportAndDownloadTiledImage,
+  PRINT_SIZES,
+} from './tiledExporter'
+export type { TiledBand, TiledExportOptions, TiledExportProgress, PrintSize } from './tiledExporter'
+export { ApngEncoder } from './apngEncoder'
+export { PngStreamEncoder } from './pngStreamEncoder'
+export { muxWebM } from './webmMuxer'
+export type { EncodedVideoChunkData, WebMTrackInfo } from './webmMuxer'
@@ -0,0 +1,68 @@
+/**
+ * PNG building blocks shared by the APNG and streaming PNG encoders:
+ * signature, chunk framing with CRC, the RGBA IHDR and Sub-filtered rows.
+ */
+
+export const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10]
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0xffffffff
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** length + type + data + CRC(type + data) */
+export function pngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out, 4, 8 + data.length))
+  return out
+}
+
+/** IHDR for 8-bit RGBA */
+export function rgbaHeaderChunk(width: number, height: number): Uint8Array<ArrayBuffer> {
+  const ihdr = new Uint8Array(13)
+  const ihdrView = new DataView(ihdr.buffer)
+  ihdrView.setUint32(0, width)
+  ihdrView.setUint32(4, height)
+  ihdr[8] = 8   // Bit depth
+  ihdr[9] = 6   // Color type: RGBA
+  // Compression, filter and interlace methods are all 0
+  return pngChunk('IHDR', ihdr)
+}
+
+/**
+ * Prefix every row with filter type 1 (Sub): each byte minus the byte one
+ * pixel left. Suits smooth gradients.
+ */
+export function filterRows(rgba: Uint8Array | Uint8ClampedArray, width: number, rows: number): Uint8Array<ArrayBuffer> {
+  const rowBytes = width * 4
+  const out = new Uint8Array((rowBytes + 1) * rows)
+  for (let y = 0; y < rows; y++) {
+    const src = y * rowBytes
+    const dst = y * (rowBytes + 1)
+    out[dst] = 1
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= 4 ? rgba[src + x - 4] : 0
+      out[dst + 1 + x] = (rgba[src + x] - left) & 0xff
+    }
+  }
+  return out
+}
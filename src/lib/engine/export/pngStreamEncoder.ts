@@ -0,0 +1,93 @@
+/**
+ * PNG Stream Encoder — a still PNG fed a band of rows at a time.
+ *
+ * Rows are Sub-filtered and written into one CompressionStream('deflate')
+ * as they arrive, so the full RGBA image never has to exist in memory; only
+ * the compressed IDAT data is kept. Used by the tiled exporter, where a
+ * print-size image can run to hundreds of megabytes uncompressed.
+ */
+
+import { PNG_SIGNATURE, pngChunk, rgbaHeaderChunk, filterRows } from './png'
+
+/** Compressed bytes gathered into each IDAT chunk */
+const IDAT_CHUNK_SIZE = 1 << 20
+
+export class PngStreamEncoder {
+  private width: number
+  private height: number
+  private parts: Uint8Array<ArrayBuffer>[] = []
+  private pending: Uint8Array<ArrayBuffer>[] = []
+  private pendingBytes: number = 0
+  private rowsAdded: number = 0
+  private writer: WritableStreamDefaultWriter<BufferSource>
+  private drained: Promise<void>
+
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+    this.parts.push(new Uint8Array(PNG_SIGNATURE), rgbaHeaderChunk(width, height))
+
+    const compression = new CompressionStream('deflate')
+    this.writer = compression.writable.getWriter()
+    this.drained = this.drain(compression.readable)
+  }
+
+  /**
+   * Append whole top-down RGBA rows of the encoder's width
+   */
+  async addRows(rgba: Uint8Array | Uint8ClampedArray): Promise<void> {
+    const rowBytes = this.width * 4
+    if (rgba.length % rowBytes !== 0) {
+      throw new Error('[PngStreamEncoder] Rows do not match encoder width')
+    }
+    const rows = rgba.length / rowBytes
+    if (this.rowsAdded + rows > this.height) {
+      throw new Error(`[PngStreamEncoder] Expected ${this.height} rows, got more`)
+    }
+
+    await this.writer.ready
+    await this.writer.write(filterRows(rgba, this.width, rows))
+    this.rowsAdded += rows
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.rowsAdded !== this.height) {
+      throw new Error(`[PngStreamEncoder] Expected ${this.height} rows, got ${this.rowsAdded}`)
+    }
+    await this.writer.close()
+    await this.drained
+    this.flushIdat()
+    this.parts.push(pngChunk('IEND', new Uint8Array(0)))
+    return new Blob(this.parts, { type: 'image/png' })
+  }
+
+  /** Give up on the image and release the compressor */
+  abort(): void {
+    this.drained.catch(() => {})
+    this.writer.abort().catch(() => {})
+  }
+
+  private async drain(readable: ReadableStream<Uint8Array<ArrayBuffer>>): Promise<void> {
+    const reader = readable.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      this.pending.push(value)
+      this.pendingBytes += value.length
+      if (this.pendingBytes >= IDAT_CHUNK_SIZE) this.flushIdat()
+    }
+  }
+
+  private flushIdat(): void {
+    if (this.pendingBytes === 0) return
+    const data = new Uint8Array(this.pendingBytes)
+    let offset = 0
+    for (const piece of this.pending) {
+      data.set(piece, offset)
+      offset += piece.length
+    }
+    this.parts.push(pngChunk('IDAT', data))
+    this.pending = []
+    this.pendingBytes = 0
+  }
+}
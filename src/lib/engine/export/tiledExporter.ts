@@ -0,0 +1,254 @@
+/**
+ * Tiled Exporter
+ *
+ * Renders stills of any size, past the GPU's texture and renderbuffer limits,
+ * as a grid of tiles on one export engine. Each tile is a render region of
+ * the full image (GradientEngine.setRenderRegion), so UV-driven shading —
+ * warps, grain, masks, halftone — lines up across tile edges by construction.
+ *
+ * Post passes that read neighbours (blur, bloom, ASCII and dot matrix cells)
+ * are covered by rendering every tile with an overlap margin on each side,
+ * sized from the passes' getTileMargin(), and keeping only its core. Tile
+ * origins and sizes are multiples of 2^MAX_BLUR_LEVELS, so every tile's blur
+ * pyramid texels and dither pattern sit on the same global grid.
+ *
+ * Tiles are rendered a row at a time, top to bottom, and each finished band
+ * of rows is handed on — to a streaming PNG encoder for exportTiledImage().
+ */
+
+import * as THREE from 'three'
+import { GradientEngine } from '../GradientEngine'
+import { applyFullStateToEngine, readEnginePixels } from '../standaloneRenderer'
+import { MAX_BLUR_LEVELS } from '../passes/BlurChain'
+import { PngStreamEncoder } from './pngStreamEncoder'
+import type { LayerSettings } from '../GradientLayer'
+import type { GradientPresetData, GradientState } from '@/types/gradient'
+
+export interface TiledExportProgress {
+  /** Tiles rendered so far */
+  tile: number
+  totalTiles: number
+  /** 0-1 */
+  fraction: number
+}
+
+export interface TiledExportOptions {
+  width: number
+  height: number
+  /**
+   * Core size of each tile in pixels, before margins. Rounded to the tile
+   * grid and shrunk to fit the GPU. Default: 2048
+   */
+  tileSize?: number
+  /** Shader time in seconds. Default: 0 */
+  time?: number
+  /** Gradients stacked over the preset — see GradientEngine.setLayers() */
+  layers?: LayerSettings[]
+  onProgress?: (progress: TiledExportProgress) => void
+  /** Abort to cancel — the export promise rejects with an AbortError */
+  signal?: AbortSignal
+}
+
+/** Finished rows of the output image */
+export interface TiledBand {
+  /** First row, counted from the top */
+  y: number
+  height: number
+  /** Top-down, straight-alpha RGBA rows of the full output width */
+  pixels: Uint8ClampedArray<ArrayBuffer>
+}
+
+type PresetInput = GradientPresetData | GradientState
+
+/** ISO A sizes at 300 DPI */
+export const PRINT_SIZES = {
+  a3: { width: 3508, height: 4961, label: 'A3', description: '297×420 mm at 300 DPI' },
+  a2: { width: 4961, height: 7016, label: 'A2', description: '420×594 mm at 300 DPI' },
+  a1: { width: 7016, height: 9933, label: 'A1', description: '594×841 mm at 300 DPI' },
+} as const
+
+export type PrintSize = keyof typeof PRINT_SIZES
+
+const DEFAULT_TILE_SIZE = 2048
+/** Blur pyramid texels, and the 4px dither pattern, align on this grid */
+const TILE_GRID = 2 ** MAX_BLUR_LEVELS
+
+const alignUp = (value: number) => Math.ceil(value / TILE_GRID) * TILE_GRID
+const alignDown = (value: number) => Math.floor(value / TILE_GRID) * TILE_GRID
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Tiled export cancelled', 'AbortError')
+  }
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/** Largest square the renderer can draw into and read back */
+function getMaxRenderSize(renderer: THREE.WebGLRenderer): number {
+  const gl = renderer.getContext()
+  const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array
+  return Math.min(
+    renderer.capabilities.maxTextureSize,
+    gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+    viewport[0],
+    viewport[1]
+  )
+}
+
+/**
+ * Plan the tile grid: core size and overlap margin. A margin of Infinity
+ * (a pass reading the whole image) only works as a single tile.
+ */
+function planTiles(
+  width: number,
+  height: number,
+  margin: number,
+  maxSize: number,
+  tileSize: number
+): { tileWidth: number; tileHeight: number; margin: number } {
+  if (!Number.isFinite(margin)) {
+    const tileWidth = alignUp(width)
+    const tileHeight = alignUp(height)
+    if (tileWidth > maxSize || tileHeight > maxSize) {
+      throw new Error(
+        `[TiledExporter] ASCII or dot matrix with perspective or rotation reads across the whole image, ` +
+        `so it can't be tiled beyond ${maxSize}px`
+      )
+    }
+    return { tileWidth, tileHeight, margin: 0 }
+  }
+
+  const alignedMargin = alignUp(margin)
+  const maxCore = alignDown(maxSize - 2 * alignedMargin)
+  if (maxCore < TILE_GRID) {
+    throw new Error(
+      `[TiledExporter] Post effects need a ${alignedMargin}px overlap, more than fits in a ${maxSize}px tile`
+    )
+  }
+  const core = Math.min(Math.max(alignUp(tileSize), TILE_GRID), maxCore)
+  return {
+    tileWidth: Math.min(core, alignUp(width)),
+    tileHeight: Math.min(core, alignUp(height)),
+    margin: alignedMargin,
+  }
+}
+
+/**
+ * Render `preset` at `width` × `height` tile by tile, handing each finished
+ * band of rows to `onBand` in top-to-bottom order.
+ * Yields to the event loop between tiles so progress UI and cancellation stay live.
+ */
+export async function renderTiled(
+  preset: PresetInput,
+  options: TiledExportOptions,
+  onBand: (band: TiledBand) => void | Promise<void>
+): Promise<void> {
+  const { width, height } = options
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`[TiledExporter] Invalid size ${width}×${height}`)
+  }
+  throwIfAborted(options.signal)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = 1
+  canvas.height = 1
+
+  let engine: GradientEngine
+  try {
+    engine = new GradientEngine(canvas, { forExport: true })
+  } catch (initError) {
+    console.error('[TiledExporter] Failed to create GradientEngine:', initError)
+    throw new Error('Failed to initialize WebGL renderer')
+  }
+
+  try {
+    applyFullStateToEngine(engine, preset)
+    if (options.layers) engine.setLayers(options.layers)
+
+    const { tileWidth, tileHeight, margin } = planTiles(
+      width,
+      height,
+      engine.getTileMargin(),
+      getMaxRenderSize(engine.getRenderer()),
+      options.tileSize ?? DEFAULT_TILE_SIZE
+    )
+    const renderWidth = tileWidth + 2 * margin
+    const renderHeight = tileHeight + 2 * margin
+    engine.handleResize(renderWidth, renderHeight)
+
+    const columns = Math.ceil(width / tileWidth)
+    const rows = Math.ceil(height / tileHeight)
+    const totalTiles = columns * rows
+    const time = options.time ?? 0
+    let tilesDone = 0
+
+    // Tile row 0 is at the bottom (GL coordinates); output starts at the top
+    for (let row = rows - 1; row >= 0; row--) {
+      const bottom = row * tileHeight
+      const top = Math.min(bottom + tileHeight, height)
+      const bandHeight = top - bottom
+      const band = new Uint8ClampedArray(width * bandHeight * 4)
+
+      for (let column = 0; column < columns; column++) {
+        throwIfAborted(options.signal)
+
+        const left = column * tileWidth
+        const coreWidth = Math.min(tileWidth, width - left)
+        engine.setRenderRegion({ fullWidth: width, fullHeight: height, x: left - margin, y: bottom - margin })
+        engine.renderAtTimeSync(time)
+        const tile = readEnginePixels(engine, renderWidth, renderHeight)
+
+        // Top-down tile row holding band row 0, which is GL row top - 1
+        const tileRowOffset = renderHeight - 1 - margin - (top - 1 - bottom)
+        for (let i = 0; i < bandHeight; i++) {
+          const src = ((tileRowOffset + i) * renderWidth + margin) * 4
+          band.set(tile.subarray(src, src + coreWidth * 4), (i * width + left) * 4)
+        }
+
+        tilesDone++
+        options.onProgress?.({ tile: tilesDone, totalTiles, fraction: tilesDone / totalTiles })
+        await delay(0)
+      }
+
+      await onBand({ y: height - top, height: bandHeight, pixels: band })
+    }
+  } finally {
+    // Force context loss to release GPU memory, as createRenderCallback does
+    engine.dispose(true)
+  }
+}
+
+/**
+ * Render a tiled still and encode it as PNG, transparency included
+ */
+export async function exportTiledImage(preset: PresetInput, options: TiledExportOptions): Promise<Blob> {
+  const encoder = new PngStreamEncoder(options.width, options.height)
+  try {
+    await renderTiled(preset, options, (band) => encoder.addRows(band.pixels))
+  } catch (error) {
+    encoder.abort()
+    throw error
+  }
+  return encoder.finish()
+}
+
+/**
+ * Render, encode and trigger a download
+ */
+export async function exportAndDownloadTiledImage(
+  preset: PresetInput,
+  options: TiledExportOptions & { filename: string }
+): Promise<void> {
+  const { filename, ...exportOptions } = options
+  const blob = await exportTiledImage(preset, exportOptions)
+
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${filename}.png`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
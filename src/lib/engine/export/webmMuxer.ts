@@ -0,0 +1,175 @@
+/**
+ * WebM Muxer — wraps encoded VP8/VP9 chunks in a minimal Matroska container.
+ *
+ * Writes EBML header, Info, one video track and Clusters of SimpleBlocks.
+ * The whole file is assembled in memory, so every element size is exact.
+ * No Cues: players seek by scanning clusters, which is fine for short loops.
+ */
+
+export interface EncodedVideoChunkData {
+  data: Uint8Array<ArrayBuffer>
+  /** Presentation time in microseconds */
+  timestamp: number
+  keyFrame: boolean
+}
+
+export interface WebMTrackInfo {
+  width: number
+  height: number
+  /** Matroska codec ID */
+  codecId: 'V_VP8' | 'V_VP9'
+  /** Total duration in milliseconds */
+  duration: number
+}
+
+// Element IDs (marker bits included)
+const EBML = 0x1a45dfa3
+const EBML_VERSION = 0x4286
+const EBML_READ_VERSION = 0x42f7
+const EBML_MAX_ID_LENGTH = 0x42f2
+const EBML_MAX_SIZE_LENGTH = 0x42f3
+const DOC_TYPE = 0x4282
+const DOC_TYPE_VERSION = 0x4287
+const DOC_TYPE_READ_VERSION = 0x4285
+const SEGMENT = 0x18538067
+const INFO = 0x1549a966
+const TIMECODE_SCALE = 0x2ad7b1
+const DURATION = 0x4489
+const MUXING_APP = 0x4d80
+const WRITING_APP = 0x5741
+const TRACKS = 0x1654ae6b
+const TRACK_ENTRY = 0xae
+const TRACK_NUMBER = 0xd7
+const TRACK_UID = 0x73c5
+const TRACK_TYPE = 0x83
+const CODEC_ID = 0x86
+const VIDEO = 0xe0
+const PIXEL_WIDTH = 0xb0
+const PIXEL_HEIGHT = 0xba
+const CLUSTER = 0x1f43b675
+const TIMECODE = 0xe7
+const SIMPLE_BLOCK = 0xa3
+
+/** Block timecodes are int16 offsets from the cluster's timecode */
+const MAX_CLUSTER_SPAN_MS = 32000
+
+type Bytes = Uint8Array<ArrayBuffer>
+
+function concat(parts: Bytes[]): Bytes {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+function bigEndian(value: number, length: number): number[] {
+  const bytes: number[] = []
+  for (let i = length - 1; i >= 0; i--) {
+    bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xff)
+  }
+  return bytes
+}
+
+function idBytes(id: number): number[] {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1
+  return bigEndian(id, length)
+}
+
+/** EBML variable-length size: the first byte's leading 1 bit marks the length */
+function sizeBytes(size: number): number[] {
+  let length = 1
+  while (size >= 2 ** (7 * length) - 1) length++
+  const bytes = bigEndian(size, length)
+  bytes[0] |= 0x80 >> (length - 1)
+  return bytes
+}
+
+function element(id: number, ...children: Bytes[]): Bytes {
+  const payload = concat(children)
+  return concat([new Uint8Array([...idBytes(id), ...sizeBytes(payload.length)]), payload])
+}
+
+function uintElement(id: number, value: number): Bytes {
+  let length = 1
+  while (value >= 2 ** (8 * length)) length++
+  return element(id, new Uint8Array(bigEndian(value, length)))
+}
+
+function floatElement(id: number, value: number): Bytes {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setFloat64(0, value)
+  return element(id, bytes)
+}
+
+function stringElement(id: number, value: string): Bytes {
+  return element(id, new TextEncoder().encode(value))
+}
+
+function simpleBlock(chunk: EncodedVideoChunkData, relativeMs: number): Bytes {
+  const header = new Uint8Array(4)
+  header[0] = 0x81                       // Track number 1 as a vint
+  new DataView(header.buffer).setInt16(1, relativeMs)
+  header[3] = chunk.keyFrame ? 0x80 : 0  // Keyframe flag
+  return element(SIMPLE_BLOCK, header, chunk.data)
+}
+
+/**
+ * Mux encoded chunks (in decode order) into a WebM file
+ */
+export function muxWebM(chunks: EncodedVideoChunkData[], track: WebMTrackInfo): Blob {
+  const header = element(EBML,
+    uintElement(EBML_VERSION, 1),
+    uintElement(EBML_READ_VERSION, 1),
+    uintElement(EBML_MAX_ID_LENGTH, 4),
+    uintElement(EBML_MAX_SIZE_LENGTH, 8),
+    stringElement(DOC_TYPE, 'webm'),
+    uintElement(DOC_TYPE_VERSION, 2),
+    uintElement(DOC_TYPE_READ_VERSION, 2),
+  )
+
+  const info = element(INFO,
+    uintElement(TIMECODE_SCALE, 1_000_000), // Timecodes in milliseconds
+    floatElement(DURATION, track.duration),
+    stringElement(MUXING_APP, 'GradientEngine'),
+    stringElement(WRITING_APP, 'GradientEngine'),
+  )
+
+  const tracks = element(TRACKS,
+    element(TRACK_ENTRY,
+      uintElement(TRACK_NUMBER, 1),
+      uintElement(TRACK_UID, 1),
+      uintElement(TRACK_TYPE, 1), // Video
+      stringElement(CODEC_ID, track.codecId),
+      element(VIDEO,
+        uintElement(PIXEL_WIDTH, track.width),
+        uintElement(PIXEL_HEIGHT, track.height),
+      ),
+    ),
+  )
+
+  // Start a new cluster at each keyframe, or when offsets would overflow int16
+  const clusters: Bytes[] = []
+  let clusterStart = 0
+  let blocks: Bytes[] = []
+  const flushCluster = () => {
+    if (blocks.length === 0) return
+    clusters.push(element(CLUSTER, uintElement(TIMECODE, clusterStart), ...blocks))
+    blocks = []
+  }
+
+  for (const chunk of chunks) {
+    const ms = Math.round(chunk.timestamp / 1000)
+    if (blocks.length === 0 || chunk.keyFrame || ms - clusterStart > MAX_CLUSTER_SPAN_MS) {
+      flushCluster()
+      clusterStart = ms
+    }
+    blocks.push(simpleBlock(chunk, ms - clusterStart))
+  }
+  flushCluster()
+
+  const segment = element(SEGMENT, info, tracks, ...clusters)
+  return new Blob([header, segment], { type: 'video/webm' })
+}
@@ -0,0 +1,111 @@
+/**
+ * Gradient LUT — color stops baked into a 1D lookup texture.
+ *
+ * The stop ramp (positions, per-stop alpha, midpoints, easing, hard stops and
+ * the blend's interpolation space) is evaluated once on the CPU whenever the
+ * stops or blend options change. Gradient shaders then map their 0-1
+ * position onto the texture with a single fetch instead of searching the
+ * stops per fragment, so there's no limit on the number of stops.
+ *
+ * Steps (posterize) and the animated offset/scale/cycle transforms stay in
+ * the shader — they move the lookup position, not the ramp.
+ */
+
+import { hexToRgb, interpolateColor, mixHsv } from './colorSpace'
+import { applyEasing } from '@/lib/animation/timeline'
+import { GRADIENT_LUT_SIZE } from '@/lib/shaders'
+import type { BlendOptions, ColorStop } from '@/types/gradient'
+
+/** 0-1 sRGB color with straight (not premultiplied) alpha */
+export type Rgba = [number, number, number, number]
+
+interface ResolvedStop {
+  rgb: [number, number, number]
+  alpha: number
+  position: number
+  midpoint: number
+  easing: ColorStop['easing']
+}
+
+function resolveStops(stops: ColorStop[]): ResolvedStop[] {
+  return [...stops]
+    .sort((a, b) => a.position - b.position)
+    .map((stop) => ({
+      rgb: hexToRgb(stop.color),
+      alpha: stop.alpha ?? 1,
+      position: stop.position / 100,
+      midpoint: (stop.midpoint ?? 50) / 100,
+      easing: stop.easing,
+    }))
+}
+
+/**
+ * Bend a segment so it reaches halfway at `midpoint` (0-1), like a CSS
+ * color hint
+ */
+function applyMidpoint(t: number, midpoint: number): number {
+  if (Math.abs(midpoint - 0.5) < 0.001 || t <= 0 || t >= 1) return t
+  return Math.pow(t, Math.log(0.5) / Math.log(midpoint))
+}
+
+function mixStops(from: ResolvedStop, to: ResolvedStop, t: number, options: BlendOptions): Rgba {
+  // HSV hue paths predate interpolation spaces and only apply to the default one
+  const space = options.interpolationSpace ?? 'linear-rgb'
+  const rgb = space === 'linear-rgb' && options.huePath !== 'linear'
+    ? mixHsv(from.rgb, to.rgb, t, options.huePath === 'long')
+    : interpolateColor(from.rgb, to.rgb, t, space, options.huePath)
+  return [rgb[0], rgb[1], rgb[2], from.alpha + (to.alpha - from.alpha) * t]
+}
+
+function sampleResolved(stops: ResolvedStop[], t: number, options: BlendOptions): Rgba {
+  const first = stops[0]
+  const last = stops[stops.length - 1]
+  if (t <= first.position) return [...first.rgb, first.alpha]
+  if (t >= last.position) return [...last.rgb, last.alpha]
+
+  let i = 0
+  while (i < stops.length - 2 && t > stops[i + 1].position) i++
+  const from = stops[i]
+  const to = stops[i + 1]
+
+  const range = Math.max(to.position - from.position, 0.0001)
+  let localT = applyMidpoint((t - from.position) / range, from.midpoint)
+  localT = options.hardStops
+    ? (localT >= 0.5 ? 1 : 0)
+    : applyEasing(localT, from.easing ?? options.easing)
+  return mixStops(from, to, localT, options)
+}
+
+/**
+ * Color and alpha of the stop ramp at `t` (0-1), before the shader's
+ * offset/scale/steps transforms
+ */
+export function sampleGradient(stops: ColorStop[], options: BlendOptions, t: number): Rgba {
+  if (stops.length === 0) return [0, 0, 0, 1]
+  return sampleResolved(resolveStops(stops), t, options)
+}
+
+/**
+ * Bake the ramp into RGBA8 texels. Texel i holds t = i / (size - 1), so the
+ * first and last texel centers land exactly on the ends.
+ */
+export function bakeGradientLut(
+  stops: ColorStop[],
+  options: BlendOptions,
+  size: number = GRADIENT_LUT_SIZE,
+  target: Uint8Array = new Uint8Array(size * 4)
+): Uint8Array {
+  const resolved = resolveStops(stops)
+  const toByte = (c: number) => Math.round(Math.min(Math.max(c, 0), 1) * 255)
+
+  for (let i = 0; i < size; i++) {
+    const rgba = resolved.length > 0
+      ? sampleResolved(resolved, i / (size - 1), options)
+      : [0, 0, 0, 1]
+    target[i * 4] = toByte(rgba[0])
+    target[i * 4 + 1] = toByte(rgba[1])
+    target[i * 4 + 2] = toByte(rgba[2])
+    target[i * 4 + 3] = toByte(rgba[3])
+  }
+  return target
+}
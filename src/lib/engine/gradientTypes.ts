@@ -0,0 +1,183 @@
+/**
+ * Gradient Types
+ *
+ * Registry of gradient types beyond the eleven built into ShaderManager. A
+ * plugin brings a name, the GLSL that colors a UV, a settings schema and a
+ * uniform mapper. Once registered, presets use the name as `gradientType`
+ * with their settings under `typeSettings[name]`, and the engine, layers,
+ * preset morphs, preset validation and the standalone renderer treat it
+ * like a built-in type.
+ *
+ * The body is spliced into the shader the built-ins share (see
+ * shaders/types/custom.frag), after the color, gradient, SDF, material,
+ * geometry, warp, effects and lava lamp includes. It declares its own
+ * uniforms and defines `vec3 sampleGradientAt(vec2 uv)` — usually a
+ * position run through getGradientColor(t) — and geometry, warps, chromatic
+ * aberration, materials and effects are applied around it.
+ *
+ * A body that animates with `u_time` must say so through `timeDependent`:
+ * render on demand only redraws frames whose output changes over time, so
+ * without it the type freezes until something else changes.
+ *
+ * Registered types render on the main thread only (GradientPlane skips the
+ * worker for them), and the CPU fallback draws them as linear.
+ *
+ * Usage:
+ * ```ts
+ * declare module '@/types/gradient' {
+ *   interface CustomGradientTypeSettings { checker: { cells: number } }
+ * }
+ *
+ * registerGradientType({
+ *   name: 'checker',
+ *   fragmentBody: `
+ *     uniform float u_checkerCells;
+ *     vec3 sampleGradientAt(vec2 uv) {
+ *       vec2 cell = floor(uv * u_checkerCells);
+ *       return getGradientColor(mod(cell.x + cell.y, 2.0));
+ *     }`,
+ *   settings: { cells: { default: 8, min: 1, max: 64 } },
+ *   mapUniforms: (settings) => ({ u_checkerCells: settings.cells }),
+ * })
+ * ```
+ */
+
+import type * as THREE from 'three'
+import type { BuiltinGradientType, CustomSettingValue, GradientState, GradientType } from '@/types/gradient'
+import { createCustomGradientShader } from '@/lib/shaders'
+
+/** The types ShaderManager ships with */
+export const GRADIENT_TYPES: readonly BuiltinGradientType[] = [
+  'linear', 'radial', 'conic', 'diamond', 'spiral', 'aurora', 'stripes', 'folded', 'reverb', 'mesh', 'noise',
+]
+
+/** A registered type's settings, as stored under `typeSettings[name]` */
+export type CustomSettings = Record<string, CustomSettingValue>
+
+export interface NumberSettingSchema {
+  default: number
+  /** Inclusive; validatePreset() reports and normalizePreset() clamps values outside */
+  min?: number
+  max?: number
+}
+
+export interface BooleanSettingSchema {
+  default: boolean
+}
+
+/** A default starting with '#' makes the setting a hex color */
+export interface StringSettingSchema<T extends string = string> {
+  default: T
+  /** Allowed values; anything else falls back to the default */
+  options?: readonly T[]
+}
+
+export type AnySettingSchema = NumberSettingSchema | BooleanSettingSchema | StringSettingSchema
+
+export type SettingSchema<V> = [V] extends [number]
+  ? NumberSettingSchema
+  : [V] extends [boolean]
+    ? BooleanSettingSchema
+    : [V] extends [string]
+      ? StringSettingSchema<V>
+      : AnySettingSchema
+
+/** One schema entry per setting, its kind following the setting's type */
+export type GradientTypeSettingsSchema<S> = { [K in keyof S]-?: SettingSchema<S[K]> }
+
+/** What a uniform mapper may hand a ShaderMaterial */
+export type CustomUniformValue =
+  | number
+  | boolean
+  | THREE.Vector2
+  | THREE.Vector3
+  | THREE.Vector4
+  | THREE.Color
+  | number[]
+
+export interface GradientTypePlugin<S extends object = CustomSettings> {
+  /** The preset's `gradientType`; must not be a built-in type */
+  name: string
+  /** GLSL declaring the type's uniforms and `vec3 sampleGradientAt(vec2 uv)` */
+  fragmentBody: string
+  settings: GradientTypeSettingsSchema<S>
+  /**
+   * The body's uniform values for complete settings. Prefix uniform names
+   * with the type's name — they share one namespace with every other uniform.
+   */
+  mapUniforms: (settings: S) => Record<string, CustomUniformValue>
+  /**
+   * Whether the body animates with `u_time` — always, or for the given
+   * complete settings (e.g. a nonzero speed). Default: false
+   */
+  timeDependent?: boolean | ((settings: S) => boolean)
+}
+
+interface RegisteredType {
+  plugin: GradientTypePlugin
+  fragmentShader: string
+}
+
+const registry = new Map<string, RegisteredType>()
+
+/**
+ * Add a gradient type. Registering a name again replaces the earlier plugin,
+ * so hot reloads pick up edits; materials already built keep the old shader.
+ */
+export function registerGradientType<S extends object>(plugin: GradientTypePlugin<S>): void {
+  if (!/^[A-Za-z][\w-]*$/.test(plugin.name)) {
+    throw new Error(`[GradientTypes] Invalid gradient type name "${plugin.name}"`)
+  }
+  if (isBuiltinGradientType(plugin.name)) {
+    throw new Error(`[GradientTypes] "${plugin.name}" is a built-in gradient type`)
+  }
+  // Stored settings are complete (defaults filled in), so they are an S
+  const { mapUniforms, timeDependent } = plugin
+  registry.set(plugin.name, {
+    plugin: {
+      ...plugin,
+      mapUniforms: (settings) => mapUniforms(settings as S),
+      timeDependent: typeof timeDependent === 'function'
+        ? (settings) => timeDependent(settings as S)
+        : timeDependent,
+    },
+    fragmentShader: createCustomGradientShader(plugin.fragmentBody),
+  })
+}
+
+export function getGradientTypePlugin(type: string): GradientTypePlugin | undefined {
+  return registry.get(type)?.plugin
+}
+
+/** Complete fragment shader of a registered type */
+export function getGradientTypeShader(type: string): string | undefined {
+  return registry.get(type)?.fragmentShader
+}
+
+export function isBuiltinGradientType(type: string): type is BuiltinGradientType {
+  return (GRADIENT_TYPES as readonly string[]).includes(type)
+}
+
+/** Built-in or registered */
+export function isGradientType(type: string): type is GradientType {
+  return isBuiltinGradientType(type) || registry.has(type)
+}
+
+/** Built-in types, then registered ones in registration order */
+export function getGradientTypes(): GradientType[] {
+  return [...GRADIENT_TYPES, ...registry.keys()] as GradientType[]
+}
+
+/** `state`'s settings for a registered type — undefined for built-in types */
+export function getTypeSettings(state: GradientState, type: GradientType): CustomSettings | undefined {
+  return (state.typeSettings as Record<string, CustomSettings | undefined>)[type]
+}
+
+/** A registered type's settings with every field at its default */
+export function getDefaultTypeSettings(plugin: GradientTypePlugin): CustomSettings {
+  const settings: CustomSettings = {}
+  for (const [key, schema] of Object.entries(plugin.settings)) {
+    settings[key] = schema.default
+  }
+  return settings
+}
@@ -3,6 +3,73 @@
  */
 
 export { GradientEngine } from './GradientEngine'
+export { PostPipeline, createPassTarget } from './PostPipeline'
+export type { PostPass, RenderRegion } from './PostPipeline'
+export {
+  ShaderPass, BlurChain, BlurPass, BloomPass, AsciiPass, DotMatrixPass, TypeCrossfadePass, OutputPass, MaskPass,
+  LayerStackPass,
+} from './passes'
+export { GradientLayer, DEFAULT_LAYER_TRANSFORM } from './GradientLayer'
+export type { LayerSettings, LayerTransform } from './GradientLayer'
+export { acquireSharedRenderer, releaseSharedRenderer, getSharedRendererUsers } from './SharedRenderer'
 export { ShaderManager, hexToVec3, degreesToRadians } from './ShaderManager'
 export type { GradientUniforms, GradientType } from './ShaderManager'
-export { applyFullStateToEngine } from './standaloneRenderer'
+export { applyFullStateToEngine, applyPresetMorph, readEnginePixels, EXPORT_SIZES } from './standaloneRenderer'
+export { interpolatePresets } from './presetInterpolation'
+export {
+  hexToRgb, rgbToHex, rgbToOklab, oklabToRgb, mixOklab, mixHsv, interpolateColor, rgbToHsl, hslToRgb,
+} from './colorSpace'
+export type { Oklab } from './colorSpace'
+export { sampleGradient, bakeGradientLut } from './gradientLut'
+export type { Rgba } from './gradientLut'
+export { renderGradientToPixels } from './cpuRenderer'
+export type { CpuRenderOptions } from './cpuRenderer'
+export { createMeshPoints, resolveMeshGrid, MESH_MAX_SIZE } from './meshGradient'
+export type { MeshGrid } from './meshGradient'
+export { resolveNoise, noiseSeedOffset, NOISE_MAX_OCTAVES } from './noiseField'
+export type { ResolvedNoise } from './noiseField'
+export { TextMask, rasterizeTextMask, rasterizePathMask } from './masks'
+export type { MaskSource, MaskGlowSettings, TextMaskOptions, PathMaskOptions } from './masks'
+export { posterKey, posterUrl, POSTER_DIR, POSTER_WIDTH, POSTER_HEIGHT } from './posters'
+export type { ExportSize } from './standaloneRenderer'
+export {
+  renderFrameSequence,
+  exportGradientAnimation,
+  exportAndDownloadGradientAnimation,
+  renderTiled,
+  exportTiledImage,
+  exportAndDownloadTiledImage,
+  PRINT_SIZES,
+} from './export'
+export type { AnimationExportFormat, AnimationExportOptions, AnimationExportProgress, RenderedFrame } from './export'
+export type { TiledBand, TiledExportOptions, TiledExportProgress, PrintSize } from './export'
+export {
+  DEFAULT_GRADIENT_STATE,
+  validatePreset,
+  normalizePreset,
+} from './presetSchema'
+export type { PresetIssue, PresetIssueKind, PresetValidationResult } from './presetSchema'
+export {
+  GRADIENT_TYPES,
+  registerGradientType,
+  getGradientTypePlugin,
+  getGradientTypes,
+  isGradientType,
+  isBuiltinGradientType,
+} from './gradientTypes'
+export type {
+  GradientTypePlugin,
+  GradientTypeSettingsSchema,
+  SettingSchema,
+  NumberSettingSchema,
+  BooleanSettingSchema,
+  StringSettingSchema,
+  CustomSettings,
+  CustomUniformValue,
+} from './gradientTypes'
+export type { AnimationOverrides, AnimationOverrideValue } from './overridePaths'
+export { QualityGovernor, QUALITY_TIERS, QUALITY_TIER_SETTINGS } from './QualityGovernor'
+export type { QualityGovernorOptions, QualitySettings, QualityTier } from './QualityGovernor'
+export { WorkerPlane, supportsWorkerRendering, canTransferCanvas } from './worker/WorkerPlane'
+export type { PlaneFrameSample, PlaneId, WorkerRequest, WorkerResponse } from './worker/protocol'
+export { CURRENT_PRESET_VERSION, detectPresetVersion, migratePreset } from './presetMigrations'
@@ -0,0 +1,353 @@
+/**
+ * Masks — canvases for GradientEngine.setMask()
+ *
+ * The engine keeps the gradient only where a mask's alpha covers it. These
+ * rasterize the two shapes the site needs: display type laid out by the
+ * DOM, and SVG path data. Both return a canvas sized to the masked plane
+ * (in device pixels), drawn white on transparent.
+ *
+ * Text is drawn with the FONT_STYLES metrics the DOM uses, at the positions
+ * the DOM laid the lines (and the line boxes of wrapped ones) out at and
+ * through each line's own transform and opacity, so the mask sits exactly
+ * over the real (transparent, still selectable and accessible) text. A
+ * TextMask follows lines as they move: it reuses one canvas, waits for each
+ * face once, and skips the redraw when nothing visible changed.
+ */
+
+import { FONT_STYLES } from '@/lib/data/typography'
+import type { DisplayFont } from '@/lib/data/sections'
+
+/** Anything whose alpha channel can clip the gradient */
+export type MaskSource = HTMLCanvasElement | OffscreenCanvas
+
+export interface MaskGlowSettings {
+  /** Halo strength outside the mask, 0-100 */
+  amount: number
+  /** Halo reach, 0-100; 100 is 5% of the mask's shorter side (sigma) */
+  radius: number
+}
+
+export interface TextMaskOptions {
+  /** One element per line of text, e.g. the TAKEOVER headline's line spans */
+  lines: HTMLElement[]
+  /** Box the mask covers — the masked plane's container */
+  container: HTMLElement
+  /** Display face; its FONT_STYLES entry sets family, tracking and line height */
+  font: DisplayFont
+  /** Default: devicePixelRatio, capped at 2 */
+  pixelRatio?: number
+}
+
+export interface PathMaskOptions {
+  /** SVG path data, as in a `d` attribute */
+  d: string
+  /** The path's coordinate box: [minX, minY, width, height] */
+  viewBox: [number, number, number, number]
+  /** Mask size in CSS pixels, usually the masked plane's */
+  width: number
+  height: number
+  /** Fit the viewBox inside the mask ('contain') or over it ('cover'), centered. Default: 'contain' */
+  fit?: 'contain' | 'cover'
+  /** Default: 'nonzero' */
+  fillRule?: CanvasFillRule
+  /** Default: devicePixelRatio, capped at 2 */
+  pixelRatio?: number
+}
+
+function defaultPixelRatio(): number {
+  return Math.min(window.devicePixelRatio || 1, 2)
+}
+
+/**
+ * Size `canvas` to `width` × `height` CSS px, cleared and scaled so drawing
+ * uses CSS px. Storage is only reallocated when the pixel size changes.
+ */
+function resetMaskCanvas(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  pixelRatio: number
+): void {
+  const pixelWidth = Math.max(1, Math.round(width * pixelRatio))
+  const pixelHeight = Math.max(1, Math.round(height * pixelRatio))
+  if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+    canvas.width = pixelWidth
+    canvas.height = pixelHeight
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.clearRect(0, 0, pixelWidth, pixelHeight)
+  ctx.scale(pixelWidth / Math.max(width, 1), pixelHeight / Math.max(height, 1))
+  ctx.fillStyle = '#fff'
+}
+
+function create2dCanvas(): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('[Masks] 2D canvas unavailable')
+  return { canvas, ctx }
+}
+
+/** Resolve a `var(--name)` font-family against the document root */
+function resolveFontFamily(fontFamily: string): string {
+  const match = /^var\((--[\w-]+)\)$/.exec(fontFamily.trim())
+  if (!match) return fontFamily
+  return getComputedStyle(document.documentElement).getPropertyValue(match[1]).trim() || 'sans-serif'
+}
+
+/** CSS length in px; em is relative to `fontSize` */
+function toPixels(value: string, fontSize: number): number {
+  const number = parseFloat(value)
+  if (!Number.isFinite(number)) return 0
+  return value.trim().endsWith('em') ? number * fontSize : number
+}
+
+/** Face loads by style, weight and family — each face is only waited for once */
+const faceLoads = new Map<string, Promise<unknown>>()
+
+function loadFace(style: string, weight: string, family: string, text: string): Promise<unknown> {
+  const key = `${style} ${weight} ${family}`
+  let load = faceLoads.get(key)
+  if (!load) {
+    load = document.fonts.load(`${style} ${weight} 16px ${family}`, text)
+    faceLoads.set(key, load)
+  }
+  return load
+}
+
+/**
+ * Layout position of `element` relative to `container`, from offsets — the
+ * line's own transform is applied separately, see applyLineTransform()
+ */
+function offsetWithin(element: HTMLElement, container: HTMLElement): { left: number; top: number } {
+  const pageOffset = (node: HTMLElement) => {
+    let left = 0
+    let top = 0
+    for (let n: HTMLElement | null = node; n; n = n.offsetParent as HTMLElement | null) {
+      left += n.offsetLeft
+      top += n.offsetTop
+    }
+    return { left, top }
+  }
+  const el = pageOffset(element)
+  const box = pageOffset(container)
+  return { left: el.left - box.left, top: el.top - box.top }
+}
+
+/** A line box of a DOM line, relative to the line's untransformed box */
+interface LineBox {
+  text: string
+  left: number
+  /** Top of the text's content area */
+  top: number
+}
+
+/**
+ * Split `line` into the line boxes the browser wrapped it into, from
+ * per-character client rects measured with the line's own transform
+ * lifted (synchronously, so it never paints)
+ */
+function measureLineBoxes(line: HTMLElement): LineBox[] {
+  const inlineTransform = line.style.transform
+  line.style.transform = 'none'
+  try {
+    const origin = line.getBoundingClientRect()
+    const range = document.createRange()
+    const walker = document.createTreeWalker(line, NodeFilter.SHOW_TEXT)
+    const boxes: LineBox[] = []
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const content = node.textContent ?? ''
+      for (let i = 0; i < content.length; i++) {
+        range.setStart(node, i)
+        range.setEnd(node, i + 1)
+        // Collapsed whitespace has no box
+        const rect = range.getClientRects()[0]
+        if (!rect) continue
+        const top = rect.top - origin.top
+        const last = boxes[boxes.length - 1]
+        if (last && Math.abs(top - last.top) < rect.height / 2) {
+          last.text += content[i]
+        } else {
+          boxes.push({ text: content[i], left: rect.left - origin.left, top })
+        }
+      }
+    }
+    return boxes
+  } finally {
+    line.style.transform = inlineTransform
+  }
+}
+
+/**
+ * Apply a line's CSS `transform` (e.g. the Takeover entrance and release
+ * tweens) about its `transformOrigin`, for a line laid out at `left, top`
+ */
+function applyLineTransform(
+  ctx: CanvasRenderingContext2D,
+  transform: string,
+  transformOrigin: string,
+  left: number,
+  top: number
+): void {
+  if (!transform || transform === 'none') return
+  const matrix = new DOMMatrix(transform)
+  const [originX, originY] = transformOrigin.split(' ').map((value) => parseFloat(value) || 0)
+  ctx.translate(left + originX, top + originY)
+  ctx.transform(matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f)
+  ctx.translate(-(left + originX), -(top + originY))
+}
+
+/** Where a line sits and how it wrapped, valid while `key` is unchanged */
+interface LineLayout {
+  key: string
+  left: number
+  top: number
+  boxes: LineBox[]
+}
+
+/** What a line looks like this frame */
+interface LineState {
+  layout: LineLayout
+  font: string
+  fontSize: number
+  uppercase: boolean
+  transform: string
+  transformOrigin: string
+  opacity: number
+}
+
+/**
+ * A mask of DOM lines of display type over `container`, kept on one canvas
+ * and redrawn only when it would change — for lines that tween. Wrapped
+ * lines are drawn line box by line box, where the browser broke them.
+ */
+export class TextMask {
+  readonly canvas: HTMLCanvasElement
+  private ctx: CanvasRenderingContext2D
+  private options: TextMaskOptions
+  private layouts = new WeakMap<HTMLElement, LineLayout>()
+  private drawnSignature: string | null = null
+
+  constructor(options: TextMaskOptions) {
+    const { canvas, ctx } = create2dCanvas()
+    this.canvas = canvas
+    this.ctx = ctx
+    this.options = options
+  }
+
+  get container(): HTMLElement {
+    return this.options.container
+  }
+
+  /**
+   * Redraw if the container's size or a line's text, layout, transform or
+   * opacity changed since the last draw. Resolves true when it redrew.
+   */
+  async update(): Promise<boolean> {
+    const { lines, container, font } = this.options
+    const style = FONT_STYLES[font]
+    const family = resolveFontFamily(style.fontFamily)
+    const width = container.clientWidth
+    const height = container.clientHeight
+    const pixelRatio = this.options.pixelRatio ?? defaultPixelRatio()
+
+    const faces: Promise<unknown>[] = []
+    const states: LineState[] = []
+    for (const line of lines) {
+      const computed = getComputedStyle(line)
+      const fontSize = parseFloat(computed.fontSize)
+      const opacity = parseFloat(computed.opacity)
+      const text = line.textContent ?? ''
+      if (!text.trim() || !fontSize || opacity <= 0) continue
+
+      faces.push(loadFace(computed.fontStyle, computed.fontWeight, family, text))
+      states.push({
+        layout: this.layoutOf(line, container, `${text}|${computed.fontWeight}|${fontSize}|${computed.letterSpacing}`),
+        font: `${computed.fontStyle} ${computed.fontWeight} ${fontSize}px ${family}`,
+        fontSize,
+        uppercase: computed.textTransform === 'uppercase',
+        transform: computed.transform,
+        transformOrigin: computed.transformOrigin,
+        opacity: Number.isFinite(opacity) ? opacity : 1,
+      })
+    }
+
+    const signature = [
+      width, height, pixelRatio,
+      ...states.map((state) => `${state.layout.key}|${state.transform}|${state.transformOrigin}|${state.opacity}`),
+    ].join('\n')
+    if (signature === this.drawnSignature) return false
+
+    // The mask must never fall back to a system font
+    await Promise.all(faces)
+
+    const ctx = this.ctx
+    resetMaskCanvas(this.canvas, ctx, width, height, pixelRatio)
+    for (const state of states) {
+      const { layout } = state
+      ctx.save()
+      ctx.font = state.font
+      ctx.letterSpacing = `${toPixels(style.letterSpacing, state.fontSize)}px`
+      ctx.textAlign = 'left'
+      ctx.textBaseline = 'alphabetic'
+      ctx.globalAlpha = state.opacity
+      applyLineTransform(ctx, state.transform, state.transformOrigin, layout.left, layout.top)
+
+      // A character's client rect is the font's content area, ascent above the baseline
+      const ascent = ctx.measureText('H').fontBoundingBoxAscent
+      for (const box of layout.boxes) {
+        const text = state.uppercase ? box.text.toUpperCase() : box.text
+        ctx.fillText(text.trimEnd(), layout.left + box.left, layout.top + box.top + ascent)
+      }
+      ctx.restore()
+    }
+
+    this.drawnSignature = signature
+    return true
+  }
+
+  /** The line's layout, re-measured only when its text, font, width or position changed */
+  private layoutOf(line: HTMLElement, container: HTMLElement, content: string): LineLayout {
+    const { left, top } = offsetWithin(line, container)
+    const key = `${content}|${line.offsetWidth}|${left}|${top}`
+    const cached = this.layouts.get(line)
+    if (cached?.key === key) return cached
+
+    const layout = { key, left, top, boxes: measureLineBoxes(line) }
+    this.layouts.set(line, layout)
+    return layout
+  }
+}
+
+/**
+ * Rasterize DOM lines of display type into a mask over `container`, once —
+ * use a TextMask for lines that move
+ */
+export async function rasterizeTextMask(options: TextMaskOptions): Promise<HTMLCanvasElement> {
+  const mask = new TextMask(options)
+  await mask.update()
+  return mask.canvas
+}
+
+/**
+ * Rasterize SVG path data into a `width` × `height` mask, fitted like
+ * preserveAspectRatio xMidYMid meet ('contain') or slice ('cover')
+ */
+export function rasterizePathMask(options: PathMaskOptions): HTMLCanvasElement {
+  const { d, viewBox, width, height } = options
+  const [minX, minY, boxWidth, boxHeight] = viewBox
+  if (boxWidth <= 0 || boxHeight <= 0) {
+    throw new Error(`[Masks] Invalid viewBox ${viewBox.join(' ')}`)
+  }
+
+  const { canvas, ctx } = create2dCanvas()
+  resetMaskCanvas(canvas, ctx, width, height, options.pixelRatio ?? defaultPixelRatio())
+  const fitScale = options.fit === 'cover' ? Math.max : Math.min
+  const scale = fitScale(width / boxWidth, height / boxHeight)
+  ctx.translate((width - boxWidth * scale) / 2, (height - boxHeight * scale) / 2)
+  ctx.scale(scale, scale)
+  ctx.translate(-minX, -minY)
+  ctx.fill(new Path2D(d), options.fillRule ?? 'nonzero')
+
+  return canvas
+}
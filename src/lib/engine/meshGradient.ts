@@ -0,0 +1,99 @@
+/**
+ * Mesh Gradient
+ *
+ * Resolves MeshSettings into what the mesh shader (shaders/types/mesh.frag)
+ * reads — for ShaderManager and the CPU renderer alike: every grid point in
+ * UV space (y up), its tangents along the row and down the column, and its
+ * straight RGBA color.
+ *
+ * Tangents span one patch, so a Bézier handle h becomes 3h. Points without
+ * handles get Catmull-Rom tangents from their neighbours, which makes a
+ * regular grid of smooth points cover the canvas evenly.
+ */
+
+import { hexToAlpha, hexToRgb } from './colorSpace'
+import { MESH_MAX_SIZE } from '@/lib/shaders'
+import type { MeshPoint, MeshSettings } from '@/types/gradient'
+
+export { MESH_MAX_SIZE }
+
+type Vec2 = [number, number]
+
+export interface MeshGrid {
+  columns: number
+  rows: number
+  /** Row by row from the top, columns × rows of each */
+  positions: Vec2[]
+  tangentsS: Vec2[]
+  tangentsT: Vec2[]
+  colors: [number, number, number, number][]
+}
+
+const clampSize = (size: number) => Math.min(Math.max(Math.round(size) || 2, 2), MESH_MAX_SIZE)
+
+const finite = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0)
+
+/**
+ * A regular `columns` × `rows` grid of smooth points, colored row by row
+ * from `colors` (repeating when there are fewer)
+ */
+export function createMeshPoints(columns: number, rows: number, colors: string[]): MeshPoint[] {
+  const points: MeshPoint[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      points.push({
+        x: (column / (columns - 1)) * 100,
+        y: (row / (rows - 1)) * 100,
+        color: colors[points.length % colors.length],
+        handles: null,
+      })
+    }
+  }
+  return points
+}
+
+/**
+ * Grid the shader draws. Points missing from a short list sit on the
+ * regular grid with the last given point's color.
+ */
+export function resolveMeshGrid(settings: MeshSettings): MeshGrid {
+  const columns = clampSize(settings.columns)
+  const rows = clampSize(settings.rows)
+  const count = columns * rows
+  const last = settings.points[settings.points.length - 1]
+
+  const points = Array.from({ length: count }, (_, i): MeshPoint => settings.points[i] ?? {
+    x: ((i % columns) / (columns - 1)) * 100,
+    y: (Math.floor(i / columns) / (rows - 1)) * 100,
+    color: last?.color ?? '#000000',
+    handles: null,
+  })
+
+  const positions = points.map((p): Vec2 => [finite(p.x) / 100, 1 - finite(p.y) / 100])
+
+  // Catmull-Rom along one grid direction; one-sided at the edges
+  const autoTangent = (index: number, along: number, size: number, stride: number): Vec2 => {
+    const next = positions[along < size - 1 ? index + stride : index]
+    const prev = positions[along > 0 ? index - stride : index]
+    const span = along > 0 && along < size - 1 ? 0.5 : 1
+    return [(next[0] - prev[0]) * span, (next[1] - prev[1]) * span]
+  }
+
+  const tangentsS: Vec2[] = []
+  const tangentsT: Vec2[] = []
+  points.forEach((point, i) => {
+    const handles = point.handles
+    if (handles) {
+      // Handles are in percent, y down
+      tangentsS.push([finite(handles.ux) * 0.03, -finite(handles.uy) * 0.03])
+      tangentsT.push([finite(handles.vx) * 0.03, -finite(handles.vy) * 0.03])
+    } else {
+      tangentsS.push(autoTangent(i, i % columns, columns, 1))
+      tangentsT.push(autoTangent(i, Math.floor(i / columns), rows, columns))
+    }
+  })
+
+  const colors = points.map((p): [number, number, number, number] => [...hexToRgb(p.color), hexToAlpha(p.color)])
+
+  return { columns, rows, positions, tangentsS, tangentsT, colors }
+}
@@ -0,0 +1,72 @@
+/**
+ * Noise Field
+ *
+ * Resolves layered-noise settings — the noise gradient type's and the
+ * domain-warp warp's — into what utils/noise.glsl reads, for ShaderManager
+ * and the CPU renderer alike.
+ *
+ * A seed picks where in the (endless) field to start: its whole part is
+ * hashed to an offset on each axis, so a seed always draws the same noise
+ * and neighbouring seeds draw unrelated ones.
+ *
+ * Speed moves the sample through the field over time (noiseDrift). Running
+ * freely it heads straight along z; under a loop duration it goes once round
+ * a circle instead, so the field at the end of the loop is the field at its
+ * start rather than a jump to somewhere new.
+ */
+
+import { NOISE_MAX_OCTAVES } from '@/lib/shaders'
+import type { FractalNoiseSettings } from '@/types/gradient'
+
+export { NOISE_MAX_OCTAVES }
+
+type Vec3 = [number, number, number]
+
+export interface ResolvedNoise {
+  scale: number
+  /** Whole, 1 to NOISE_MAX_OCTAVES */
+  octaves: number
+  lacunarity: number
+  gain: number
+  /** Offset into the field, 0-100 on each axis */
+  seed: Vec3
+  speed: number
+}
+
+const finite = (value: number, fallback: number) => (Number.isFinite(value) ? value : fallback)
+
+/** 32-bit integer hash (lowbias32) */
+function hash(n: number): number {
+  n = Math.imul(n ^ (n >>> 16), 0x7feb352d)
+  n = Math.imul(n ^ (n >>> 15), 0x846ca68b)
+  return (n ^ (n >>> 16)) >>> 0
+}
+
+/** Where `seed` starts in the noise field */
+export function noiseSeedOffset(seed: number): Vec3 {
+  const base = Math.imul(Math.trunc(finite(seed, 0)) | 0, 3)
+  return [0, 1, 2].map((axis) => (hash(base + axis) / 2 ** 32) * 100) as Vec3
+}
+
+/**
+ * How far `time` has carried the sample through the field at `speed`. The
+ * loop's circle has the same speed and starts at the same point heading the
+ * same way as the straight path, so frame 0 looks the same either way.
+ */
+export function noiseDrift(time: number, speed: number, loopDuration: number | null = null): Vec3 {
+  if (loopDuration === null) return [0, 0, time * speed]
+  const angle = (2 * Math.PI * time) / loopDuration
+  const radius = (speed * loopDuration) / (2 * Math.PI)
+  return [radius * (Math.cos(angle) - 1), 0, radius * Math.sin(angle)]
+}
+
+export function resolveNoise(settings: FractalNoiseSettings): ResolvedNoise {
+  return {
+    scale: finite(settings.scale, 1),
+    octaves: Math.min(Math.max(Math.round(finite(settings.octaves, 1)), 1), NOISE_MAX_OCTAVES),
+    lacunarity: finite(settings.lacunarity, 2),
+    gain: finite(settings.gain, 0.5),
+    seed: noiseSeedOffset(settings.seed),
+    speed: finite(settings.speed, 0),
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Override Paths
+ *
+ * Resolves dotted GradientState paths ('warp.twist.amount', 'colorStops.2.color',
+ * 'spiralSettings.tightness', ...) for GradientEngine.applyAnimationOverrides.
+ *
+ * Overrides are applied to a copy of the engine's last applied state, so
+ * every value goes through the same setter — and the same unit conversions —
+ * as a full preset load. Only the top-level groups that were touched are
+ * copied and re-applied.
+ */
+
+import { rgbToHex } from './colorSpace'
+import type { GradientState } from '@/types/gradient'
+
+/** A number, or for color fields a hex string or 0-1 RGB triple */
+export type AnimationOverrideValue = number | string | readonly [number, number, number]
+
+export type AnimationOverrides = Record<string, AnimationOverrideValue>
+
+export interface ResolvedOverrides {
+  /** Base state with the overrides written in. Untouched groups are shared, not copied. */
+  state: GradientState
+  /** Touched top-level fields, with the override paths that touched them */
+  groups: Map<keyof GradientState, string[]>
+  /** Paths that don't exist, aren't numeric/color fields, or got the wrong kind of value */
+  rejected: string[]
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+type Container = Record<string, unknown> | unknown[]
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null
+}
+
+/** Convert an override to the field's own kind, or undefined if it doesn't fit */
+function coerce(current: unknown, value: AnimationOverrideValue): unknown {
+  if (typeof current === 'number') {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+  }
+  if (typeof current === 'boolean') {
+    return typeof value === 'number' ? value >= 0.5 : undefined
+  }
+  if (typeof current === 'string' && HEX_COLOR.test(current)) {
+    if (typeof value === 'string') return HEX_COLOR.test(value) ? value : undefined
+    if (Array.isArray(value) && value.length === 3) return rgbToHex(value as [number, number, number])
+  }
+  return undefined
+}
+
+/**
+ * Write `overrides` into a copy of `base`
+ */
+export function resolveOverrides(base: GradientState, overrides: AnimationOverrides): ResolvedOverrides {
+  const state: GradientState = { ...base }
+  const draft = state as unknown as Record<string, unknown>
+  const groups = new Map<keyof GradientState, string[]>()
+  const rejected: string[] = []
+
+  for (const [path, value] of Object.entries(overrides)) {
+    const parts = path.split('.')
+    const group = parts[0] as keyof GradientState
+    if (!(group in base)) {
+      rejected.push(path)
+      continue
+    }
+
+    // Copy a group the first time it's touched, so the base state stays intact
+    if (!groups.has(group) && isContainer(draft[group])) {
+      draft[group] = structuredClone(draft[group])
+    }
+
+    let parent: Container = draft
+    let key = group as string
+    for (const part of parts.slice(1)) {
+      const child: unknown = (parent as Record<string, unknown>)[key]
+      if (!isContainer(child)) {
+        parent = []
+        break
+      }
+      parent = child
+      key = part
+    }
+
+    const current = (parent as Record<string, unknown>)[key]
+    const next = Object.prototype.hasOwnProperty.call(parent, key) ? coerce(current, value) : undefined
+    if (next === undefined) {
+      rejected.push(path)
+      continue
+    }
+
+    (parent as Record<string, unknown>)[key] = next
+    const paths = groups.get(group)
+    if (paths) paths.push(path)
+    else groups.set(group, [path])
+  }
+
+  return { state, groups, rejected }
+}
+
+const reportedPaths = new Set<string>()
+
+/**
+ * Warn once per path in development
+ */
+export function reportOverridePath(path: string, reason: string): void {
+  if (process.env.NODE_ENV === 'production' || reportedPaths.has(path)) return
+  reportedPaths.add(path)
+  console.warn(`[GradientEngine] Animation override "${path}" ignored: ${reason}`)
+}
@@ -0,0 +1,183 @@
+/**
+ * AsciiPass - renders the previous pass as a grid of characters
+ *
+ * Characters come from a glyph atlas generated on the CPU; the atlas is
+ * rebuilt whenever the character set or custom font changes, and after a
+ * WebGL context restore.
+ */
+
+import * as THREE from 'three'
+import { ShaderPass } from './ShaderPass'
+import { generateAsciiAtlas, loadCustomFontFromBase64 } from '../AsciiAtlasLoader'
+import { asciiVertexShader, asciiFragmentShader } from '../../shaders/postprocess/ascii.glsl'
+import type { AsciiSettings } from '@/types/gradient'
+
+export class AsciiPass extends ShaderPass {
+  readonly name = 'ascii'
+  private enabled: boolean = false
+
+  // Atlas tracking
+  private currentAsciiCharacters: string = ''
+  private asciiAtlas: THREE.Texture | null = null
+
+  constructor() {
+    super(new THREE.ShaderMaterial({
+      uniforms: {
+        // Core uniforms
+        tDiffuse: { value: null },
+        u_asciiAtlas: { value: null },
+        u_resolution: { value: new THREE.Vector2(1, 1) },
+        u_regionOffset: { value: new THREE.Vector2(0, 0) },
+        u_regionScale: { value: new THREE.Vector2(1, 1) },
+        u_density: { value: 80 },
+        u_charCount: { value: 10 },
+        u_colored: { value: true },
+        u_monoColor: { value: new THREE.Color(1, 1, 1) },
+        u_background: { value: new THREE.Color(0, 0, 0) },
+        u_invert: { value: false },
+        // Typography uniforms
+        u_rotation: { value: 0 },
+        u_lineHeight: { value: 1.0 },
+        u_letterSpacing: { value: 1.0 },
+        // Shadow uniforms
+        u_shadowEnabled: { value: false },
+        u_shadowColor: { value: new THREE.Color(0, 0, 0) },
+        u_shadowOffsetX: { value: 2 },
+        u_shadowOffsetY: { value: 2 },
+        u_shadowBlur: { value: 0 },
+        // Glow uniforms
+        u_glowEnabled: { value: false },
+        u_glowAmount: { value: 50 },
+        u_glowRadius: { value: 0.3 },
+        // Perspective uniforms
+        u_perspectiveEnabled: { value: false },
+        u_perspectiveTiltX: { value: 0 },
+        u_perspectiveTiltY: { value: 0 },
+        // Edge detection uniforms
+        u_edgeEnabled: { value: false },
+        u_edgeThreshold: { value: 0.5 }
+      },
+      vertexShader: asciiVertexShader,
+      fragmentShader: asciiFragmentShader
+    }))
+  }
+
+  setSettings(ascii: AsciiSettings | undefined): void {
+    this.enabled = ascii?.enabled ?? false
+    if (!ascii || !this.enabled) return
+
+    const characters = ascii.characters || 'GradientLab'
+    const customFont = ascii.customFont || null
+    const customFontName = ascii.customFontName || null
+
+    // Create a cache key that includes both characters and font
+    const cacheKey = `${characters}:${customFontName || 'default'}`
+
+    // Regenerate atlas if characters or font changed, or if atlas doesn't exist
+    if (cacheKey !== this.currentAsciiCharacters || !this.asciiAtlas) {
+      this.currentAsciiCharacters = cacheKey
+
+      if (this.asciiAtlas) {
+        this.asciiAtlas.dispose()
+      }
+
+      // Load custom font if provided, then generate atlas
+      if (customFont && customFontName) {
+        // Generate atlas with default font first (so we have something to render)
+        this.setAtlas(generateAsciiAtlas(characters), characters)
+
+        // Then try to load custom font and regenerate
+        loadCustomFontFromBase64(customFont, customFontName)
+          .then((fontName) => {
+            if (this.asciiAtlas) this.asciiAtlas.dispose()
+            this.setAtlas(generateAsciiAtlas(characters, fontName), characters)
+          })
+          .catch((err) => {
+            console.warn('[AsciiPass] Failed to load custom font:', err)
+          })
+      } else {
+        this.setAtlas(generateAsciiAtlas(characters), characters)
+      }
+    }
+
+    const u = this.material.uniforms
+
+    // Core
+    u.u_density.value = ascii.density ?? 80
+    u.u_colored.value = ascii.colorMode === 'colored'
+    u.u_invert.value = ascii.invert ?? false
+
+    if (ascii.monoColor) {
+      u.u_monoColor.value.set(ascii.monoColor)
+    }
+    if (ascii.backgroundColor) {
+      u.u_background.value.set(ascii.backgroundColor)
+    }
+
+    // Typography
+    u.u_rotation.value = ascii.rotation ?? 0
+    u.u_lineHeight.value = (ascii.lineHeight ?? 100) / 100
+    u.u_letterSpacing.value = (ascii.letterSpacing ?? 100) / 100
+
+    // Shadow
+    const shadow = ascii.shadow
+    u.u_shadowEnabled.value = shadow?.enabled ?? false
+    if (shadow?.color) {
+      u.u_shadowColor.value.set(shadow.color)
+    }
+    u.u_shadowOffsetX.value = shadow?.offsetX ?? 2
+    u.u_shadowOffsetY.value = shadow?.offsetY ?? 2
+    u.u_shadowBlur.value = (shadow?.blur ?? 0) / 100
+
+    // Glow
+    const glow = ascii.glow
+    u.u_glowEnabled.value = glow?.enabled ?? false
+    u.u_glowAmount.value = glow?.amount ?? 50
+    u.u_glowRadius.value = (glow?.radius ?? 30) / 100
+
+    // Perspective
+    const perspective = ascii.perspective
+    u.u_perspectiveEnabled.value = perspective?.enabled ?? false
+    u.u_perspectiveTiltX.value = perspective?.tiltX ?? 0
+    u.u_perspectiveTiltY.value = perspective?.tiltY ?? 0
+
+    // Edge Detection
+    const edge = ascii.edge
+    u.u_edgeEnabled.value = edge?.enabled ?? false
+    u.u_edgeThreshold.value = (edge?.threshold ?? 50) / 100
+  }
+
+  /**
+   * Regenerate the atlas after a WebGL context restore
+   */
+  restore(): void {
+    if (!this.enabled || !this.currentAsciiCharacters) return
+    const characters = this.currentAsciiCharacters.split(':')[0] || 'GradientLab'
+    if (this.asciiAtlas) this.asciiAtlas.dispose()
+    this.setAtlas(generateAsciiAtlas(characters), characters)
+  }
+
+  isEnabled(): boolean {
+    return this.enabled && this.asciiAtlas !== null
+  }
+
+  /** One cell: every pixel samples its cell's center. Rotation and perspective read anywhere. */
+  getTileMargin(): number {
+    const u = this.material.uniforms
+    if (u.u_perspectiveEnabled.value || Math.abs(u.u_rotation.value) > 0.1) return Infinity
+    const cellWidth = this.getImageSize().x / Math.max(u.u_density.value, 1)
+    return Math.ceil(cellWidth * Math.max(u.u_letterSpacing.value, 1.5 * u.u_lineHeight.value))
+  }
+
+  dispose(): void {
+    if (this.asciiAtlas) this.asciiAtlas.dispose()
+    this.asciiAtlas = null
+    super.dispose()
+  }
+
+  private setAtlas(atlas: THREE.Texture, characters: string): void {
+    this.asciiAtlas = atlas
+    this.material.uniforms.u_asciiAtlas.value = atlas
+    this.material.uniforms.u_charCount.value = Array.from(characters).length
+  }
+}
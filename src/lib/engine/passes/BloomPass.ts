@@ -0,0 +1,159 @@
+/**
+ * BloomPass - multi-scale bloom, driven by the `effects.glow` settings
+ *
+ * Bright areas above the threshold are extracted at half size, then
+ * downsampled through a BlurChain with a small gaussian at every level.
+ * Summing the levels back up gives a glow that is tight near bright areas
+ * and wide further out; `radius` sets how much each coarser level adds,
+ * so large radii reach far beyond what a single kernel could.
+ */
+
+import * as THREE from 'three'
+import { BlurChain, MAX_BLUR_LEVELS } from './BlurChain'
+import { blurVertexShader } from '../../shaders/postprocess/blur.glsl'
+import { bloomExtractFragmentShader, bloomCompositeFragmentShader } from '../../shaders/postprocess/bloom.glsl'
+import type { PostPass } from '../PostPipeline'
+import type { QualitySettings } from '../QualityGovernor'
+import type { GlowSettings } from '@/types/gradient'
+
+/** Sigma (texels) of each level's own blur */
+const LEVEL_SIGMA = 1.5
+/** Levels summed at the 'reduced' quality setting */
+const REDUCED_LEVELS = 4
+/** Levels weighted below this are skipped */
+const MIN_LEVEL_WEIGHT = 0.01
+
+export class BloomPass implements PostPass {
+  readonly name = 'bloom'
+  private chain = new BlurChain()
+  private extractMaterial: THREE.ShaderMaterial
+  private compositeMaterial: THREE.ShaderMaterial
+  private enabled: boolean = false
+  private amount: number = 0
+  private threshold: number = 50
+  private radius: number = 30
+  private reduced: boolean = false
+  private renderedState: string = ''
+
+  constructor() {
+    this.extractMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        u_texelSize: { value: new THREE.Vector2() },
+        u_threshold: { value: 50 }
+      },
+      vertexShader: blurVertexShader,
+      fragmentShader: bloomExtractFragmentShader
+    })
+    this.compositeMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        tBloom: { value: null },
+        u_bloomTexelSize: { value: new THREE.Vector2() },
+        u_intensity: { value: 0 }
+      },
+      vertexShader: blurVertexShader,
+      fragmentShader: bloomCompositeFragmentShader
+    })
+  }
+
+  setSettings(settings: GlowSettings | undefined): void {
+    this.enabled = settings?.enabled ?? false
+    this.amount = settings?.amount ?? 0
+    this.threshold = settings?.threshold ?? 50
+    this.radius = settings?.radius ?? 30
+  }
+
+  /** Pyramid depth, set by the engine's quality tier */
+  setQuality(quality: QualitySettings['blur']): void {
+    this.reduced = quality === 'reduced'
+  }
+
+  isEnabled(): boolean {
+    return this.enabled && this.amount > 0
+  }
+
+  /** Each level's three-sigma blur and box footprint, in full-size pixels */
+  getTileMargin(): number {
+    let margin = 0
+    for (let level = 1; level <= this.getLevelWeights().length; level++) {
+      margin += (Math.ceil(3 * LEVEL_SIGMA) + 2) * 2 ** level
+    }
+    return margin
+  }
+
+  consumeChanges(): boolean {
+    const state = `${this.amount}:${this.threshold}:${this.radius}:${this.reduced}`
+    const changed = state !== this.renderedState
+    this.renderedState = state
+    return changed
+  }
+
+  setSize(width: number, height: number): void {
+    this.chain.setSize(width, height)
+  }
+
+  setHdr(hdr: boolean): void {
+    this.chain.setHdr(hdr)
+  }
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    target: THREE.WebGLRenderTarget | null
+  ): void {
+    const chain = this.chain
+    const weights = this.getLevelWeights()
+    const levels = weights.length
+
+    // Bright-pass into level 1, then down the pyramid blurring each level in place
+    this.extractMaterial.uniforms.u_threshold.value = this.threshold
+    chain.downsample(renderer, input, 1, this.extractMaterial)
+    for (let level = 1; level <= levels; level++) {
+      if (level > 1) chain.downsample(renderer, chain.getTarget(level - 1).texture, level)
+      const levelTarget = chain.getTarget(level)
+      chain.blur(renderer, levelTarget.texture, level, LEVEL_SIGMA, levelTarget)
+    }
+
+    // Sum back up as a running weighted average, so 8-bit targets don't clip
+    let average = chain.getTarget(levels).texture
+    let averageWeight = weights[levels - 1]
+    for (let level = levels; level > 1; level--) {
+      const weight = weights[level - 2]
+      averageWeight += weight
+      // Slot 1 is free again now the blurs are done
+      const out = chain.getTarget(level - 1, 1)
+      chain.upsample(renderer, average, level, out, chain.getTarget(level - 1).texture, weight / averageWeight)
+      average = out.texture
+    }
+
+    const uniforms = this.compositeMaterial.uniforms
+    uniforms.tDiffuse.value = input
+    uniforms.tBloom.value = average
+    uniforms.u_bloomTexelSize.value.copy(chain.getTexelSize(1))
+    uniforms.u_intensity.value = this.amount * 0.01
+    chain.draw(renderer, this.compositeMaterial, target)
+  }
+
+  dispose(): void {
+    this.chain.dispose()
+    this.extractMaterial.dispose()
+    this.compositeMaterial.dispose()
+  }
+
+  /**
+   * Weight of each level from 1 down. Radius 0 keeps the glow on the finest
+   * level; radius 100 weights every level equally.
+   */
+  private getLevelWeights(): number[] {
+    const maxLevels = this.reduced ? REDUCED_LEVELS : MAX_BLUR_LEVELS
+    const falloff = 0.15 + 0.85 * Math.min(Math.max(this.radius, 0), 100) / 100
+    const weights = [1]
+    while (weights.length < maxLevels) {
+      const weight = weights[weights.length - 1] * falloff
+      if (weight < MIN_LEVEL_WEIGHT) break
+      weights.push(weight)
+    }
+    return weights
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * BlurChain - downsample/upsample pyramid shared by the blur and bloom passes
+ *
+ * Level 0 is the pass's full render size, level k is 1/2^k of it. A wide
+ * gaussian is cut into cheap steps: box-downsample to a level where the
+ * remaining sigma is a few texels, blur there separably (horizontal, then
+ * vertical), and tent-upsample back. Each level has two render targets,
+ * created on first use, so the separable passes can ping-pong.
+ */
+
+import * as THREE from 'three'
+import {
+  blurVertexShader,
+  blurDownsampleFragmentShader,
+  blurFragmentShader,
+  blurUpsampleFragmentShader,
+} from '../../shaders/postprocess/blur.glsl'
+import { createPassTarget } from '../PostPipeline'
+
+/** Deepest level, 1/64 of the render size */
+export const MAX_BLUR_LEVELS = 6
+
+/** Variance (in texels of the source level) the 4x4 box downsample adds */
+const DOWNSAMPLE_VARIANCE = 1.25
+
+export class BlurChain {
+  private scene: THREE.Scene
+  private camera: THREE.OrthographicCamera
+  private quad: THREE.Mesh
+  private downsampleMaterial: THREE.ShaderMaterial
+  private blurMaterial: THREE.ShaderMaterial
+  private upsampleMaterial: THREE.ShaderMaterial
+  private targets = new Map<string, THREE.WebGLRenderTarget>()
+  private width: number = 0
+  private height: number = 0
+  private hdr: boolean = false
+
+  constructor() {
+    this.downsampleMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        u_texelSize: { value: new THREE.Vector2() }
+      },
+      vertexShader: blurVertexShader,
+      fragmentShader: blurDownsampleFragmentShader
+    })
+    this.blurMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        u_texelSize: { value: new THREE.Vector2() },
+        u_direction: { value: new THREE.Vector2() },
+        u_sigma: { value: 0 }
+      },
+      vertexShader: blurVertexShader,
+      fragmentShader: blurFragmentShader
+    })
+    this.upsampleMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        tBase: { value: null },
+        u_texelSize: { value: new THREE.Vector2() },
+        u_baseWeight: { value: 0 }
+      },
+      vertexShader: blurVertexShader,
+      fragmentShader: blurUpsampleFragmentShader
+    })
+    this.scene = new THREE.Scene()
+    this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.blurMaterial)
+    this.scene.add(this.quad)
+  }
+
+  setSize(width: number, height: number): void {
+    this.width = width
+    this.height = height
+    this.disposeTargets()
+  }
+
+  /** Half-float targets, recreated on next use */
+  setHdr(hdr: boolean): void {
+    this.hdr = hdr
+    this.disposeTargets()
+  }
+
+  /** Size of `level` in pixels */
+  getLevelSize(level: number): THREE.Vector2 {
+    const scale = 2 ** level
+    return new THREE.Vector2(
+      Math.max(1, Math.ceil(this.width / scale)),
+      Math.max(1, Math.ceil(this.height / scale))
+    )
+  }
+
+  /** Texel size of `level`, for sampling it in a shader */
+  getTexelSize(level: number): THREE.Vector2 {
+    const size = this.getLevelSize(level)
+    return new THREE.Vector2(1 / size.x, 1 / size.y)
+  }
+
+  /**
+   * Shallowest level where a gaussian of `sigma` (level-0 pixels) needs at
+   * most `maxLevelSigma` texels of blur after downsampling
+   */
+  pickLevel(sigma: number, maxLevelSigma: number): number {
+    let level = 0
+    while (level < MAX_BLUR_LEVELS && this.getLevelSigma(sigma, level) > maxLevelSigma) level++
+    return level
+  }
+
+  /**
+   * Sigma, in texels of `level`, still needed once the downsamples down to
+   * `level` have contributed their own blur
+   */
+  getLevelSigma(sigma: number, level: number): number {
+    // Each downsample into level k adds DOWNSAMPLE_VARIANCE texels² of level k - 1
+    const downsampled = DOWNSAMPLE_VARIANCE * (4 ** level - 1) / 3
+    return Math.sqrt(Math.max(0, sigma * sigma - downsampled)) / 2 ** level
+  }
+
+  /** `level`'s render target in `slot` (0 or 1) */
+  getTarget(level: number, slot: 0 | 1 = 0): THREE.WebGLRenderTarget {
+    const key = `${level}:${slot}`
+    let target = this.targets.get(key)
+    if (!target) {
+      const size = this.getLevelSize(level)
+      target = createPassTarget(size.x, size.y, this.hdr)
+      this.targets.set(key, target)
+    }
+    return target
+  }
+
+  /**
+   * Downsample `input` (sized as `level - 1`) into `level`'s first target.
+   * `material` replaces the plain box filter, e.g. for a bright-pass; it
+   * must take the same `tDiffuse` and `u_texelSize` uniforms.
+   */
+  downsample(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    level: number,
+    material: THREE.ShaderMaterial = this.downsampleMaterial
+  ): THREE.WebGLRenderTarget {
+    const target = this.getTarget(level)
+    material.uniforms.tDiffuse.value = input
+    material.uniforms.u_texelSize.value.copy(this.getTexelSize(level - 1))
+    this.draw(renderer, material, target)
+    return target
+  }
+
+  /**
+   * Separable gaussian of `sigma` texels over `input` (sized as `level`),
+   * via `level`'s second target, into `target`
+   */
+  blur(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    level: number,
+    sigma: number,
+    target: THREE.WebGLRenderTarget | null
+  ): void {
+    const uniforms = this.blurMaterial.uniforms
+    uniforms.u_texelSize.value.copy(this.getTexelSize(level))
+    uniforms.u_sigma.value = sigma
+
+    const temp = this.getTarget(level, 1)
+    uniforms.tDiffuse.value = input
+    uniforms.u_direction.value.set(1, 0)
+    this.draw(renderer, this.blurMaterial, temp)
+
+    uniforms.tDiffuse.value = temp.texture
+    uniforms.u_direction.value.set(0, 1)
+    this.draw(renderer, this.blurMaterial, target)
+  }
+
+  /**
+   * Upsample `input` (sized as `level`) into `target`, one level up.
+   * With `base`, the result is mixed towards it by `baseWeight` (0-1).
+   */
+  upsample(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    level: number,
+    target: THREE.WebGLRenderTarget | null,
+    base: THREE.Texture | null = null,
+    baseWeight: number = 0
+  ): void {
+    const uniforms = this.upsampleMaterial.uniforms
+    uniforms.tDiffuse.value = input
+    uniforms.tBase.value = base
+    uniforms.u_baseWeight.value = base ? baseWeight : 0
+    uniforms.u_texelSize.value.copy(this.getTexelSize(level))
+    this.draw(renderer, this.upsampleMaterial, target)
+  }
+
+  /** Draw a full-screen quad with `material` into `target` (null = screen) */
+  draw(renderer: THREE.WebGLRenderer, material: THREE.ShaderMaterial, target: THREE.WebGLRenderTarget | null): void {
+    this.quad.material = material
+    renderer.setRenderTarget(target)
+    renderer.render(this.scene, this.camera)
+  }
+
+  dispose(): void {
+    this.disposeTargets()
+    this.quad.geometry.dispose()
+    this.downsampleMaterial.dispose()
+    this.blurMaterial.dispose()
+    this.upsampleMaterial.dispose()
+    this.scene.clear()
+  }
+
+  private disposeTargets(): void {
+    for (const target of this.targets.values()) {
+      target.dispose()
+    }
+    this.targets.clear()
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * DotMatrixPass - halftone-style dot grid sampled from the previous pass
+ */
+
+import * as THREE from 'three'
+import { ShaderPass } from './ShaderPass'
+import { dotMatrixVertexShader, dotMatrixFragmentShader } from '../../shaders/postprocess/dotMatrix.glsl'
+import type { DotMatrixSettings } from '@/types/gradient'
+
+export class DotMatrixPass extends ShaderPass {
+  readonly name = 'dotMatrix'
+  private enabled: boolean = false
+
+  constructor() {
+    super(new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        u_resolution: { value: new THREE.Vector2(1, 1) },
+        u_regionOffset: { value: new THREE.Vector2(0, 0) },
+        u_regionScale: { value: new THREE.Vector2(1, 1) },
+        u_density: { value: 50 },
+        u_shape: { value: 0 },
+        u_sizeMin: { value: 0.1 },
+        u_sizeMax: { value: 0.9 },
+        u_colorMode: { value: 0 },
+        u_monoColor: { value: new THREE.Color(1, 1, 1) },
+        u_duoDark: { value: new THREE.Color(0, 0, 0) },
+        u_duoLight: { value: new THREE.Color(1, 1, 1) },
+        u_background: { value: new THREE.Color(0, 0, 0) },
+        u_softness: { value: 0.1 },
+        u_invert: { value: false },
+        u_gap: { value: 0.1 },
+        u_time: { value: 0 },
+        // Perspective uniforms
+        u_perspectiveEnabled: { value: false },
+        u_perspectiveTiltX: { value: 0 },
+        u_perspectiveTiltY: { value: 0 }
+      },
+      vertexShader: dotMatrixVertexShader,
+      fragmentShader: dotMatrixFragmentShader
+    }))
+  }
+
+  setSettings(settings: DotMatrixSettings | undefined): void {
+    this.enabled = settings?.enabled ?? false
+    if (!settings || !this.enabled) return
+
+    const dm = this.material.uniforms
+    dm.u_density.value = settings.density ?? 60
+
+    // Map shape string to int: circle=0, square=1, diamond=2
+    const shapeMap: Record<string, number> = { circle: 0, square: 1, diamond: 2 }
+    dm.u_shape.value = shapeMap[settings.shape] ?? 0
+
+    // Convert 0-100 to 0-1
+    dm.u_sizeMin.value = (settings.sizeMin ?? 10) / 100
+    dm.u_sizeMax.value = (settings.sizeMax ?? 100) / 100
+
+    // Map colorMode string to int: colored=0, mono=1, duotone=2
+    const colorModeMap: Record<string, number> = { colored: 0, mono: 1, duotone: 2 }
+    dm.u_colorMode.value = colorModeMap[settings.colorMode] ?? 0
+
+    dm.u_softness.value = (settings.softness ?? 0) / 100
+    dm.u_invert.value = settings.invert ?? false
+    dm.u_gap.value = (settings.gap ?? 0) / 100
+
+    if (settings.monoColor) {
+      dm.u_monoColor.value.set(settings.monoColor)
+    }
+    if (settings.duotoneDark) {
+      dm.u_duoDark.value.set(settings.duotoneDark)
+    }
+    if (settings.duotoneLight) {
+      dm.u_duoLight.value.set(settings.duotoneLight)
+    }
+    if (settings.backgroundColor) {
+      dm.u_background.value.set(settings.backgroundColor)
+    }
+
+    // Perspective
+    dm.u_perspectiveEnabled.value = settings.perspective?.enabled ?? false
+    dm.u_perspectiveTiltX.value = settings.perspective?.tiltX ?? 0
+    dm.u_perspectiveTiltY.value = settings.perspective?.tiltY ?? 0
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /** One cell: every pixel samples its cell's center. Perspective reads anywhere. */
+  getTileMargin(): number {
+    const u = this.material.uniforms
+    if (u.u_perspectiveEnabled.value) return Infinity
+    // Cells are square, effectiveDensity across the width
+    return Math.ceil(this.getImageSize().x / (u.u_density.value * (1 + u.u_gap.value)))
+  }
+
+  protected beforeRender(time: number): void {
+    this.material.uniforms.u_time.value = time
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * LayerStackPass - composites GradientLayers over the engine's own gradient
+ *
+ * Runs right after the type crossfade, so bloom, ASCII, dot matrix, blur and
+ * the output pass treat the stack as one image. Each visible layer, bottom
+ * to top, is drawn in place into a layer target and then blended over the
+ * stack so far with its blend mode and opacity (see layers.glsl); the last
+ * one writes to the pass's target.
+ *
+ * Under a render region the layers' camera frames the window instead of the
+ * whole image, so tiles see the same geometry and stitch without overlap.
+ */
+
+import * as THREE from 'three'
+import { ShaderPass } from './ShaderPass'
+import { createPassTarget, type RenderRegion } from '../PostPipeline'
+import { GradientLayer, type LayerSettings } from '../GradientLayer'
+import { blurVertexShader } from '../../shaders/postprocess/blur.glsl'
+import { layerCompositeFragmentShader } from '../../shaders/postprocess/layers.glsl'
+import type { MaterialBlendMode } from '@/types/gradient'
+
+const BLEND_MODE_INDEX: Record<MaterialBlendMode, number> = {
+  normal: 0,
+  multiply: 1,
+  screen: 2,
+  overlay: 3,
+  darken: 4,
+  lighten: 5,
+  'color-dodge': 6,
+  'color-burn': 7,
+  'hard-light': 8,
+  'soft-light': 9,
+}
+
+export class LayerStackPass extends ShaderPass {
+  readonly name = 'layers'
+  private layers: GradientLayer[] = []
+  private layerCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 10)
+  private layerTarget: THREE.WebGLRenderTarget | null = null
+  private stackTargets: THREE.WebGLRenderTarget[] = []
+  private width: number = 0
+  private height: number = 0
+  private layerRegion: RenderRegion | null = null
+  private hdr: boolean = false
+  private loopDuration: number | null = null
+
+  constructor() {
+    super(new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        tLayer: { value: null },
+        u_resolution: { value: new THREE.Vector2() },
+        u_regionOffset: { value: new THREE.Vector2(0, 0) },
+        u_regionScale: { value: new THREE.Vector2(1, 1) },
+        u_layerCenter: { value: new THREE.Vector2() },
+        u_layerHalfSize: { value: new THREE.Vector2() },
+        u_layerAngle: { value: 0 },
+        u_cornerRadius: { value: new THREE.Vector2() },
+        u_opacity: { value: 1 },
+        u_blendMode: { value: 0 }
+      },
+      vertexShader: blurVertexShader,
+      fragmentShader: layerCompositeFragmentShader
+    }), ['tLayer'])
+    this.layerCamera.position.z = 1
+  }
+
+  /**
+   * Replace the stack, bottom first. Existing layers are updated in place,
+   * and only re-apply their preset when it's a different object, so this is
+   * cheap to call with the same presets every frame.
+   */
+  setLayers(settings: LayerSettings[]): void {
+    settings.forEach((layer, i) => {
+      if (this.layers[i]) {
+        this.layers[i].setSettings(layer)
+      } else {
+        this.layers.push(new GradientLayer(layer))
+      }
+    })
+    for (const layer of this.layers.splice(settings.length)) {
+      layer.dispose()
+    }
+    this.markChanged()
+  }
+
+  /** The stack's layers, bottom first, for per-frame transform and opacity changes */
+  getLayers(): readonly GradientLayer[] {
+    return this.layers
+  }
+
+  isEnabled(): boolean {
+    return this.layers.some((layer) => layer.isVisible())
+  }
+
+  consumeChanges(): boolean {
+    // Every layer records its state, so none may be short-circuited
+    let changed = super.consumeChanges()
+    for (const layer of this.layers) {
+      if (layer.consumeChanges()) changed = true
+    }
+    return changed
+  }
+
+  isTimeDependent(): boolean {
+    return this.layers.some((layer) => layer.isVisible() && layer.isTimeDependent())
+  }
+
+  setSize(width: number, height: number): void {
+    super.setSize(width, height)
+    this.width = width
+    this.height = height
+    this.disposeTargets()
+    this.updateCamera()
+  }
+
+  setRegion(region: RenderRegion | null): void {
+    super.setRegion(region)
+    this.layerRegion = region
+    this.updateCamera()
+  }
+
+  setHdr(hdr: boolean): void {
+    this.hdr = hdr
+    this.disposeTargets()
+    for (const layer of this.layers) layer.setHdr(hdr)
+  }
+
+  /** The engine's loop, so layers loop with it */
+  setLoopDuration(seconds: number | null): void {
+    this.loopDuration = seconds
+  }
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    target: THREE.WebGLRenderTarget | null,
+    time: number
+  ): void {
+    const visible = this.layers.filter((layer) => layer.isVisible())
+    const image = this.getImageSize()
+    const uniforms = this.material.uniforms
+    const layerTarget = this.layerTarget ??= createPassTarget(this.width, this.height, this.hdr)
+
+    let stack = input
+    visible.forEach((layer, i) => {
+      layer.setHdr(this.hdr)
+      layer.setTime(time, this.loopDuration)
+      layer.render(renderer, this.layerCamera, layerTarget, image.x, image.y)
+
+      const half = layer.getHalfSize(image.x, image.y)
+      const radius = layer.getTransform().cornerRadius / 50
+      uniforms.tLayer.value = layerTarget.texture
+      uniforms.u_layerCenter.value.copy(layer.getCenter(image.x, image.y))
+      uniforms.u_layerHalfSize.value.copy(half)
+      uniforms.u_layerAngle.value = layer.getAngle()
+      uniforms.u_cornerRadius.value.set(half.x * radius, half.y * radius)
+      uniforms.u_opacity.value = layer.getOpacity()
+      uniforms.u_blendMode.value = BLEND_MODE_INDEX[layer.getBlendMode()] ?? 0
+
+      // Ping-pong through two stack targets; the top layer writes the output
+      const out = i === visible.length - 1 ? target : this.getStackTarget(i % 2)
+      super.render(renderer, stack, out, time)
+      if (out) stack = out.texture
+    })
+  }
+
+  dispose(): void {
+    for (const layer of this.layers) layer.dispose()
+    this.layers = []
+    this.disposeTargets()
+    super.dispose()
+  }
+
+  private getStackTarget(index: number): THREE.WebGLRenderTarget {
+    this.stackTargets[index] ??= createPassTarget(this.width, this.height, this.hdr)
+    return this.stackTargets[index]
+  }
+
+  /** Frame the render size's window of the full image, in full-image clip space */
+  private updateCamera(): void {
+    const region = this.layerRegion
+    if (!region || this.width === 0 || this.height === 0) {
+      this.layerCamera.left = -1
+      this.layerCamera.right = 1
+      this.layerCamera.bottom = -1
+      this.layerCamera.top = 1
+    } else {
+      this.layerCamera.left = region.x * 2 / region.fullWidth - 1
+      this.layerCamera.right = (region.x + this.width) * 2 / region.fullWidth - 1
+      this.layerCamera.bottom = region.y * 2 / region.fullHeight - 1
+      this.layerCamera.top = (region.y + this.height) * 2 / region.fullHeight - 1
+    }
+    this.layerCamera.updateProjectionMatrix()
+  }
+
+  private disposeTargets(): void {
+    this.layerTarget?.dispose()
+    this.layerTarget = null
+    for (const target of this.stackTargets) target.dispose()
+    this.stackTargets = []
+  }
+}
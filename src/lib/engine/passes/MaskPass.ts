@@ -0,0 +1,128 @@
+/**
+ * MaskPass - clips the gradient to a mask, set with GradientEngine.setMask()
+ *
+ * The mask is any canvas; its alpha is the coverage, stretched over the whole
+ * image (see masks.ts for rasterizing display type and SVG paths). The
+ * optional outer glow is the mask blurred through a BlurChain at the mask's
+ * own size, once per mask or glow change rather than every frame.
+ */
+
+import * as THREE from 'three'
+import { ShaderPass } from './ShaderPass'
+import { BlurChain } from './BlurChain'
+import { blurVertexShader } from '../../shaders/postprocess/blur.glsl'
+import { maskFragmentShader } from '../../shaders/postprocess/mask.glsl'
+import type { MaskGlowSettings, MaskSource } from '../masks'
+
+/** Sigma, as a fraction of the mask's shorter side, at glow radius 100 */
+const MAX_GLOW_SIGMA = 0.05
+/** Most texels of blur run at one pyramid level */
+const MAX_LEVEL_SIGMA = 4
+
+export class MaskPass extends ShaderPass {
+  readonly name = 'mask'
+  private chain = new BlurChain()
+  private texture: THREE.Texture | null = null
+  private glow: MaskGlowSettings | null = null
+  private textureSize = new THREE.Vector2()
+  private glowDirty: boolean = false
+
+  constructor() {
+    super(new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        tMask: { value: null },
+        tGlow: { value: null },
+        u_glowAmount: { value: 0 },
+        u_regionOffset: { value: new THREE.Vector2(0, 0) },
+        u_regionScale: { value: new THREE.Vector2(1, 1) }
+      },
+      vertexShader: blurVertexShader,
+      fragmentShader: maskFragmentShader
+    }), ['tGlow'])
+  }
+
+  /**
+   * Mask to clip to, or null for none. Passing the same canvas again
+   * re-uploads it, e.g. after redrawing it at a new size.
+   */
+  setSource(source: MaskSource | null): void {
+    if (!source) {
+      this.texture?.dispose()
+      this.texture = null
+    } else if (this.texture?.image === source && this.textureSize.equals({ x: source.width, y: source.height })) {
+      this.texture.needsUpdate = true
+    } else {
+      // A resized canvas needs fresh texture storage, not just a re-upload
+      this.texture?.dispose()
+      this.texture = new THREE.Texture(source)
+      this.texture.minFilter = THREE.LinearFilter
+      this.texture.generateMipmaps = false
+      this.texture.needsUpdate = true
+    }
+    this.material.uniforms.tMask.value = this.texture
+    if (source) {
+      this.textureSize.set(source.width, source.height)
+      this.chain.setSize(source.width, source.height)
+    }
+    this.glowDirty = true
+  }
+
+  /** Outer glow around the mask, null for none */
+  setGlow(glow: MaskGlowSettings | null): void {
+    if (glow?.amount === this.glow?.amount && glow?.radius === this.glow?.radius) return
+    this.glow = glow ? { ...glow } : null
+    this.material.uniforms.u_glowAmount.value = glow ? Math.max(glow.amount, 0) * 0.02 : 0
+    this.glowDirty = true
+    this.markChanged()
+  }
+
+  isEnabled(): boolean {
+    return this.texture !== null
+  }
+
+  setSize(width: number, height: number): void {
+    super.setSize(width, height)
+    // Resizes follow a lost context too, which takes the glow targets with it
+    this.glowDirty = true
+  }
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    target: THREE.WebGLRenderTarget | null,
+    time: number
+  ): void {
+    if (this.glowDirty) {
+      this.material.uniforms.tGlow.value = this.renderGlow(renderer)
+      this.glowDirty = false
+    }
+    super.render(renderer, input, target, time)
+  }
+
+  dispose(): void {
+    this.chain.dispose()
+    this.texture?.dispose()
+    super.dispose()
+  }
+
+  /** Blur the mask down the pyramid; the result stays in the chain's target */
+  private renderGlow(renderer: THREE.WebGLRenderer): THREE.Texture | null {
+    const texture = this.texture
+    if (!texture || !this.glow || this.glow.amount <= 0) return null
+
+    const { width, height } = texture.image as MaskSource
+    const radius = Math.min(Math.max(this.glow.radius, 0), 100) / 100
+    const sigma = Math.max(radius * MAX_GLOW_SIGMA * Math.min(width, height), 1)
+    const chain = this.chain
+    const level = chain.pickLevel(sigma, MAX_LEVEL_SIGMA)
+
+    let source: THREE.Texture = texture
+    for (let i = 1; i <= level; i++) {
+      source = chain.downsample(renderer, source, i).texture
+    }
+    const glowTarget = chain.getTarget(level)
+    chain.blur(renderer, source, level, chain.getLevelSigma(sigma, level), glowTarget)
+    return glowTarget.texture
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * OutputPass - exposure and tone mapping, driven by the `output` settings
+ *
+ * The engine installs it as the pipeline's output pass, so it always runs
+ * last. Off (and skipped) at 0 stops with no tone mapping.
+ */
+
+import * as THREE from 'three'
+import { ShaderPass } from './ShaderPass'
+import { outputVertexShader, outputFragmentShader } from '../../shaders/postprocess/output.glsl'
+import type { OutputSettings, ToneMappingOperator } from '@/types/gradient'
+
+const TONE_MAPPING_INDEX: Record<ToneMappingOperator, number> = {
+  none: 0,
+  aces: 1,
+  agx: 2,
+  reinhard: 3,
+}
+
+export class OutputPass extends ShaderPass {
+  readonly name = 'output'
+  private exposure: number = 0
+  private toneMapping: ToneMappingOperator = 'none'
+
+  constructor() {
+    super(new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        u_exposure: { value: 1 },
+        u_toneMapping: { value: 0 }
+      },
+      vertexShader: outputVertexShader,
+      fragmentShader: outputFragmentShader
+    }))
+  }
+
+  setSettings(settings: OutputSettings | undefined): void {
+    this.exposure = settings?.exposure ?? 0
+    this.toneMapping = settings?.toneMapping ?? 'none'
+    this.material.uniforms.u_exposure.value = 2 ** this.exposure
+    this.material.uniforms.u_toneMapping.value = TONE_MAPPING_INDEX[this.toneMapping] ?? 0
+  }
+
+  isEnabled(): boolean {
+    return this.exposure !== 0 || this.toneMapping !== 'none'
+  }
+}
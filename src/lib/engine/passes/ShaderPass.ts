@@ -0,0 +1,102 @@
+/**
+ * ShaderPass - base for full-screen shader post passes
+ *
+ * Owns a quad, scene and camera for its material. Materials must declare a
+ * `tDiffuse` sampler (the previous pass's output); a `u_resolution` vec2 is
+ * kept in sync with the render size when present. Under a render region it
+ * holds the full image's size instead, and `u_regionOffset`/`u_regionScale`
+ * vec2s, when declared, map vUv into the full image's UVs. Settings changes
+ * are found by diffing the material's uniforms between frames.
+ */
+
+import * as THREE from 'three'
+import type { PostPass, RenderRegion } from '../PostPipeline'
+import { UniformSnapshot } from '../uniformSnapshot'
+
+/** Per-frame inputs, not settings */
+const UNTRACKED_UNIFORMS = ['tDiffuse', 'u_resolution', 'u_time', 'u_regionOffset', 'u_regionScale']
+
+export abstract class ShaderPass implements PostPass {
+  abstract readonly name: string
+  protected material: THREE.ShaderMaterial
+  private scene: THREE.Scene
+  private camera: THREE.OrthographicCamera
+  private quad: THREE.Mesh
+  private snapshot: UniformSnapshot
+  private changed: boolean = true
+  private renderWidth: number = 1
+  private renderHeight: number = 1
+  private region: RenderRegion | null = null
+
+  /**
+   * @param untracked - Extra uniforms written per frame that consumeChanges() ignores
+   */
+  constructor(material: THREE.ShaderMaterial, untracked: string[] = []) {
+    this.material = material
+    this.snapshot = new UniformSnapshot([...UNTRACKED_UNIFORMS, ...untracked])
+    this.scene = new THREE.Scene()
+    this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material)
+    this.scene.add(this.quad)
+  }
+
+  abstract isEnabled(): boolean
+
+  consumeChanges(): boolean {
+    const changed = this.snapshot.update(this.material.uniforms) || this.changed
+    this.changed = false
+    return changed
+  }
+
+  /** Flag a change the uniforms don't show, e.g. a swapped material */
+  protected markChanged(): void {
+    this.changed = true
+  }
+
+  /** Per-frame uniform updates, called just before drawing */
+  protected beforeRender?(time: number): void
+
+  setSize(width: number, height: number): void {
+    this.renderWidth = width
+    this.renderHeight = height
+    this.updateRegionUniforms()
+  }
+
+  setRegion(region: RenderRegion | null): void {
+    this.region = region
+    this.updateRegionUniforms()
+  }
+
+  /** Full image size in pixels, the render size outside a render region */
+  protected getImageSize(): THREE.Vector2 {
+    return this.region
+      ? new THREE.Vector2(this.region.fullWidth, this.region.fullHeight)
+      : new THREE.Vector2(this.renderWidth, this.renderHeight)
+  }
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    target: THREE.WebGLRenderTarget | null,
+    time: number
+  ): void {
+    this.material.uniforms.tDiffuse.value = input
+    this.beforeRender?.(time)
+    renderer.setRenderTarget(target)
+    renderer.render(this.scene, this.camera)
+  }
+
+  private updateRegionUniforms(): void {
+    const { uniforms } = this.material
+    const image = this.getImageSize()
+    uniforms.u_resolution?.value.copy(image)
+    uniforms.u_regionOffset?.value.set((this.region?.x ?? 0) / image.x, (this.region?.y ?? 0) / image.y)
+    uniforms.u_regionScale?.value.set(this.renderWidth / image.x, this.renderHeight / image.y)
+  }
+
+  dispose(): void {
+    this.quad.geometry.dispose()
+    this.material.dispose()
+    this.scene.clear()
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * TypeCrossfadePass - blends a second gradient type over the main render
+ *
+ * Preset morphs between different gradient types can't interpolate the
+ * shader itself, so the quad is drawn again with the other type's material
+ * (sharing the engine's uniforms) and mixed in. Runs first in the pipeline
+ * so ASCII, Dot Matrix and Blur see the blended image.
+ */
+
+import * as THREE from 'three'
+import { ShaderPass } from './ShaderPass'
+import { createPassTarget } from '../PostPipeline'
+import { crossfadeVertexShader, crossfadeFragmentShader } from '../../shaders/postprocess/crossfade.glsl'
+import type { ShaderManager, GradientType } from '../ShaderManager'
+
+export class TypeCrossfadePass extends ShaderPass {
+  readonly name = 'typeCrossfade'
+  private shaderManager: ShaderManager
+  private gradientCamera: THREE.Camera
+  private otherScene: THREE.Scene
+  private otherQuad: THREE.Mesh
+  private otherType: GradientType | null = null
+  private otherMaterial: THREE.ShaderMaterial | null = null
+  private otherTarget: THREE.WebGLRenderTarget | null = null
+  private width: number = 0
+  private height: number = 0
+  private amount: number = 0
+  private hdr: boolean = false
+
+  constructor(shaderManager: ShaderManager, camera: THREE.Camera) {
+    super(new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffuse: { value: null },
+        tOther: { value: null },
+        u_mix: { value: 0 },
+      },
+      vertexShader: crossfadeVertexShader,
+      fragmentShader: crossfadeFragmentShader,
+    }), ['tOther'])
+    this.shaderManager = shaderManager
+    this.gradientCamera = camera
+    this.otherScene = new THREE.Scene()
+    this.otherQuad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2))
+    this.otherQuad.visible = false
+    this.otherScene.add(this.otherQuad)
+  }
+
+  /**
+   * Mix `type` over the main render by `amount` (0-1). Null turns the pass off.
+   */
+  setCrossfade(type: GradientType | null, amount: number): void {
+    this.amount = Math.min(Math.max(amount, 0), 1)
+    this.material.uniforms.u_mix.value = this.amount
+
+    if (type === this.otherType) return
+    this.otherType = type
+    this.markChanged()
+    this.otherMaterial?.dispose()
+    this.otherMaterial = type ? this.shaderManager.createTypeMaterial(type) : null
+    if (this.otherMaterial) this.otherQuad.material = this.otherMaterial
+    this.otherQuad.visible = this.otherMaterial !== null
+  }
+
+  isEnabled(): boolean {
+    return this.otherMaterial !== null && this.amount > 0
+  }
+
+  isTimeDependent(): boolean {
+    return this.otherType !== null && this.shaderManager.isTypeTimeDependent(this.otherType)
+  }
+
+  setSize(width: number, height: number): void {
+    super.setSize(width, height)
+    this.width = width
+    this.height = height
+    this.otherTarget?.dispose()
+    this.otherTarget = null
+  }
+
+  setHdr(hdr: boolean): void {
+    this.hdr = hdr
+    this.otherTarget?.dispose()
+    this.otherTarget = null
+  }
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    input: THREE.Texture,
+    target: THREE.WebGLRenderTarget | null,
+    time: number
+  ): void {
+    if (!this.otherTarget) {
+      this.otherTarget = createPassTarget(this.width, this.height, this.hdr)
+    }
+    renderer.setRenderTarget(this.otherTarget)
+    renderer.render(this.otherScene, this.gradientCamera)
+
+    this.material.uniforms.tOther.value = this.otherTarget.texture
+    super.render(renderer, input, target, time)
+  }
+
+  dispose(): void {
+    super.dispose()
+    this.otherQuad.geometry.dispose()
+    this.otherMaterial?.dispose()
+    this.otherMaterial = null
+    this.otherTarget?.dispose()
+    this.otherTarget = null
+    this.otherScene.clear()
+  }
+}
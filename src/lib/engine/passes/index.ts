@@ -0,0 +1,14 @@
+/**
+ * Built-in post-processing passes
+ */
+
+export { ShaderPass } from './ShaderPass'
+export { BlurChain } from './BlurChain'
+export { BlurPass } from './BlurPass'
+export { BloomPass } from './BloomPass'
+export { AsciiPass } from './AsciiPass'
+export { DotMatrixPass } from './DotMatrixPass'
+export { TypeCrossfadePass } from './TypeCrossfadePass'
+export { OutputPass } from './OutputPass'
+export { MaskPass } from './MaskPass'
+export { LayerStackPass } from './LayerStackPass'
@@ -0,0 +1,25 @@
+/**
+ * Keys of the posters in public/posters — written by scripts/bake-posters.mjs,
+ * don't edit. posterUrl() only points at these.
+ */
+
+export const BAKED_POSTER_KEYS: ReadonlySet<string> = new Set([
+  '0bf3073f',
+  '102da148',
+  '1c27a5f9',
+  '280cee8c',
+  '36d23161',
+  '38b117a4',
+  '393512dd',
+  '44c97128',
+  '482b208a',
+  '4fa70379',
+  '6a66f431',
+  '7901df62',
+  '7c29ddc4',
+  '813fc671',
+  '89cee54c',
+  'b544a898',
+  'c12e9f34',
+  'fc734962',
+])
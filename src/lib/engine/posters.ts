@@ -0,0 +1,38 @@
+/**
+ * Posters — low-resolution stills of presets, baked before dev and build by
+ * the CPU renderer (scripts/bake-posters.mjs) into public/posters.
+ *
+ * A poster's file name is a hash of the preset, so GradientPlane can find
+ * the still for whatever preset it's given. The bake lists the hashes it
+ * wrote in posterManifest.ts; presets built at runtime or edited since the
+ * last bake get no poster, and the fallback color shows instead.
+ */
+
+import type { GradientPresetData, GradientState } from '@/types/gradient'
+import { BAKED_POSTER_KEYS } from './posterManifest'
+
+/** Public URL directory the bake writes to */
+export const POSTER_DIR = '/posters'
+
+/** Baked poster size — 16:9, stretched to cover the plane */
+export const POSTER_WIDTH = 128
+export const POSTER_HEIGHT = 72
+
+/**
+ * Stable key for a preset: FNV-1a of its JSON, as 8 hex digits
+ */
+export function posterKey(preset: GradientPresetData | GradientState): string {
+  const json = JSON.stringify(preset)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/** The preset's baked poster, or null when it has none */
+export function posterUrl(preset: GradientPresetData | GradientState): string | null {
+  const key = posterKey(preset)
+  return BAKED_POSTER_KEYS.has(key) ? `${POSTER_DIR}/${key}.png` : null
+}
@@ -0,0 +1,183 @@
+/**
+ * Preset Interpolation
+ *
+ * Blends two complete GradientStates for morphs such as a Breath moving from
+ * the outgoing section's gradient to the incoming one's:
+ *
+ * - Color stops are resampled to a common count, then positions, alpha and
+ *   midpoints lerp and colors mix in OKLab
+ * - Numbers lerp (angles take the short way round), hex colors mix in OKLab
+ * - An effect, warp or material enabled on only one side fades its amount
+ *   in from zero instead of popping on
+ * - Enums, noise seeds and other switches flip at the halfway point
+ * - Meshes of the same size move and recolor point by point
+ *
+ * Gradient types can't be interpolated; the result keeps `to`'s type and
+ * applyPresetMorph() crossfades the two shaders instead.
+ */
+
+import { mixOklab } from './colorSpace'
+import type { BuiltinGradientType, ColorStop, GradientState, GradientType, MeshSettings } from '@/types/gradient'
+import { isBuiltinGradientType } from './gradientTypes'
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+/** Degree fields that wrap at 360 */
+const ANGLE_KEYS = new Set(['angle', 'hueShift'])
+
+/** Numbers that pick rather than measure — a seed between two draws an unrelated field */
+const STEPPED_KEYS = new Set(['seed'])
+
+/** Fields that make a group visually neutral at 0 */
+const STRENGTH_KEYS = ['amount', 'amplitude', 'intensity', 'brightness', 'contrast', 'saturation', 'hueShift']
+
+/** Per-type settings group, keyed by the built-in gradient type that reads it */
+const TYPE_SETTINGS: Record<BuiltinGradientType, keyof GradientState> = {
+  linear: 'linearSettings',
+  radial: 'radialSettings',
+  conic: 'conicSettings',
+  diamond: 'diamondSettings',
+  spiral: 'spiralSettings',
+  aurora: 'auroraSettings',
+  stripes: 'stripesSettings',
+  folded: 'foldedSettings',
+  reverb: 'reverbSettings',
+  mesh: 'meshSettings',
+  noise: 'noiseSettings',
+}
+
+type PlainObject = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+
+function lerpAngle(a: number, b: number, t: number): number {
+  const delta = ((((b - a) % 360) + 540) % 360) - 180
+  return a + delta * t
+}
+
+/** Copy of a disabled group with its strength fields at zero */
+function neutralized(group: PlainObject): PlainObject {
+  const copy: PlainObject = { ...group }
+  for (const key of STRENGTH_KEYS) {
+    if (typeof copy[key] === 'number') copy[key] = 0
+  }
+  return copy
+}
+
+function mixValue(a: unknown, b: unknown, t: number, key: string): unknown {
+  if (typeof a === 'number' && typeof b === 'number' && !STEPPED_KEYS.has(key)) {
+    return ANGLE_KEYS.has(key) ? lerpAngle(a, b, t) : lerp(a, b, t)
+  }
+  if (typeof a === 'string' && typeof b === 'string' && HEX_COLOR.test(a) && HEX_COLOR.test(b)) {
+    return mixOklab(a, b, t)
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return mixGroup(a, b, t)
+  }
+  return t < 0.5 ? a : b
+}
+
+/** Blend two groups of the same shape field by field; the result has `to`'s keys */
+function mixGroup<T extends object>(from: T, to: T, t: number): T {
+  const a = from as PlainObject
+  const b = to as PlainObject
+
+  // One side switched off: fade its strength from zero rather than popping on
+  if (typeof a.enabled === 'boolean' && typeof b.enabled === 'boolean' && a.enabled !== b.enabled
+    && STRENGTH_KEYS.some((key) => key in a)) {
+    const result = mixGroup(a.enabled ? a : neutralized(b), b.enabled ? b : neutralized(a), t)
+    result.enabled = true
+    return result as T
+  }
+
+  const result: PlainObject = {}
+  for (const key of Object.keys(b)) {
+    result[key] = key in a ? mixValue(a[key], b[key], t, key) : b[key]
+  }
+  return result as T
+}
+
+/**
+ * Sample `stops` at `count` evenly spaced points in stop-index space, so a
+ * short list can line up one-to-one with a longer one
+ */
+function resampleStops(stops: ColorStop[], count: number): ColorStop[] {
+  if (stops.length === count) return stops
+  if (stops.length === 1) return Array.from({ length: count }, () => ({ ...stops[0] }))
+
+  return Array.from({ length: count }, (_, i) => {
+    const index = (i * (stops.length - 1)) / (count - 1)
+    const lo = stops[Math.floor(index)]
+    const hi = stops[Math.ceil(index)]
+    const frac = index - Math.floor(index)
+    return {
+      id: String(i + 1),
+      color: mixOklab(lo.color, hi.color, frac),
+      position: lerp(lo.position, hi.position, frac),
+      alpha: lerp(lo.alpha ?? 1, hi.alpha ?? 1, frac),
+      midpoint: lo.midpoint,
+      easing: lo.easing,
+    }
+  })
+}
+
+function mixStops(from: ColorStop[], to: ColorStop[], t: number): ColorStop[] {
+  const byPosition = (a: ColorStop, b: ColorStop) => a.position - b.position
+  const count = Math.max(from.length, to.length)
+  const a = resampleStops([...from].sort(byPosition), count)
+  const b = resampleStops([...to].sort(byPosition), count)
+
+  return b.map((stop, i) => ({
+    id: stop.id,
+    color: mixOklab(a[i].color, stop.color, t),
+    position: lerp(a[i].position, stop.position, t),
+    alpha: lerp(a[i].alpha ?? 1, stop.alpha ?? 1, t),
+    midpoint: lerp(a[i].midpoint ?? 50, stop.midpoint ?? 50, t),
+    easing: t < 0.5 ? a[i].easing : stop.easing,
+  }))
+}
+
+/** Point by point when the grids match; otherwise the mesh flips halfway like other arrays */
+function mixMeshes(from: MeshSettings, to: MeshSettings, t: number): MeshSettings {
+  if (from.columns !== to.columns || from.rows !== to.rows || from.points.length !== to.points.length) {
+    return t < 0.5 ? from : to
+  }
+  const result = mixGroup(from, to, t)
+  result.points = to.points.map((point, i) => mixGroup(from.points[i], point, t))
+  return result
+}
+
+/**
+ * Blend two normalized states. t = 0 returns `from`'s values, 1 returns `to`'s.
+ */
+export function interpolatePresets(from: GradientState, to: GradientState, t: number): GradientState {
+  const amount = Math.min(Math.max(t, 0), 1)
+  const result = mixGroup(from, to, amount)
+
+  result.colorStops = mixStops(from.colorStops, to.colorStops, amount)
+  result.meshSettings = mixMeshes(from.meshSettings, to.meshSettings, amount)
+  result.gradientType = to.gradientType
+
+  // Across a type change each shader keeps its own side's settings
+  if (from.gradientType !== to.gradientType) {
+    keepTypeSettings(result, from, from.gradientType)
+    keepTypeSettings(result, to, to.gradientType)
+  }
+
+  return result
+}
+
+/** Put `source`'s settings for `type` back into `result` unblended */
+function keepTypeSettings(result: GradientState, source: GradientState, type: GradientType): void {
+  if (isBuiltinGradientType(type)) {
+    const key = TYPE_SETTINGS[type]
+    Object.assign(result, { [key]: source[key] })
+  } else {
+    // Registered types keep their settings under typeSettings[type]
+    result.typeSettings = { ...result.typeSettings, [type]: (source.typeSettings as Record<string, unknown>)[type] }
+  }
+}
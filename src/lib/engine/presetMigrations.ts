@@ -0,0 +1,124 @@
+/**
+ * Preset Migrations
+ *
+ * Upgrades stored presets to the current GradientState naming, one version
+ * at a time. Migrations only rename and reshape — they never fill defaults or
+ * drop unknown keys, so validation still sees everything the author wrote.
+ *
+ * Version history:
+ * - v1: GradientLab database format (`colors`, `warps`, `geometry.{type,effects}`,
+ *       wave/ripple `amount`, effect aliases `hueRotation`, `colored`, `opacity`)
+ * - v2: canonical GradientState field names
+ */
+
+export const CURRENT_PRESET_VERSION = 2
+
+type RawPreset = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is RawPreset {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Each entry upgrades a preset from its key version to the next one
+ */
+const MIGRATIONS: Record<number, (preset: RawPreset) => RawPreset> = {
+  1: migrateV1ToV2,
+}
+
+/**
+ * Work out which version a preset was written in. An explicit `version` wins;
+ * otherwise the field names give it away. Presets with no version-specific
+ * fields are treated as v1, which migrates them unchanged.
+ */
+export function detectPresetVersion(preset: RawPreset): number {
+  if (typeof preset.version === 'number') return preset.version
+  if ('colorStops' in preset || 'warp' in preset || 'geometryEffects' in preset) return 2
+  return 1
+}
+
+/**
+ * Bring a preset up to CURRENT_PRESET_VERSION. Returns a new object without
+ * the `version` key; the input is never modified.
+ */
+export function migratePreset(preset: RawPreset): RawPreset {
+  let version = detectPresetVersion(preset)
+  let result: RawPreset = { ...preset }
+  delete result.version
+
+  if (version > CURRENT_PRESET_VERSION) {
+    console.warn(`[presetMigrations] Preset version ${version} is newer than supported (${CURRENT_PRESET_VERSION})`)
+    return result
+  }
+
+  while (version < CURRENT_PRESET_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      console.warn(`[presetMigrations] No migration from version ${version}`)
+      break
+    }
+    result = migrate(result)
+    version++
+  }
+
+  return result
+}
+
+// ============================================================================
+// v1 → v2
+// ============================================================================
+
+function migrateV1ToV2(preset: RawPreset): RawPreset {
+  const { colors, warps, geometry, ...rest } = preset
+  const result: RawPreset = rest
+
+  if (colors !== undefined && !('colorStops' in result)) {
+    result.colorStops = colors
+  }
+
+  if (isPlainObject(warps)) {
+    const { isMuted, ...warpEntries } = warps
+    const warp: RawPreset = { ...warpEntries }
+    // Wave and ripple stored their strength as `amount`
+    renameNestedKey(warp, 'wave', 'amount', 'amplitude')
+    renameNestedKey(warp, 'ripple', 'amount', 'amplitude')
+    result.warp = warp
+    if (isMuted !== undefined) result.warpMuted = isMuted
+  } else if (warps !== undefined) {
+    result.warp = warps
+  }
+
+  if (isPlainObject(geometry)) {
+    // { type, effects, count, ... } → geometryType, geometryEffects, geometryCount, ...
+    for (const [key, value] of Object.entries(geometry)) {
+      const target = `geometry${key.charAt(0).toUpperCase()}${key.slice(1)}`
+      if (!(target in result)) result[target] = value
+    }
+  } else if (geometry !== undefined) {
+    result.geometry = geometry
+  }
+
+  if (isPlainObject(result.effects)) {
+    const effects: RawPreset = { ...result.effects }
+    renameNestedKey(effects, 'color', 'hueRotation', 'hueShift')
+    renameNestedKey(effects, 'scanlines', 'opacity', 'intensity')
+    if (isPlainObject(effects.grain) && 'colored' in effects.grain) {
+      const { colored, ...grain } = effects.grain
+      effects.grain = 'mono' in grain ? grain : { ...grain, mono: colored === false }
+    }
+    result.effects = effects
+  }
+
+  return result
+}
+
+/**
+ * Rename `from` to `to` on `parent[group]`, replacing the group with a copy.
+ * Keeps `to` when both keys are present.
+ */
+function renameNestedKey(parent: RawPreset, group: string, from: string, to: string): void {
+  const value = parent[group]
+  if (!isPlainObject(value) || !(from in value)) return
+  const { [from]: renamed, ...rest } = value
+  parent[group] = to in rest ? rest : { ...rest, [to]: renamed }
+}
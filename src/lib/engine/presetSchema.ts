@@ -0,0 +1,638 @@
+/**
+ * Preset Schema
+ *
+ * Runtime counterpart to GradientState. DEFAULT_GRADIENT_STATE doubles as the
+ * schema: every field's type and fallback value come from it, and the tables
+ * below add the ranges and allowed values documented in '@/types/gradient'.
+ * Registered gradient types (gradientTypes.ts) extend it at runtime: their
+ * names become valid `gradientType`s and their settings schemas describe
+ * `typeSettings[name]`.
+ *
+ * - validatePreset()  reports unknown, missing, mistyped and out-of-range fields
+ * - normalizePreset() migrates, fills defaults and returns a complete GradientState
+ * - muteWarps()       what a `warpMuted` preset's warps render as
+ *
+ * Both accept any preset version; paths in reported issues always use the
+ * current (v2) field names.
+ */
+
+import type {
+  GradientState,
+  GradientPresetData,
+  WarpState,
+  BlendEasing,
+  HuePath,
+  InterpolationSpace,
+  RepeatMode,
+  RadialShape,
+  BlendStyle,
+  FoldedStyle,
+  ReverbShape,
+  ReverbSpacing,
+  MeshInterpolation,
+  NoiseField,
+  WarpDirection,
+  ColumnPattern,
+  SurfaceType,
+  MaterialBlendMode,
+  AsciiPreset,
+  AsciiColorMode,
+  DotMatrixShape,
+  DotMatrixColorMode,
+  ToneMappingOperator,
+  AlphaMaskShape,
+} from '@/types/gradient'
+import { detectPresetVersion, migratePreset } from './presetMigrations'
+import { normalizeTimeline } from '@/lib/animation/timeline'
+import { createMeshPoints, MESH_MAX_SIZE } from './meshGradient'
+import { NOISE_MAX_OCTAVES } from './noiseField'
+import { getDefaultTypeSettings, getGradientTypePlugin, getGradientTypes, type CustomSettings } from './gradientTypes'
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_GRADIENT_STATE: GradientState = {
+  colorStops: [
+    { id: '1', color: '#6366F2', position: 0, alpha: 1, midpoint: 50, easing: null },
+    { id: '2', color: '#8C5CF5', position: 50, alpha: 1, midpoint: 50, easing: null },
+    { id: '3', color: '#D945F0', position: 100, alpha: 1, midpoint: 50, easing: null },
+  ],
+  gradientType: 'linear',
+  angle: 0,
+  centerX: 50,
+  centerY: 50,
+  gradientOffset: 0,
+  gradientScale: 1,
+  animColorSpread: 1,
+  colorCycle: 0,
+  gradientCenterX: 50,
+  gradientCenterY: 50,
+  innerRadius: 0,
+  outerRadius: 100,
+  conicOffset: 0,
+
+  blendOptions: {
+    hardStops: false, steps: 0, easing: 'linear', huePath: 'linear', interpolationSpace: 'linear-rgb',
+  },
+
+  linearSettings: { offsetX: 0, offsetY: 0, scale: 100, repeatMode: 'none' },
+  radialSettings: {
+    positionX: 50, positionY: 50, scaleX: 1, scaleY: 1, zoom: 100,
+    repeatMode: 'none', shape: 'circle', cornerRadius: 30, shapeAspect: 1,
+  },
+  conicSettings: { positionX: 50, positionY: 50, startAngle: 0, arc: 360, repeatCount: 1 },
+  diamondSettings: {
+    positionX: 50, positionY: 50, scaleX: 1, scaleY: 1, zoom: 100,
+    rotation: 0, repeatMode: 'none', blendStyle: 'normal',
+  },
+  spiralSettings: {
+    tightness: 5, direction: 'cw', decay: 0, positionX: 50, positionY: 50,
+    colorSpread: 1, armWidth: 0.5,
+  },
+  auroraSettings: {
+    waveCount: 4, flow: 50, softness: 60, verticalPosition: 50,
+    rotation: 0, spread: 50, intensity: 100, blend: 50,
+  },
+  stripesSettings: { stripeCount: 6, angle: 45, sharpness: 0.5, fade: 0, offset: 0 },
+  foldedSettings: {
+    foldCount: 6, foldAngle: 0, lightDirection: 45, softness: 0.5, depth: 50, style: 'accordion',
+  },
+  reverbSettings: {
+    shape: 'circle', rings: 8, spacing: 'tight', thickness: 0.5, zoom: 1,
+    decay: 0, blend: 0.2, positionX: 50, positionY: 50,
+  },
+  meshSettings: {
+    columns: 3, rows: 3, interpolation: 'bicubic',
+    points: createMeshPoints(3, 3, [
+      '#6366F2', '#8C5CF5', '#D945F0',
+      '#8C5CF5', '#D945F0', '#6366F2',
+      '#D945F0', '#6366F2', '#8C5CF5',
+    ]),
+  },
+  noiseSettings: {
+    field: 'fbm', scale: 3, octaves: 5, lacunarity: 2, gain: 0.5, seed: 0, speed: 0,
+  },
+  typeSettings: {},
+
+  geometryType: 'none',
+  geometryCount: 4,
+  geometryRows: 4,
+  geometryGap: 0,
+  geometryRotation: 0,
+  geometryJitter: 0,
+  geometryShadow: 0,
+  geometryRounded: false,
+  geometryOffset: 0,
+  geometryEffects: {
+    grid: {
+      enabled: false, tilesX: 4, tilesY: 4, refraction: 0, angle: 0, variation: 0,
+      meshBulge: 0, meshSkewX: 0, meshSkewY: 0, meshPerspective: 0, meshPerspectiveAngle: 0,
+      meshCurve: 0, meshCurveAxis: 0, meshWave: 0, meshWaveFreq: 2, meshWaveAngle: 0, meshTwist: 0,
+    },
+    columns: {
+      enabled: false, count: 6, offset: 0, angle: 0, perspective: 0, pattern: 'alternating',
+      meshBulge: 0, meshSkewX: 0, meshSkewY: 0, meshCurve: 0, meshCurveAxis: 0,
+      meshWave: 0, meshWaveFreq: 2, meshWaveAngle: 0, meshTwist: 0,
+    },
+    depth: {
+      enabled: false, amount: 0, centerX: 50, centerY: 50, falloff: 50, shading: false,
+      surfaceType: 'sphere', surfaceWave: 0, waveScale: 2,
+    },
+  },
+
+  warp: {
+    bend: { enabled: false, amount: 0, axis: 0, pinch: 0 },
+    twist: { enabled: false, amount: 0, radius: 1, centerX: 50, centerY: 50 },
+    sphere: { enabled: false, amount: 0, radius: 0.7, centerX: 50, centerY: 50 },
+    wave: { enabled: false, amplitude: 0, frequency: 3, direction: 'horizontal', rotation: 0 },
+    bulge: { enabled: false, amount: 0, radius: 0.5, centerX: 50, centerY: 50 },
+    ripple: {
+      enabled: false, amplitude: 0, frequency: 5, centerX: 50, centerY: 50, decay: 50, rotation: 0,
+    },
+    domainWarp: {
+      enabled: false, amount: 0, scale: 2, octaves: 4, lacunarity: 2, gain: 0.5, seed: 0, speed: 0,
+    },
+    blur: { enabled: false, amount: 0 },
+  },
+  warpMuted: false,
+  savedWarpStates: null,
+
+  isAnimating: false,
+  animationSpeed: 1,
+  animationTarget: 'all',
+  _animationOverrides: null,
+  timeline: null,
+
+  materials: {
+    iridescent: { enabled: false, intensity: 0, scale: 1, shift: 0, blendMode: 'normal' },
+    metallic: { enabled: false, intensity: 0, highlight: 50, contrast: 50, blendMode: 'normal' },
+    holographic: { enabled: false, intensity: 0, density: 50, angle: 45, blendMode: 'normal' },
+    velvet: { enabled: false, intensity: 0, depth: 50, glow: 30, blendMode: 'normal' },
+  },
+
+  effects: {
+    color: { enabled: false, brightness: 0, contrast: 0, saturation: 0, hueShift: 0 },
+    glow: { enabled: false, amount: 0, threshold: 50, radius: 20 },
+    chromatic: { enabled: false, amount: 0, angle: 0 },
+    vignette: { enabled: false, amount: 0, softness: 50, roundness: 50, invert: false },
+    posterize: { enabled: false, levels: 8 },
+    grain: { enabled: false, amount: 0, size: 1, mono: false },
+    dither: { enabled: false, amount: 0 },
+    halftone: { enabled: false, intensity: 50, scale: 50, softness: 50 },
+    scanlines: { enabled: false, intensity: 20, density: 10 },
+    pixelate: { enabled: false, size: 4 },
+    ascii: {
+      enabled: false,
+      characters: 'GradientLab',
+      preset: 'custom',
+      density: 80,
+      colorMode: 'colored',
+      monoColor: '#ffffff',
+      backgroundColor: '#0a0a0a',
+      invert: false,
+      lockGrid: false,
+      rotation: 0,
+      lineHeight: 100,
+      letterSpacing: 100,
+      shadow: { enabled: false, color: '#000000', offsetX: 2, offsetY: 2, blur: 0 },
+      glow: { enabled: false, amount: 50, radius: 30 },
+      perspective: { enabled: false, tiltX: 0, tiltY: 0 },
+      edge: { enabled: false, threshold: 50 },
+      customFont: null,
+      customFontName: null,
+    },
+    dotMatrix: {
+      enabled: false,
+      shape: 'circle',
+      density: 60,
+      sizeMin: 10,
+      sizeMax: 100,
+      colorMode: 'colored',
+      monoColor: '#ffffff',
+      duotoneDark: '#0a0a0a',
+      duotoneLight: '#ffffff',
+      backgroundColor: '#0a0a0a',
+      softness: 0,
+      invert: false,
+      lockGrid: false,
+      gap: 0,
+      texture: 0,
+      perspective: { enabled: false, tiltX: 0, tiltY: 0 },
+    },
+  },
+
+  output: { hdr: false, exposure: 0, toneMapping: 'none' },
+
+  canvasWidth: 1920,
+  canvasHeight: 1080,
+  backgroundColor: '#00000000',
+  alphaMask: {
+    enabled: false, shape: 'radial', angle: 0, centerX: 50, centerY: 50, start: 50, end: 100, invert: false,
+  },
+  name: '',
+}
+
+// ============================================================================
+// Constraints
+// ============================================================================
+
+const REPEAT_MODES: readonly RepeatMode[] = ['none', 'repeat', 'mirror']
+const MATERIAL_BLEND_MODES: readonly MaterialBlendMode[] = [
+  'normal', 'screen', 'overlay', 'multiply', 'soft-light', 'hard-light',
+  'color-dodge', 'color-burn', 'lighten', 'darken',
+]
+const BLEND_EASINGS: readonly BlendEasing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'bounce']
+
+/** Allowed values for string-union fields, keyed by path */
+const FIELD_ENUMS: Record<string, readonly string[]> = {
+  'colorStops.*.easing': BLEND_EASINGS,
+  'blendOptions.easing': BLEND_EASINGS,
+  'blendOptions.huePath': ['linear', 'short', 'long'] satisfies HuePath[],
+  'blendOptions.interpolationSpace': [
+    'srgb', 'linear-rgb', 'oklab', 'oklch', 'hsl',
+  ] satisfies InterpolationSpace[],
+  'linearSettings.repeatMode': REPEAT_MODES,
+  'radialSettings.repeatMode': REPEAT_MODES,
+  'radialSettings.shape': ['circle', 'roundedRect', 'squircle', 'pill'] satisfies RadialShape[],
+  'diamondSettings.repeatMode': REPEAT_MODES,
+  'diamondSettings.blendStyle': ['normal', 'soft', 'vivid'] satisfies BlendStyle[],
+  'spiralSettings.direction': ['cw', 'ccw'],
+  'foldedSettings.style': ['accordion', 'waves', 'zigzag'] satisfies FoldedStyle[],
+  'reverbSettings.shape': [
+    'circle', 'square', 'triangle', 'hexagon', 'star', 'diamond', 'heart',
+  ] satisfies ReverbShape[],
+  'reverbSettings.spacing': ['tight', 'medium', 'wide', 'sparse'] satisfies ReverbSpacing[],
+  'meshSettings.interpolation': ['bicubic', 'coons'] satisfies MeshInterpolation[],
+  'noiseSettings.field': ['fbm', 'simplex', 'curl'] satisfies NoiseField[],
+  geometryType: ['none', 'grid', 'verticalStripes', 'horizontalBars', 'diagonalStripes'],
+  'geometryEffects.columns.pattern': ['alternating', 'progressive', 'wave'] satisfies ColumnPattern[],
+  'geometryEffects.depth.surfaceType': ['sphere', 'cylinder', 'saddle'] satisfies SurfaceType[],
+  'warp.wave.direction': ['horizontal', 'vertical', 'diagonal'] satisfies WarpDirection[],
+  animationTarget: ['warp', 'colors', 'geometry', 'all'],
+  'materials.iridescent.blendMode': MATERIAL_BLEND_MODES,
+  'materials.metallic.blendMode': MATERIAL_BLEND_MODES,
+  'materials.holographic.blendMode': MATERIAL_BLEND_MODES,
+  'materials.velvet.blendMode': MATERIAL_BLEND_MODES,
+  'effects.ascii.preset': [
+    'custom', 'classic', 'minimal', 'blocks', 'binary', 'braille',
+  ] satisfies AsciiPreset[],
+  'effects.ascii.colorMode': ['colored', 'mono'] satisfies AsciiColorMode[],
+  'effects.dotMatrix.shape': ['circle', 'square', 'diamond'] satisfies DotMatrixShape[],
+  'effects.dotMatrix.colorMode': ['colored', 'mono', 'duotone'] satisfies DotMatrixColorMode[],
+  'output.toneMapping': ['none', 'aces', 'agx', 'reinhard'] satisfies ToneMappingOperator[],
+  'alphaMask.shape': ['linear', 'radial'] satisfies AlphaMaskShape[],
+}
+
+/** Inclusive numeric ranges, keyed by path (`*` matches an array index) */
+const FIELD_RANGES: Record<string, readonly [number, number]> = {
+  'colorStops.*.position': [0, 100],
+  'colorStops.*.alpha': [0, 1],
+  'colorStops.*.midpoint': [1, 99],
+  'meshSettings.columns': [2, MESH_MAX_SIZE],
+  'meshSettings.rows': [2, MESH_MAX_SIZE],
+  'noiseSettings.scale': [0.1, 20],
+  'noiseSettings.octaves': [1, NOISE_MAX_OCTAVES],
+  'noiseSettings.lacunarity': [1, 4],
+  'noiseSettings.gain': [0, 1],
+  'warp.domainWarp.amount': [0, 100],
+  'warp.domainWarp.scale': [0.1, 20],
+  'warp.domainWarp.octaves': [1, NOISE_MAX_OCTAVES],
+  'warp.domainWarp.lacunarity': [1, 4],
+  'warp.domainWarp.gain': [0, 1],
+  'effects.color.brightness': [-100, 100],
+  'effects.color.contrast': [-100, 100],
+  'effects.color.saturation': [-100, 100],
+  'effects.color.hueShift': [0, 360],
+  'effects.glow.amount': [0, 100],
+  'effects.glow.threshold': [0, 100],
+  'effects.glow.radius': [0, 100],
+  'effects.chromatic.amount': [0, 100],
+  'effects.chromatic.angle': [0, 360],
+  'effects.vignette.amount': [0, 100],
+  'effects.vignette.softness': [0, 100],
+  'effects.vignette.roundness': [0, 100],
+  'effects.posterize.levels': [2, 32],
+  'effects.grain.amount': [0, 100],
+  'effects.grain.size': [1, 5],
+  'effects.dither.amount': [0, 100],
+  'effects.halftone.intensity': [0, 100],
+  'effects.halftone.scale': [20, 80],
+  'effects.halftone.softness': [0, 100],
+  'effects.scanlines.intensity': [0, 100],
+  'effects.scanlines.density': [1, 20],
+  'effects.pixelate.size': [1, 100],
+  'output.exposure': [-5, 5],
+  'alphaMask.angle': [0, 360],
+  'alphaMask.centerX': [0, 100],
+  'alphaMask.centerY': [0, 100],
+  'alphaMask.start': [0, 100],
+  'alphaMask.end': [0, 100],
+}
+
+/** Fields whose default is null — the value is either null or of this kind */
+const NULLABLE_FIELDS: Record<string, 'string' | 'object'> = {
+  savedWarpStates: 'object',
+  _animationOverrides: 'object',
+  timeline: 'object',
+  'colorStops.*.easing': 'string',
+  'meshSettings.points.*.handles': 'object',
+  'effects.ascii.customFont': 'string',
+  'effects.ascii.customFontName': 'string',
+}
+
+/** Schema of `typeSettings.<type>.<setting>`, for a registered type */
+function typeSettingSchema(key: string) {
+  const match = /^typeSettings\.([^.]+)\.([^.]+)$/.exec(key)
+  return match ? getGradientTypePlugin(match[1])?.settings[match[2]] : undefined
+}
+
+/** Allowed values at a schema key, registered gradient types included */
+function fieldEnum(key: string): readonly string[] | undefined {
+  if (key === 'gradientType') return getGradientTypes()
+  const setting = typeSettingSchema(key)
+  return setting && 'options' in setting ? setting.options : FIELD_ENUMS[key]
+}
+
+/** Inclusive range at a schema key, registered types' settings included */
+function fieldRange(key: string): readonly [number, number] | undefined {
+  const setting = typeSettingSchema(key)
+  if (setting && ('min' in setting || 'max' in setting)) {
+    return [setting.min ?? -Infinity, setting.max ?? Infinity]
+  }
+  return FIELD_RANGES[key]
+}
+
+/** DEFAULT_GRADIENT_STATE with every registered type's settings at their defaults */
+function getSchemaTemplate(): GradientState {
+  const typeSettings: Record<string, CustomSettings> = {}
+  for (const type of getGradientTypes()) {
+    const plugin = getGradientTypePlugin(type)
+    if (plugin) typeSettings[type] = getDefaultTypeSettings(plugin)
+  }
+  return { ...DEFAULT_GRADIENT_STATE, typeSettings }
+}
+
+/** Top-level fields a preset must always provide */
+const REQUIRED_FIELDS = ['gradientType', 'colorStops']
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export type PresetIssueKind = 'unknown' | 'missing' | 'type' | 'range'
+
+export interface PresetIssue {
+  path: string
+  kind: PresetIssueKind
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface PresetValidationResult {
+  /** False when any issue is an error (missing fields are only warnings) */
+  valid: boolean
+  /** Version the preset was authored in, before migration */
+  version: number
+  issues: PresetIssue[]
+}
+
+type PlainObject = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function joinPath(parent: string, key: string | number): string {
+  return parent ? `${parent}.${key}` : String(key)
+}
+
+function schemaKey(path: string): string {
+  return path.replace(/\.\d+(?=\.|$)/g, '.*')
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+/**
+ * Validate a preset of any version against the GradientState schema.
+ *
+ * Missing fields are only reported where they matter: the required top-level
+ * fields, array items, and groups that are present and enabled (or have no
+ * `enabled` switch). An omitted group simply falls back to its defaults.
+ */
+export function validatePreset(preset: unknown): PresetValidationResult {
+  const issues: PresetIssue[] = []
+  const report = (path: string, kind: PresetIssueKind, message: string) => {
+    issues.push({ path, kind, severity: kind === 'missing' ? 'warning' : 'error', message })
+  }
+
+  if (!isPlainObject(preset)) {
+    report('', 'type', `Preset must be an object, got ${describe(preset)}`)
+    return { valid: false, version: 0, issues }
+  }
+
+  const version = detectPresetVersion(preset)
+  const migrated = migratePreset(preset)
+
+  for (const key of REQUIRED_FIELDS) {
+    if (!(key in migrated)) report(key, 'missing', `Required field "${key}" is missing`)
+  }
+
+  const stops = migrated.colorStops
+  if (Array.isArray(stops) && stops.length === 0) {
+    report('colorStops', 'range', 'Expected at least 1 color stop, got 0')
+  }
+
+  const mesh = migrated.meshSettings
+  if (isPlainObject(mesh) && Array.isArray(mesh.points) &&
+    typeof mesh.columns === 'number' && typeof mesh.rows === 'number' &&
+    mesh.points.length !== mesh.columns * mesh.rows) {
+    report(
+      'meshSettings.points',
+      'range',
+      `Expected ${mesh.columns * mesh.rows} points for a ${mesh.columns}×${mesh.rows} mesh, got ${mesh.points.length}`
+    )
+  }
+
+  validateNode(migrated, getSchemaTemplate(), '', report)
+
+  if (isPlainObject(migrated.timeline) && !normalizeTimeline(migrated.timeline)) {
+    report('timeline', 'type', 'Timeline has no track with a valid keyframe')
+  }
+
+  return {
+    valid: issues.every((issue) => issue.severity !== 'error'),
+    version,
+    issues,
+  }
+}
+
+function validateNode(
+  value: unknown,
+  template: unknown,
+  path: string,
+  report: (path: string, kind: PresetIssueKind, message: string) => void
+): void {
+  const nullable = NULLABLE_FIELDS[schemaKey(path)]
+  if (nullable) {
+    const ok = value === null || (nullable === 'object' ? isPlainObject(value) : typeof value === nullable)
+    const allowed = fieldEnum(schemaKey(path))
+    if (!ok) report(path, 'type', `Expected ${nullable} or null, got ${describe(value)}`)
+    else if (typeof value === 'string' && allowed && !allowed.includes(value)) {
+      report(path, 'range', `"${value}" is not one of ${allowed.join(', ')}`)
+    }
+    return
+  }
+
+  if (Array.isArray(template)) {
+    if (!Array.isArray(value)) {
+      report(path, 'type', `Expected array, got ${describe(value)}`)
+      return
+    }
+    value.forEach((item, i) => {
+      const itemPath = joinPath(path, i)
+      validateNode(item, template[0], itemPath, report)
+      if (isPlainObject(item)) reportMissing(item, template[0] as PlainObject, itemPath, report)
+    })
+    return
+  }
+
+  if (isPlainObject(template)) {
+    if (!isPlainObject(value)) {
+      report(path, 'type', `Expected object, got ${describe(value)}`)
+      return
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = joinPath(path, key)
+      if (!(key in template)) {
+        report(childPath, 'unknown', `Unknown field "${childPath}"`)
+        continue
+      }
+      validateNode(child, template[key], childPath, report)
+    }
+    // Nested groups only — the root's required fields are checked separately
+    if (path && (!('enabled' in template) || value.enabled === true)) {
+      reportMissing(value, template, path, report)
+    }
+    return
+  }
+
+  if (typeof value !== typeof template || (typeof value === 'number' && !Number.isFinite(value))) {
+    report(path, 'type', `Expected ${typeof template}, got ${describe(value)}`)
+    return
+  }
+
+  const key = schemaKey(path)
+  if (typeof value === 'number') {
+    const range = fieldRange(key)
+    if (range && (value < range[0] || value > range[1])) {
+      report(path, 'range', `${value} is outside ${range[0]} to ${range[1]}`)
+    }
+  } else if (typeof value === 'string') {
+    const allowed = fieldEnum(key)
+    if (allowed && !allowed.includes(value)) {
+      report(path, 'range', `"${value}" is not one of ${allowed.join(', ')}`)
+    } else if ((template as string).startsWith('#') && !HEX_COLOR.test(value)) {
+      report(path, 'type', `"${value}" is not a hex color`)
+    }
+  }
+}
+
+/** Report missing leaf fields — whole sub-groups may be omitted */
+function reportMissing(
+  value: PlainObject,
+  template: PlainObject,
+  path: string,
+  report: (path: string, kind: PresetIssueKind, message: string) => void
+): void {
+  for (const [key, child] of Object.entries(template)) {
+    if (key in value || isPlainObject(child) || Array.isArray(child)) continue
+    const childPath = joinPath(path, key)
+    report(childPath, 'missing', `"${childPath}" is missing, using default ${JSON.stringify(child)}`)
+  }
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Migrate a preset to the current version and fill every missing field from
+ * DEFAULT_GRADIENT_STATE. Unknown fields are dropped, mistyped or unrecognised
+ * values fall back to their default, and numbers are clamped to their range.
+ * Never throws — run validatePreset() to find out what was repaired.
+ */
+export function normalizePreset(preset: GradientPresetData | GradientState): GradientState {
+  const migrated = isPlainObject(preset) ? migratePreset(preset) : {}
+  const state = normalizeNode(migrated, getSchemaTemplate(), '') as GradientState
+
+  if (state.colorStops.length === 0) {
+    state.colorStops = normalizeNode(undefined, DEFAULT_GRADIENT_STATE.colorStops, 'colorStops') as GradientState['colorStops']
+  }
+  state.timeline = normalizeTimeline(state.timeline)
+
+  return state
+}
+
+/**
+ * Every warp disabled without losing its settings — what the renderers
+ * apply when a state has `warpMuted` set
+ */
+export function muteWarps(warp: WarpState): WarpState {
+  return {
+    bend: { ...warp.bend, enabled: false },
+    twist: { ...warp.twist, enabled: false },
+    sphere: { ...warp.sphere, enabled: false },
+    wave: { ...warp.wave, enabled: false },
+    bulge: { ...warp.bulge, enabled: false },
+    ripple: { ...warp.ripple, enabled: false },
+    domainWarp: { ...warp.domainWarp, enabled: false },
+    blur: { ...warp.blur, enabled: false },
+  }
+}
+
+function normalizeNode(value: unknown, template: unknown, path: string): unknown {
+  const nullable = NULLABLE_FIELDS[schemaKey(path)]
+  if (nullable) {
+    const ok = nullable === 'object' ? isPlainObject(value) : typeof value === nullable
+    const allowed = fieldEnum(schemaKey(path))
+    return ok && !(typeof value === 'string' && allowed && !allowed.includes(value)) ? value : null
+  }
+
+  if (Array.isArray(template)) {
+    if (!Array.isArray(value)) {
+      return template.map((item, i) => normalizeNode(undefined, item, joinPath(path, i)))
+    }
+    return value.map((item, i) => normalizeNode(item, template[0], joinPath(path, i)))
+  }
+
+  if (isPlainObject(template)) {
+    const source = isPlainObject(value) ? value : {}
+    const result: PlainObject = {}
+    for (const [key, child] of Object.entries(template)) {
+      result[key] = normalizeNode(source[key], child, joinPath(path, key))
+    }
+    return result
+  }
+
+  if (typeof value !== typeof template) return template
+
+  const key = schemaKey(path)
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return template
+    const range = fieldRange(key)
+    return range ? Math.min(range[1], Math.max(range[0], value)) : value
+  }
+  if (typeof value === 'string') {
+    const allowed = fieldEnum(key)
+    if (allowed && !allowed.includes(value)) return template
+    if ((template as string).startsWith('#') && !HEX_COLOR.test(value)) return template
+  }
+  return value
+}
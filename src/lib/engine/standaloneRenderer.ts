@@ -1,82 +1,47 @@
 /**
  * StandaloneGradientRenderer
  * 
- * Renders gradients from GradientState data without requiring the editor canvas.
+ * Renders gradients from GradientState or preset data without requiring the editor canvas.
  * Used for exporting from library, dashboard, and public share pages.
  * 
  * IMPORTANT: This must apply ALL effects exactly as the editor does:
- * - Gradient type and type-specific settings
+ * - Gradient type and type-specific settings, registered types included
  * - Colors and blend options
- * - Warps (bend, wave, ripple, twist, sphere, bulge, blur)
+ * - Warps (bend, wave, ripple, twist, sphere, bulge, domain warp, blur)
  * - Materials (iridescent, metallic, holographic, velvet)
  * - Effects (color, glow, chromatic, vignette, posterize, grain, dither, halftone, scanlines, pixelate)
  * - Geometry effects (grid, columns, depth)
+ * - Output (exposure, tone mapping, HDR targets)
+ * - Transparency (alpha mask, background color) — kept in PNG and WebP
  */
 
 import { GradientEngine } from './GradientEngine'
-import type {
-  WarpState,
-  MaterialState,
-  EffectsState,
-  GeometryEffectsState,
-  BendWarpSettings,
-  TwistWarpSettings,
-  SphereWarpSettings,
-  WaveWarpSettings,
-  BulgeWarpSettings,
-  RippleWarpSettings,
-  WarpBlurSettings,
-  IridescentSettings,
-  MetallicSettings,
-  HolographicSettings,
-  VelvetSettings,
-  ColorAdjustmentSettings,
-  GlowSettings,
-  ChromaticAberrationSettings,
-  VignetteSettings,
-  PosterizeSettings,
-  GrainSettings,
-  DitherSettings,
-  HalftoneSettings,
-  ScanlinesSettings,
-  PixelateSettings,
-  AsciiSettings,
-  DotMatrixSettings,
-  GridRefractionSettings,
-  ColumnRefractionSettings,
-  DepthSettings,
-  LinearSettings,
-  RadialSettings,
-  ConicSettings,
-  DiamondSettings,
-  SpiralSettings,
-  AuroraSettings,
-  StripesSettings,
-  FoldedSettings,
-  ReverbSettings,
-  BlendOptions,
-} from '@/types/gradient'
+import { muteWarps, normalizePreset, validatePreset } from './presetSchema'
+import { interpolatePresets } from './presetInterpolation'
+import { getTypeSettings } from './gradientTypes'
+import type { LayerSettings } from './GradientLayer'
+import type { GradientState, GradientPresetData } from '@/types/gradient'
 
 /**
- * DatabaseGradientState is a loose type for gradient data that may come from
- * database storage or preset definitions. Uses `any`-style access patterns
- * because field names may differ between versions.
+ * Anything the renderer accepts: a stored/authored preset of any version,
+ * or a complete GradientState from the editor.
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type DatabaseGradientState = any
+type PresetInput = GradientPresetData | GradientState
 
 interface RenderOptions {
   width: number
   height: number
   format?: 'png' | 'jpg' | 'webp'
   quality?: number
+  /** Gradients stacked over `state` — see GradientEngine.setLayers() */
+  layers?: LayerSettings[]
 }
 
 /**
  * Renders a gradient state to a Blob image
  */
 export async function renderGradientToBlob(
-  state: DatabaseGradientState,
+  state: PresetInput,
   options: RenderOptions
 ): Promise<Blob> {
   const { width, height, format = 'png', quality = 0.92 } = options
@@ -104,6 +69,7 @@ export async function renderGradientToBlob(
     
     // Apply ALL state to the engine - be meticulous!
     applyFullStateToEngine(engine, state)
+    if (options.layers) engine.setLayers(options.layers)
     
     // Set the render target size - this also sets the aspect ratio uniform
     engine.handleResize(width, height)
@@ -113,26 +79,12 @@ export async function renderGradientToBlob(
     
     // Read pixels from WebGL context and draw to a 2D canvas
     // This ensures we can properly export the WebGL content
-    const gl = engine.getRenderer().getContext() as WebGL2RenderingContext
-    const pixels = new Uint8Array(width * height * 4)
-    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels)
-    
-    // Create a 2D canvas and flip the pixels (WebGL is bottom-to-top)
     const canvas2d = document.createElement('canvas')
     canvas2d.width = width
     canvas2d.height = height
     const ctx = canvas2d.getContext('2d')!
     
-    // Flip vertically when creating ImageData
-    const flipped = new Uint8ClampedArray(width * height * 4)
-    for (let y = 0; y < height; y++) {
-      const srcRow = (height - y - 1) * width * 4
-      const dstRow = y * width * 4
-      for (let x = 0; x < width * 4; x++) {
-        flipped[dstRow + x] = pixels[srcRow + x]
-      }
-    }
-    
+    const flipped = readEnginePixels(engine, width, height)
     const imageData = new ImageData(flipped, width, height)
     ctx.putImageData(imageData, 0, 0)
     
@@ -153,11 +105,40 @@ export async function renderGradientToBlob(
   }
 }
 
+/**
+ * Read the engine's last rendered frame as top-down, straight-alpha RGBA
+ * (WebGL's readPixels returns premultiplied rows bottom-to-top)
+ */
+export function readEnginePixels(
+  engine: GradientEngine,
+  width: number,
+  height: number
+): Uint8ClampedArray<ArrayBuffer> {
+  const gl = engine.getRenderer().getContext() as WebGL2RenderingContext
+  const pixels = new Uint8Array(width * height * 4)
+  gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels)
+  
+  const flipped = new Uint8ClampedArray(width * height * 4)
+  const rowBytes = width * 4
+  for (let y = 0; y < height; y++) {
+    const srcRow = (height - y - 1) * rowBytes
+    flipped.set(pixels.subarray(srcRow, srcRow + rowBytes), y * rowBytes)
+  }
+  for (let i = 0; i < flipped.length; i += 4) {
+    const alpha = flipped[i + 3]
+    if (alpha === 0 || alpha === 255) continue
+    flipped[i] = flipped[i] * 255 / alpha
+    flipped[i + 1] = flipped[i + 1] * 255 / alpha
+    flipped[i + 2] = flipped[i + 2] * 255 / alpha
+  }
+  return flipped
+}
+
 /**
  * Renders a gradient state to a data URL
  */
 export async function renderGradientToDataURL(
-  state: DatabaseGradientState,
+  state: PresetInput,
   options: RenderOptions
 ): Promise<string> {
   const blob = await renderGradientToBlob(state, options)
@@ -173,7 +154,7 @@ export async function renderGradientToDataURL(
  * Renders a gradient and triggers download
  */
 export async function renderAndDownloadGradient(
-  state: DatabaseGradientState,
+  state: PresetInput,
   options: RenderOptions & { filename: string }
 ): Promise<void> {
   const { filename, ...renderOptions } = options
@@ -193,509 +174,183 @@ export async function renderAndDownloadGradient(
 }
 
 /**
- * Apply FULL database GradientState to the engine
- * This is the critical function that must map ALL settings correctly
+ * Apply a full preset (any version) to the engine
+ * The preset is migrated and normalized first, so every setter receives a
+ * complete settings object — missing fields fall back to DEFAULT_GRADIENT_STATE.
  * Exported for use by ThumbnailPreview and other components
  */
-export function applyFullStateToEngine(engine: GradientEngine, state: DatabaseGradientState): void {
+export function applyFullStateToEngine(engine: GradientEngine, preset: PresetInput): void {
+  if (process.env.NODE_ENV !== 'production') {
+    reportPresetIssues(preset)
+  }
+
+  applyStateToEngine(engine, normalizePreset(preset))
+  engine.setTypeCrossfade(null)
+}
+
+/**
+ * Apply the blend of two presets at `progress` (0 = from, 1 = to).
+ * When the gradient types differ, `from`'s type is crossfaded over `to`'s.
+ * Normalized presets are cached per object, so this is cheap to call every frame.
+ */
+export function applyPresetMorph(
+  engine: GradientEngine,
+  from: PresetInput,
+  to: PresetInput,
+  progress: number
+): GradientState {
+  const fromState = normalizeCached(from)
+  const toState = normalizeCached(to)
+  const state = interpolatePresets(fromState, toState, progress)
+
+  applyStateToEngine(engine, state)
+
+  if (fromState.gradientType !== toState.gradientType) {
+    // The crossfaded shader reads its own type's settings
+    applyGradientTypeSettings(engine, { ...state, gradientType: fromState.gradientType })
+    engine.setTypeCrossfade(fromState.gradientType, 1 - Math.min(Math.max(progress, 0), 1))
+  } else {
+    engine.setTypeCrossfade(null)
+  }
+  return state
+}
+
+const normalizedPresets = new WeakMap<object, GradientState>()
+
+function normalizeCached(preset: PresetInput): GradientState {
+  let state = normalizedPresets.get(preset)
+  if (!state) {
+    if (process.env.NODE_ENV !== 'production') {
+      reportPresetIssues(preset)
+    }
+    state = normalizePreset(preset)
+    normalizedPresets.set(preset, state)
+  }
+  return state
+}
+
+/**
+ * Push a normalized state through every engine setter
+ */
+function applyStateToEngine(engine: GradientEngine, state: GradientState): void {
   // 1. Set gradient type FIRST (this creates the correct shader)
   engine.setGradientType(state.gradientType)
   
   // 2. Set colors
-  if (state.colors && state.colors.length > 0) {
-    engine.setColorStops(state.colors)
-  }
+  engine.setColorStops(state.colorStops)
   
   // 3. Set angle
-  engine.setAngle(state.angle ?? 0)
+  engine.setAngle(state.angle)
   
   // 4. Apply gradient-type-specific settings
   applyGradientTypeSettings(engine, state)
   
-  // 5. Apply warps (CRITICAL - must handle all warp types)
-  applyWarpSettings(engine, state)
+  // 5. Apply warps - muting disables every warp without losing its settings
+  const warp = state.warpMuted ? muteWarps(state.warp) : state.warp
+  engine.setWarpSettings(warp)
   
-  // 6. Apply materials (CRITICAL - must handle all material types)
-  applyMaterialSettings(engine, state)
+  // 6. Apply materials
+  engine.setMaterialSettings(state.materials)
   
   // 7. Apply effects (post-processing)
-  applyEffectsSettings(engine, state)
+  engine.setEffectsSettings(state.effects)
   
   // 8. Apply geometry effects
-  applyGeometrySettings(engine, state)
+  engine.setGeometryEffectsSettings(state.geometryEffects)
   
-  // 9. Apply blend options if present
-  if ((state as any).blendOptions) {
-    engine.setBlendOptions((state as any).blendOptions as BlendOptions)
-  }
+  // 9. Apply blend options
+  engine.setBlendOptions(state.blendOptions)
+  
+  // 10. Apply output (exposure, tone mapping)
+  engine.setOutputSettings(state.output)
+  
+  // 11. Apply transparency
+  engine.setAlphaMask(state.alphaMask)
+  engine.setBackgroundColor(state.backgroundColor)
+  
+  // 12. Animation overrides build on what is on screen, muted warps included
+  engine.setBaseState({ ...state, warp })
 }
 
 /**
  * Apply gradient-type-specific settings
  */
-function applyGradientTypeSettings(engine: GradientEngine, state: DatabaseGradientState): void {
-  const s = state as any
-  
+function applyGradientTypeSettings(engine: GradientEngine, state: GradientState): void {
   switch (state.gradientType) {
     case 'linear':
-      if (s.linearSettings) {
-        engine.setLinearSettings(s.linearSettings as LinearSettings)
-      }
+      engine.setLinearSettings(state.linearSettings)
       break
       
     case 'radial':
-      if (s.radialSettings) {
-        engine.setRadialSettings(s.radialSettings as RadialSettings)
-      }
+      engine.setRadialSettings(state.radialSettings)
       break
       
     case 'conic':
-      if (s.conicSettings) {
-        engine.setConicSettings(s.conicSettings as ConicSettings)
-      }
+      engine.setConicSettings(state.conicSettings)
       break
       
     case 'diamond':
-      if (s.diamondSettings) {
-        engine.setDiamondSettings(s.diamondSettings as DiamondSettings)
-      }
+      engine.setDiamondSettings(state.diamondSettings)
       break
       
     case 'spiral':
-      if (s.spiralSettings) {
-        engine.setSpiralSettings(s.spiralSettings as SpiralSettings)
-      }
+      engine.setSpiralSettings(state.spiralSettings)
       break
       
     case 'aurora':
-      if (s.auroraSettings) {
-        engine.setAuroraSettings(s.auroraSettings as AuroraSettings)
-      }
+      engine.setAuroraSettings(state.auroraSettings)
       break
       
     case 'stripes':
-      if (s.stripesSettings) {
-        engine.setStripesSettings(s.stripesSettings as StripesSettings)
-      }
+      engine.setStripesSettings(state.stripesSettings)
       break
       
     case 'folded':
-      if (s.foldedSettings) {
-        engine.setFoldedSettings(s.foldedSettings as FoldedSettings)
-      }
+      engine.setFoldedSettings(state.foldedSettings)
       break
       
     case 'reverb':
-      if (s.reverbSettings) {
-        engine.setReverbSettings(s.reverbSettings as ReverbSettings)
-      }
+      engine.setReverbSettings(state.reverbSettings)
+      break
+      
+    case 'mesh':
+      engine.setMeshSettings(state.meshSettings)
+      break
+      
+    case 'noise':
+      engine.setNoiseSettings(state.noiseSettings)
       break
-  }
-}
-
-/**
- * Apply warp settings - CRITICAL for visual effects
- * Database stores: warps.wave.amount, warps.ripple.amount
- * Engine expects: amplitude for wave/ripple
- */
-function applyWarpSettings(engine: GradientEngine, state: DatabaseGradientState): void {
-  if (!state.warps) return
-  
-  const dbWarps = state.warps
-  
-  // Build the WarpState object that the engine expects
-  const warpState: WarpState = {
-    bend: buildBendSettings(dbWarps.bend),
-    twist: buildTwistSettings(dbWarps.twist),
-    sphere: buildSphereSettings(dbWarps.sphere),
-    wave: buildWaveSettings(dbWarps.wave),
-    bulge: buildBulgeSettings(dbWarps.bulge),
-    ripple: buildRippleSettings(dbWarps.ripple),
-    blur: buildBlurSettings(dbWarps.blur),
-  }
-  
-  // Check if warps are muted - if so, disable all
-  if (dbWarps.isMuted) {
-    warpState.bend.enabled = false
-    warpState.twist.enabled = false
-    warpState.sphere.enabled = false
-    warpState.wave.enabled = false
-    warpState.bulge.enabled = false
-    warpState.ripple.enabled = false
-    warpState.blur.enabled = false
-  }
-  
-  engine.setWarpSettings(warpState)
-}
-
-function buildBendSettings(db: any): BendWarpSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    axis: db?.axis ?? 0,
-    pinch: db?.pinch ?? 0,
-  }
-}
-
-function buildTwistSettings(db: any): TwistWarpSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    radius: db?.radius ?? 1,
-    centerX: db?.centerX ?? 50,
-    centerY: db?.centerY ?? 50,
-  }
-}
-
-function buildSphereSettings(db: any): SphereWarpSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    radius: db?.radius ?? 0.7,
-    centerX: db?.centerX ?? 50,
-    centerY: db?.centerY ?? 50,
-  }
-}
-
-// CRITICAL FIX: Database stores "amount" but engine expects "amplitude"
-function buildWaveSettings(db: any): WaveWarpSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amplitude: db?.amount ?? db?.amplitude ?? 0, // Try both field names
-    frequency: db?.frequency ?? 3,
-    direction: db?.direction ?? 'horizontal',
-    rotation: db?.rotation ?? 0,
-  }
-}
-
-function buildBulgeSettings(db: any): BulgeWarpSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    radius: db?.radius ?? 0.5,
-    centerX: db?.centerX ?? 50,
-    centerY: db?.centerY ?? 50,
-  }
-}
-
-// CRITICAL FIX: Database stores "amount" but engine expects "amplitude"
-function buildRippleSettings(db: any): RippleWarpSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amplitude: db?.amount ?? db?.amplitude ?? 0, // Try both field names
-    frequency: db?.frequency ?? 5,
-    centerX: db?.centerX ?? 50,
-    centerY: db?.centerY ?? 50,
-    decay: db?.decay ?? 50,
-    rotation: db?.rotation ?? 0,
-  }
-}
-
-function buildBlurSettings(db: any): WarpBlurSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-  }
-}
-
-/**
- * Apply material settings - CRITICAL for visual quality
- */
-function applyMaterialSettings(engine: GradientEngine, state: DatabaseGradientState): void {
-  if (!state.materials) return
-  
-  const dbMats = state.materials
-  
-  const materialState: MaterialState = {
-    iridescent: buildIridescentSettings(dbMats.iridescent),
-    metallic: buildMetallicSettings(dbMats.metallic),
-    holographic: buildHolographicSettings(dbMats.holographic),
-    velvet: buildVelvetSettings(dbMats.velvet),
-  }
-  
-  engine.setMaterialSettings(materialState)
-}
-
-function buildIridescentSettings(db: any): IridescentSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    intensity: db?.intensity ?? 0,
-    scale: db?.scale ?? 1,
-    shift: db?.shift ?? 0,
-    blendMode: db?.blendMode ?? 'normal',
-  }
-}
-
-function buildMetallicSettings(db: any): MetallicSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    intensity: db?.intensity ?? 0,
-    highlight: db?.highlight ?? 50,
-    contrast: db?.contrast ?? 50,
-    blendMode: db?.blendMode ?? 'normal',
-  }
-}
-
-function buildHolographicSettings(db: any): HolographicSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    intensity: db?.intensity ?? 0,
-    density: db?.density ?? 50,
-    angle: db?.angle ?? 45,
-    blendMode: db?.blendMode ?? 'normal',
-  }
-}
-
-function buildVelvetSettings(db: any): VelvetSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    intensity: db?.intensity ?? 0,
-    depth: db?.depth ?? 50,
-    glow: db?.glow ?? 30,
-    blendMode: db?.blendMode ?? 'normal',
-  }
-}
-
-/**
- * Apply effects settings (post-processing)
- */
-function applyEffectsSettings(engine: GradientEngine, state: DatabaseGradientState): void {
-  if (!state.effects) return
-  
-  const dbEffects = state.effects
-  
-  const effectsState: EffectsState = {
-    color: buildColorSettings(dbEffects.color),
-    glow: buildGlowSettings(dbEffects.glow),
-    chromatic: buildChromaticSettings(dbEffects.chromatic),
-    vignette: buildVignetteSettings(dbEffects.vignette),
-    posterize: buildPosterizeSettings(dbEffects.posterize),
-    grain: buildGrainSettings(dbEffects.grain),
-    dither: buildDitherSettings(dbEffects.dither),
-    halftone: buildHalftoneSettings(dbEffects.halftone),
-    scanlines: buildScanlinesSettings(dbEffects.scanlines),
-    pixelate: buildPixelateSettings(dbEffects.pixelate),
-    ascii: buildAsciiSettings(dbEffects.ascii),
-    dotMatrix: buildDotMatrixSettings(dbEffects.dotMatrix),
-  }
-  
-  engine.setEffectsSettings(effectsState)
-}
-
-function buildColorSettings(db: any): ColorAdjustmentSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    brightness: db?.brightness ?? 0,
-    contrast: db?.contrast ?? 0,
-    saturation: db?.saturation ?? 0,
-    hueShift: db?.hueShift ?? db?.hueRotation ?? 0,
-  }
-}
-
-function buildGlowSettings(db: any): GlowSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    threshold: db?.threshold ?? 50,
-    radius: db?.radius ?? 20,
-  }
-}
-
-function buildChromaticSettings(db: any): ChromaticAberrationSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    angle: db?.angle ?? 0,
-  }
-}
-
-function buildVignetteSettings(db: any): VignetteSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    softness: db?.softness ?? 50,
-    roundness: db?.roundness ?? 50,
-    invert: db?.invert ?? false,
-  }
-}
-
-function buildPosterizeSettings(db: any): PosterizeSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    levels: db?.levels ?? 8,
-  }
-}
-
-function buildGrainSettings(db: any): GrainSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    size: db?.size ?? 1,
-    mono: db?.mono ?? db?.colored === false,
-  }
-}
-
-function buildDitherSettings(db: any): DitherSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-  }
-}
-
-function buildHalftoneSettings(db: any): HalftoneSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    intensity: db?.intensity ?? 50,
-    scale: db?.scale ?? 50,
-    softness: db?.softness ?? 50,
-  }
-}
-
-function buildScanlinesSettings(db: any): ScanlinesSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    intensity: db?.intensity ?? db?.opacity ?? 20,
-    density: db?.density ?? 10,
-  }
-}
-
-function buildPixelateSettings(db: any): PixelateSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    size: db?.size ?? 4,
-  }
-}
 
-function buildAsciiSettings(db: any): AsciiSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    characters: db?.characters ?? 'GradientLab',
-    preset: db?.preset ?? 'custom',
-    density: db?.density ?? 80,
-    colorMode: db?.colorMode ?? 'colored',
-    monoColor: db?.monoColor ?? '#ffffff',
-    backgroundColor: db?.backgroundColor ?? '#0a0a0a',
-    invert: db?.invert ?? false,
-    lockGrid: db?.lockGrid ?? false,
-    rotation: db?.rotation ?? 0,
-    lineHeight: db?.lineHeight ?? 100,
-    letterSpacing: db?.letterSpacing ?? 100,
-    shadow: db?.shadow ?? { enabled: false, color: '#000000', offsetX: 2, offsetY: 2, blur: 0 },
-    glow: db?.glow ?? { enabled: false, amount: 50, radius: 30 },
-    perspective: db?.perspective ?? { enabled: false, tiltX: 0, tiltY: 0 },
-    edge: db?.edge ?? { enabled: false, threshold: 50 },
-    customFont: db?.customFont ?? null,
-    customFontName: db?.customFontName ?? null,
+    default:
+      // Registered types map their own settings
+      engine.setTypeSettings(state.gradientType, getTypeSettings(state, state.gradientType))
   }
 }
 
-function buildDotMatrixSettings(db: any): DotMatrixSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    shape: db?.shape ?? 'circle',
-    density: db?.density ?? 60,
-    sizeMin: db?.sizeMin ?? 10,
-    sizeMax: db?.sizeMax ?? 100,
-    colorMode: db?.colorMode ?? 'colored',
-    monoColor: db?.monoColor ?? '#ffffff',
-    duotoneDark: db?.duotoneDark ?? '#0a0a0a',
-    duotoneLight: db?.duotoneLight ?? '#ffffff',
-    backgroundColor: db?.backgroundColor ?? '#0a0a0a',
-    softness: db?.softness ?? 0,
-    invert: db?.invert ?? false,
-    lockGrid: db?.lockGrid ?? false,
-    gap: db?.gap ?? 0,
-    texture: db?.texture ?? 0,
-    perspective: {
-      enabled: db?.perspective?.enabled ?? false,
-      tiltX: db?.perspective?.tiltX ?? 0,
-      tiltY: db?.perspective?.tiltY ?? 0,
-    },
-  }
-}
+// Presets are module constants, so warn once per object rather than per render
+const reportedPresets = new WeakSet<object>()
 
 /**
- * Apply geometry effects settings
- * Database stores at: state.geometry.effects.{grid,columns,depth}
+ * Log schema issues for a preset (development only)
  */
-function applyGeometrySettings(engine: GradientEngine, state: DatabaseGradientState): void {
-  if (!state.geometry?.effects) return
-  
-  const dbGeom = state.geometry.effects
-  
-  const geomState: GeometryEffectsState = {
-    grid: buildGridSettings(dbGeom.grid),
-    columns: buildColumnSettings(dbGeom.columns),
-    depth: buildDepthSettings(dbGeom.depth),
-  }
-  
-  engine.setGeometryEffectsSettings(geomState)
-}
-
-function buildGridSettings(db: any): GridRefractionSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    tilesX: db?.tilesX ?? 4,
-    tilesY: db?.tilesY ?? 4,
-    refraction: db?.refraction ?? 0,
-    angle: db?.angle ?? 0,
-    variation: db?.variation ?? 0,
-    // Mesh deformation - use defaults if not saved
-    meshBulge: db?.meshBulge ?? 0,
-    meshSkewX: db?.meshSkewX ?? 0,
-    meshSkewY: db?.meshSkewY ?? 0,
-    meshPerspective: db?.meshPerspective ?? 0,
-    meshPerspectiveAngle: db?.meshPerspectiveAngle ?? 0,
-    meshCurve: db?.meshCurve ?? 0,
-    meshCurveAxis: db?.meshCurveAxis ?? 0,
-    meshWave: db?.meshWave ?? 0,
-    meshWaveFreq: db?.meshWaveFreq ?? 2,
-    meshWaveAngle: db?.meshWaveAngle ?? 0,
-    meshTwist: db?.meshTwist ?? 0,
-  }
-}
+function reportPresetIssues(preset: PresetInput): void {
+  if (reportedPresets.has(preset)) return
+  reportedPresets.add(preset)
 
-function buildColumnSettings(db: any): ColumnRefractionSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    count: db?.count ?? 6,
-    offset: db?.offset ?? 0,
-    angle: db?.angle ?? 0,
-    perspective: db?.perspective ?? 0,
-    pattern: db?.pattern ?? 'alternating',
-    // Mesh deformation - use defaults if not saved
-    meshBulge: db?.meshBulge ?? 0,
-    meshSkewX: db?.meshSkewX ?? 0,
-    meshSkewY: db?.meshSkewY ?? 0,
-    meshCurve: db?.meshCurve ?? 0,
-    meshCurveAxis: db?.meshCurveAxis ?? 0,
-    meshWave: db?.meshWave ?? 0,
-    meshWaveFreq: db?.meshWaveFreq ?? 2,
-    meshWaveAngle: db?.meshWaveAngle ?? 0,
-    meshTwist: db?.meshTwist ?? 0,
-  }
-}
+  const { issues } = validatePreset(preset)
+  if (issues.length === 0) return
 
-function buildDepthSettings(db: any): DepthSettings {
-  return {
-    enabled: db?.enabled ?? false,
-    amount: db?.amount ?? 0,
-    centerX: db?.centerX ?? 50,
-    centerY: db?.centerY ?? 50,
-    falloff: db?.falloff ?? 50,
-    shading: db?.shading ?? false,
-    // Dimensionality - use defaults if not saved
-    surfaceType: db?.surfaceType ?? 'sphere',
-    surfaceWave: db?.surfaceWave ?? 0,
-    waveScale: db?.waveScale ?? 2,
-  }
+  const label = preset.name ? `"${preset.name}"` : '(unnamed)'
+  const lines = issues.map((issue) => `  ${issue.severity} ${issue.path}: ${issue.message}`)
+  console.warn(`[StandaloneRenderer] Preset ${label} has ${issues.length} schema issue(s):\n${lines.join('\n')}`)
 }
 
 /**
  * Get pixel data for high-resolution export
- * Returns a callback compatible with exportManager
+ * Returns a callback compatible with exportManager. Renders on one canvas,
+ * so sizes past the GPU's texture limits need renderTiled() instead.
  */
-export function createRenderCallback(state: DatabaseGradientState) {
+export function createRenderCallback(state: PresetInput) {
   return async (width: number, height: number, _time?: number): Promise<Uint8Array> => {
     // Create an offscreen canvas
     const canvas = document.createElement('canvas')
@@ -0,0 +1,63 @@
+/**
+ * UniformSnapshot - dirty tracking for a uniforms object
+ *
+ * Setters (and callers poking getUniforms() directly) write uniform values
+ * unconditionally, so changes are found by comparing against the values
+ * recorded at the last render rather than by instrumenting every write.
+ * Vectors, colors and arrays are compared by value and textures by their
+ * upload version, so in-place `.set()` calls and `needsUpdate` count too.
+ */
+
+import * as THREE from 'three'
+
+type Captured = unknown
+
+function capture(value: unknown): Captured {
+  if (value instanceof THREE.Texture) return `texture:${value.uuid}:${value.version}`
+  if (Array.isArray(value)) return value.map(capture)
+  if (value !== null && typeof value === 'object' && 'toArray' in value && typeof value.toArray === 'function') {
+    return value.toArray() as number[]
+  }
+  return value
+}
+
+function same(a: Captured, b: Captured): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => same(item, b[i]))
+  }
+  return Object.is(a, b)
+}
+
+export class UniformSnapshot {
+  private values = new Map<string, Captured>()
+  private ignored: Set<string>
+
+  /**
+   * @param ignored - Uniform names never compared, e.g. time or per-frame inputs
+   */
+  constructor(ignored: Iterable<string> = []) {
+    this.ignored = new Set(ignored)
+  }
+
+  /**
+   * Record the current values. Returns true when any differs from the last
+   * record (always true the first time).
+   */
+  update(uniforms: Record<string, THREE.IUniform>): boolean {
+    let changed = false
+    for (const [name, uniform] of Object.entries(uniforms)) {
+      if (this.ignored.has(name)) continue
+      const value = capture(uniform.value)
+      if (!this.values.has(name) || !same(this.values.get(name), value)) {
+        this.values.set(name, value)
+        changed = true
+      }
+    }
+    return changed
+  }
+
+  /** Forget the recorded values so the next update() reports a change */
+  clear(): void {
+    this.values.clear()
+  }
+}
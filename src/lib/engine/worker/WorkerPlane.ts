@@ -0,0 +1,179 @@
+/**
+ * WorkerPlane — main-thread handle for a gradient plane rendered in the
+ * gradient worker.
+ *
+ * The plane's canvas is handed over with transferControlToOffscreen(), so
+ * WebGL work leaves the main thread and can't stall ScrollTrigger scrubbing.
+ * One worker serves every plane on the page. Animating planes are sampled
+ * on the shared animation clock and sent as a single 'frame' message per
+ * tick; a tick is dropped while the worker is still drawing the previous one.
+ *
+ * A canvas can only be transferred once — check canTransferCanvas() and
+ * mount a fresh canvas element when it returns false.
+ */
+
+import { animationClock, type ClockFrame } from '@/lib/animation/clock'
+import type { PlaneAnimationOptions, PlaneFrameInput } from '@/lib/animation/planeAnimator'
+import type { QualitySettings, QualityTier } from '../QualityGovernor'
+import type { GradientPresetData } from '@/types/gradient'
+import type { PlaneFrameSample, PlaneId, WorkerRequest, WorkerResponse } from './protocol'
+
+type FrameSampler = () => Omit<PlaneFrameInput, 'time'>
+
+let worker: Worker | null = null
+let nextId: PlaneId = 1
+const planes = new Map<PlaneId, WorkerPlane>()
+const transferredCanvases = new WeakSet<HTMLCanvasElement>()
+
+// Batched frames for every animating plane
+const samplers = new Map<PlaneId, FrameSampler>()
+let unsubscribeClock: (() => void) | null = null
+let frameInFlight = false
+
+/**
+ * Whether this browser can render gradients in a worker
+ */
+export function supportsWorkerRendering(): boolean {
+  return typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype
+}
+
+/**
+ * False once `canvas` has been handed to a worker
+ */
+export function canTransferCanvas(canvas: HTMLCanvasElement): boolean {
+  return !transferredCanvases.has(canvas)
+}
+
+function post(request: WorkerRequest, transfer: Transferable[] = []): void {
+  getWorker().postMessage(request, transfer)
+}
+
+function getWorker(): Worker {
+  if (worker) return worker
+  worker = new Worker(new URL('./gradient.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    if (data.type === 'frameDone') {
+      frameInFlight = false
+      return
+    }
+    planes.get(data.id)?.handleResponse(data)
+  }
+  worker.onerror = (event) => {
+    console.warn('[WorkerPlane] Gradient worker failed:', event.message)
+    for (const plane of planes.values()) {
+      plane.handleResponse({ type: 'error', id: plane.id, message: event.message })
+    }
+  }
+  return worker
+}
+
+function sendFrame({ time }: ClockFrame): void {
+  if (frameInFlight) return
+  const samples: PlaneFrameSample[] = []
+  for (const [id, sample] of samplers) samples.push({ ...sample(), id })
+  frameInFlight = true
+  post({ type: 'frame', time, planes: samples })
+}
+
+export class WorkerPlane {
+  readonly id: PlaneId
+  private onReady: (() => void) | null = null
+  private onError: ((message: string) => void) | null = null
+  private onQualityChange: ((tier: QualityTier, settings: QualitySettings) => void) | null = null
+
+  /**
+   * Transfer `canvas` to the worker and create the plane there.
+   * Sizes are CSS pixels.
+   */
+  constructor(
+    canvas: HTMLCanvasElement,
+    width: number,
+    height: number,
+    preset: GradientPresetData,
+    options: PlaneAnimationOptions
+  ) {
+    this.id = nextId++
+    planes.set(this.id, this)
+
+    const offscreen = canvas.transferControlToOffscreen()
+    transferredCanvases.add(canvas)
+    post({
+      type: 'create',
+      id: this.id,
+      canvas: offscreen,
+      pixelRatio: Math.min(window.devicePixelRatio, 2),
+      width,
+      height,
+      preset,
+      options,
+    }, [offscreen])
+  }
+
+  /** @internal Called with the worker's messages for this plane */
+  handleResponse(response: WorkerResponse): void {
+    if (response.type === 'ready') this.onReady?.()
+    else if (response.type === 'error') this.onError?.(response.message)
+    else if (response.type === 'quality') this.onQualityChange?.(response.tier, response.settings)
+  }
+
+  /**
+   * Called once the first frame is drawn, or with the error if the worker
+   * couldn't create the plane (e.g. no WebGL for OffscreenCanvas)
+   */
+  setStatusCallbacks(onReady: (() => void) | null, onError: ((message: string) => void) | null): void {
+    this.onReady = onReady
+    this.onError = onError
+  }
+
+  setQualityCallback(callback: ((tier: QualityTier, settings: QualitySettings) => void) | null): void {
+    this.onQualityChange = callback
+  }
+
+  applyPreset(preset: GradientPresetData): void {
+    post({ type: 'preset', id: this.id, preset })
+  }
+
+  setOptions(options: PlaneAnimationOptions): void {
+    post({ type: 'options', id: this.id, options })
+  }
+
+  handleResize(width: number, height: number): void {
+    post({ type: 'resize', id: this.id, width, height })
+  }
+
+  setLoopDuration(seconds: number | null): void {
+    post({ type: 'loopDuration', id: this.id, seconds })
+  }
+
+  setQuality(quality: QualityTier | 'auto'): void {
+    post({ type: 'quality', id: this.id, quality })
+  }
+
+  /**
+   * Animate on the shared clock. `sample` is read every tick for the
+   * plane's scroll and morph progress.
+   */
+  startAnimation(sample: FrameSampler): void {
+    samplers.set(this.id, sample)
+    unsubscribeClock ??= animationClock.subscribe({ update: sendFrame })
+  }
+
+  stopAnimation(): void {
+    samplers.delete(this.id)
+    if (samplers.size === 0 && unsubscribeClock) {
+      unsubscribeClock()
+      unsubscribeClock = null
+    }
+  }
+
+  dispose(): void {
+    this.stopAnimation()
+    this.setStatusCallbacks(null, null)
+    this.onQualityChange = null
+    planes.delete(this.id)
+    post({ type: 'destroy', id: this.id })
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Gradient worker — runs GradientEngines for offscreen planes.
+ *
+ * All planes share the worker's SharedRenderer context, exactly like
+ * main-thread planes share the page's, and animate through the same
+ * PlaneAnimator code. Time comes from the main thread's animation clock in
+ * 'frame' messages, so worker planes stay in phase with main-thread ones and
+ * follow global pause, time scale and seek.
+ */
+
+import { GradientEngine } from '../GradientEngine'
+import { PlaneAnimator } from '@/lib/animation/planeAnimator'
+import type { PlaneId, WorkerRequest, WorkerResponse } from './protocol'
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null
+  postMessage(message: WorkerResponse): void
+}
+
+interface WorkerPlaneState {
+  engine: GradientEngine
+  animator: PlaneAnimator
+}
+
+const scope = self as unknown as WorkerScope
+const planes = new Map<PlaneId, WorkerPlaneState>()
+
+// Planes that aren't animating render at the last clock time seen
+let lastTime = 0
+
+function handleRequest(request: WorkerRequest): void {
+  if (request.type === 'frame') {
+    renderFrame(request)
+    return
+  }
+  if (request.type === 'create') {
+    const engine = new GradientEngine(request.canvas, { shared: true, pixelRatio: request.pixelRatio })
+    const animator = new PlaneAnimator(request.options)
+    planes.set(request.id, { engine, animator })
+    engine.setQualityCallback((tier, settings) => {
+      scope.postMessage({ type: 'quality', id: request.id, tier, settings })
+    })
+    engine.handleResize(request.width, request.height)
+    animator.applyPreset(engine, request.preset)
+    engine.render(lastTime)
+    scope.postMessage({ type: 'ready', id: request.id })
+    return
+  }
+
+  const plane = planes.get(request.id)
+  if (!plane) return
+  const { engine, animator } = plane
+
+  switch (request.type) {
+    case 'preset':
+      animator.applyPreset(engine, request.preset)
+      break
+    case 'options':
+      animator.setOptions(request.options)
+      break
+    case 'resize':
+      engine.handleResize(request.width, request.height)
+      break
+    case 'loopDuration':
+      engine.setLoopDuration(request.seconds)
+      break
+    case 'quality':
+      engine.setQuality(request.quality)
+      break
+    case 'destroy':
+      engine.dispose()
+      planes.delete(request.id)
+      return
+  }
+  engine.render(lastTime)
+}
+
+function renderFrame(request: Extract<WorkerRequest, { type: 'frame' }>): void {
+  lastTime = request.time
+  const now = performance.now()
+
+  // Update every plane first, then render — same batching as the main-thread clock
+  const rendering: GradientEngine[] = []
+  for (const sample of request.planes) {
+    const plane = planes.get(sample.id)
+    if (!plane || !plane.engine.sampleFrame(now)) continue
+    plane.animator.update(plane.engine, { ...sample, time: request.time })
+    rendering.push(plane.engine)
+  }
+  for (const engine of rendering) engine.render(request.time)
+
+  scope.postMessage({ type: 'frameDone' })
+}
+
+scope.onmessage = ({ data }) => {
+  try {
+    handleRequest(data)
+  } catch (error) {
+    if (data.type === 'frame') {
+      console.warn('[GradientWorker] Frame failed:', error)
+      scope.postMessage({ type: 'frameDone' })
+      return
+    }
+    scope.postMessage({ type: 'error', id: data.id, message: String(error) })
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Gradient worker protocol — messages between GradientPlane's WorkerPlane
+ * handles on the main thread and the gradient worker.
+ *
+ * Every plane has a numeric id. Presets, animation options and sizes are
+ * sent when they change; per-frame inputs for all animating planes travel
+ * together in one 'frame' message per clock tick.
+ */
+
+import type { PlaneAnimationOptions, PlaneFrameInput } from '@/lib/animation/planeAnimator'
+import type { QualitySettings, QualityTier } from '../QualityGovernor'
+import type { GradientPresetData } from '@/types/gradient'
+
+export type PlaneId = number
+
+/** One plane's inputs in a 'frame' message — time is shared */
+export interface PlaneFrameSample extends Omit<PlaneFrameInput, 'time'> {
+  id: PlaneId
+}
+
+/** Main thread → worker */
+export type WorkerRequest =
+  | {
+      type: 'create'
+      id: PlaneId
+      /** Transferred from the plane's canvas element */
+      canvas: OffscreenCanvas
+      pixelRatio: number
+      width: number
+      height: number
+      preset: GradientPresetData
+      options: PlaneAnimationOptions
+    }
+  | { type: 'preset'; id: PlaneId; preset: GradientPresetData }
+  | { type: 'options'; id: PlaneId; options: PlaneAnimationOptions }
+  | { type: 'resize'; id: PlaneId; width: number; height: number }
+  | { type: 'loopDuration'; id: PlaneId; seconds: number | null }
+  | { type: 'quality'; id: PlaneId; quality: QualityTier | 'auto' }
+  | { type: 'frame'; time: number; planes: PlaneFrameSample[] }
+  | { type: 'destroy'; id: PlaneId }
+
+/** Worker → main thread */
+export type WorkerResponse =
+  | { type: 'ready'; id: PlaneId }
+  | { type: 'error'; id: PlaneId; message: string }
+  | { type: 'quality'; id: PlaneId; tier: QualityTier; settings: QualitySettings }
+  /** The last 'frame' has been drawn; the next one may be sent */
+  | { type: 'frameDone' }
@@ -1,29 +1,27 @@
 'use client'
 
 /**
- * Engine Pool — limits concurrent live WebGL gradient instances.
+ * Engine Pool — keeps live gradient instances to the planes near the viewport.
  *
- * The GradientLab engine uses WebGL contexts, which are a limited browser resource.
- * Most browsers allow ~8-16 concurrent contexts before starting to lose earlier ones.
- * We cap at MAX_ACTIVE (2) visible at any scroll position for performance.
+ * Every GradientPlane draws through the one shared WebGL context (see
+ * SharedRenderer), so the browser's context limit no longer applies and
+ * there's no cap: every plane in or near the viewport renders live, however
+ * many planes a section stacks. Planes scrolled away hold no engine.
  *
  * How it works:
  * 1. Each GradientPlane registers itself via useGradientPool()
  * 2. An IntersectionObserver tracks which planes are in/near the viewport
- * 3. Only the top MAX_ACTIVE visible planes get activated (render WebGL)
- * 4. Others get deactivated (show fallback color, no WebGL overhead)
- * 5. Priority is based on intersection ratio (most visible = highest priority)
+ * 3. Those planes get activated (render WebGL)
+ * 4. Others get deactivated (show fallback color, no rendering overhead)
  */
 
 import { useEffect, useRef, useCallback, useSyncExternalStore } from 'react'
 
-const MAX_ACTIVE = 2
 const ROOT_MARGIN = '200px 0px' // Pre-activate slightly before entering viewport
 
 interface PoolEntry {
   id: string
   element: HTMLElement
-  intersectionRatio: number
   isIntersecting: boolean
 }
 
@@ -40,12 +38,11 @@ function notifyListeners() {
 }
 
 function recalculateActive() {
-  // Sort visible entries by intersection ratio (most visible first)
-  const visible = Array.from(entries.values())
-    .filter((e) => e.isIntersecting)
-    .sort((a, b) => b.intersectionRatio - a.intersectionRatio)
-
-  const newActive = new Set(visible.slice(0, MAX_ACTIVE).map((e) => e.id))
+  const newActive = new Set(
+    Array.from(entries.values())
+      .filter((e) => e.isIntersecting)
+      .map((e) => e.id)
+  )
 
   // Only notify if the active set actually changed
   if (newActive.size !== activeIds.size || ![...newActive].every((id) => activeIds.has(id))) {
@@ -63,7 +60,6 @@ function getOrCreateObserver(): IntersectionObserver {
           if (!id) continue
           const entry = entries.get(id)
           if (entry) {
-            entry.intersectionRatio = ie.intersectionRatio
             entry.isIntersecting = ie.isIntersecting
           }
         }
@@ -71,7 +67,7 @@ function getOrCreateObserver(): IntersectionObserver {
       },
       {
         rootMargin: ROOT_MARGIN,
-        threshold: [0, 0.1, 0.25, 0.5, 0.75, 1.0],
+        threshold: 0,
       },
     )
   }
@@ -85,7 +81,6 @@ function registerEntry(element: HTMLElement): string {
   entries.set(id, {
     id,
     element,
-    intersectionRatio: 0,
     isIntersecting: false,
   })
 
@@ -166,7 +161,7 @@ export function useGradientPool(containerRef: React.RefObject<HTMLElement | null
 }
 
 /**
- * getActiveCount — returns the current number of active WebGL instances.
+ * getActiveCount — returns the current number of active gradient planes.
  * Useful for debugging.
  */
 export function getActiveCount(): number {
@@ -0,0 +1,28 @@
+'use client'
+
+import { useCallback, useRef, type RefObject } from 'react'
+import { TextMask } from '@/lib/engine/masks'
+import type { DisplayFont } from '@/lib/data/sections'
+
+/**
+ * A GradientPlane `mask` callback for the display type in `typeRef`: its
+ * `[data-takeover-line]` elements, or the element itself when it has none.
+ * Keeps one TextMask per plane container, so refreshes while the lines
+ * tween only redraw and re-upload when a line actually moved.
+ */
+export function useTextMask(typeRef: RefObject<HTMLElement | null>, font: DisplayFont) {
+  const maskRef = useRef<{ mask: TextMask; font: DisplayFont } | null>(null)
+
+  return useCallback(async (container: HTMLElement) => {
+    const type = typeRef.current
+    if (!type) return null
+
+    let current = maskRef.current
+    if (current?.mask.container !== container || current.font !== font) {
+      const lines = Array.from(type.querySelectorAll<HTMLElement>('[data-takeover-line]'))
+      current = { mask: new TextMask({ lines: lines.length > 0 ? lines : [type], container, font }), font }
+      maskRef.current = current
+    }
+    return (await current.mask.update()) ? current.mask.canvas : undefined
+  }, [typeRef, font])
+}
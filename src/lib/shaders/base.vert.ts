@@ -3,13 +3,17 @@
  * 
  * All warping is now done as UV distortion in the fragment shader.
  * This keeps the mesh flat and avoids muddy depth-based shading.
+ * Under a render region (tiled export) vUv spans the quad's window of the
+ * full image rather than 0-1.
  */
 
 export const baseVertexShader = /* glsl */ `
+uniform vec2 u_regionOffset;
+uniform vec2 u_regionScale;
 varying vec2 vUv;
 
 void main() {
-    vUv = uv;
+    vUv = u_regionOffset + uv * u_regionScale;
     gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
 }
 `
@@ -11,9 +11,10 @@ export { baseVertexShader } from './base.vert'
 export { colorUtils } from './utils/color.glsl'
 export { easingUtils } from './utils/easing.glsl'
 export { sdfUtils } from './utils/sdf.glsl'
-export { gradientUtils } from './utils/gradient.glsl'
+export { gradientUtils, GRADIENT_LUT_SIZE } from './utils/gradient.glsl'
 export { materialUtils, materialUniforms, materialFunctions } from './utils/materials.glsl'
 export { lavaLampUtils, lavaLampUniforms, lavaLampFunctions } from './utils/lavaLamp.glsl'
+export { noiseUtils, NOISE_MAX_OCTAVES } from './utils/noise.glsl'
 
 // Gradient type shaders
 export {
@@ -26,5 +27,9 @@ export {
   stripesGradientShader,
   foldedGradientShader,
   reverbGradientShader,
+  meshGradientShader,
+  MESH_MAX_SIZE,
+  noiseGradientShader,
+  createCustomGradientShader,
 } from './types'
 
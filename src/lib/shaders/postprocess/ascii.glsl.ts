@@ -23,7 +23,9 @@ precision highp float;
 // Core uniforms
 uniform sampler2D tDiffuse;          // Source gradient texture
 uniform sampler2D u_asciiAtlas;      // Font atlas (horizontal strip)
-uniform vec2 u_resolution;           // Screen resolution
+uniform vec2 u_resolution;           // Full image resolution
+uniform vec2 u_regionOffset;         // Render region: vUv → full image UV
+uniform vec2 u_regionScale;
 uniform float u_density;             // Characters per row (20-200)
 uniform int u_charCount;             // Number of characters in atlas
 uniform bool u_colored;              // Use gradient color vs mono
@@ -152,7 +154,7 @@ void main() {
     }
 
     // Start with working UV
-    vec2 workingUV = vUv;
+    vec2 workingUV = u_regionOffset + vUv * u_regionScale;
 
     // Apply perspective if enabled
     if (u_perspectiveEnabled) {
@@ -194,7 +196,7 @@ void main() {
     }
 
     // Sample texture at cell center
-    vec4 cellColor = texture2D(tDiffuse, clamp(sampleUV, 0.0, 1.0));
+    vec4 cellColor = texture2D(tDiffuse, (clamp(sampleUV, 0.0, 1.0) - u_regionOffset) / u_regionScale);
     float luma = dot(cellColor.rgb, vec3(0.299, 0.587, 0.114));
 
     // Edge detection mode
@@ -0,0 +1,55 @@
+/**
+ * Bloom Post-Processing Shaders
+ *
+ * extract: downsamples the input to half size (same 4x4 box as the blur
+ * chain) and keeps what's above u_threshold (0-100 luminance), slightly
+ * desaturated for a bloom look — the bright-pass of the old inline glow.
+ *
+ * composite: adds the summed bloom pyramid (tBloom, half size) over the
+ * input. u_intensity already includes the amount and level normalization.
+ * Colors are premultiplied, so glow spilling over transparent areas raises
+ * their alpha to cover it.
+ */
+
+export const bloomExtractFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform vec2 u_texelSize;
+uniform float u_threshold;
+varying vec2 vUv;
+
+void main() {
+    vec3 color = texture2D(tDiffuse, vUv + u_texelSize * vec2(-1.0, -1.0)).rgb;
+    color += texture2D(tDiffuse, vUv + u_texelSize * vec2(1.0, -1.0)).rgb;
+    color += texture2D(tDiffuse, vUv + u_texelSize * vec2(-1.0, 1.0)).rgb;
+    color += texture2D(tDiffuse, vUv + u_texelSize * vec2(1.0, 1.0)).rgb;
+    color *= 0.25;
+
+    float lum = dot(color, vec3(0.299, 0.587, 0.114));
+    float threshNorm = u_threshold * 0.01;
+    float mask = smoothstep(threshNorm, threshNorm + 0.1, lum);
+
+    gl_FragColor = vec4(mix(color, vec3(lum), 0.3) * mask, 1.0);
+}
+`
+
+export const bloomCompositeFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform sampler2D tBloom;
+uniform vec2 u_bloomTexelSize;
+uniform float u_intensity;
+varying vec2 vUv;
+
+void main() {
+    vec4 color = texture2D(tDiffuse, vUv);
+
+    vec3 bloom = texture2D(tBloom, vUv + u_bloomTexelSize * vec2(-0.5, -0.5)).rgb;
+    bloom += texture2D(tBloom, vUv + u_bloomTexelSize * vec2(0.5, -0.5)).rgb;
+    bloom += texture2D(tBloom, vUv + u_bloomTexelSize * vec2(-0.5, 0.5)).rgb;
+    bloom += texture2D(tBloom, vUv + u_bloomTexelSize * vec2(0.5, 0.5)).rgb;
+
+    // Not clamped above: with half-float targets the output pass tone-maps it
+    vec3 result = max(color.rgb + bloom * 0.25 * u_intensity, 0.0);
+    float alpha = max(color.a, min(max(result.r, max(result.g, result.b)), 1.0));
+    gl_FragColor = vec4(result, alpha);
+}
+`
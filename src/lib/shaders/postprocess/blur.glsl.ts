@@ -0,0 +1,90 @@
+/**
+ * Blur Post-Processing Shaders
+ *
+ * Building blocks of BlurChain's downsample/upsample pyramid, shared by the
+ * blur and bloom passes:
+ * - downsample: 4x4 box filter into a half-size level (four bilinear taps)
+ * - blur: one axis of a separable gaussian, u_sigma in texels of the level
+ * - upsample: tent filter from a coarser level, optionally mixed with a
+ *   base level at u_baseWeight — a running weighted average for bloom
+ *
+ * u_texelSize is always the texel size of the texture being sampled.
+ */
+
+export const blurVertexShader = /* glsl */ `
+varying vec2 vUv;
+void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`
+
+export const blurDownsampleFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform vec2 u_texelSize;
+varying vec2 vUv;
+
+void main() {
+    // Each tap lands on a texel corner, so the four cover a 4x4 block
+    vec4 sum = texture2D(tDiffuse, vUv + u_texelSize * vec2(-1.0, -1.0));
+    sum += texture2D(tDiffuse, vUv + u_texelSize * vec2(1.0, -1.0));
+    sum += texture2D(tDiffuse, vUv + u_texelSize * vec2(-1.0, 1.0));
+    sum += texture2D(tDiffuse, vUv + u_texelSize * vec2(1.0, 1.0));
+    gl_FragColor = sum * 0.25;
+}
+`
+
+export const blurFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform vec2 u_texelSize;
+uniform vec2 u_direction;
+uniform float u_sigma;
+varying vec2 vUv;
+
+const int KERNEL_RADIUS = 12;
+
+void main() {
+    if (u_sigma < 0.05) {
+        gl_FragColor = texture2D(tDiffuse, vUv);
+        return;
+    }
+
+    // Taps out to 3 sigma; BlurChain keeps sigma within the kernel's reach
+    float radius = min(ceil(u_sigma * 3.0), float(KERNEL_RADIUS));
+    vec2 texelStep = u_direction * u_texelSize;
+
+    vec4 result = vec4(0.0);
+    float total = 0.0;
+    for (int i = -KERNEL_RADIUS; i <= KERNEL_RADIUS; i++) {
+        float x = float(i);
+        if (abs(x) > radius) continue;
+        float weight = exp(-x * x / (2.0 * u_sigma * u_sigma));
+        result += texture2D(tDiffuse, vUv + texelStep * x) * weight;
+        total += weight;
+    }
+
+    gl_FragColor = result / total;
+}
+`
+
+export const blurUpsampleFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform sampler2D tBase;
+uniform vec2 u_texelSize;
+uniform float u_baseWeight;
+varying vec2 vUv;
+
+void main() {
+    // Half-texel taps make a tent filter, hiding the 2x steps between levels
+    vec4 up = texture2D(tDiffuse, vUv + u_texelSize * vec2(-0.5, -0.5));
+    up += texture2D(tDiffuse, vUv + u_texelSize * vec2(0.5, -0.5));
+    up += texture2D(tDiffuse, vUv + u_texelSize * vec2(-0.5, 0.5));
+    up += texture2D(tDiffuse, vUv + u_texelSize * vec2(0.5, 0.5));
+    up *= 0.25;
+
+    if (u_baseWeight > 0.0) {
+        up = mix(up, texture2D(tBase, vUv), u_baseWeight);
+    }
+    gl_FragColor = up;
+}
+`
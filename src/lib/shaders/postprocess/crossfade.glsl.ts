@@ -0,0 +1,25 @@
+/**
+ * Crossfade Post-Processing Shader
+ *
+ * Mixes a second render (tOther) over the previous pass's output.
+ * u_mix = 0 shows the input, 1 shows tOther.
+ */
+
+export const crossfadeVertexShader = /* glsl */ `
+varying vec2 vUv;
+void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`
+
+export const crossfadeFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform sampler2D tOther;
+uniform float u_mix;
+varying vec2 vUv;
+
+void main() {
+    gl_FragColor = mix(texture2D(tDiffuse, vUv), texture2D(tOther, vUv), u_mix);
+}
+`
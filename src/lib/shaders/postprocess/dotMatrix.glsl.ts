@@ -18,7 +18,9 @@ export const dotMatrixFragmentShader = /* glsl */ `
 precision highp float;
 
 uniform sampler2D tDiffuse;          // Source gradient texture
-uniform vec2 u_resolution;           // Screen resolution
+uniform vec2 u_resolution;           // Full image resolution
+uniform vec2 u_regionOffset;         // Render region: vUv → full image UV
+uniform vec2 u_regionScale;
 uniform float u_density;             // Dots per row (10-150)
 uniform int u_shape;                 // 0 = circle, 1 = square, 2 = diamond
 uniform float u_sizeMin;             // Min dot size (0-1)
@@ -92,9 +94,9 @@ float shapeSDF(vec2 p, int shape) {
 
 void main() {
     // Apply perspective transformation if enabled
-    vec2 uv = vUv;
+    vec2 uv = u_regionOffset + vUv * u_regionScale;
     if (u_perspectiveEnabled) {
-        uv = perspectiveUV(vUv, u_perspectiveTiltX, u_perspectiveTiltY);
+        uv = perspectiveUV(uv, u_perspectiveTiltX, u_perspectiveTiltY);
     }
 
     // Aspect ratio correction for square cells
@@ -122,7 +124,7 @@ void main() {
     vec2 cellCenterUV = (cellId + 0.5) * cellSize;
 
     // Sample texture at cell center - ALL pixels in this cell use this value
-    vec4 cellColor = texture2D(tDiffuse, cellCenterUV);
+    vec4 cellColor = texture2D(tDiffuse, (cellCenterUV - u_regionOffset) / u_regionScale);
     float luma = dot(cellColor.rgb, vec3(0.299, 0.587, 0.114));
 
     // Apply invert
@@ -1,2 +1,13 @@
 export { dotMatrixVertexShader, dotMatrixFragmentShader } from './dotMatrix.glsl'
 export { asciiVertexShader, asciiFragmentShader } from './ascii.glsl'
+export {
+  blurVertexShader,
+  blurDownsampleFragmentShader,
+  blurFragmentShader,
+  blurUpsampleFragmentShader,
+} from './blur.glsl'
+export { bloomExtractFragmentShader, bloomCompositeFragmentShader } from './bloom.glsl'
+export { crossfadeVertexShader, crossfadeFragmentShader } from './crossfade.glsl'
+export { outputVertexShader, outputFragmentShader } from './output.glsl'
+export { maskFragmentShader } from './mask.glsl'
+export { layerCompositeFragmentShader } from './layers.glsl'
@@ -0,0 +1,114 @@
+/**
+ * Layer Composite Shader
+ *
+ * Draws one gradient layer (tLayer, already rendered in place at the render
+ * size) over the stack so far (tDiffuse), W3C-style: where both are opaque
+ * the blend mode's result shows, elsewhere each shows on its own. Both are
+ * sRGB-encoded and premultiplied like the rest of the pipeline, so they're
+ * un-premultiplied and linearized to blend, then encoded back.
+ *
+ * The layer rectangle is re-derived per pixel (full-image pixels, through the
+ * render region) for its rounded corners and an antialiased edge.
+ *
+ * u_blendMode: 0 normal, 1 multiply, 2 screen, 3 overlay, 4 darken,
+ * 5 lighten, 6 color-dodge, 7 color-burn, 8 hard-light, 9 soft-light.
+ */
+
+export const layerCompositeFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform sampler2D tLayer;
+uniform vec2 u_resolution;
+uniform vec2 u_regionOffset;
+uniform vec2 u_regionScale;
+uniform vec2 u_layerCenter;
+uniform vec2 u_layerHalfSize;
+uniform float u_layerAngle;
+uniform vec2 u_cornerRadius;
+uniform float u_opacity;
+uniform int u_blendMode;
+varying vec2 vUv;
+
+vec3 srgbToLinear(vec3 srgb) {
+    return mix(pow((srgb + 0.055) / 1.055, vec3(2.4)), srgb / 12.92, step(srgb, vec3(0.04045)));
+}
+
+vec3 linearToSrgb(vec3 linear) {
+    linear = max(linear, 0.0);
+    return mix(1.055 * pow(linear, vec3(1.0 / 2.4)) - 0.055, linear * 12.92, step(linear, vec3(0.0031308)));
+}
+
+vec3 screen(vec3 b, vec3 s) {
+    return b + s - b * s;
+}
+
+vec3 hardLight(vec3 b, vec3 s) {
+    return mix(b * 2.0 * s, screen(b, 2.0 * s - 1.0), step(0.5, s));
+}
+
+float colorDodge(float b, float s) {
+    if (b <= 0.0) return 0.0;
+    if (s >= 1.0) return 1.0;
+    return min(1.0, b / (1.0 - s));
+}
+
+float colorBurn(float b, float s) {
+    if (b >= 1.0) return 1.0;
+    if (s <= 0.0) return 0.0;
+    return 1.0 - min(1.0, (1.0 - b) / s);
+}
+
+vec3 softLight(vec3 b, vec3 s) {
+    vec3 d = mix(((16.0 * b - 12.0) * b + 4.0) * b, sqrt(b), step(0.25, b));
+    vec3 dark = b - (1.0 - 2.0 * s) * b * (1.0 - b);
+    vec3 light = b + (2.0 * s - 1.0) * (d - b);
+    return mix(dark, light, step(0.5, s));
+}
+
+vec3 blend(vec3 b, vec3 s) {
+    if (u_blendMode == 1) return b * s;
+    if (u_blendMode == 2) return screen(b, s);
+    if (u_blendMode == 3) return hardLight(s, b);
+    if (u_blendMode == 4) return min(b, s);
+    if (u_blendMode == 5) return max(b, s);
+    if (u_blendMode == 6) return vec3(colorDodge(b.r, s.r), colorDodge(b.g, s.g), colorDodge(b.b, s.b));
+    if (u_blendMode == 7) return vec3(colorBurn(b.r, s.r), colorBurn(b.g, s.g), colorBurn(b.b, s.b));
+    if (u_blendMode == 8) return hardLight(b, s);
+    if (u_blendMode == 9) return softLight(b, s);
+    return s;
+}
+
+// Rounded-rectangle coverage, with a one-pixel antialiased edge
+float layerCoverage() {
+    vec2 pixel = (u_regionOffset + vUv * u_regionScale) * u_resolution;
+    vec2 d = pixel - u_layerCenter;
+    float c = cos(u_layerAngle);
+    float s = sin(u_layerAngle);
+    vec2 local = abs(vec2(c * d.x + s * d.y, -s * d.x + c * d.y));
+
+    float dist = max(local.x - u_layerHalfSize.x, local.y - u_layerHalfSize.y);
+    if (min(u_cornerRadius.x, u_cornerRadius.y) >= 0.5) {
+        vec2 corner = (local - (u_layerHalfSize - u_cornerRadius)) / u_cornerRadius;
+        if (corner.x > 0.0 && corner.y > 0.0) {
+            dist = (length(corner) - 1.0) * min(u_cornerRadius.x, u_cornerRadius.y);
+        }
+    }
+    return clamp(0.5 - dist, 0.0, 1.0);
+}
+
+void main() {
+    vec4 base = texture2D(tDiffuse, vUv);
+    vec4 layer = texture2D(tLayer, vUv) * (u_opacity * layerCoverage());
+    if (layer.a <= 0.0) {
+        gl_FragColor = base;
+        return;
+    }
+
+    vec3 cb = base.a > 0.0 ? srgbToLinear(base.rgb / base.a) : vec3(0.0);
+    vec3 cs = srgbToLinear(layer.rgb / layer.a);
+    vec3 source = mix(cs, blend(cb, cs), base.a);
+
+    float alpha = layer.a + base.a * (1.0 - layer.a);
+    vec3 premultiplied = layer.a * source + (1.0 - layer.a) * base.a * cb;
+    gl_FragColor = vec4(linearToSrgb(premultiplied / alpha) * alpha, alpha);
+}
+`
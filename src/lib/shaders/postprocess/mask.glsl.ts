@@ -0,0 +1,35 @@
+/**
+ * Mask Post-Processing Shader
+ *
+ * Keeps the gradient only where tMask's alpha covers it (display type or an
+ * SVG shape), transparent elsewhere. tGlow is the mask blurred once, in the
+ * mask's own resolution; it adds a soft halo outside the shape, scaled by
+ * u_glowAmount. Colors are premultiplied, so scaling the whole pixel by
+ * coverage is enough.
+ *
+ * The mask spans the whole image: under a render region its coordinates go
+ * through u_regionOffset and u_regionScale, like the type shaders' vUv.
+ */
+
+export const maskFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform sampler2D tMask;
+uniform sampler2D tGlow;
+uniform float u_glowAmount;
+uniform vec2 u_regionOffset;
+uniform vec2 u_regionScale;
+varying vec2 vUv;
+
+void main() {
+    vec4 color = texture2D(tDiffuse, vUv);
+    vec2 maskUv = u_regionOffset + vUv * u_regionScale;
+
+    float coverage = texture2D(tMask, maskUv).a;
+    if (u_glowAmount > 0.0) {
+        float glow = min(texture2D(tGlow, maskUv).a * u_glowAmount, 1.0);
+        coverage += (1.0 - coverage) * glow;
+    }
+
+    gl_FragColor = color * coverage;
+}
+`
@@ -0,0 +1,117 @@
+/**
+ * Output Post-Processing Shader
+ *
+ * Last pass of the chain: exposure and tone mapping. The image is sRGB
+ * encoded throughout the pipeline (values above 1 survive in half-float
+ * targets), so it's linearized here, exposed by u_exposure (a multiplier),
+ * mapped, and encoded back for the canvas. The input is premultiplied, so
+ * color is divided by alpha before mapping and multiplied back after.
+ *
+ * u_toneMapping: 0 = none (clip), 1 = ACES filmic, 2 = AgX, 3 = Reinhard.
+ * ACES and AgX are the fits three.js ships.
+ */
+
+export const outputVertexShader = /* glsl */ `
+varying vec2 vUv;
+void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`
+
+export const outputFragmentShader = /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform float u_exposure;
+uniform int u_toneMapping;
+varying vec2 vUv;
+
+vec3 srgbToLinear(vec3 srgb) {
+    return mix(pow((srgb + 0.055) / 1.055, vec3(2.4)), srgb / 12.92, step(srgb, vec3(0.04045)));
+}
+
+vec3 linearToSrgb(vec3 linear) {
+    return mix(1.055 * pow(linear, vec3(1.0 / 2.4)) - 0.055, linear * 12.92, step(linear, vec3(0.0031308)));
+}
+
+vec3 rrtAndOdtFit(vec3 v) {
+    vec3 a = v * (v + 0.0245786) - 0.000090537;
+    vec3 b = v * (0.983729 * v + 0.4329510) + 0.238081;
+    return a / b;
+}
+
+vec3 acesFilmic(vec3 color) {
+    // sRGB => XYZ => D65_2_D60 => AP1 => RRT_SAT (transposed)
+    const mat3 inputMat = mat3(
+        vec3(0.59719, 0.07600, 0.02840),
+        vec3(0.35458, 0.90834, 0.13383),
+        vec3(0.04823, 0.01566, 0.83777)
+    );
+    // ODT_SAT => XYZ => D60_2_D65 => sRGB (transposed)
+    const mat3 outputMat = mat3(
+        vec3(1.60475, -0.10208, -0.00327),
+        vec3(-0.53108, 1.10813, -0.07276),
+        vec3(-0.07367, -0.00605, 1.07602)
+    );
+    color = inputMat * (color / 0.6);
+    color = rrtAndOdtFit(color);
+    return clamp(outputMat * color, 0.0, 1.0);
+}
+
+vec3 agxContrast(vec3 x) {
+    vec3 x2 = x * x;
+    vec3 x4 = x2 * x2;
+    return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4
+        - 6.868 * x2 * x + 0.4298 * x2 + 0.1191 * x - 0.00232;
+}
+
+vec3 agx(vec3 color) {
+    const mat3 srgbToRec2020 = mat3(
+        vec3(0.6274, 0.0691, 0.0164),
+        vec3(0.3293, 0.9195, 0.0880),
+        vec3(0.0433, 0.0113, 0.8956)
+    );
+    const mat3 rec2020ToSrgb = mat3(
+        vec3(1.6605, -0.1246, -0.0182),
+        vec3(-0.5876, 1.1329, -0.1006),
+        vec3(-0.0728, -0.0083, 1.1187)
+    );
+    const mat3 insetMat = mat3(
+        vec3(0.856627153315983, 0.137318972929847, 0.11189821299995),
+        vec3(0.0951212405381588, 0.761241990602591, 0.0767994186031903),
+        vec3(0.0482516061458583, 0.101439036467562, 0.811302368396859)
+    );
+    const mat3 outsetMat = mat3(
+        vec3(1.1271005818144368, -0.1413297634984383, -0.14132976349843826),
+        vec3(-0.11060664309660323, 1.157823702216272, -0.11060664309660294),
+        vec3(-0.016493938717834573, -0.016493938717834257, 1.2519364065950405)
+    );
+    const float minEv = -12.47393;
+    const float maxEv = 4.026069;
+
+    color = insetMat * (srgbToRec2020 * color);
+    color = (log2(max(color, 1e-10)) - minEv) / (maxEv - minEv);
+    color = agxContrast(clamp(color, 0.0, 1.0));
+    color = pow(max(outsetMat * color, 0.0), vec3(2.2));
+    return clamp(rec2020ToSrgb * color, 0.0, 1.0);
+}
+
+void main() {
+    vec4 source = texture2D(tDiffuse, vUv);
+    float alpha = clamp(source.a, 0.0, 1.0);
+    if (alpha <= 0.0) {
+        gl_FragColor = vec4(0.0);
+        return;
+    }
+    vec3 color = srgbToLinear(max(source.rgb / alpha, 0.0)) * u_exposure;
+
+    if (u_toneMapping == 1) {
+        color = acesFilmic(color);
+    } else if (u_toneMapping == 2) {
+        color = agx(color);
+    } else if (u_toneMapping == 3) {
+        color = color / (1.0 + color);
+    }
+
+    gl_FragColor = vec4(linearToSrgb(clamp(color, 0.0, 1.0)) * alpha, alpha);
+}
+`
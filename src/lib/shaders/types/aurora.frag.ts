@@ -16,11 +16,6 @@ precision highp float;
 
 varying vec2 vUv;
 
-// Color stops
-uniform vec3 colorStops[10];
-uniform float colorPositions[10];
-uniform int numStops;
-
 // Aurora-specific uniforms
 uniform float auroraWaveCount;
 uniform float auroraFlow;
@@ -135,7 +130,7 @@ void main() {
     color = applyMaterials(color, warpedUv);
     color = applyAllEffects(color, vUv, gl_FragCoord.xy);
     
-    gl_FragColor = vec4(color, 1.0);
+    gl_FragColor = composeOutput(color, vUv);
 }
 `
 
@@ -15,11 +15,6 @@ precision highp float;
 
 varying vec2 vUv;
 
-// Color stops
-uniform vec3 colorStops[10];
-uniform float colorPositions[10];
-uniform int numStops;
-
 // Conic-specific uniforms
 uniform float conicPosX;
 uniform float conicPosY;
@@ -94,7 +89,7 @@ void main() {
     color = applyMaterials(color, warpedUv);
     color = applyAllEffects(color, vUv, gl_FragCoord.xy);
     
-    gl_FragColor = vec4(color, 1.0);
+    gl_FragColor = composeOutput(color, vUv);
 }
 `
 
@@ -0,0 +1,72 @@
+/**
+ * Registered Gradient Type Shader
+ * Wraps a plugin's body (lib/engine/gradientTypes) in the pipeline the
+ * built-in types share: geometry, warps, lava lamp, pixelate, chromatic
+ * aberration, bevel, depth shading, materials and effects
+ */
+
+import { gradientUtils } from '../utils/gradient.glsl'
+import { sdfUtils } from '../utils/sdf.glsl'
+import { materialUtils } from '../utils/materials.glsl'
+import { warpUtils } from '../utils/warp.glsl'
+import { geometryUtils } from '../utils/geometry.glsl'
+import { effectsUtils } from '../utils/effects.glsl'
+import { lavaLampUtils } from '../utils/lavaLamp.glsl'
+
+/**
+ * Full fragment shader for a gradient type whose `body` declares its
+ * uniforms and defines `vec3 sampleGradientAt(vec2 uv)`
+ */
+export function createCustomGradientShader(body: string): string {
+  return /* glsl */ `
+precision highp float;
+
+varying vec2 vUv;
+
+${gradientUtils}
+${sdfUtils}
+${materialUtils}
+${geometryUtils}
+${warpUtils}
+${effectsUtils}
+${lavaLampUtils}
+
+${body}
+
+vec3 applyChromatic(vec2 uv) {
+    if (u_chromaticAmount < 0.1) return sampleGradientAt(uv);
+    vec2 offset = getChromaticOffset(u_chromaticAmount, u_chromaticAngle);
+    offset += getChromaticOffsetRadial(uv, u_chromaticAmount * 0.5);
+    vec3 colorR = sampleGradientAt(uv + offset);
+    vec3 colorG = sampleGradientAt(uv);
+    vec3 colorB = sampleGradientAt(uv - offset);
+    return vec3(colorR.r, colorG.g, colorB.b);
+}
+
+void main() {
+    vec2 geometryUv = applyAllGeometry(vUv);
+    vec2 warpedUv = applyAllWarps(geometryUv);
+    
+    // Apply lava lamp organic warp
+    warpedUv = applyLavaLampWarp(warpedUv);
+    
+    // Apply pixelate before gradient sampling
+    if (u_pixelateEnabled && u_pixelateSize > 0.0) {
+        warpedUv = applyPixelateUV(warpedUv, u_pixelateSize);
+    }
+    
+    vec3 color = u_chromaticEnabled ? applyChromatic(warpedUv) : sampleGradientAt(warpedUv);
+    
+    color = applyGeometryBevel(color, vUv);
+    
+    if (u_depthEnabled && u_depthShading) {
+        color = apply3DShading(color, vUv, u_depthAmount, u_depthCenter);
+    }
+    
+    color = applyMaterials(color, warpedUv);
+    color = applyAllEffects(color, vUv, gl_FragCoord.xy);
+    
+    gl_FragColor = composeOutput(color, vUv);
+}
+`
+}
@@ -11,4 +11,7 @@ export { auroraGradientShader } from './aurora.frag'
 export { stripesGradientShader } from './stripes.frag'
 export { foldedGradientShader } from './folded.frag'
 export { reverbGradientShader } from './reverb.frag'
+export { meshGradientShader, MESH_MAX_SIZE } from './mesh.frag'
+export { noiseGradientShader } from './noise.frag'
 
+export { createCustomGradientShader } from './custom.frag'
@@ -15,11 +15,6 @@ precision highp float;
 
 varying vec2 vUv;
 
-// Color stops
-uniform vec3 colorStops[10];
-uniform float colorPositions[10];
-uniform int numStops;
-
 // Linear-specific uniforms
 uniform float angle;
 uniform int linearRepeatMode;
@@ -118,7 +113,7 @@ void main() {
     // 9. Apply effects (color adjustments, glow, vignette, grain, etc)
     color = applyAllEffects(color, vUv, gl_FragCoord.xy);
     
-    gl_FragColor = vec4(color, 1.0);
+    gl_FragColor = composeOutput(color, vUv);
 }
 `
 
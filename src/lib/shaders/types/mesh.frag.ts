@@ -0,0 +1,251 @@
+/**
+ * Mesh Gradient Shader
+ * Free-form mesh of colored control points (engine/meshGradient.ts). Each
+ * pixel is inverted to grid coordinates with Newton's method on the patch
+ * surface, then colored from the points around it.
+ */
+
+import { gradientUtils } from '../utils/gradient.glsl'
+import { materialUtils } from '../utils/materials.glsl'
+import { warpUtils } from '../utils/warp.glsl'
+import { geometryUtils } from '../utils/geometry.glsl'
+import { effectsUtils } from '../utils/effects.glsl'
+import { lavaLampUtils } from '../utils/lavaLamp.glsl'
+
+/** Most columns or rows a mesh can have */
+export const MESH_MAX_SIZE = 5
+
+export const meshGradientShader = /* glsl */ `
+precision highp float;
+
+varying vec2 vUv;
+
+#define MESH_MAX_SIZE ${MESH_MAX_SIZE}
+#define MESH_MAX_POINTS ${MESH_MAX_SIZE * MESH_MAX_SIZE}
+
+// Mesh-specific uniforms
+uniform int meshColumns;
+uniform int meshRows;
+uniform int meshInterpolation;                 // 0 = bicubic, 1 = coons
+uniform vec2 meshPositions[MESH_MAX_POINTS];   // UV, row by row from the top
+uniform vec4 meshTangents[MESH_MAX_POINTS];    // Per patch: along the row (xy), down the column (zw)
+uniform vec4 meshColors[MESH_MAX_POINTS];      // Straight RGBA
+
+${gradientUtils}
+${materialUtils}
+${geometryUtils}
+${warpUtils}
+${effectsUtils}
+${lavaLampUtils}
+
+// Grid coordinates: s runs along a row (0 to columns - 1), t down a column
+
+struct MeshPatch {
+    vec2 p00, p10, p01, p11;   // Corners, p10 one column right, p01 one row down
+    vec2 s00, s10, s01, s11;   // Tangents along the row
+    vec2 t00, t10, t01, t11;   // Tangents down the column
+};
+
+int meshIndex(int column, int row) {
+    return row * meshColumns + column;
+}
+
+// Patch holding grid coordinate st, and st within it (0-1)
+MeshPatch loadMeshPatch(vec2 st, out vec2 local, out ivec2 corner) {
+    corner = ivec2(
+        clamp(int(floor(st.x)), 0, meshColumns - 2),
+        clamp(int(floor(st.y)), 0, meshRows - 2)
+    );
+    local = st - vec2(corner);
+
+    int i00 = meshIndex(corner.x, corner.y);
+    int i10 = i00 + 1;
+    int i01 = i00 + meshColumns;
+    int i11 = i01 + 1;
+
+    MeshPatch m;
+    m.p00 = meshPositions[i00]; m.p10 = meshPositions[i10];
+    m.p01 = meshPositions[i01]; m.p11 = meshPositions[i11];
+    m.s00 = meshTangents[i00].xy; m.s10 = meshTangents[i10].xy;
+    m.s01 = meshTangents[i01].xy; m.s11 = meshTangents[i11].xy;
+    m.t00 = meshTangents[i00].zw; m.t10 = meshTangents[i10].zw;
+    m.t01 = meshTangents[i01].zw; m.t11 = meshTangents[i11].zw;
+    return m;
+}
+
+// Cubic Hermite weights of (start, end, start tangent, end tangent)
+vec4 hermite(float x) {
+    float x2 = x * x;
+    float x3 = x2 * x;
+    return vec4(2.0 * x3 - 3.0 * x2 + 1.0, -2.0 * x3 + 3.0 * x2, x3 - 2.0 * x2 + x, x3 - x2);
+}
+
+vec4 hermiteDerivative(float x) {
+    float x2 = x * x;
+    return vec4(6.0 * x2 - 6.0 * x, -6.0 * x2 + 6.0 * x, 3.0 * x2 - 4.0 * x + 1.0, 3.0 * x2 - 2.0 * x);
+}
+
+vec2 hermiteCurve(vec2 a, vec2 b, vec2 ta, vec2 tb, vec4 h) {
+    return a * h.x + b * h.y + ta * h.z + tb * h.w;
+}
+
+// Patch surface from weights along the row (hs, with linear ls) and down
+// the column (ht, lt). Derivative weights give the surface's derivatives.
+vec2 meshSurface(MeshPatch m, vec4 hs, vec2 ls, vec4 ht, vec2 lt) {
+    if (meshInterpolation == 1) {
+        // Coons: the four edge curves blended across, minus the corners counted twice
+        vec2 top = hermiteCurve(m.p00, m.p10, m.s00, m.s10, hs);
+        vec2 bottom = hermiteCurve(m.p01, m.p11, m.s01, m.s11, hs);
+        vec2 left = hermiteCurve(m.p00, m.p01, m.t00, m.t01, ht);
+        vec2 right = hermiteCurve(m.p10, m.p11, m.t10, m.t11, ht);
+        vec2 corners = lt.x * (ls.x * m.p00 + ls.y * m.p10) + lt.y * (ls.x * m.p01 + ls.y * m.p11);
+        return lt.x * top + lt.y * bottom + ls.x * left + ls.y * right - corners;
+    }
+    // Bicubic Hermite (Ferguson) surface with zero twist
+    vec2 left = hermiteCurve(m.p00, m.p01, m.t00, m.t01, ht);
+    vec2 right = hermiteCurve(m.p10, m.p11, m.t10, m.t11, ht);
+    vec2 leftTangent = m.s00 * ht.x + m.s01 * ht.y;
+    vec2 rightTangent = m.s10 * ht.x + m.s11 * ht.y;
+    return left * hs.x + right * hs.y + leftTangent * hs.z + rightTangent * hs.w;
+}
+
+// Start Newton from the nearest point or patch center
+vec2 meshInitialGuess(vec2 uv) {
+    vec2 best = vec2(0.0);
+    float bestDistance = 1e9;
+    for (int row = 0; row < MESH_MAX_SIZE; row++) {
+        if (row >= meshRows) break;
+        for (int column = 0; column < MESH_MAX_SIZE; column++) {
+            if (column >= meshColumns) break;
+            int index = meshIndex(column, row);
+            float d = distance(uv, meshPositions[index]);
+            if (d < bestDistance) {
+                bestDistance = d;
+                best = vec2(float(column), float(row));
+            }
+            if (column + 1 < meshColumns && row + 1 < meshRows) {
+                vec2 center = 0.25 * (meshPositions[index] + meshPositions[index + 1] +
+                    meshPositions[index + meshColumns] + meshPositions[index + meshColumns + 1]);
+                d = distance(uv, center);
+                if (d < bestDistance) {
+                    bestDistance = d;
+                    best = vec2(float(column), float(row)) + 0.5;
+                }
+            }
+        }
+    }
+    return best;
+}
+
+// Grid coordinate whose surface point is uv. Outside the mesh it settles on
+// the nearest edge, which then extends outwards.
+vec2 invertMesh(vec2 uv) {
+    vec2 maxSt = vec2(float(meshColumns - 1), float(meshRows - 1));
+    vec2 st = meshInitialGuess(uv);
+    for (int i = 0; i < 8; i++) {
+        vec2 local;
+        ivec2 corner;
+        MeshPatch m = loadMeshPatch(st, local, corner);
+        vec4 hs = hermite(local.x);
+        vec4 ht = hermite(local.y);
+        vec2 ls = vec2(1.0 - local.x, local.x);
+        vec2 lt = vec2(1.0 - local.y, local.y);
+
+        vec2 error = meshSurface(m, hs, ls, ht, lt) - uv;
+        vec2 ds = meshSurface(m, hermiteDerivative(local.x), vec2(-1.0, 1.0), ht, lt);
+        vec2 dt = meshSurface(m, hs, ls, hermiteDerivative(local.y), vec2(-1.0, 1.0));
+
+        float det = ds.x * dt.y - ds.y * dt.x;
+        if (abs(det) < 1e-8) break;
+        vec2 delta = vec2(dt.y * error.x - dt.x * error.y, ds.x * error.y - ds.y * error.x) / det;
+        // Damp steps across folds, where the Jacobian misleads
+        delta *= min(1.0, 0.5 / max(length(delta), 1e-6));
+        st = clamp(st - delta, vec2(0.0), maxSt);
+    }
+    return st;
+}
+
+vec4 premultiply(vec4 c) {
+    return vec4(c.rgb * c.a, c.a);
+}
+
+vec3 sampleGradientAt(vec2 uv) {
+    vec2 local;
+    ivec2 corner;
+    loadMeshPatch(invertMesh(uv), local, corner);
+
+    int i00 = meshIndex(corner.x, corner.y);
+    vec4 c00 = premultiply(meshColors[i00]);
+    vec4 c10 = premultiply(meshColors[i00 + 1]);
+    vec4 c01 = premultiply(meshColors[i00 + meshColumns]);
+    vec4 c11 = premultiply(meshColors[i00 + meshColumns + 1]);
+
+    vec4 color;
+    if (meshInterpolation == 1) {
+        color = mix(mix(c00, c10, local.x), mix(c01, c11, local.x), local.y);
+    } else {
+        // Bicubic Hermite over premultiplied colors: Catmull-Rom tangents, zero twist
+        vec4 hs = hermite(local.x);
+        vec4 ht = hermite(local.y);
+        vec4 cs[4];
+        vec4 ct[4];
+        for (int k = 0; k < 4; k++) {
+            int column = corner.x + k % 2;
+            int row = corner.y + k / 2;
+            int index = meshIndex(column, row);
+            vec4 nextS = premultiply(meshColors[index + (column < meshColumns - 1 ? 1 : 0)]);
+            vec4 prevS = premultiply(meshColors[index - (column > 0 ? 1 : 0)]);
+            vec4 nextT = premultiply(meshColors[index + (row < meshRows - 1 ? meshColumns : 0)]);
+            vec4 prevT = premultiply(meshColors[index - (row > 0 ? meshColumns : 0)]);
+            float spanS = (column > 0 && column < meshColumns - 1) ? 0.5 : 1.0;
+            float spanT = (row > 0 && row < meshRows - 1) ? 0.5 : 1.0;
+            cs[k] = (nextS - prevS) * spanS;
+            ct[k] = (nextT - prevT) * spanT;
+        }
+        vec4 left = c00 * ht.x + c01 * ht.y + ct[0] * ht.z + ct[2] * ht.w;
+        vec4 right = c10 * ht.x + c11 * ht.y + ct[1] * ht.z + ct[3] * ht.w;
+        vec4 leftTangent = cs[0] * ht.x + cs[2] * ht.y;
+        vec4 rightTangent = cs[1] * ht.x + cs[3] * ht.y;
+        color = left * hs.x + right * hs.y + leftTangent * hs.z + rightTangent * hs.w;
+    }
+
+    gradientAlpha = clamp(color.a, 0.0, 1.0);
+    return clampColor(gradientAlpha > 0.0 ? color.rgb / gradientAlpha : vec3(0.0));
+}
+
+vec3 applyChromatic(vec2 uv) {
+    if (u_chromaticAmount < 0.1) return sampleGradientAt(uv);
+    vec2 offset = getChromaticOffset(u_chromaticAmount, u_chromaticAngle);
+    offset += getChromaticOffsetRadial(uv, u_chromaticAmount * 0.5);
+    vec3 colorR = sampleGradientAt(uv + offset);
+    vec3 colorG = sampleGradientAt(uv);
+    vec3 colorB = sampleGradientAt(uv - offset);
+    return vec3(colorR.r, colorG.g, colorB.b);
+}
+
+void main() {
+    vec2 geometryUv = applyAllGeometry(vUv);
+    vec2 warpedUv = applyAllWarps(geometryUv);
+
+    // Apply lava lamp organic warp
+    warpedUv = applyLavaLampWarp(warpedUv);
+
+    // Apply pixelate before gradient sampling
+    if (u_pixelateEnabled && u_pixelateSize > 0.0) {
+        warpedUv = applyPixelateUV(warpedUv, u_pixelateSize);
+    }
+
+    vec3 color = u_chromaticEnabled ? applyChromatic(warpedUv) : sampleGradientAt(warpedUv);
+
+    color = applyGeometryBevel(color, vUv);
+
+    if (u_depthEnabled && u_depthShading) {
+        color = apply3DShading(color, vUv, u_depthAmount, u_depthCenter);
+    }
+
+    color = applyMaterials(color, warpedUv);
+    color = applyAllEffects(color, vUv, gl_FragCoord.xy);
+
+    gl_FragColor = composeOutput(color, vUv);
+}
+`
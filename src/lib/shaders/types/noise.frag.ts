@@ -0,0 +1,91 @@
+/**
+ * Noise Gradient Shader
+ * Maps a layered simplex noise field (utils/noise.glsl) onto the color ramp.
+ * The field is a pure function of position, seed and drift (time × speed,
+ * round a closed path under a loop duration), so a seed renders the same at
+ * every time in every export.
+ */
+
+import { gradientUtils } from '../utils/gradient.glsl'
+import { materialUtils } from '../utils/materials.glsl'
+import { warpUtils } from '../utils/warp.glsl'
+import { geometryUtils } from '../utils/geometry.glsl'
+import { effectsUtils } from '../utils/effects.glsl'
+import { lavaLampUtils } from '../utils/lavaLamp.glsl'
+
+export const noiseGradientShader = /* glsl */ `
+precision highp float;
+
+varying vec2 vUv;
+
+// Noise-specific uniforms
+uniform float aspectRatio;
+uniform int noiseField;          // 0 = fbm, 1 = simplex, 2 = curl
+uniform float noiseScale;
+uniform int noiseOctaves;
+uniform float noiseLacunarity;
+uniform float noiseGain;
+uniform vec3 noiseSeed;          // Offset into the field (engine/noiseField.ts)
+uniform vec3 noiseDrift;          // Time's path through the field
+
+${gradientUtils}
+${materialUtils}
+${geometryUtils}
+${warpUtils}
+${effectsUtils}
+${lavaLampUtils}
+
+vec3 sampleGradientAt(vec2 uv) {
+    // Aspect-corrected so features stay round; time moves it through the field
+    vec3 p = vec3((uv - 0.5) * vec2(aspectRatio, 1.0) * noiseScale, 0.0) + noiseDrift;
+
+    float n;
+    if (noiseField == 1) {
+        n = simplexNoise(p + noiseSeed);
+    } else if (noiseField == 2) {
+        // The field carried along its own flow
+        vec2 flow = curlNoise(p, noiseSeed, noiseOctaves, noiseLacunarity, noiseGain);
+        n = fbmNoise(p + vec3(flow * 0.25, 0.0), noiseSeed, noiseOctaves, noiseLacunarity, noiseGain);
+    } else {
+        n = fbmNoise(p, noiseSeed, noiseOctaves, noiseLacunarity, noiseGain);
+    }
+
+    return getGradientColor(n * 0.5 + 0.5);
+}
+
+vec3 applyChromatic(vec2 uv) {
+    if (u_chromaticAmount < 0.1) return sampleGradientAt(uv);
+    vec2 offset = getChromaticOffset(u_chromaticAmount, u_chromaticAngle);
+    offset += getChromaticOffsetRadial(uv, u_chromaticAmount * 0.5);
+    vec3 colorR = sampleGradientAt(uv + offset);
+    vec3 colorG = sampleGradientAt(uv);
+    vec3 colorB = sampleGradientAt(uv - offset);
+    return vec3(colorR.r, colorG.g, colorB.b);
+}
+
+void main() {
+    vec2 geometryUv = applyAllGeometry(vUv);
+    vec2 warpedUv = applyAllWarps(geometryUv);
+
+    // Apply lava lamp organic warp
+    warpedUv = applyLavaLampWarp(warpedUv);
+
+    // Apply pixelate before gradient sampling
+    if (u_pixelateEnabled && u_pixelateSize > 0.0) {
+        warpedUv = applyPixelateUV(warpedUv, u_pixelateSize);
+    }
+
+    vec3 color = u_chromaticEnabled ? applyChromatic(warpedUv) : sampleGradientAt(warpedUv);
+
+    color = applyGeometryBevel(color, vUv);
+
+    if (u_depthEnabled && u_depthShading) {
+        color = apply3DShading(color, vUv, u_depthAmount, u_depthCenter);
+    }
+
+    color = applyMaterials(color, warpedUv);
+    color = applyAllEffects(color, vUv, gl_FragCoord.xy);
+
+    gl_FragColor = composeOutput(color, vUv);
+}
+`
@@ -3,12 +3,13 @@
  * 
  * Applied in order for best results:
  * 1. Color adjustments (affects all subsequent effects)
- * 2. Glow (needs original brightness values)
- * 3. Chromatic aberration (two-pass, handled separately)
- * 4. Vignette
- * 5. Posterize
- * 6. Grain (adds texture on top)
- * 7. Dither (final banding reduction)
+ * 2. Chromatic aberration (two-pass, handled separately)
+ * 3. Vignette
+ * 4. Posterize
+ * 5. Grain (adds texture on top)
+ * 6. Dither (final banding reduction)
+ *
+ * Glow is a post pass (BloomPass), since it needs neighbouring pixels.
  */
 
 // GLSL uniforms for effects
@@ -20,12 +21,6 @@ uniform float u_contrast;
 uniform float u_saturation;
 uniform float u_hueShift;
 
-// Glow
-uniform bool u_glowEnabled;
-uniform float u_glowAmount;
-uniform float u_glowThreshold;
-uniform float u_glowRadius;
-
 // Chromatic Aberration (handled in two-pass)
 uniform bool u_chromaticEnabled;
 uniform float u_chromaticAmount;
@@ -100,29 +95,7 @@ vec3 applyColorAdjustments(vec3 color, float brightness, float contrast, float s
         color = hsl2rgb(hsl);
     }
     
-    return clamp(color, 0.0, 1.0);
-}
-
-// ============================================
-// GLOW (Simple bloom approximation)
-// ============================================
-
-vec3 applyGlow(vec3 color, float amount, float threshold) {
-    // Get brightness
-    float lum = dot(color, vec3(0.299, 0.587, 0.114));
-    
-    // Apply threshold
-    float threshNorm = threshold * 0.01;
-    float glowMask = smoothstep(threshNorm, threshNorm + 0.1, lum);
-    
-    // Amount: 0-100 -> 0-1
-    float amountNorm = amount * 0.01;
-    
-    // Add glow (brighten and slightly desaturate for bloom look)
-    vec3 glowColor = mix(color, vec3(lum), 0.3);
-    color = mix(color, color + glowColor * amountNorm, glowMask);
-    
-    return clamp(color, 0.0, 1.0);
+    return clampColor(color);
 }
 
 // ============================================
@@ -160,7 +133,7 @@ vec3 applyVignette(vec3 color, vec2 uv, float amount, float softness, float roun
         color = mix(color, color * vignette, amountNorm);
     }
     
-    return clamp(color, 0.0, 1.0);
+    return clampColor(color);
 }
 
 // ============================================
@@ -212,7 +185,7 @@ vec3 applyGrain(vec3 color, vec2 uv, float amount, float size, bool mono) {
         color += noise * amountNorm;
     }
     
-    return clamp(color, 0.0, 1.0);
+    return clampColor(color);
 }
 
 // ============================================
@@ -248,7 +221,7 @@ vec3 applyDither(vec3 color, vec2 fragCoord, float amount) {
     
     color += ditherValue * amountNorm;
     
-    return clamp(color, 0.0, 1.0);
+    return clampColor(color);
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -379,24 +352,19 @@ vec3 applyAllEffects(vec3 color, vec2 uv, vec2 fragCoord) {
         color = applyColorAdjustments(color, u_brightness, u_contrast, u_saturation, u_hueShift);
     }
     
-    // 2. Glow
-    if (u_glowEnabled) {
-        color = applyGlow(color, u_glowAmount, u_glowThreshold);
-    }
-    
-    // 3. Chromatic aberration - handled in main shader (needs UV-based gradient sampling)
+    // 2. Chromatic aberration - handled in main shader (needs UV-based gradient sampling)
     
-    // 4. Vignette
+    // 3. Vignette
     if (u_vignetteEnabled) {
         color = applyVignette(color, uv, u_vignetteAmount, u_vignetteSoftness, u_vignetteRoundness, u_vignetteInvert);
     }
     
-    // 5. Posterize
+    // 4. Posterize
     if (u_posterizeEnabled) {
         color = applyPosterize(color, u_posterizeLevels);
     }
     
-    // 6. Halftone
+    // 5. Halftone
     if (u_halftoneEnabled) {
         float htIntensity = u_halftoneIntensity / 100.0;
         float htScale = u_halftoneScale;  // Higher = more dots
@@ -404,17 +372,17 @@ vec3 applyAllEffects(vec3 color, vec2 uv, vec2 fragCoord) {
         color = applyHalftone(color, uv, htIntensity, htScale, htSoftness);
     }
     
-    // 7. Scanlines
+    // 6. Scanlines
     if (u_scanlinesEnabled) {
         color = applyScanlines(color, uv, u_scanlinesIntensity, u_scanlinesDensity);
     }
     
-    // 8. Grain
+    // 7. Grain
     if (u_grainEnabled) {
         color = applyGrain(color, uv, u_grainAmount, u_grainSize, u_grainMono);
     }
     
-    // 9. Dither
+    // 8. Dither
     if (u_ditherEnabled) {
         color = applyDither(color, fragCoord, u_ditherAmount);
     }
@@ -1,21 +1,34 @@
 /**
  * Gradient Color Sampling
  * 
- * Core function to sample colors from a gradient with blend options
+ * Core function to sample colors from a gradient with blend options.
+ * The color stops are baked into the u_gradientLut texture on the CPU
+ * (engine/gradientLut.ts), so sampling is a single texture fetch.
  */
 
 import { colorUtils } from './color.glsl'
 import { easingUtils } from './easing.glsl'
 
+/** Texels in the baked color-stop lookup texture */
+export const GRADIENT_LUT_SIZE = 1024
+
 export const gradientUtils = /* glsl */ `
 ${colorUtils}
 ${easingUtils}
 
-// Blend uniforms
-uniform int blendHardStops;
+// Baked color stops: RGB + stop alpha, t = 0 at the first texel center
+uniform sampler2D u_gradientLut;
 uniform float blendSteps;
-uniform int blendEasing;
-uniform int blendColorMode; // 0=linear RGB, 1=HSV short path, 2=HSV long path
+
+// Alpha of the last getGradientColor() sample, for composeOutput()
+float gradientAlpha = 1.0;
+
+// HDR output: brights may exceed 1 until the output pass tone-maps them
+uniform bool u_hdr;
+
+vec3 clampColor(vec3 color) {
+    return u_hdr ? max(color, 0.0) : clamp(color, 0.0, 1.0);
+}
 
 // Gradient animation uniforms
 uniform float u_gradientOffset;  // Shifts colors along gradient (-1 to 1)
@@ -65,44 +78,48 @@ vec3 getGradientColor(float t) {
         t = floor(t * steps) / steps;
     }
     
-    // Handle edge cases
-    if (t <= colorPositions[0]) return colorStops[0];
-    if (t >= colorPositions[numStops - 1]) return colorStops[numStops - 1];
-    
-    // Find the two stops that t falls between
-    for (int i = 0; i < 9; i++) {
-        if (i + 1 >= numStops) break;
-        
-        if (t >= colorPositions[i] && t <= colorPositions[i + 1]) {
-            float range = max(colorPositions[i + 1] - colorPositions[i], 0.0001);
-            float localT = (t - colorPositions[i]) / range;
-            
-            // Apply hard stops or easing
-            if (blendHardStops == 1) {
-                localT = step(0.5, localT);
-            } else {
-                localT = applyEasing(localT, blendEasing);
-            }
-            
-            vec3 c1 = colorStops[i];
-            vec3 c2 = colorStops[i + 1];
-            
-            // Color interpolation modes:
-            // 0 = linear RGB (perceptually correct, no hue shift)
-            // 1 = HSV short path (classic behavior, takes shortest hue route)
-            // 2 = HSV long path (wraps around color wheel the long way)
-            if (blendColorMode == 1) {
-                return hueMix(c1, c2, localT, 0); // HSV short path
-            } else if (blendColorMode == 2) {
-                return hueMix(c1, c2, localT, 1); // HSV long path
-            }
-
-            // Default (0): linear space mixing (standard gradient behavior)
-            return mixLinear(c1, c2, localT);
-        }
+    // Texel centers span [0.5, size - 0.5] so both ends sample a stop exactly
+    float size = ${GRADIENT_LUT_SIZE}.0;
+    vec4 lut = texture2D(u_gradientLut, vec2((t * (size - 1.0) + 0.5) / size, 0.5));
+    gradientAlpha = lut.a;
+    return lut.rgb;
+}
+
+// Transparency: alpha mask and the background composited under the gradient
+uniform bool u_alphaMaskEnabled;
+uniform int u_alphaMaskShape;       // 0 = linear, 1 = radial
+uniform float u_alphaMaskAngle;     // Linear: degrees clockwise from up, the direction it fades towards
+uniform vec2 u_alphaMaskCenter;     // Radial: 0 to 1
+uniform float u_alphaMaskStart;     // 0 to 1: opaque before this
+uniform float u_alphaMaskEnd;       // 0 to 1: transparent after this
+uniform bool u_alphaMaskInvert;
+uniform float u_alphaMaskAspect;    // Canvas width / height
+uniform vec4 u_backgroundColor;     // Premultiplied
+
+float getAlphaMask(vec2 uv) {
+    if (!u_alphaMaskEnabled) return 1.0;
+
+    float t;
+    if (u_alphaMaskShape == 0) {
+        // 0 on the side it fades from, 1 on the side it fades towards
+        float angle = radians(u_alphaMaskAngle);
+        vec2 dir = vec2(sin(angle), cos(angle));
+        t = dot(uv - 0.5, dir) / (abs(dir.x) + abs(dir.y)) + 0.5;
+    } else {
+        // 1 where the circle meets the nearer edge
+        vec2 offset = (uv - u_alphaMaskCenter) * vec2(u_alphaMaskAspect, 1.0);
+        t = length(offset) / (0.5 * min(u_alphaMaskAspect, 1.0));
     }
-    
-    return colorStops[0];
+
+    float fade = clamp((t - u_alphaMaskStart) / max(u_alphaMaskEnd - u_alphaMaskStart, 0.0001), 0.0, 1.0);
+    fade = fade * fade * (3.0 - 2.0 * fade);
+    return u_alphaMaskInvert ? fade : 1.0 - fade;
+}
+
+// Final premultiplied fragment: stop alpha and mask over the background
+vec4 composeOutput(vec3 color, vec2 uv) {
+    float alpha = gradientAlpha * getAlphaMask(uv);
+    return vec4(color * alpha, alpha) + u_backgroundColor * (1.0 - alpha);
 }
 `
 
@@ -5,9 +5,10 @@
 export { colorUtils } from './color.glsl'
 export { easingUtils } from './easing.glsl'
 export { sdfUtils } from './sdf.glsl'
-export { gradientUtils } from './gradient.glsl'
+export { gradientUtils, GRADIENT_LUT_SIZE } from './gradient.glsl'
 export { materialUtils, materialUniforms, materialFunctions } from './materials.glsl'
 export { warpUtils, warpUniforms, warpFunctions } from './warp.glsl'
+export { noiseUtils, NOISE_MAX_OCTAVES } from './noise.glsl'
 export { geometryUtils, geometryUniforms, geometryFunctions } from './geometry.glsl'
 export { effectsUtils, effectsUniforms, effectsFunctions } from './effects.glsl'
 export { lavaLampUtils, lavaLampUniforms, lavaLampFunctions } from './lavaLamp.glsl'
@@ -160,7 +160,7 @@ vec3 applyMetallic(vec3 baseColor, vec2 uv) {
     float sheen = sin(uv.x * 3.14159) * sin(uv.y * 3.14159) * 0.1;
     
     result = result + highlight * 0.5 + sheen;
-    result = clamp(result, 0.0, 1.0);
+    result = clampColor(result);
     
     return mix(baseColor, result, intensity);
 }
@@ -230,7 +230,7 @@ vec3 applyVelvet(vec3 baseColor, vec2 uv) {
     
     // Glow is lighter version of base
     vec3 result = deepColor + edgeGlow * 0.3;
-    result = clamp(result, 0.0, 1.0);
+    result = clampColor(result);
     
     return mix(baseColor, result, intensity);
 }
@@ -0,0 +1,114 @@
+/**
+ * Noise Utilities - Layered Simplex Noise
+ *
+ * Shared by the noise gradient type and the domain-warp warp, and included
+ * through warpUtils so every type shader has it. Seeds arrive as offsets
+ * into the field (engine/noiseField.ts), added to each octave unscaled so
+ * that high octaves keep their precision.
+ */
+
+/** Most octaves fbmNoise() sums */
+export const NOISE_MAX_OCTAVES = 8
+
+export const noiseUtils = /* glsl */ `
+#define NOISE_MAX_OCTAVES ${NOISE_MAX_OCTAVES}
+
+// ============================================
+// SIMPLEX NOISE - 3D, -1 to 1
+// After Ashima Arts / Stefan Gustavson (MIT): no textures, no tables
+// ============================================
+vec3 noiseMod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 noiseMod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 noisePermute(vec4 x) { return noiseMod289((x * 34.0 + 1.0) * x); }
+vec4 noiseTaylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+float simplexNoise(vec3 v) {
+    const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+    const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+    // First corner
+    vec3 i = floor(v + dot(v, C.yyy));
+    vec3 x0 = v - i + dot(i, C.xxx);
+
+    // Other corners
+    vec3 g = step(x0.yzx, x0.xyz);
+    vec3 l = 1.0 - g;
+    vec3 i1 = min(g.xyz, l.zxy);
+    vec3 i2 = max(g.xyz, l.zxy);
+    vec3 x1 = x0 - i1 + C.xxx;
+    vec3 x2 = x0 - i2 + C.yyy;
+    vec3 x3 = x0 - D.yyy;
+
+    // Permutations
+    i = noiseMod289(i);
+    vec4 p = noisePermute(noisePermute(noisePermute(
+        i.z + vec4(0.0, i1.z, i2.z, 1.0)) +
+        i.y + vec4(0.0, i1.y, i2.y, 1.0)) +
+        i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+    // Gradients: 7x7 points over a square, mapped onto an octahedron
+    float n_ = 0.142857142857; // 1/7
+    vec3 ns = n_ * D.wyz - D.xzx;
+    vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+    vec4 x_ = floor(j * ns.z);
+    vec4 y_ = floor(j - 7.0 * x_);
+    vec4 x = x_ * ns.x + ns.yyyy;
+    vec4 y = y_ * ns.x + ns.yyyy;
+    vec4 h = 1.0 - abs(x) - abs(y);
+
+    vec4 b0 = vec4(x.xy, y.xy);
+    vec4 b1 = vec4(x.zw, y.zw);
+    vec4 s0 = floor(b0) * 2.0 + 1.0;
+    vec4 s1 = floor(b1) * 2.0 + 1.0;
+    vec4 sh = -step(h, vec4(0.0));
+    vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+    vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+
+    vec3 p0 = vec3(a0.xy, h.x);
+    vec3 p1 = vec3(a0.zw, h.y);
+    vec3 p2 = vec3(a1.xy, h.z);
+    vec3 p3 = vec3(a1.zw, h.w);
+    vec4 norm = noiseTaylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+    p0 *= norm.x;
+    p1 *= norm.y;
+    p2 *= norm.z;
+    p3 *= norm.w;
+
+    // Mix the corners' contributions
+    vec4 m = max(0.6 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+    m = m * m;
+    return 42.0 * dot(m * m, vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3)));
+}
+
+// ============================================
+// FBM - octaves of simplex noise, -1 to 1
+// Each octave has lacunarity × the frequency and gain × the amplitude of
+// the one before, and its own shift so octaves don't share an origin
+// ============================================
+float fbmNoise(vec3 p, vec3 seed, int octaves, float lacunarity, float gain) {
+    float sum = 0.0;
+    float total = 0.0;
+    float amplitude = 1.0;
+    for (int i = 0; i < NOISE_MAX_OCTAVES; i++) {
+        if (i >= octaves) break;
+        sum += simplexNoise(p + seed + float(i) * vec3(19.19, 7.31, 3.73)) * amplitude;
+        total += amplitude;
+        p *= lacunarity;
+        amplitude *= gain;
+    }
+    return total > 0.0 ? sum / total : 0.0;
+}
+
+// ============================================
+// CURL - divergence-free flow along the fBm's contours
+// Its gradient turned a quarter, by central differences
+// ============================================
+vec2 curlNoise(vec3 p, vec3 seed, int octaves, float lacunarity, float gain) {
+    const float e = 0.001;
+    vec3 dx = vec3(e, 0.0, 0.0);
+    vec3 dy = vec3(0.0, e, 0.0);
+    float gradX = fbmNoise(p + dx, seed, octaves, lacunarity, gain) - fbmNoise(p - dx, seed, octaves, lacunarity, gain);
+    float gradY = fbmNoise(p + dy, seed, octaves, lacunarity, gain) - fbmNoise(p - dy, seed, octaves, lacunarity, gain);
+    return vec2(gradY, -gradX) / (2.0 * e);
+}
+`
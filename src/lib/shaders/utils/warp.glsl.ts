@@ -8,8 +8,11 @@
  * - Sphere: "The Lens" - Fisheye/barrel distortion
  * - Bulge: "The Push/Pull" - Expands or contracts from a point
  * - Ripple: "The Stone in Water" - Concentric waves from a point
+ * - Domain Warp: "The Marble" - Layered noise pushes the UVs around
  */
 
+import { noiseUtils } from './noise.glsl'
+
 // GLSL uniforms for warp effects
 export const warpUniforms = /* glsl */ `
 uniform float u_bendAmount;
@@ -39,6 +42,14 @@ uniform vec2 u_rippleCenter;
 uniform float u_rippleDecay;
 uniform float u_rippleRotation;
 
+uniform float u_domainWarpAmount;
+uniform float u_domainWarpScale;
+uniform int u_domainWarpOctaves;
+uniform float u_domainWarpLacunarity;
+uniform float u_domainWarpGain;
+uniform vec3 u_domainWarpSeed;
+uniform vec3 u_domainWarpDrift;    // Time's path through the field (engine/noiseField.ts)
+
 uniform float u_blurAmount;
 `
 
@@ -267,6 +278,24 @@ vec2 applyRippleWarp(vec2 uv, float amplitude, float frequency, vec2 center, flo
     return uv + dir * wave;
 }
 
+// ============================================
+// DOMAIN WARP - "The Marble"
+// Layered noise displaces UVs; two decorrelated fBm samples of the same
+// field give the x and y offsets. Drift carries the sample through the field over time.
+// ============================================
+vec2 applyDomainWarp(vec2 uv, float amount, float scale, int octaves, float lacunarity, float gain, vec3 seed, vec3 drift) {
+    if (amount < 0.001) return uv;
+
+    vec3 p = vec3((uv - 0.5) * scale, 0.0) + drift;
+    vec2 offset = vec2(
+        fbmNoise(p, seed, octaves, lacunarity, gain),
+        fbmNoise(p, seed + vec3(31.4, 17.9, 5.3), octaves, lacunarity, gain)
+    );
+
+    // Amount 100 moves UVs by up to the fBm's own range, about a third of the canvas
+    return uv + offset * amount * 0.01;
+}
+
 // ============================================
 // APPLY ALL WARPS - Call this in fragment shader
 // ============================================
@@ -280,13 +309,15 @@ vec2 applyAllWarps(vec2 uv) {
     result = applyWaveWarp(result, u_waveAmplitude, u_waveFrequency, u_waveDirection, u_waveRotation);
     result = applyBulgeWarp(result, u_bulgeAmount, u_bulgeRadius, u_bulgeCenter);
     result = applyRippleWarp(result, u_rippleAmplitude, u_rippleFrequency, u_rippleCenter, u_rippleDecay, u_rippleRotation);
+    result = applyDomainWarp(result, u_domainWarpAmount, u_domainWarpScale, u_domainWarpOctaves,
+        u_domainWarpLacunarity, u_domainWarpGain, u_domainWarpSeed, u_domainWarpDrift);
 
     return result;
 }
 `
 
-// Combined export for easy import in fragment shaders
-export const warpUtils = warpUniforms + warpFunctions
+// Combined export for easy import in fragment shaders; brings the noise the domain warp samples
+export const warpUtils = noiseUtils + warpUniforms + warpFunctions
 
 
 
@@ -8,6 +8,9 @@ export interface ColorStop {
   id: string
   color: string    // Hex color like "#FF0000"
   position: number // 0-100
+  alpha?: number   // 0-1, default 1
+  midpoint?: number             // 1-99: where the blend to the next stop is halfway, as % of the segment. Default 50
+  easing?: BlendEasing | null   // Curve to the next stop, null = blendOptions.easing
 }
 
 // === EFFECTS (Post-processing adjustments) ===
@@ -166,6 +169,29 @@ export interface EffectsState {
   dotMatrix: DotMatrixSettings
 }
 
+// === OUTPUT ===
+export type ToneMappingOperator = 'none' | 'aces' | 'agx' | 'reinhard'
+
+export interface OutputSettings {
+  hdr: boolean                      // Half-float render targets where supported, so brights don't clip before tone mapping
+  exposure: number                  // Stops, -5 to 5
+  toneMapping: ToneMappingOperator
+}
+
+// === TRANSPARENCY ===
+export type AlphaMaskShape = 'linear' | 'radial'
+
+export interface AlphaMaskSettings {
+  enabled: boolean
+  shape: AlphaMaskShape
+  angle: number         // Linear: direction the mask fades towards, 0 to 360 clockwise from up
+  centerX: number       // Radial: 0 to 100
+  centerY: number       // Radial: 0 to 100
+  start: number         // 0 to 100: where the fade begins (opaque before it)
+  end: number           // 0 to 100: where it's fully transparent
+  invert: boolean
+}
+
 // === REPEAT / BLEND ===
 export type RepeatMode = 'none' | 'repeat' | 'mirror'
 export type BlendStyle = 'normal' | 'soft' | 'vivid'
@@ -253,12 +279,14 @@ export interface FoldedSettings {
 
 export type BlendEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'bounce'
 export type HuePath = 'linear' | 'short' | 'long'
+export type InterpolationSpace = 'srgb' | 'linear-rgb' | 'oklab' | 'oklch' | 'hsl'
 
 export interface BlendOptions {
   hardStops: boolean
   steps: number
   easing: BlendEasing
-  huePath: HuePath
+  huePath: HuePath                        // 'short'/'long' with linear-rgb: classic HSV blend; with oklch/hsl: hue direction
+  interpolationSpace: InterpolationSpace  // Space stops are mixed in, default 'linear-rgb'
 }
 
 export type ReverbShape = 'circle' | 'square' | 'triangle' | 'hexagon' | 'star' | 'diamond' | 'heart'
@@ -276,6 +304,60 @@ export interface ReverbSettings {
   positionY: number
 }
 
+/**
+ * How the mesh fills between its points: 'bicubic' is a smooth Hermite
+ * surface, colors included; 'coons' blends the patch edges (PDF-style Coons
+ * patches) and mixes each patch's corner colors bilinearly
+ */
+export type MeshInterpolation = 'bicubic' | 'coons'
+
+/** Bézier handles of a mesh point, in percent of the canvas; the opposite side mirrors them */
+export interface MeshHandles {
+  ux: number    // Toward the next column
+  uy: number
+  vx: number    // Toward the next row
+  vy: number
+}
+
+export interface MeshPoint {
+  x: number     // 0-100 from the left; may go past the edges
+  y: number     // 0-100 from the top
+  color: string // #RRGGBBAA for translucent
+  handles: MeshHandles | null   // null: smooth, from the neighbouring points
+}
+
+export interface MeshSettings {
+  columns: number       // 2-5
+  rows: number          // 2-5
+  interpolation: MeshInterpolation
+  points: MeshPoint[]   // Row by row from the top, columns × rows
+}
+
+/**
+ * Layered simplex noise, as read by the noise gradient type and the
+ * domain-warp warp. Octaves past the first each multiply the frequency by
+ * `lacunarity` and the amplitude by `gain`.
+ */
+export interface FractalNoiseSettings {
+  scale: number         // Features across the canvas height, 0.1-20
+  octaves: number       // 1-8
+  lacunarity: number    // 1-4
+  gain: number          // 0-1
+  seed: number          // Whole number; the same seed always draws the same field
+  speed: number         // Evolution per second of render time; 0 holds the field still
+}
+
+/**
+ * What the noise gradient type puts on the color ramp: 'fbm' sums the
+ * octaves, 'simplex' is the first octave alone, 'curl' is the fBm carried
+ * along its own divergence-free flow, like marbled ink
+ */
+export type NoiseField = 'fbm' | 'simplex' | 'curl'
+
+export interface NoiseSettings extends FractalNoiseSettings {
+  field: NoiseField
+}
+
 // === MATERIALS ===
 export type MaterialBlendMode =
   | 'normal' | 'screen' | 'overlay' | 'multiply'
@@ -373,6 +455,11 @@ export interface RippleWarpSettings {
   rotation: number
 }
 
+export interface DomainWarpSettings extends FractalNoiseSettings {
+  enabled: boolean
+  amount: number        // 0-100
+}
+
 export interface WarpBlurSettings {
   enabled: boolean
   amount: number
@@ -385,6 +472,7 @@ export interface WarpState {
   wave: WaveWarpSettings
   bulge: BulgeWarpSettings
   ripple: RippleWarpSettings
+  domainWarp: DomainWarpSettings
   blur: WarpBlurSettings
 }
 
@@ -450,7 +538,48 @@ export interface GeometryEffectsState {
 }
 
 // === GRADIENT TYPE ===
-export type GradientType = 'linear' | 'radial' | 'conic' | 'diamond' | 'spiral' | 'aurora' | 'stripes' | 'folded' | 'reverb'
+export type BuiltinGradientType =
+  | 'linear' | 'radial' | 'conic' | 'diamond' | 'spiral' | 'aurora' | 'stripes' | 'folded' | 'reverb' | 'mesh'
+  | 'noise'
+
+/**
+ * Settings of the gradient types added with registerGradientType()
+ * (lib/engine/gradientTypes), keyed by type name. A plugin declares its own
+ * by augmenting this interface, which also makes its name a GradientType:
+ *
+ *   declare module '@/types/gradient' {
+ *     interface CustomGradientTypeSettings { checker: CheckerSettings }
+ *   }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface CustomGradientTypeSettings {}
+
+export type CustomGradientType = Extract<keyof CustomGradientTypeSettings, string>
+
+export type GradientType = BuiltinGradientType | CustomGradientType
+
+/** What a registered gradient type's setting can hold */
+export type CustomSettingValue = number | boolean | string
+
+// === TIMELINE ===
+export type TimelineMode = 'once' | 'loop' | 'pingpong'
+
+export interface TimelineKeyframe {
+  time: number          // Seconds from timeline start
+  value: number
+  easing?: BlendEasing  // Curve from this keyframe to the next, default 'linear'
+}
+
+export interface TimelineTrack {
+  path: string          // Override path, e.g. 'warp.twist.amount'
+  keyframes: TimelineKeyframe[]
+}
+
+export interface GradientTimeline {
+  duration: number      // Seconds
+  mode: TimelineMode
+  tracks: TimelineTrack[]
+}
 
 // === FULL GRADIENT STATE ===
 export interface GradientState {
@@ -482,6 +611,10 @@ export interface GradientState {
   stripesSettings: StripesSettings
   foldedSettings: FoldedSettings
   reverbSettings: ReverbSettings
+  meshSettings: MeshSettings
+  noiseSettings: NoiseSettings
+  /** Registered gradient types' settings, keyed by type name */
+  typeSettings: Partial<CustomGradientTypeSettings>
 
   geometryType: 'none' | 'grid' | 'verticalStripes' | 'horizontalBars' | 'diagonalStripes'
   geometryCount: number
@@ -504,6 +637,7 @@ export interface GradientState {
     twist: boolean
     sphere: boolean
     bulge: boolean
+    domainWarp: boolean
     blur: boolean
   } | null
 
@@ -512,13 +646,83 @@ export interface GradientState {
   animationTarget: 'warp' | 'colors' | 'geometry' | 'all'
 
   _animationOverrides: Record<string, number> | null
+  timeline: GradientTimeline | null
 
   materials: MaterialState
   effects: EffectsState
+  output: OutputSettings
 
   canvasWidth: number
   canvasHeight: number
-  backgroundColor: string
+  backgroundColor: string   // Composited under the gradient; #RRGGBBAA for translucent, default transparent
+  alphaMask: AlphaMaskSettings
 
   name: string
 }
+
+// === PRESETS (authored / stored shapes) ===
+
+/** Recursively optional version of T. Arrays keep their element shape, also made optional. */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T
+
+/** Wave/ripple warps as stored in v1: `amount` is the old name for `amplitude` */
+export type LegacyWaveWarpSettings = Partial<WaveWarpSettings> & { amount?: number }
+export type LegacyRippleWarpSettings = Partial<RippleWarpSettings> & { amount?: number }
+
+export interface LegacyWarpState {
+  bend?: Partial<BendWarpSettings>
+  twist?: Partial<TwistWarpSettings>
+  sphere?: Partial<SphereWarpSettings>
+  wave?: LegacyWaveWarpSettings
+  bulge?: Partial<BulgeWarpSettings>
+  ripple?: LegacyRippleWarpSettings
+  blur?: Partial<WarpBlurSettings>
+  isMuted?: boolean               // v2: warpMuted
+}
+
+/** Effects as stored in v1 — a few fields still carry their GradientLab-era names */
+export type LegacyEffectsState = DeepPartial<EffectsState> & {
+  color?: { hueRotation?: number }   // v2: hueShift
+  grain?: { colored?: boolean }      // v2: mono (inverted)
+  scanlines?: { opacity?: number }   // v2: intensity
+}
+
+export interface LegacyGeometryState {
+  type?: GradientState['geometryType']   // v2: geometryType
+  effects?: DeepPartial<GeometryEffectsState>   // v2: geometryEffects
+  count?: number
+  rows?: number
+  gap?: number
+  rotation?: number
+  jitter?: number
+  shadow?: number
+  rounded?: boolean
+  offset?: number
+}
+
+/**
+ * Version 1 preset — GradientLab's database format, and the shape the guide's
+ * presets in gradientPresets.ts are authored in. Differs from GradientState by
+ * naming only: `colors`, `warps`, `geometry.{type,effects}`.
+ */
+export type GradientPresetV1 = DeepPartial<
+  Omit<GradientState, 'colorStops' | 'warp' | 'warpMuted' | 'effects' | 'geometryType' | 'geometryEffects'>
+> & {
+  version?: 1
+  colors?: ColorStop[]
+  warps?: LegacyWarpState
+  effects?: LegacyEffectsState
+  geometry?: LegacyGeometryState
+}
+
+/** Version 2 preset — a (possibly partial) canonical GradientState */
+export type GradientPresetV2 = DeepPartial<GradientState> & {
+  version?: 2
+}
+
+/** Any preset shape the engine accepts. Migrated to GradientState before use. */
+export type GradientPresetData = GradientPresetV1 | GradientPresetV2
@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test'
+import { GOLD, BLUE } from '@/lib/data/colors'
+import { hexToRgb, interpolateColor, oklabToRgb, rgbToOklab } from '@/lib/engine/colorSpace'
+import { bakeGradientLut, sampleGradient } from '@/lib/engine/gradientLut'
+import type { BlendOptions, ColorStop, InterpolationSpace } from '@/types/gradient'
+
+/**
+ * Color interpolation spaces — pure functions, no page needed.
+ * Reference values are worked from Ottosson's published OKLab matrices.
+ */
+
+const toBytes = (rgb: readonly number[]) => rgb.slice(0, 3).map((c) => Math.round(c * 255))
+
+const gold = hexToRgb(GOLD.dark)
+const blue = hexToRgb(BLUE.mid)
+
+const blend = (interpolationSpace: InterpolationSpace): BlendOptions => ({
+  hardStops: false, steps: 0, easing: 'linear', huePath: 'linear', interpolationSpace,
+})
+
+const stops: ColorStop[] = [
+  { id: 'a', color: GOLD.dark, position: 0 },
+  { id: 'b', color: BLUE.mid, position: 100 },
+]
+
+test.describe('Color: Interpolation Spaces', () => {
+  test('converts sRGB to OKLab', () => {
+    const [L, a, b] = rgbToOklab(gold)
+    expect(L).toBeCloseTo(0.6987, 3)
+    expect(a).toBeCloseTo(0.0816, 3)
+    expect(b).toBeCloseTo(0.1300, 3)
+  })
+
+  test('round-trips through OKLab', () => {
+    for (const hex of [GOLD.dark, BLUE.mid, GOLD.light, BLUE.deepest]) {
+      expect(toBytes(oklabToRgb(rgbToOklab(hexToRgb(hex))))).toEqual(toBytes(hexToRgb(hex)))
+    }
+  })
+
+  test('GOLD.dark → BLUE.mid midpoint in each space', () => {
+    expect(toBytes(interpolateColor(gold, blue, 0.5, 'srgb'))).toEqual([140, 65, 147])
+    expect(toBytes(interpolateColor(gold, blue, 0.5, 'linear-rgb'))).toEqual([170, 94, 189])
+    expect(toBytes(interpolateColor(gold, blue, 0.5, 'oklab'))).toEqual([129, 110, 174])
+  })
+
+  test('OKLab midpoint is evenly bright, the sRGB one dips', () => {
+    const lightness = (space: InterpolationSpace) => rgbToOklab(interpolateColor(gold, blue, 0.5, space))[0]
+    const expected = (rgbToOklab(gold)[0] + rgbToOklab(blue)[0]) / 2
+    expect(lightness('oklab')).toBeCloseTo(expected, 3)
+    expect(lightness('srgb')).toBeLessThan(expected - 0.05)
+  })
+
+  test('every space keeps the end colors', () => {
+    const spaces: InterpolationSpace[] = ['srgb', 'linear-rgb', 'oklab', 'oklch', 'hsl']
+    for (const space of spaces) {
+      expect(toBytes(interpolateColor(gold, blue, 0, space))).toEqual(toBytes(gold))
+      expect(toBytes(interpolateColor(gold, blue, 1, space))).toEqual(toBytes(blue))
+    }
+  })
+
+  test('long hue paths go the other way round', () => {
+    for (const space of ['oklch', 'hsl'] as const) {
+      const short = toBytes(interpolateColor(gold, blue, 0.5, space, 'short'))
+      const long = toBytes(interpolateColor(gold, blue, 0.5, space, 'long'))
+      expect(long).not.toEqual(short)
+    }
+  })
+})
+
+test.describe('Color: Gradient LUT', () => {
+  test('samples stops in the blend\'s interpolation space', () => {
+    expect(toBytes(sampleGradient(stops, blend('oklab'), 0.5))).toEqual([129, 110, 174])
+    expect(toBytes(sampleGradient(stops, blend('srgb'), 0.5))).toEqual([140, 65, 147])
+  })
+
+  test('bakes the ends onto the first and last texels', () => {
+    const size = 64
+    const lut = bakeGradientLut(stops, blend('oklab'), size)
+    expect(Array.from(lut.slice(0, 4))).toEqual([...toBytes(gold), 255])
+    expect(Array.from(lut.slice((size - 1) * 4))).toEqual([...toBytes(blue), 255])
+  })
+})
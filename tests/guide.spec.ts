@@ -93,18 +93,25 @@ test.describe('Guide — WebGL Gradient Rendering', () => {
     ).toBeGreaterThanOrEqual(1)
   })
 
-  test('gradient pool limits active instances', async ({ page }) => {
+  test('every plane in view renders live', async ({ page }) => {
     await page.goto('/', { waitUntil: 'networkidle' })
-    await page.waitForTimeout(2000)
-
-    const visibleCanvases = await page.locator('canvas').evaluateAll((els) =>
-      els.filter((el) => {
-        const rect = el.getBoundingClientRect()
-        return rect.width > 0 && rect.height > 0
-      }).length
-    )
-    // Pool limits to MAX_ACTIVE (2), allow tolerance
-    expect(visibleCanvases).toBeLessThanOrEqual(6)
+    const hasWebgl = await page.evaluate(() => !!document.createElement('canvas').getContext('webgl2'))
+    test.skip(!hasWebgl, 'WebGL2 unavailable')
+
+    // The hero stacks three planes; all planes share one WebGL context, so none is capped
+    for (const y of [0, 3, 6]) {
+      await page.evaluate((screens) => window.scrollTo(0, window.innerHeight * screens), y)
+      await page.waitForTimeout(1500)
+
+      const planesWithoutCanvas = await page.locator('[data-gradient-pool-id]').evaluateAll((els) =>
+        els.filter((el) => {
+          const rect = el.getBoundingClientRect()
+          const inView = rect.width > 0 && rect.height > 0 && rect.bottom > 0 && rect.top < window.innerHeight
+          return inView && !el.querySelector('canvas')
+        }).length
+      )
+      expect(planesWithoutCanvas).toBe(0)
+    }
   })
 
   test('hero section has visible gradient content', async ({ page }) => {
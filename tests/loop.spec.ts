@@ -0,0 +1,143 @@
+import { test, expect, type Page } from '@playwright/test'
+import { DEFAULT_GRADIENT_STATE } from '@/lib/engine/presetSchema'
+import type { GradientState } from '@/types/gradient'
+
+/**
+ * Loop lock — with a loop duration set, time-driven uniforms repeat every
+ * loop and the seam from the last frame back to the first is no bigger a
+ * step than any other frame-to-frame step. Frames are rendered and diffed in
+ * the page through the dev-only window.__gradientEngine hook.
+ */
+
+const LOOP = 2.5
+const FPS = 12
+const SIZE = { width: 96, height: 54 }
+
+/** Evolving noise under an animated domain warp */
+const DRIFTING_NOISE: GradientState = {
+  ...DEFAULT_GRADIENT_STATE,
+  gradientType: 'noise',
+  noiseSettings: { ...DEFAULT_GRADIENT_STATE.noiseSettings, speed: 0.4, seed: 5 },
+  warp: {
+    ...DEFAULT_GRADIENT_STATE.warp,
+    domainWarp: { ...DEFAULT_GRADIENT_STATE.warp.domainWarp, enabled: true, amount: 40, speed: 0.3, seed: 2 },
+  },
+}
+
+async function loadEngine(page: Page): Promise<void> {
+  await page.goto('/', { waitUntil: 'networkidle' })
+  const hasWebgl = await page.evaluate(() => !!document.createElement('canvas').getContext('webgl2'))
+  test.skip(!hasWebgl, 'WebGL2 unavailable')
+  await page.waitForFunction(() => !!window.__gradientEngine)
+}
+
+test.describe('Loop lock', () => {
+  test('renderAtTime(loopDuration) matches renderAtTime(0) and the seam is smooth', async ({ page }) => {
+    await loadEngine(page)
+
+    const result = await page.evaluate(async ({ loop, fps, size }) => {
+      const { GradientEngine, applyFullStateToEngine, readEnginePixels } = await window.__gradientEngine!()
+      const canvas = document.createElement('canvas')
+      canvas.width = size.width
+      canvas.height = size.height
+      const engine = new GradientEngine(canvas, { forExport: true })
+      applyFullStateToEngine(engine, { gradientType: 'radial' })
+      engine.handleResize(size.width, size.height)
+      engine.setLavaLampEnabled(true)
+      engine.setLavaLampIntensity(100)
+      engine.setLoopDuration(loop)
+
+      const frame = (time: number) => {
+        engine.renderAtTimeSync(time)
+        return readEnginePixels(engine, size.width, size.height)
+      }
+      const meanDiff = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+        let sum = 0
+        for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i])
+        return sum / a.length
+      }
+
+      const first = frame(0)
+      const next = frame(1 / fps)
+      const last = frame(loop - 1 / fps)
+      const wrapped = frame(loop)
+      engine.dispose(true)
+      return { wrap: meanDiff(first, wrapped), step: meanDiff(first, next), seam: meanDiff(last, first) }
+    }, { loop: LOOP, fps: FPS, size: SIZE })
+
+    expect(result.wrap).toBeLessThan(0.5)
+    // The lava lamp moves, so the step is real; the seam is one like it
+    expect(result.step).toBeGreaterThan(0)
+    expect(result.seam).toBeLessThan(result.step * 2 + 0.5)
+  })
+
+  test('an exported loop-locked sequence ends where it starts', async ({ page }) => {
+    await loadEngine(page)
+
+    const result = await page.evaluate(async ({ loop, fps, size }) => {
+      const { renderFrameSequence } = await window.__gradientEngine!()
+      const meanDiff = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+        let sum = 0
+        for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i])
+        return sum / a.length
+      }
+
+      const frames: Uint8ClampedArray[] = []
+      await renderFrameSequence(
+        { gradientType: 'conic' },
+        {
+          rotationAmount: 30, rotationSpeed: 0.7, scaleAmount: 10, scaleSpeed: 1.3,
+          movementAmount: 10, movementSpeed: 0.9, colorCycleSpeed: 1,
+          loopDuration: loop, loopLocked: true,
+        },
+        { size, fps },
+        (frame) => { frames.push(frame.readPixels()) }
+      )
+
+      const steps = frames.slice(1).map((frame, i) => meanDiff(frames[i], frame))
+      return {
+        count: frames.length,
+        maxStep: Math.max(...steps),
+        seam: meanDiff(frames[frames.length - 1], frames[0]),
+      }
+    }, { loop: LOOP, fps: FPS, size: SIZE })
+
+    expect(result.count).toBe(Math.round(LOOP * FPS))
+    expect(result.maxStep).toBeGreaterThan(0)
+    expect(result.seam).toBeLessThan(result.maxStep * 1.5 + 0.5)
+  })
+
+  test('evolving noise and domain warp drift back to frame 0', async ({ page }) => {
+    await loadEngine(page)
+
+    const result = await page.evaluate(async ({ preset, loop, fps, size }) => {
+      const { GradientEngine, applyFullStateToEngine, readEnginePixels } = await window.__gradientEngine!()
+      const canvas = document.createElement('canvas')
+      canvas.width = size.width
+      canvas.height = size.height
+      const engine = new GradientEngine(canvas, { forExport: true })
+      applyFullStateToEngine(engine, preset)
+      engine.handleResize(size.width, size.height)
+      engine.setLoopDuration(loop)
+
+      const frame = (time: number) => {
+        engine.renderAtTimeSync(time)
+        return readEnginePixels(engine, size.width, size.height)
+      }
+      const meanDiff = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+        let sum = 0
+        for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i])
+        return sum / a.length
+      }
+
+      const first = frame(0)
+      const step = meanDiff(first, frame(1 / fps))
+      const seam = meanDiff(frame(loop - 1 / fps), first)
+      engine.dispose(true)
+      return { step, seam }
+    }, { preset: DRIFTING_NOISE, loop: LOOP, fps: FPS, size: SIZE })
+
+    expect(result.step).toBeGreaterThan(0)
+    expect(result.seam).toBeLessThan(result.step * 2 + 0.5)
+  })
+})
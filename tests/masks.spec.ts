@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test'
+
+/**
+ * Text masks — a TextMask follows its lines: it draws each line box of a
+ * wrapped line where the browser broke it, and only redraws when a line's
+ * layout, transform or opacity changed. Run in the page through the
+ * dev-only window.__gradientEngine hook.
+ */
+
+test.describe('Text masks', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/', { waitUntil: 'networkidle' })
+    await page.waitForFunction(() => !!window.__gradientEngine)
+  })
+
+  test('a wrapped line is masked line box by line box', async ({ page }) => {
+    const inkBands = await page.evaluate(async () => {
+      const { TextMask } = await window.__gradientEngine!()
+      const container = document.createElement('div')
+      container.style.cssText = 'position:absolute;left:0;top:0;width:200px;height:400px'
+      const line = document.createElement('div')
+      line.style.cssText = 'font-family:var(--font-tusker);font-size:64px;line-height:0.88;letter-spacing:-0.03em'
+      line.textContent = 'WRAPS ONTO LINES'
+      container.appendChild(line)
+      document.body.appendChild(container)
+
+      const mask = new TextMask({ lines: [line], container, font: 'tusker', pixelRatio: 1 })
+      await mask.update()
+      const ctx = mask.canvas.getContext('2d')!
+      const { data, width, height } = ctx.getImageData(0, 0, mask.canvas.width, mask.canvas.height)
+      container.remove()
+
+      // Runs of rows with any ink
+      const runs: number[] = []
+      let inRun = false
+      for (let y = 0; y < height; y++) {
+        let ink = false
+        for (let x = 0; x < width && !ink; x++) ink = data[(y * width + x) * 4 + 3] > 0
+        if (ink && !inRun) runs.push(y)
+        inRun = ink
+      }
+      return runs.length
+    })
+
+    // Capitals without descenders leave a gap between the line boxes
+    expect(inkBands).toBeGreaterThanOrEqual(2)
+  })
+
+  test('redraws only when a line changed', async ({ page }) => {
+    const redraws = await page.evaluate(async () => {
+      const { TextMask } = await window.__gradientEngine!()
+      const container = document.createElement('div')
+      container.style.cssText = 'position:absolute;left:0;top:0;width:800px;height:300px'
+      const line = document.createElement('div')
+      line.style.cssText = 'font-family:var(--font-tusker);font-size:64px'
+      line.textContent = 'Hold still'
+      container.appendChild(line)
+      document.body.appendChild(container)
+
+      const mask = new TextMask({ lines: [line], container, font: 'tusker' })
+      const results = [await mask.update(), await mask.update()]
+      line.style.transform = 'translateY(10px)'
+      results.push(await mask.update(), await mask.update())
+      line.style.opacity = '0.5'
+      results.push(await mask.update())
+      container.remove()
+      return results
+    })
+
+    expect(redraws).toEqual([true, false, true, false, true])
+  })
+})
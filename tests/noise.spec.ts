@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test'
+import { DEFAULT_GRADIENT_STATE } from '@/lib/engine/presetSchema'
+import { renderGradientToPixels } from '@/lib/engine/cpuRenderer'
+import { noiseDrift, noiseSeedOffset } from '@/lib/engine/noiseField'
+import type { GradientState, NoiseSettings } from '@/types/gradient'
+
+/**
+ * Noise — the noise type and domain warp draw from a seeded field, so a
+ * seed must render identically every time, and under a loop duration the
+ * field must come back to where it started. Rendered through the CPU
+ * reference, which mirrors noise.frag.
+ */
+
+const WIDTH = 48
+const HEIGHT = 27
+
+function noisePreset(settings: Partial<NoiseSettings>): GradientState {
+  return {
+    ...DEFAULT_GRADIENT_STATE,
+    gradientType: 'noise',
+    noiseSettings: { ...DEFAULT_GRADIENT_STATE.noiseSettings, speed: 0.4, ...settings },
+  }
+}
+
+function meanDiff(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i])
+  return sum / a.length
+}
+
+test.describe('Noise', () => {
+  test('a seed renders the same every time', () => {
+    for (const field of ['fbm', 'simplex', 'curl'] as const) {
+      const preset = noisePreset({ field, seed: 7 })
+      const first = renderGradientToPixels(preset, WIDTH, HEIGHT, { time: 1.3, grain: false })
+      const again = renderGradientToPixels(structuredClone(preset), WIDTH, HEIGHT, { time: 1.3, grain: false })
+      expect(Array.from(again)).toEqual(Array.from(first))
+
+      const other = renderGradientToPixels(noisePreset({ field, seed: 8 }), WIDTH, HEIGHT, { time: 1.3, grain: false })
+      expect(meanDiff(first, other)).toBeGreaterThan(1)
+    }
+  })
+
+  test('seed offsets are fixed', () => {
+    expect(noiseSeedOffset(7)).toEqual(noiseSeedOffset(7))
+    expect(noiseSeedOffset(7.9)).toEqual(noiseSeedOffset(7))
+    expect(noiseSeedOffset(7)).not.toEqual(noiseSeedOffset(8))
+    for (const axis of noiseSeedOffset(-3)) {
+      expect(axis).toBeGreaterThanOrEqual(0)
+      expect(axis).toBeLessThan(100)
+    }
+  })
+
+  test('a loop drifts round a closed path at the same speed', () => {
+    const loop = 5
+    const speed = 0.4
+    const start = noiseDrift(0, speed, loop)
+    const end = noiseDrift(loop, speed, loop)
+    start.forEach((axis, i) => expect(end[i]).toBeCloseTo(axis, 9))
+
+    // Same start and speed as the straight path, so frame 0 doesn't change
+    expect(start).toEqual(noiseDrift(0, speed))
+    const dt = 1e-4
+    const a = noiseDrift(2, speed, loop)
+    const b = noiseDrift(2 + dt, speed, loop)
+    expect(Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]) / dt).toBeCloseTo(speed, 4)
+  })
+
+  test('a looped noise field ends where it starts', () => {
+    const loop = 3
+    const fps = 12
+    const preset = noisePreset({ field: 'fbm', seed: 3 })
+    const frame = (time: number) =>
+      renderGradientToPixels(preset, WIDTH, HEIGHT, { time, loopDuration: loop, grain: false })
+
+    const first = frame(0)
+    expect(meanDiff(frame(loop), first)).toBe(0)
+    const step = meanDiff(first, frame(1 / fps))
+    expect(step).toBeGreaterThan(0)
+    expect(meanDiff(frame(loop - 1 / fps), first)).toBeLessThan(step * 2 + 0.5)
+  })
+})
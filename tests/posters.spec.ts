@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test'
+import { SETUP_GRADIENT } from '@/lib/data/gradientPresets'
+import { renderGradientToPixels } from '@/lib/engine/cpuRenderer'
+import { POSTER_WIDTH, posterUrl } from '@/lib/engine/posters'
+
+/**
+ * Posters — the CPU-baked still against the live WebGL render of the same
+ * shipped preset. The CPU renderer leaves out warps, materials, glow and
+ * chromatic aberration, so only the coarse layout of color is compared.
+ */
+
+const GRID = 4
+
+/** Mean RGB of each cell of a GRID × GRID split, row by row */
+function cellMeans(data: ArrayLike<number>, width: number, height: number): number[][] {
+  const cells: number[][] = []
+  for (let cy = 0; cy < GRID; cy++) {
+    for (let cx = 0; cx < GRID; cx++) {
+      const sum = [0, 0, 0]
+      let count = 0
+      for (let y = Math.floor((cy * height) / GRID); y < Math.floor(((cy + 1) * height) / GRID); y++) {
+        for (let x = Math.floor((cx * width) / GRID); x < Math.floor(((cx + 1) * width) / GRID); x++) {
+          const i = (y * width + x) * 4
+          sum[0] += data[i]
+          sum[1] += data[i + 1]
+          sum[2] += data[i + 2]
+          count++
+        }
+      }
+      cells.push(sum.map((s) => s / Math.max(count, 1)))
+    }
+  }
+  return cells
+}
+
+test.describe('Posters', () => {
+  test('shipped presets have a baked poster, runtime ones none', () => {
+    expect(posterUrl(SETUP_GRADIENT)).toMatch(/^\/posters\/[0-9a-f]{8}\.png$/)
+    expect(posterUrl({ ...SETUP_GRADIENT, angle: 1 })).toBeNull()
+  })
+
+  test('baked poster file is served', async ({ request }) => {
+    const response = await request.get(posterUrl(SETUP_GRADIENT)!)
+    expect(response.status()).toBe(200)
+    expect(response.headers()['content-type']).toContain('image/png')
+  })
+
+  test('CPU poster matches the WebGL render of its preset', async ({ page }) => {
+    // Reduced motion renders one still frame at time 0, like the bake
+    await page.emulateMedia({ reducedMotion: 'reduce' })
+    await page.goto('/', { waitUntil: 'networkidle' })
+    const hasWebgl = await page.evaluate(() => !!document.createElement('canvas').getContext('webgl2'))
+    test.skip(!hasWebgl, 'WebGL2 unavailable')
+
+    const section = page.locator('#silence-is-success')
+    await section.scrollIntoViewIfNeeded()
+    const canvas = section.locator('[data-takeover-bg] canvas')
+    await expect(canvas).toHaveCSS('opacity', '1', { timeout: 15000 })
+
+    // Downscaled in the page — the full canvas is too big to ship back
+    const live = await canvas.evaluate((el: HTMLCanvasElement, width: number) => {
+      const height = Math.max(1, Math.round((width * el.height) / el.width))
+      const small = document.createElement('canvas')
+      small.width = width
+      small.height = height
+      const ctx = small.getContext('2d')!
+      ctx.imageSmoothingQuality = 'high'
+      ctx.drawImage(el, 0, 0, width, height)
+      return { width, height, data: Array.from(ctx.getImageData(0, 0, width, height).data) }
+    }, POSTER_WIDTH)
+
+    const poster = renderGradientToPixels(SETUP_GRADIENT, live.width, live.height, { grain: false })
+    const liveCells = cellMeans(live.data, live.width, live.height)
+    const posterCells = cellMeans(poster, live.width, live.height)
+
+    const differences = liveCells.flatMap((cell, i) => cell.map((c, channel) => Math.abs(c - posterCells[i][channel])))
+    const meanDifference = differences.reduce((sum, d) => sum + d, 0) / differences.length
+    expect(meanDifference).toBeLessThan(32)
+    expect(Math.max(...differences)).toBeLessThan(72)
+  })
+})
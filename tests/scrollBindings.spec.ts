@@ -0,0 +1,38 @@
+import { test, expect } from '@playwright/test'
+import {
+  TAKEOVER_PHASES, TAKEOVER_RELEASE_START, evaluateScrollBindings, takeoverProgress, type ScrollBinding,
+} from '@/lib/animation/scrollBindings'
+
+/**
+ * Scroll bindings — a Takeover's phases cover its progress in order, its
+ * entrance drives APPROACH and ASSEMBLY and its pin HOLD and RELEASE
+ */
+
+test.describe('Scroll bindings', () => {
+  test('Takeover phases tile the progress in order', () => {
+    const phases = [TAKEOVER_PHASES.approach, TAKEOVER_PHASES.assembly, TAKEOVER_PHASES.hold, TAKEOVER_PHASES.release]
+    expect(phases[0][0]).toBe(0)
+    expect(phases[3][1]).toBe(1)
+    phases.forEach(([start, end], i) => {
+      expect(end).toBeGreaterThan(start)
+      if (i > 0) expect(start).toBe(phases[i - 1][1])
+    })
+  })
+
+  test('the entrance drives assembly, the pin hold and release', () => {
+    const bindings: ScrollBinding[] = [
+      { path: 'warp.twist.amount', from: 0, to: 40, range: 'assembly' },
+      { path: 'warp.twist.amount', from: 40, to: 0, range: 'release' },
+    ]
+    const at = (entrance: number, scrubbed: number) =>
+      evaluateScrollBindings(bindings, takeoverProgress(entrance, scrubbed))['warp.twist.amount']
+
+    expect(at(0, 0)).toBe(0)
+    expect(at(0.2, 0)).toBe(0)
+    expect(at(2 / 3, 0)).toBeCloseTo(20, 6)
+    expect(at(1, 0)).toBe(40)
+    expect(at(1, TAKEOVER_RELEASE_START)).toBe(40)
+    expect(at(1, (1 + TAKEOVER_RELEASE_START) / 2)).toBeCloseTo(20, 6)
+    expect(at(1, 1)).toBe(0)
+  })
+})